@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap, useMapEvents } from 'react-leaflet';
+import { MapContainer, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
 import { 
   Search, 
@@ -13,7 +13,6 @@ import {
   ChevronLeft, 
   Plus, 
   Minus,
-  Map as MapIcon,
   Zap,
   Globe,
   Home,
@@ -24,10 +23,55 @@ import {
   Maximize2,
   Minimize2,
   ExternalLink,
-  AlertCircle
+  AlertCircle,
+  Square,
+  RefreshCw,
+  SquareDashed,
+  Gamepad2,
+  Columns2,
+  Camera
 } from 'lucide-react';
-import { GeminiService, VisualLandmark } from './services/geminiService';
-import { Message, UserLocation, LocationResult } from './types';
+import { CompareView } from './components/CompareView';
+import { FavoriteMarkers } from './components/FavoriteMarkers';
+import { GeoGuessLayer } from './components/GeoGuessLayer';
+import { GeoGuessPanel } from './components/GeoGuessPanel';
+import { useI18n } from './components/I18nProvider';
+import { ItineraryPanel } from './components/ItineraryPanel';
+import { ItineraryRoute } from './components/ItineraryRoute';
+import { LayerMenu } from './components/LayerMenu';
+import { LocaleMenu } from './components/LocaleMenu';
+import { MarkdownMessage, SourceList } from './components/MarkdownMessage';
+import { MapLayers } from './components/MapLayers';
+import { PhotoMatchCard } from './components/PhotoMatchCard';
+import { DrawMode, RegionDrawTool } from './components/RegionDrawTool';
+import { RegionPanel, regionTitle } from './components/RegionPanel';
+import { ResultMarkers } from './components/ResultMarkers';
+import { ErrorNotice, RetryCountdown } from './components/ServiceStatus';
+import { SessionMenu } from './components/SessionMenu';
+import { SunPanel } from './components/SunPanel';
+import { TerminatorLayer } from './components/TerminatorLayer';
+import { TimelinePanel } from './components/TimelinePanel';
+import { TripMenu } from './components/TripMenu';
+import { UsageMenu } from './components/UsageMenu';
+import { createLocationProvider } from './services/locationProvider';
+import { buildChatHistory } from './services/chatHistory';
+import { GeoGuessRounds } from './services/geoGuessRounds';
+import { ImageResolver } from './services/imageResolver';
+import { RetryNotice, classifyError, isAbortError } from './services/serviceErrors';
+import { SessionStore } from './services/sessionStore';
+import { UsageSnapshot } from './services/usageMeter';
+import { CompareSide, CompareSlot, CompareTable, loadingSide, searchingSide, swapTable } from './utils/compare';
+import { attachFavoriteThumbnail, loadFavorites, saveFavorites, setFavoriteNote, toggleFavorite } from './utils/favorites';
+import { isValidLatLng } from './utils/geo';
+import { Translate, placeLabel } from './utils/i18n';
+import { DIFFICULTIES, GameDifficulty, GameRound, GameState, HighScore, advanceGame, loadHighScores, newGame, recordHighScore, revealRound, startRound, totalScore } from './utils/geoGuess';
+import { optimizeStopOrder } from './utils/itinerary';
+import { LayerSettings, loadLayerSettings, saveLayerSettings, selectBaseLayer } from './utils/mapLayers';
+import { PhotoLookup, PreparedPhoto, confidencePercent, isConfidentMatch, photoLookup, photoPins, preparePhoto } from './utils/photos';
+import { describeRegion, regionGeometry } from './utils/regions';
+import { Trip, parseTrip } from './utils/tripFormats';
+import { UrlViewState, currentHistoryEntry, pushView, readUrlState, replaceView } from './utils/urlState';
+import { ChatContext, CoordinateCheck, DrawnRegion, Favorite, GroundingSource, ImageAttribution, ItineraryStop, Message, MessageError, NamedPlace, NavLocation, PhotoInput, PhotoMatch, RetryAction, SessionSnapshot, StoredSession, UserLocation, LocationResult, Visit, VisualLandmark } from './types';
 
 const DefaultIcon = L.icon({
   iconUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png',
@@ -38,8 +82,20 @@ const DefaultIcon = L.icon({
 });
 L.Marker.prototype.options.icon = DefaultIcon;
 
+// Suggested questions fetched with each place; refreshes must ask for the same call.
+const QUESTION_COUNT = 4;
+
 const isValidCoord = (val: any): val is number => typeof val === 'number' && !isNaN(val);
 
+// Only flagged results get a note; verified and unknown places stay quiet.
+const describeCoordinateCheck = (check: CoordinateCheck | undefined, t: Translate): string | null => {
+  if (!check) return null;
+  const distance = check.distanceKm !== undefined ? `${Math.round(check.distanceKm)} km` : '';
+  if (check.status === 'corrected') return t('nav.checkCorrected', { distance, reference: check.reference });
+  if (check.status === 'suspect') return t('nav.checkSuspect', { distance, reference: check.reference });
+  return null;
+};
+
 const EyeDrone = ({ className }: { className?: string }) => (
   <svg viewBox="0 0 100 100" className={className} xmlns="http://www.w3.org/2000/svg">
     <style>
@@ -70,32 +126,28 @@ const EyeDrone = ({ className }: { className?: string }) => (
 );
 
 function MapControls({ 
-  onToggleMapType, 
-  mapType, 
+  layerSettings, 
+  onLayersChange, 
   isMaximized, 
   onToggleMaximize 
 }: { 
-  onToggleMapType: () => void, 
-  mapType: 'road' | 'satellite',
+  layerSettings: LayerSettings, 
+  onLayersChange: (settings: LayerSettings) => void,
   isMaximized: boolean,
   onToggleMaximize: () => void
 }) {
   const map = useMap();
+  const { t } = useI18n();
   return (
     <div className="flex flex-col gap-3 pointer-events-auto items-end">
       <div className="bg-white/90 backdrop-blur shadow-2xl rounded-2xl border border-slate-200 overflow-hidden flex flex-col">
-        <button onClick={() => map.zoomIn()} className="p-3 hover:bg-slate-50 transition-colors text-slate-600 border-b border-slate-100 active:scale-90" aria-label="Zoom in"><Plus className="w-5 h-5" /></button>
-        <button onClick={() => map.zoomOut()} className="p-3 hover:bg-slate-50 transition-colors text-slate-600 border-b border-slate-100 active:scale-90" aria-label="Zoom out"><Minus className="w-5 h-5" /></button>
-        <button onClick={onToggleMaximize} className="p-3 hover:bg-slate-50 transition-colors text-slate-600 active:scale-90" aria-label="Toggle Gallery Visibility">
+        <button onClick={() => map.zoomIn()} className="p-3 hover:bg-slate-50 transition-colors text-slate-600 border-b border-slate-100 active:scale-90" aria-label={t('map.zoomIn')}><Plus className="w-5 h-5" /></button>
+        <button onClick={() => map.zoomOut()} className="p-3 hover:bg-slate-50 transition-colors text-slate-600 border-b border-slate-100 active:scale-90" aria-label={t('map.zoomOut')}><Minus className="w-5 h-5" /></button>
+        <button onClick={onToggleMaximize} className="p-3 hover:bg-slate-50 transition-colors text-slate-600 active:scale-90" aria-label={t('map.toggleGallery')}>
           {isMaximized ? <Minimize2 className="w-5 h-5" /> : <Maximize2 className="w-5 h-5" />}
         </button>
       </div>
-      <button 
-        onClick={onToggleMapType}
-        className="p-3 bg-white/90 backdrop-blur border border-slate-200 rounded-2xl shadow-2xl hover:bg-slate-50 transition-all active:scale-90 flex items-center gap-2 text-slate-600"
-      >
-        {mapType === 'road' ? <Globe className="w-5 h-5 text-blue-600" /> : <MapIcon className="w-5 h-5 text-green-600" />}
-      </button>
+      <LayerMenu settings={layerSettings} onChange={onLayersChange} />
     </div>
   );
 }
@@ -110,48 +162,30 @@ function MapUpdater({ center, zoom }: { center: [number, number], zoom: number }
   return null;
 }
 
-function MapEventsHandler({ onMapClick }: { onMapClick: (lat: number, lng: number) => void }) {
-  useMapEvents({
+function MapEventsHandler({ onMapClick, onZoomChange }: { onMapClick: (lat: number, lng: number) => void, onZoomChange?: (zoom: number) => void }) {
+  const map = useMapEvents({
     click: (e) => {
       onMapClick(e.latlng.lat, e.latlng.lng);
+    },
+    zoomend: () => {
+      onZoomChange?.(map.getZoom());
     }
   });
   return null;
 }
 
-interface NavLocation {
-  name: string;
-  lat: number;
-  lng: number;
-}
+const describeProvider = (attribution: ImageAttribution | undefined, t: Translate): string => {
+  switch (attribution?.provider) {
+    case 'wikimedia': return attribution.replaced ? t('gallery.provider.wikimediaSubstitute') : t('gallery.provider.wikimedia');
+    case 'unsplash': return t('gallery.provider.unsplash');
+    case 'fixture': return t('gallery.provider.fixture');
+    default: return t('gallery.provider.web');
+  }
+};
 
 const ImageCard: React.FC<{ img: VisualLandmark, idx: number, onOpen: (item: VisualLandmark) => void }> = ({ img, idx, onOpen }) => {
   const [loadStatus, setLoadStatus] = useState<'loading' | 'success' | 'error'>('loading');
-  const [currentUrl, setCurrentUrl] = useState(img.imageUrl);
-  const fallbackAttempted = useRef(false);
-
-  // If a URL is clearly an HTML page and not an image, we can pre-emptively try a better link
-  useEffect(() => {
-    if (img.imageUrl.includes('commons.wikimedia.org/wiki/File:')) {
-      // Very crude attempt to guess a potential direct link if the AI provided the page URL
-      const fileName = img.imageUrl.split('File:')[1];
-      if (fileName) {
-        // We'll let the initial load fail first to be safe, but this is why the prompt was updated
-      }
-    }
-  }, [img.imageUrl]);
-
-  const handleError = () => {
-    if (!fallbackAttempted.current) {
-      fallbackAttempted.current = true;
-      // Use Unsplash source as a smart fallback query based on the landmark name
-      const query = encodeURIComponent(img.shortCaption + " landmark");
-      setCurrentUrl(`https://images.unsplash.com/photo-1501785888041-af3ef285b470?auto=format&fit=crop&w=800&q=80&sig=${idx}`);
-      // In a real production scenario, we'd use the actual Unsplash API to get a truly relevant photo
-    } else {
-      setLoadStatus('error');
-    }
-  };
+  const { t } = useI18n();
 
   if (loadStatus === 'error') {
      return (
@@ -159,11 +193,11 @@ const ImageCard: React.FC<{ img: VisualLandmark, idx: number, onOpen: (item: Vis
         <AlertCircle className="w-10 h-10 text-slate-300" />
         <div className="flex flex-col">
           <span className="text-slate-500 font-black uppercase text-[10px] tracking-widest">{img.shortCaption}</span>
-          <span className="text-slate-400 text-[10px] mt-1 italic">Web photo link restricted</span>
+          <span className="text-slate-400 text-[10px] mt-1 italic">{t('gallery.linkRestricted')}</span>
         </div>
         {img.sourceUri && (
           <a href={img.sourceUri} target="_blank" rel="noopener noreferrer" className="mt-2 px-4 py-2 bg-white border border-slate-200 rounded-xl text-[9px] font-black uppercase tracking-widest text-blue-600 hover:bg-blue-50 transition-colors flex items-center gap-2">
-            <ExternalLink className="w-3 h-3" /> Visit Source Web Page
+            <ExternalLink className="w-3 h-3" /> {t('gallery.visitSource')}
           </a>
         )}
       </div>
@@ -178,110 +212,383 @@ const ImageCard: React.FC<{ img: VisualLandmark, idx: number, onOpen: (item: Vis
         </div>
       )}
       <img 
-        src={currentUrl} 
+        src={img.imageUrl} 
         alt={img.shortCaption} 
         className={`w-full h-full object-cover group-hover:scale-110 transition-transform duration-[3000ms] ${loadStatus === 'success' ? 'opacity-100' : 'opacity-0'}`} 
         onLoad={() => setLoadStatus('success')}
-        onError={handleError}
+        onError={() => setLoadStatus('error')}
         loading="lazy" 
       />
       <div className="absolute inset-0 bg-gradient-to-t from-black/85 via-black/10 via-40% to-transparent flex flex-col justify-end p-6 z-10 transition-opacity">
         <span className="text-base text-white font-black uppercase tracking-widest drop-shadow-[0_2px_2px_rgba(0,0,0,0.8)]">{img.shortCaption}</span>
-        <div className="flex items-center justify-between mt-1">
-          <span className="text-[10px] text-white/90 font-black uppercase tracking-widest flex items-center gap-2 drop-shadow-sm">
-            <Globe className="w-3 h-3" /> {fallbackAttempted.current ? 'Visual Reference' : 'Real Web Photo'}
+        <div className="flex items-center justify-between mt-1 gap-4">
+          <span className="text-[10px] text-white/90 font-black uppercase tracking-widest flex items-center gap-2 drop-shadow-sm whitespace-nowrap">
+            <Globe className="w-3 h-3" /> {describeProvider(img.attribution, t)}
+          </span>
+          <span className="text-[9px] text-white/50 font-black uppercase tracking-widest truncate">
+            {[img.attribution?.license, img.attribution?.author].filter(Boolean).join(' · ') || t('gallery.sourceLink')}
           </span>
-          <span className="text-[9px] text-white/50 font-black uppercase tracking-widest">Source Link</span>
         </div>
       </div>
     </div>
   );
 };
 
+const DEFAULT_LOCATION: NavLocation = { name: "Vashon Island", lat: 47.4517, lng: -122.4631 };
+
+const createInitialSnapshot = (t: Translate): SessionSnapshot => ({
+  messages: [{
+    id: '1', role: 'assistant', content: t('app.welcome'), timestamp: Date.now(),
+  }],
+  navHistory: [DEFAULT_LOCATION],
+  historyIndex: 0,
+  visits: [{ ...DEFAULT_LOCATION, id: 'visit-start', visitedAt: Date.now() }],
+  seenHistory: [DEFAULT_LOCATION.name, "Petra"],
+  galleryImages: [],
+  currentLocationName: DEFAULT_LOCATION.name,
+  mapCenter: [DEFAULT_LOCATION.lat, DEFAULT_LOCATION.lng],
+  mapZoom: 10,
+  itinerary: [],
+  regions: [],
+});
+
 const App: React.FC = () => {
-  const [messages, setMessages] = useState<Message[]>([{
-    id: '1', role: 'assistant', content: 'Welcome to GeoSlop. I have initiated a swarm capture to gather real-world photos for you. Where shall we go?', timestamp: Date.now(),
-  }]);
+  const { locale, t, tn } = useI18n();
+  const [messages, setMessages] = useState<Message[]>(() => createInitialSnapshot(t).messages);
   const [input, setInput] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isGalleryLoading, setIsGalleryLoading] = useState(false);
   const [focalLocation, setFocalLocation] = useState<UserLocation | undefined>(undefined);
-  const [mapCenter, setMapCenter] = useState<[number, number]>([47.4517, -122.4631]); 
+  const [mapCenter, setMapCenter] = useState<[number, number]>([DEFAULT_LOCATION.lat, DEFAULT_LOCATION.lng]); 
   const [mapZoom, setMapZoom] = useState<number>(10);
-  const [currentLocationName, setCurrentLocationName] = useState<string>("Vashon Island");
+  const [currentLocationName, setCurrentLocationName] = useState<string>(DEFAULT_LOCATION.name);
   const [markers, setMarkers] = useState<LocationResult[]>([]);
+  const [highlightedPlaceId, setHighlightedPlaceId] = useState<string | null>(null);
+  const [hoveredPlaceId, setHoveredPlaceId] = useState<string | null>(null);
   const [galleryImages, setGalleryImages] = useState<VisualLandmark[]>([]);
   const [activeRichCaption, setActiveRichCaption] = useState<VisualLandmark | null>(null);
   const [suggestedQuestions, setSuggestedQuestions] = useState<string[]>([]);
   const [suggestedAlternatives, setSuggestedAlternatives] = useState<string[]>([]);
-  const [seenHistory, setSeenHistory] = useState<string[]>(["Vashon Island", "Petra"]);
-  const [mapType, setMapType] = useState<'road' | 'satellite'>('satellite');
+  const [seenHistory, setSeenHistory] = useState<string[]>([DEFAULT_LOCATION.name, "Petra"]);
+  const [layerSettings, setLayerSettings] = useState<LayerSettings>(loadLayerSettings);
+  const [viewZoom, setViewZoom] = useState<number>(10);
+  const [pendingUrlView, setPendingUrlView] = useState<UrlViewState | null>(null);
   const [isMaximized, setIsMaximized] = useState(false);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const [retryNotice, setRetryNotice] = useState<{ notice: RetryNotice; until: number } | null>(null);
+  const [usage, setUsage] = useState<UsageSnapshot | null>(null);
+  const [itinerary, setItinerary] = useState<ItineraryStop[]>([]);
+  const [regions, setRegions] = useState<DrawnRegion[]>([]);
+  const [selectedRegionId, setSelectedRegionId] = useState<string | null>(null);
+  const [drawMode, setDrawMode] = useState<DrawMode>(null);
+  const [isGameOpen, setIsGameOpen] = useState(false);
+  const [game, setGame] = useState<GameState | null>(null);
+  const [pendingGuess, setPendingGuess] = useState<{ lat: number; lng: number } | null>(null);
+  const [gameError, setGameError] = useState<MessageError | null>(null);
+  const [highScores, setHighScores] = useState<HighScore[]>(loadHighScores);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [compareSides, setCompareSides] = useState<[CompareSide | null, CompareSide | null]>([null, null]);
+  const [compareTable, setCompareTable] = useState<CompareTable | null>(null);
   
-  const [navHistory, setNavHistory] = useState<NavLocation[]>([{ name: "Vashon Island", lat: 47.4517, lng: -122.4631 }]);
+  const [navHistory, setNavHistory] = useState<NavLocation[]>([DEFAULT_LOCATION]);
   const [historyIndex, setHistoryIndex] = useState(0);
+  const [visits, setVisits] = useState<Visit[]>([]);
+  const [favorites, setFavorites] = useState<Favorite[]>(loadFavorites);
+  const [showFavorites, setShowFavorites] = useState(true);
+  const [showTerminator, setShowTerminator] = useState(false);
 
   const chatEndRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
-  const geminiService = useRef(new GeminiService());
-  const activeSessionId = useRef<number>(0);
+  const locationService = useRef(createLocationProvider());
+  const imageResolver = useRef(new ImageResolver());
+  const geoGuessRounds = useRef(new GeoGuessRounds(locationService.current, imageResolver.current));
+  const gameController = useRef<AbortController | null>(null);
+  const compareControllers = useRef<(AbortController | null)[]>([null, null]);
+  const compareTableController = useRef<AbortController | null>(null);
+  const galleryController = useRef<AbortController | null>(null);
+  const navController = useRef<AbortController | null>(null);
+  const streamController = useRef<AbortController | null>(null);
+  const chatAnchorId = useRef<string | null>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  // Full-size copies of photos without GPS tags, kept until they are located so a failed lookup can
+  // be retried; after a reload only the chat thumbnail is left.
+  const photoUploads = useRef(new Map<string, PhotoInput>());
+  // What the gallery and suggested questions currently describe: a place name or a region.
+  const galleryTopic = useRef<string>(DEFAULT_LOCATION.name);
+  const sessionStore = useRef(new SessionStore());
+  const isHydrated = useRef(false);
+  const [savedSessions, setSavedSessions] = useState<StoredSession[]>([]);
+  const [storedSessionId, setStoredSessionId] = useState<string | null>(null);
+
+  // Failed calls become inline chat messages; their retry button re-runs the action.
+  const reportError = (error: unknown, content: string, retry?: RetryAction) => {
+    const { kind } = classifyError(error);
+    if (kind === 'aborted') return;
+    console.error(content, error);
+    setMessages(prev => [...prev, { id: `error-${Date.now()}`, role: 'assistant', content, timestamp: Date.now(), error: { kind, retry } }]);
+  };
+
+  useEffect(() => locationService.current.onRetry(notice => {
+    setRetryNotice({ notice, until: Date.now() + notice.delayMs });
+  }), []);
+
+  useEffect(() => locationService.current.onUsage(setUsage), []);
+
+  useEffect(() => {
+    locationService.current.setLocale(locale);
+  }, [locale]);
+
+  // A photo whose card is gone (a new chat, another session loaded) will never be retried.
+  useEffect(() => {
+    const ids = new Set(messages.map(m => m.id));
+    photoUploads.current.forEach((_, photoId) => {
+      if (!ids.has(photoId)) photoUploads.current.delete(photoId);
+    });
+  }, [messages]);
+
+  useEffect(() => {
+    if (!retryNotice) return;
+    const timer = setTimeout(() => setRetryNotice(null), Math.max(0, retryNotice.until - Date.now()) + 1000);
+    return () => clearTimeout(timer);
+  }, [retryNotice]);
 
   const updateGalleryAndQuestions = async (placeName: string) => {
-    const sessionId = ++activeSessionId.current;
+    galleryController.current?.abort();
+    const controller = new AbortController();
+    galleryController.current = controller;
+    galleryTopic.current = placeName;
+    const { signal } = controller;
     setGalleryImages([]);
     setIsGalleryLoading(true);
     setSuggestedQuestions([]);
     
     try {
-      const [landmarks, questions] = await Promise.all([
-        geminiService.current.getVisualKeywords(placeName),
-        geminiService.current.getPertinentQuestions(placeName, 4)
+      const [landmarks, questions] = await Promise.allSettled([
+        locationService.current.getVisualKeywords(placeName, [], signal),
+        locationService.current.getPertinentQuestions(placeName, QUESTION_COUNT, signal)
       ]);
 
-      if (sessionId !== activeSessionId.current) return;
-      
-      setSuggestedQuestions(questions);
-      setGalleryImages(landmarks);
+      if (signal.aborted) return;
+      if (questions.status === 'fulfilled') setSuggestedQuestions(questions.value);
+      if (landmarks.status === 'rejected') throw landmarks.reason;
+
+      const verified = await imageResolver.current.resolve(landmarks.value, placeName);
+      if (signal.aborted) return;
+      setGalleryImages(verified);
+      const thumbnail = verified[0]?.imageUrl;
+      if (thumbnail) {
+        setVisits(prev => prev.map(v => v.name === placeName && !v.thumbnail ? { ...v, thumbnail } : v));
+        setFavorites(prev => attachFavoriteThumbnail(prev, placeName, thumbnail));
+      }
 
       if (scrollContainerRef.current) {
         setTimeout(() => { 
           scrollContainerRef.current?.scrollTo({ left: 0, behavior: 'smooth' }); 
         }, 300);
       }
+      if (questions.status === 'rejected') throw questions.reason;
     } catch (e) {
-      console.error("Gallery update failed", e);
+      if (!signal.aborted) {
+        reportError(e, t('errors.gallery', { name: placeName }), { type: 'gallery', name: placeName });
+      }
     } finally {
-      if (sessionId === activeSessionId.current) {
+      if (!signal.aborted) {
         setIsGalleryLoading(false);
       }
     }
   };
 
+  const buildSnapshot = (): SessionSnapshot => ({
+    messages: messages.map(m => m.status === 'streaming' ? { ...m, status: 'stopped' } : m),
+    navHistory,
+    historyIndex,
+    visits,
+    seenHistory,
+    galleryImages,
+    currentLocationName,
+    mapCenter,
+    mapZoom,
+    itinerary,
+    regions,
+  });
+
+  const applySnapshot = async (snapshot: SessionSnapshot) => {
+    navController.current?.abort();
+    streamController.current?.abort();
+    chatAnchorId.current = null;
+    const focus = snapshot.navHistory[snapshot.historyIndex];
+    setMessages(snapshot.messages);
+    setNavHistory(snapshot.navHistory);
+    setHistoryIndex(snapshot.historyIndex);
+    setVisits(snapshot.visits || []);
+    setSeenHistory(snapshot.seenHistory);
+    setCurrentLocationName(snapshot.currentLocationName);
+    setSearchQuery('');
+    setMapCenter(snapshot.mapCenter);
+    setMapZoom(snapshot.mapZoom);
+    setItinerary(snapshot.itinerary || []);
+    setRegions(snapshot.regions || []);
+    setSelectedRegionId(null);
+    setDrawMode(null);
+    setFocalLocation(focus ? { latitude: focus.lat, longitude: focus.lng } : undefined);
+    setMarkers([]);
+    setHighlightedPlaceId(null);
+    setSuggestedAlternatives([]);
+
+    if (snapshot.galleryImages.length === 0) {
+      updateGalleryAndQuestions(snapshot.currentLocationName);
+      return;
+    }
+    galleryController.current?.abort();
+    const controller = new AbortController();
+    galleryController.current = controller;
+    setGalleryImages(snapshot.galleryImages);
+    setIsGalleryLoading(false);
+    setSuggestedQuestions([]);
+    try {
+      const questions = await locationService.current.getPertinentQuestions(snapshot.currentLocationName, QUESTION_COUNT, controller.signal);
+      if (!controller.signal.aborted) setSuggestedQuestions(questions);
+    } catch (e) {
+      if (!isAbortError(e)) console.error("Question refresh failed", e);
+    }
+  };
+
+  const refreshSessions = async () => {
+    setSavedSessions(await sessionStore.current.list());
+  };
+
+  const activateSession = (session: StoredSession) => {
+    sessionStore.current.setActiveId(session.id);
+    setStoredSessionId(session.id);
+    applySnapshot(session.snapshot);
+    const { navHistory: trail, historyIndex: index, mapZoom: zoom } = session.snapshot;
+    const focus = trail[index];
+    if (focus) replaceView(index, { name: focus.name, lat: focus.lat, lng: focus.lng, zoom, baseLayer: layerSettings.baseId });
+  };
+
   useEffect(() => {
-    updateGalleryAndQuestions("Vashon Island");
+    const hydrate = async () => {
+      const urlView = readUrlState();
+      try {
+        const sessions = await sessionStore.current.list();
+        const active = sessions.find(s => s.id === sessionStore.current.getActiveId()) || sessions[0]
+          || await sessionStore.current.create(t('app.sessionName', { count: 1 }), createInitialSnapshot(t));
+        activateSession(active);
+        await refreshSessions();
+      } catch (e) {
+        console.error("Session restore failed", e);
+        if (!urlView) updateGalleryAndQuestions(DEFAULT_LOCATION.name);
+      } finally {
+        isHydrated.current = true;
+        if (urlView) setPendingUrlView(urlView);
+      }
+    };
+    hydrate();
   }, []);
 
+  useEffect(() => {
+    saveFavorites(favorites);
+  }, [favorites]);
+
+  useEffect(() => {
+    if (!isHydrated.current || !storedSessionId) return;
+    const timer = setTimeout(async () => {
+      try {
+        await sessionStore.current.save(storedSessionId, buildSnapshot());
+        await refreshSessions();
+      } catch (e) {
+        console.error("Session save failed", e);
+      }
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [messages, navHistory, historyIndex, visits, seenHistory, galleryImages, currentLocationName, mapCenter, mapZoom, itinerary, regions, storedSessionId]);
+
+  const handleSwitchSession = async (id: string) => {
+    if (id === storedSessionId) return;
+    try {
+      if (storedSessionId) await sessionStore.current.save(storedSessionId, buildSnapshot());
+      const target = await sessionStore.current.get(id);
+      if (target) activateSession(target);
+      await refreshSessions();
+    } catch (e) {
+      console.error("Session switch failed", e);
+    }
+  };
+
+  const handleCreateSession = async () => {
+    try {
+      if (storedSessionId) await sessionStore.current.save(storedSessionId, buildSnapshot());
+      const created = await sessionStore.current.create(t('app.sessionName', { count: savedSessions.length + 1 }), createInitialSnapshot(t));
+      activateSession(created);
+      await refreshSessions();
+    } catch (e) {
+      console.error("Session create failed", e);
+    }
+  };
+
+  const handleRenameSession = async (id: string, name: string) => {
+    try {
+      await sessionStore.current.rename(id, name);
+      await refreshSessions();
+    } catch (e) {
+      console.error("Session rename failed", e);
+    }
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    if (savedSessions.length <= 1) return;
+    try {
+      await sessionStore.current.remove(id);
+      const remaining = await sessionStore.current.list();
+      setSavedSessions(remaining);
+      if (id === storedSessionId && remaining[0]) activateSession(remaining[0]);
+    } catch (e) {
+      console.error("Session delete failed", e);
+    }
+  };
+
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages, isLoading, suggestedAlternatives]);
 
-  const jumpTo = async (name: string, lat: number, lng: number, isNavigating: boolean = false) => {
-    if (!isValidCoord(lat) || !isValidCoord(lng)) return;
+  // Starting a new navigation cancels whatever the previous one was still fetching,
+  // including a streaming answer about the place we are leaving.
+  const beginNavigation = () => {
+    navController.current?.abort();
+    streamController.current?.abort();
+    const controller = new AbortController();
+    navController.current = controller;
+    return controller;
+  };
+
+  const jumpTo = async (
+    name: string,
+    lat: number,
+    lng: number,
+    isNavigating: boolean = false,
+    options: { zoom?: number; replaceUrl?: boolean; check?: CoordinateCheck; localName?: string; recordVisit?: boolean } = {}
+  ) => {
+    if (!isValidLatLng(lat, lng)) return;
+    const { localName } = options;
+    const checkNote = describeCoordinateCheck(options.check, t);
+    const zoom = options.zoom ?? 16;
+    const controller = beginNavigation();
 
     setCurrentLocationName(name);
     setSearchQuery(name); 
     setSuggestedAlternatives([]);
     setMapCenter([lat, lng]);
-    setMapZoom(16);
+    setMapZoom(zoom);
     setFocalLocation({ latitude: lat, longitude: lng });
     setGalleryImages([]);
     
     const warpingId = Date.now().toString();
+    chatAnchorId.current = warpingId;
     setMessages(prev => [...prev, { 
       id: warpingId, 
       role: 'assistant', 
-      content: `Warping to ${name}...`, 
+      content: t('nav.warping', { name: placeLabel(name, localName) }), 
       timestamp: Date.now() 
     }]);
 
@@ -289,147 +596,759 @@ const App: React.FC = () => {
     updateGalleryAndQuestions(name);
     setIsLoading(true);
 
+    // Back/forward and clicks in the timeline itself return to a place already on the timeline.
+    if (!isNavigating && options.recordVisit !== false) {
+      setVisits(prev => [...prev, { id: `visit-${Date.now()}`, name, localName, lat, lng, visitedAt: Date.now() }]);
+    }
+
     if (!isNavigating) {
       const newHistory = navHistory.slice(0, historyIndex + 1);
-      newHistory.push({ name, lat, lng });
+      newHistory.push({ name, localName, lat, lng, visitedAt: Date.now() });
       setNavHistory(newHistory);
       setHistoryIndex(newHistory.length - 1);
+      const view: UrlViewState = { name, lat, lng, zoom, baseLayer: layerSettings.baseId };
+      if (options.replaceUrl) {
+        replaceView(newHistory.length - 1, view);
+      } else {
+        pushView(newHistory.length - 1, view);
+      }
     }
 
+    await loadSummary(warpingId, name, checkNote, controller, localName);
+  };
+
+  // Fills the warp message with the place summary, or marks it failed with a retry.
+  const loadSummary = async (messageId: string, name: string, note: string | null | undefined, controller: AbortController, localName?: string) => {
+    const noteText = note ? `\n\n${note}` : '';
+    const label = placeLabel(name, localName);
+    setIsLoading(true);
     try {
-      const summary = await geminiService.current.getLocationSummary(name);
-      setMessages(prev => prev.map(m => m.id === warpingId ? {
+      const summary = await locationService.current.getLocationSummary(name, controller.signal);
+      setMessages(prev => prev.map(m => m.id === messageId ? {
         ...m,
-        content: `Warped to ${name}!\n\n${summary}`
+        content: `${t('nav.warped', { name: label })}\n\n${summary}${noteText}`,
+        error: undefined
       } : m));
     } catch (e) {
-      setMessages(prev => prev.map(m => m.id === warpingId ? {
+      const { kind } = classifyError(e);
+      setMessages(prev => prev.map(m => m.id === messageId ? {
         ...m,
-        content: `Warped to ${name}! Ready to explore.`
+        content: `${t('nav.warpedReady', { name: label })}${noteText}`,
+        error: kind === 'aborted' ? undefined : { kind, retry: { type: 'summary', name, localName, note: note || undefined } }
       } : m));
     } finally {
-      setIsLoading(false);
+      if (navController.current === controller) setIsLoading(false);
     }
   };
 
+  // Moves within navHistory without touching the browser stack (used when the two
+  // have drifted apart, e.g. after switching sessions).
+  const navigateToIndex = (index: number) => {
+    const entry = navHistory[index];
+    if (!entry) return;
+    setHistoryIndex(index);
+    jumpTo(entry.name, entry.lat, entry.lng, true, { localName: entry.localName });
+    replaceView(index, { name: entry.name, lat: entry.lat, lng: entry.lng, zoom: 16, baseLayer: layerSettings.baseId });
+  };
+
+  // When the browser entry matches our position, in-app arrows drive the browser
+  // history so its Back/Forward buttons stay in step; popstate then does the jump.
   const handleBack = () => {
     if (historyIndex > 0) {
-      const prev = navHistory[historyIndex - 1];
-      setHistoryIndex(historyIndex - 1);
-      jumpTo(prev.name, prev.lat, prev.lng, true);
+      if (currentHistoryEntry()?.navIndex === historyIndex) {
+        window.history.back();
+      } else {
+        navigateToIndex(historyIndex - 1);
+      }
     }
   };
 
   const handleForward = () => {
     if (historyIndex < navHistory.length - 1) {
-      const next = navHistory[historyIndex + 1];
-      setHistoryIndex(historyIndex + 1);
-      jumpTo(next.name, next.lat, next.lng, true);
+      if (currentHistoryEntry()?.navIndex === historyIndex) {
+        window.history.forward();
+      } else {
+        navigateToIndex(historyIndex + 1);
+      }
     }
   };
 
+  useEffect(() => {
+    const onPopState = () => {
+      const entry = currentHistoryEntry();
+      if (!entry) return;
+      const target = navHistory[entry.navIndex];
+      const { baseLayer } = entry.view;
+      if (baseLayer) setLayerSettings(prev => selectBaseLayer(prev, baseLayer));
+      if (target && target.name === entry.view.name) {
+        setHistoryIndex(entry.navIndex);
+        jumpTo(target.name, target.lat, target.lng, true, { zoom: entry.view.zoom, localName: target.localName });
+      } else {
+        jumpTo(entry.view.name, entry.view.lat, entry.view.lng, false, { zoom: entry.view.zoom, replaceUrl: true });
+      }
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  });
+
+  // Opening a shared link restores its view once the saved session has loaded.
+  useEffect(() => {
+    if (!pendingUrlView) return;
+    setPendingUrlView(null);
+    const { baseLayer } = pendingUrlView;
+    if (baseLayer) setLayerSettings(prev => selectBaseLayer(prev, baseLayer));
+    const current = navHistory[historyIndex];
+    const isCurrent = current && current.name === pendingUrlView.name
+      && Math.abs(current.lat - pendingUrlView.lat) < 1e-4 && Math.abs(current.lng - pendingUrlView.lng) < 1e-4;
+    if (isCurrent) {
+      if (pendingUrlView.zoom !== undefined) setMapZoom(pendingUrlView.zoom);
+      replaceView(historyIndex, { ...pendingUrlView, baseLayer: baseLayer || layerSettings.baseId });
+    } else {
+      jumpTo(pendingUrlView.name, pendingUrlView.lat, pendingUrlView.lng, false, { zoom: pendingUrlView.zoom, replaceUrl: true });
+    }
+  }, [pendingUrlView]);
+
+  // Keep zoom and base layer in the URL without adding history entries.
+  useEffect(() => {
+    if (!isHydrated.current) return;
+    const current = navHistory[historyIndex];
+    if (!current || currentHistoryEntry()?.navIndex !== historyIndex) return;
+    replaceView(historyIndex, { name: current.name, lat: current.lat, lng: current.lng, zoom: viewZoom, baseLayer: layerSettings.baseId });
+  }, [viewZoom, layerSettings.baseId]);
+
+  useEffect(() => saveLayerSettings(layerSettings), [layerSettings]);
+
   const handleMapClick = async (lat: number, lng: number) => {
-    if (isLoading || !isValidCoord(lat) || !isValidCoord(lng)) return;
+    if (drawMode || !isValidCoord(lat) || !isValidCoord(lng)) return;
+    // While the game is open the map is for guessing only.
+    if (isGameOpen) {
+      if (game?.status === 'guessing') setPendingGuess({ lat, lng });
+      return;
+    }
+    const controller = beginNavigation();
     setIsLoading(true);
     try {
-      const result = await geminiService.current.reverseGeocode(lat, lng);
-      if (result && isValidCoord(result.lat) && isValidCoord(result.lng)) {
-        await jumpTo(result.name, result.lat, result.lng);
+      const result = await locationService.current.reverseGeocode(lat, lng, controller.signal);
+      if (controller.signal.aborted) return;
+      if (result && isValidLatLng(result.lat, result.lng)) {
+        await jumpTo(result.name, result.lat, result.lng, false, { check: result.check, localName: result.localName });
       }
     } catch (e) {
-      console.error("Reverse geocoding failed", e);
+      reportError(e, t('errors.reverse', { lat: lat.toFixed(3), lng: lng.toFixed(3) }), { type: 'reverse', lat, lng });
     } finally {
-      setIsLoading(false);
+      if (navController.current === controller) setIsLoading(false);
     }
   };
 
   const handleLocationSearch = async (e?: React.FormEvent, customQuery?: string) => {
     if (e) e.preventDefault();
     const query = (customQuery || searchQuery).trim();
-    if (!query || isLoading) return;
+    if (!query) return;
     
+    const controller = beginNavigation();
     setIsLoading(true);
     setSuggestedAlternatives([]);
 
     try {
-      const result = await geminiService.current.geocode(query);
-      if (result && result.name && isValidCoord(result.lat) && isValidCoord(result.lng)) {
-        await jumpTo(result.name, result.lat, result.lng);
+      const result = await locationService.current.geocode(query, controller.signal);
+      if (controller.signal.aborted) return;
+      if (result && result.name && isValidLatLng(result.lat, result.lng)) {
+        await jumpTo(result.name, result.lat as number, result.lng as number, false, { check: result.check, localName: result.localName });
       } else if (result && result.alternatives && result.alternatives.length > 0) {
         setSuggestedAlternatives(result.alternatives);
         setMessages(prev => [...prev, { 
           id: Date.now().toString(), 
           role: 'assistant', 
-          content: `I couldn't find "${query}". Did you mean one of these?`, 
+          content: t('nav.didYouMean', { query }), 
           timestamp: Date.now() 
         }]);
       } else {
         setMessages(prev => [...prev, { 
           id: Date.now().toString(), 
           role: 'assistant', 
-          content: `Sorry, I couldn't find "${query}". Try a different city.`, 
+          content: t('nav.notFound', { query }), 
           timestamp: Date.now() 
         }]);
       }
     } catch (err) { 
-      console.error("Search failed", err); 
+      reportError(err, t('errors.search', { query }), { type: 'search', query });
     } finally { 
-      setIsLoading(false); 
+      if (navController.current === controller) setIsLoading(false); 
     }
   };
 
-  const handleSend = async (customInput?: string) => {
+  // retryId names a failed reply to answer again in place, below the question it belongs to.
+  // A new question while another is still streaming stops the older answer.
+  const handleSend = async (customInput?: string, retryId?: string) => {
     const queryText = customInput || input;
-    if (!queryText.trim() || isLoading) return;
-    setMessages(prev => [...prev, { id: Date.now().toString(), role: 'user', content: queryText, timestamp: Date.now() }]);
-    if (!customInput) setInput('');
+    if (!queryText.trim() || (isLoading && !streamingId)) return;
+    streamController.current?.abort();
+    const retryIndex = retryId ? messages.findIndex(m => m.id === retryId) : -1;
+    const earlier = retryIndex > 0 ? messages.slice(0, retryIndex - 1) : messages;
+    if (retryIndex < 0) {
+      setMessages(prev => [...prev, { id: Date.now().toString(), role: 'user', content: queryText, timestamp: Date.now() }]);
+      if (!customInput) setInput('');
+    }
+    setIsLoading(true);
+
+    const replyId = retryIndex >= 0 ? retryId as string : (Date.now() + 1).toString();
+    const controller = new AbortController();
+    streamController.current = controller;
+    setStreamingId(replyId);
+    if (retryIndex >= 0) {
+      setMessages(prev => prev.map(m => m.id === replyId ? { ...m, content: '', timestamp: Date.now(), status: 'streaming', error: undefined } : m));
+    } else {
+      setMessages(prev => [...prev, { id: replyId, role: 'assistant', content: '', timestamp: Date.now(), status: 'streaming' }]);
+    }
+
+    try {
+      const context: ChatContext = {
+        locationName: currentLocationName,
+        history: buildChatHistory(earlier, chatAnchorId.current),
+        itinerary: itinerary.length > 0 ? itinerary : undefined,
+        region: selectedRegion,
+        comparing
+      };
+      const centroid = selectedRegion && regionGeometry(selectedRegion).centroid;
+      const origin = centroid ? { latitude: centroid.lat, longitude: centroid.lng } : focalLocation;
+      const response = await locationService.current.queryLocationStream(queryText, origin, context, (text) => {
+        setMessages(prev => prev.map(m => m.id === replyId ? { ...m, content: text } : m));
+      }, controller.signal);
+      const stopped = controller.signal.aborted;
+      const places = response.locationData.map((loc, idx) => ({ ...loc, id: `${replyId}-${idx}` }));
+      setMessages(prev => prev.map(m => m.id === replyId ? {
+        ...m,
+        content: response.text,
+        sources: response.sources,
+        citations: response.citations,
+        locationData: places,
+        status: stopped ? 'stopped' : undefined
+      } : m));
+      if (places.length > 0) {
+        setMarkers(places);
+        resolveMarkerCoordinates(replyId, places);
+      }
+    } catch (error) {
+      console.error("Gemini query failed", error);
+      const { kind } = classifyError(error);
+      setMessages(prev => prev.map(m => m.id === replyId ? {
+        ...m,
+        status: undefined,
+        error: { kind, retry: { type: 'send', prompt: queryText } }
+      } : m));
+    } finally {
+      if (streamController.current === controller) {
+        streamController.current = null;
+        setStreamingId(null);
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // Cancelled by the next warp, not by the next question: the pins still belong to this answer.
+  const resolveMarkerCoordinates = async (messageId: string, places: LocationResult[]) => {
+    try {
+      const resolved = await locationService.current.resolveCoordinates(places, focalLocation, navController.current?.signal);
+      setMessages(prev => prev.map(m => m.id === messageId ? { ...m, locationData: resolved } : m));
+      setMarkers(prev => prev.length > 0 && prev[0].id === resolved[0]?.id ? resolved : prev);
+    } catch (e) {
+      reportError(e, t('errors.resolve'), { type: 'resolve', messageId });
+    }
+  };
+
+  const handlePhotoUpload = async (file: File) => {
+    let photo: PreparedPhoto;
+    try {
+      photo = await preparePhoto(file);
+    } catch (e) {
+      // Not a model failure, so there is nothing to retry.
+      console.warn("Photo could not be decoded", e);
+      setMessages(prev => [...prev, { id: Date.now().toString(), role: 'assistant', content: t('photo.unreadable', { name: file.name }), timestamp: Date.now() }]);
+      return;
+    }
+    const photoId = Date.now().toString();
+    if (!photo.gps) photoUploads.current.set(photoId, photo.image);
+    setMessages(prev => [...prev, { id: photoId, role: 'user', content: t('photo.question'), image: photo.thumbnail, photoGps: photo.gps || undefined, timestamp: Date.now() }]);
+    await locatePhoto(photoId, photoLookup(photo));
+  };
+
+  // GPS tags settle it (the nearest named place only labels the spot); otherwise the model
+  // looks at the photo. A sure answer is offered as a warp, unsure ones are pinned in rank order.
+  // The upload is only kept while a failed lookup may be retried.
+  const locatePhoto = async (photoId: string, lookup: PhotoLookup) => {
+    const controller = beginNavigation();
     setIsLoading(true);
     try {
-      const response = await geminiService.current.queryLocation(queryText, focalLocation);
-      setMessages(prev => [...prev, { id: (Date.now() + 1).toString(), role: 'assistant', content: response.text, timestamp: Date.now(), sources: response.sources, locationData: response.locationData }]);
-      if (response.locationData) setMarkers(response.locationData);
-    } catch (error) { console.error("Gemini query failed", error); } finally { setIsLoading(false); }
+      let match: PhotoMatch;
+      if ('gps' in lookup) {
+        const { lat, lng } = lookup.gps;
+        const near = await locationService.current.reverseGeocode(lat, lng, controller.signal);
+        match = { source: 'exif', candidates: [{ name: near?.name || `${lat.toFixed(4)}, ${lng.toFixed(4)}`, localName: near?.localName, lat, lng, confidence: 1 }] };
+      } else {
+        match = { source: 'model', candidates: await locationService.current.locatePhoto(lookup.image, controller.signal) };
+      }
+      photoUploads.current.delete(photoId);
+      if (controller.signal.aborted) return;
+
+      const replyId = (Date.now() + 1).toString();
+      const top = match.candidates[0];
+      const confident = isConfidentMatch(match);
+      const content = !top ? t('photo.noMatch')
+        : match.source === 'exif' ? t('photo.fromGps', { name: placeLabel(top.name, top.localName) })
+        : confident ? t('photo.confident', { name: placeLabel(top.name, top.localName), percent: confidencePercent(top.confidence) })
+        : tn('photo.unsure', match.candidates.length);
+      setMessages(prev => [...prev, { id: replyId, role: 'assistant', content, photoMatch: top ? match : undefined, timestamp: Date.now() }]);
+      if (top && !confident) setMarkers(photoPins(replyId, match));
+    } catch (e) {
+      if (controller.signal.aborted) photoUploads.current.delete(photoId);
+      reportError(e, t('errors.photo'), { type: 'photo', messageId: photoId });
+    } finally {
+      if (navController.current === controller) setIsLoading(false);
+    }
+  };
+
+  // What a failed photo lookup can be retried with: its GPS fix, saved with the chat, or else the
+  // upload itself. The saved thumbnail is too small to show the model the same photo, so it is not used.
+  const retryablePhoto = (photoId: string): PhotoLookup | undefined => {
+    const gps = messages.find(m => m.id === photoId)?.photoGps;
+    if (gps) return { gps };
+    const image = photoUploads.current.get(photoId);
+    return image ? { image } : undefined;
+  };
+
+  // Errors whose retry can no longer run are shown without the button.
+  const offeredError = (error: MessageError): MessageError =>
+    error.retry?.type === 'photo' && !retryablePhoto(error.retry.messageId) ? { ...error, retry: undefined } : error;
+
+  const handleShowPhotoPin = (message: Message, index: number) => {
+    if (!message.photoMatch) return;
+    const pins = photoPins(message.id, message.photoMatch);
+    setMarkers(pins);
+    setHighlightedPlaceId(pins[index].id);
+  };
+
+  // Hovering a Maps source or citation lights up its pin, if that answer's pins are on the map.
+  const handleHoverSource = (message: Message, source: GroundingSource | null) => {
+    const place = source?.kind === 'maps' && source.locationIndex !== undefined ? message.locationData?.[source.locationIndex] : undefined;
+    setHoveredPlaceId(place?.id && markers.some(m => m.id === place.id) ? place.id : null);
+  };
+
+  const handleSelectPlace = (id: string) => {
+    setHighlightedPlaceId(id);
+    const chip = document.getElementById(`place-chip-${id}`);
+    chip?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
+  const buildTrip = (): Trip => {
+    const seen = new Set<string>();
+    const pins = messages.flatMap(m => m.locationData || []).filter(loc => {
+      if (!isValidCoord(loc.latitude) || !isValidCoord(loc.longitude)) return false;
+      const key = `${loc.title}|${loc.latitude}|${loc.longitude}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    const sessionName = savedSessions.find(s => s.id === storedSessionId)?.name;
+    return { name: sessionName || currentLocationName, visited: visits, pins };
+  };
+
+  const handleImportTrip = async (file: File) => {
+    try {
+      const trip = parseTrip(file.name, await file.text());
+      const importId = `import-${Date.now()}`;
+      const imported: LocationResult[] = [
+        ...trip.visited.map(v => ({ title: v.name, uri: '', latitude: v.lat, longitude: v.lng })),
+        ...trip.pins
+      ].map((loc, idx) => ({ ...loc, id: `${importId}-${idx}` }));
+
+      // Imported visits join the timeline, not the back/forward stack: we never warped to them here.
+      if (trip.visited.length > 0) {
+        setVisits(prev => [...prev, ...trip.visited.map((v, idx) => ({ ...v, id: `${importId}-visit-${idx}`, visitedAt: v.visitedAt ?? Date.now() }))]);
+      }
+      setMarkers(imported);
+      setMessages(prev => [...prev, {
+        id: importId,
+        role: 'assistant',
+        content: t('trip.imported', { visited: trip.visited.length, pins: trip.pins.length, file: file.name }),
+        timestamp: Date.now(),
+        locationData: imported
+      }]);
+    } catch (e) {
+      console.error("Trip import failed", e);
+      setMessages(prev => [...prev, { id: Date.now().toString(), role: 'assistant', content: t('trip.importFailed', { file: file.name }), timestamp: Date.now() }]);
+    }
+  };
+
+  const handleAddStop = (name: string, lat: number, lng: number) => {
+    if (!isValidLatLng(lat, lng)) return;
+    setItinerary(prev => prev.some(s => s.name === name && Math.abs(s.lat - lat) < 1e-4 && Math.abs(s.lng - lng) < 1e-4)
+      ? prev
+      : [...prev, { id: `stop-${Date.now()}`, name, lat, lng }]);
+  };
+
+  const handleAddCurrentStop = () => {
+    const current = navHistory[historyIndex];
+    if (current) handleAddStop(current.name, current.lat, current.lng);
+  };
+
+  const handleMoveStop = (index: number, delta: -1 | 1) => {
+    setItinerary(prev => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleRemoveStop = (id: string) => {
+    setItinerary(prev => prev.filter(s => s.id !== id));
+  };
+
+  const handleReturnTo = (place: { name: string; localName?: string; lat: number; lng: number }) => {
+    jumpTo(place.name, place.lat, place.lng, false, { localName: place.localName, recordVisit: false });
+  };
+
+  const handleToggleFavorite = (place: Omit<Favorite, 'id' | 'addedAt'>) => {
+    const { name, localName, lat, lng, thumbnail, note } = place;
+    setFavorites(prev => toggleFavorite(prev, { name, localName, lat, lng, thumbnail, note }));
+  };
+
+  const handleVisitNote = (id: string, note: string) => {
+    setVisits(prev => prev.map(v => v.id === id ? { ...v, note } : v));
+  };
+
+  const selectedRegion = regions.find(r => r.id === selectedRegionId);
+  const currentPlace = navHistory[historyIndex];
+  const currentLabel = placeLabel(currentLocationName, currentPlace?.name === currentLocationName ? currentPlace.localName : undefined);
+
+  const cancelDrawing = useCallback(() => setDrawMode(null), []);
+
+  // New regions are selected (and so attached to chat) straight away, then named in the
+  // background after the place nearest their centre.
+  const handleCreateRegion = async (region: DrawnRegion) => {
+    setRegions(prev => [...prev, region]);
+    setSelectedRegionId(region.id);
+    setDrawMode(null);
+    const { centroid } = regionGeometry(region);
+    try {
+      const place = await locationService.current.reverseGeocode(centroid.lat, centroid.lng);
+      if (place?.name) setRegions(prev => prev.map(r => r.id === region.id ? { ...r, label: place.name } : r));
+    } catch (e) {
+      if (!isAbortError(e)) console.warn("Couldn't label region", e);
+    }
+  };
+
+  const handleUpdateRegion = (region: DrawnRegion) => {
+    setRegions(prev => prev.map(r => r.id === region.id ? region : r));
+  };
+
+  const handleDeleteRegion = (id: string) => {
+    setRegions(prev => prev.filter(r => r.id !== id));
+    if (selectedRegionId === id) setSelectedRegionId(null);
+  };
+
+  // Summary, photos and questions for a drawn area rather than a named place.
+  const handleExploreRegion = async (region: DrawnRegion) => {
+    const controller = beginNavigation();
+    const description = describeRegion(region);
+    const title = regionTitle(region, regions.findIndex(r => r.id === region.id), t);
+    setSelectedRegionId(region.id);
+    const surveyId = Date.now().toString();
+    chatAnchorId.current = surveyId;
+    setMessages(prev => [...prev, { id: surveyId, role: 'assistant', content: t('regions.surveying', { name: title }), timestamp: Date.now() }]);
+    updateGalleryAndQuestions(description);
+    setIsLoading(true);
+
+    try {
+      const summary = await locationService.current.getLocationSummary(description, controller.signal);
+      setMessages(prev => prev.map(m => m.id === surveyId ? { ...m, content: `${t('regions.surveyed', { name: title })}\n\n${summary}` } : m));
+    } catch (e) {
+      setMessages(prev => prev.filter(m => m.id !== surveyId));
+      reportError(e, t('errors.region', { name: title }), { type: 'region', regionId: region.id });
+    } finally {
+      if (navController.current === controller) setIsLoading(false);
+    }
+  };
+
+  const updateCompareSide = (slot: CompareSlot, side: CompareSide) => {
+    setCompareSides(prev => slot === 0 ? [side, prev[1]] : [prev[0], side]);
+  };
+
+  // Each side loads independently; a new search on one side cancels only that side's lookups.
+  const beginCompareSide = (slot: CompareSlot) => {
+    compareControllers.current[slot]?.abort();
+    const controller = new AbortController();
+    compareControllers.current[slot] = controller;
+    return controller;
+  };
+
+  const loadCompareSide = async (slot: CompareSlot, place: NamedPlace) => {
+    const { signal } = beginCompareSide(slot);
+    updateCompareSide(slot, loadingSide(place));
+    try {
+      const [summary, landmarks] = await Promise.all([
+        locationService.current.getLocationSummary(place.name, signal),
+        locationService.current.getVisualKeywords(place.name, [], signal)
+      ]);
+      const gallery = await imageResolver.current.resolve(landmarks, place.name);
+      if (signal.aborted) return;
+      updateCompareSide(slot, { ...loadingSide(place), status: 'ready', summary, gallery });
+    } catch (e) {
+      const { kind } = classifyError(e);
+      if (signal.aborted || kind === 'aborted') return;
+      console.error("Compare side failed", e);
+      updateCompareSide(slot, { ...loadingSide(place), status: 'error', error: { kind, retry: { type: 'compare' } } });
+    }
+  };
+
+  const handleCompareSearch = async (slot: CompareSlot, query: string) => {
+    const text = query.trim();
+    if (!text) return;
+    const { signal } = beginCompareSide(slot);
+    updateCompareSide(slot, searchingSide(text));
+    try {
+      const result = await locationService.current.geocode(text, signal);
+      if (signal.aborted) return;
+      if (result?.name && isValidLatLng(result.lat, result.lng)) {
+        loadCompareSide(slot, { name: result.name, localName: result.localName, lat: result.lat as number, lng: result.lng as number, check: result.check });
+      } else {
+        updateCompareSide(slot, { ...searchingSide(text), status: 'not-found', alternatives: result?.alternatives });
+      }
+    } catch (e) {
+      const { kind } = classifyError(e);
+      if (signal.aborted || kind === 'aborted') return;
+      console.error("Compare search failed", e);
+      updateCompareSide(slot, { ...searchingSide(text), status: 'error', error: { kind, retry: { type: 'compare' } } });
+    }
+  };
+
+  // Restarts whatever a side was still waiting for, e.g. after the sides were swapped.
+  const resumeCompareSide = (slot: CompareSlot, side: CompareSide | null) => {
+    if (side?.status === 'loading' && side.place) loadCompareSide(slot, side.place);
+    else if (side?.status === 'searching') handleCompareSearch(slot, side.query);
+  };
+
+  const handleRetryCompareSide = (slot: CompareSlot) => {
+    const side = compareSides[slot];
+    if (side?.place) loadCompareSide(slot, side.place);
+    else if (side) handleCompareSearch(slot, side.query);
+  };
+
+  const loadCompareTable = async (first: string, second: string) => {
+    compareTableController.current?.abort();
+    const controller = new AbortController();
+    compareTableController.current = controller;
+    const names: [string, string] = [first, second];
+    setCompareTable({ names, status: 'loading' });
+    try {
+      const value = await locationService.current.compareLocations(first, second, controller.signal);
+      if (!controller.signal.aborted) setCompareTable({ names, status: 'ready', value });
+    } catch (e) {
+      const { kind } = classifyError(e);
+      if (controller.signal.aborted || kind === 'aborted') return;
+      console.error("Comparison table failed", e);
+      setCompareTable({ names, status: 'error', error: { kind, retry: { type: 'compare' } } });
+    }
+  };
+
+  const [compareFirst, compareSecond] = compareSides.map(side => side?.place?.name);
+  const comparing: [string, string] | undefined = isCompareOpen && compareFirst && compareSecond ? [compareFirst, compareSecond] : undefined;
+
+  // The table follows the two places. Swapping them reuses the table rather than asking again.
+  useEffect(() => {
+    if (!comparing) {
+      compareTableController.current?.abort();
+      setCompareTable(null);
+      return;
+    }
+    const [first, second] = comparing;
+    if (compareTable?.names[0] === first && compareTable.names[1] === second && compareTable.status !== 'error') return;
+    if (compareTable?.status === 'ready' && compareTable.names[0] === second && compareTable.names[1] === first) {
+      setCompareTable(swapTable(compareTable));
+      return;
+    }
+    loadCompareTable(first, second);
+  }, [comparing?.[0], comparing?.[1]]);
+
+  // Starts with the current place on the left, unless a comparison is already set up.
+  const handleOpenCompare = () => {
+    setDrawMode(null);
+    setIsCompareOpen(true);
+    if (!compareSides[0] && currentPlace) loadCompareSide(0, currentPlace);
+  };
+
+  const handleCloseCompare = () => {
+    compareControllers.current.forEach(controller => controller?.abort());
+    compareTableController.current?.abort();
+    setCompareSides(prev => prev.map(side => side?.status === 'searching' || side?.status === 'loading' ? null : side) as [CompareSide | null, CompareSide | null]);
+    setIsCompareOpen(false);
+  };
+
+  const handleSwapCompare = () => {
+    compareControllers.current.forEach(controller => controller?.abort());
+    setCompareSides(prev => [prev[1], prev[0]]);
+    const [first, second] = compareSides;
+    resumeCompareSide(0, second);
+    resumeCompareSide(1, first);
+  };
+
+  const handleExploreCompared = (place: NamedPlace) => {
+    handleCloseCompare();
+    jumpTo(place.name, place.lat, place.lng, false, { check: place.check, localName: place.localName });
+  };
+
+  const handleStopStream = () => {
+    streamController.current?.abort();
   };
 
   const handleReturnHome = () => {
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
         (p) => {
-          jumpTo("Your Location", p.coords.latitude, p.coords.longitude);
+          jumpTo(t('app.yourLocation'), p.coords.latitude, p.coords.longitude);
         },
         (error) => {
           console.warn("Geolocation failed, returning to Vashon fallback", error);
-          jumpTo("Vashon Island", 47.4517, -122.4631);
+          jumpTo(DEFAULT_LOCATION.name, DEFAULT_LOCATION.lat, DEFAULT_LOCATION.lng);
         },
         { enableHighAccuracy: true, timeout: 5000, maximumAge: 0 }
       );
     } else {
-      jumpTo("Vashon Island", 47.4517, -122.4631);
+      jumpTo(DEFAULT_LOCATION.name, DEFAULT_LOCATION.lat, DEFAULT_LOCATION.lng);
     }
   };
 
   const handleFeelingLucky = async () => {
-    if (isLoading) return;
-    activeSessionId.current++;
+    const controller = beginNavigation();
+    galleryController.current?.abort();
     setGalleryImages([]);
     setSuggestedQuestions([]);
     setIsLoading(true);
     const loadingId = Date.now().toString();
-    setMessages(prev => [...prev, { id: loadingId, role: 'assistant', content: "Scouring the globe for something unique...", timestamp: Date.now() }]);
+    setMessages(prev => [...prev, { id: loadingId, role: 'assistant', content: t('nav.scouring'), timestamp: Date.now() }]);
 
     try {
-      const gem = await geminiService.current.getDynamicCoolLocation(seenHistory);
+      const gem = await locationService.current.getDynamicCoolLocation(seenHistory, controller.signal);
       setMessages(prev => prev.filter(m => m.id !== loadingId));
-      if (gem && isValidCoord(gem.lat) && isValidCoord(gem.lng)) {
+      if (controller.signal.aborted) return;
+      if (gem && isValidLatLng(gem.lat, gem.lng)) {
         setSeenHistory(prev => [...prev.slice(-20), gem.name]);
-        await jumpTo(gem.name, gem.lat, gem.lng);
+        await jumpTo(gem.name, gem.lat, gem.lng, false, { check: gem.check, localName: gem.localName });
       } else {
-        setIsLoading(false);
-        setMessages(prev => [...prev, { id: Date.now().toString(), role: 'assistant', content: "I couldn't find a new spot right now. Let's try again.", timestamp: Date.now() }]);
+        setMessages(prev => [...prev, { id: Date.now().toString(), role: 'assistant', content: t('nav.noNewSpot'), timestamp: Date.now() }]);
       }
     } catch (err) {
-      console.error("Failed to fetch dynamic location", err);
-      setIsLoading(false);
+      setMessages(prev => prev.filter(m => m.id !== loadingId));
+      reportError(err, t('errors.lucky'), { type: 'lucky' });
+    } finally {
+      if (navController.current === controller) setIsLoading(false);
+    }
+  };
+
+  // Each round zooms out to the whole world so the previous answer gives nothing away.
+  const loadGameRound = async (state: GameState) => {
+    gameController.current?.abort();
+    const controller = new AbortController();
+    gameController.current = controller;
+    setGameError(null);
+    setPendingGuess(null);
+    setMapCenter([20, 0]);
+    setMapZoom(2);
+    try {
+      const played = state.rounds.map(r => r.place.name);
+      const round = await geoGuessRounds.current.next([...seenHistory, ...played], DIFFICULTIES[state.difficulty].photos, controller.signal);
+      if (controller.signal.aborted) return;
+      setGame(prev => prev && prev.status === 'loading' ? startRound(prev, round) : prev);
+    } catch (e) {
+      const { kind } = classifyError(e);
+      if (kind !== 'aborted') setGameError({ kind, retry: { type: 'round' } });
+    }
+  };
+
+  const handleStartGame = (difficulty: GameDifficulty, rounds: number, player: string) => {
+    const state = newGame(difficulty, rounds, player, t('game.defaultPlayer'));
+    setDrawMode(null);
+    setGame(state);
+    loadGameRound(state);
+  };
+
+  const handleLockInGuess = () => {
+    if (!pendingGuess) return;
+    setGame(prev => prev && revealRound(prev, pendingGuess));
+  };
+
+  // A pin already on the map when the clock runs out still counts.
+  const handleGameTimeout = () => {
+    setGame(prev => prev && revealRound(prev, pendingGuess || undefined));
+  };
+
+  const handleNextRound = () => {
+    if (!game) return;
+    const next = advanceGame(game);
+    setGame(next);
+    setPendingGuess(null);
+    if (next.status === 'loading') {
+      loadGameRound(next);
+    } else {
+      setHighScores(recordHighScore({ player: next.player, score: totalScore(next), difficulty: next.difficulty, rounds: next.totalRounds, playedAt: Date.now() }));
+    }
+  };
+
+  const handleQuitGame = () => {
+    gameController.current?.abort();
+    setGame(null);
+    setGameError(null);
+    setPendingGuess(null);
+    setIsGameOpen(false);
+  };
+
+  const handleVisitRound = (round: GameRound) => {
+    handleQuitGame();
+    jumpTo(round.place.name, round.place.lat, round.place.lng, false, { zoom: 12, check: round.place.check, localName: round.place.localName });
+  };
+
+  const handleRetry = (message: Message) => {
+    const retry = message.error?.retry;
+    if (!retry || isLoading) return;
+    if (retry.type !== 'send' && retry.type !== 'summary') {
+      setMessages(prev => prev.filter(m => m.id !== message.id));
+    }
+    switch (retry.type) {
+      case 'send':
+        handleSend(retry.prompt, message.id);
+        break;
+      case 'search':
+        handleLocationSearch(undefined, retry.query);
+        break;
+      case 'reverse':
+        handleMapClick(retry.lat, retry.lng);
+        break;
+      case 'lucky':
+        handleFeelingLucky();
+        break;
+      case 'summary':
+        loadSummary(message.id, retry.name, retry.note, beginNavigation(), retry.localName);
+        break;
+      case 'gallery':
+        // Only worth reloading if we are still at that place.
+        if (retry.name === galleryTopic.current) updateGalleryAndQuestions(retry.name);
+        break;
+      case 'region': {
+        const region = regions.find(r => r.id === retry.regionId);
+        if (region) handleExploreRegion(region);
+        break;
+      }
+      case 'resolve': {
+        const target = messages.find(m => m.id === retry.messageId);
+        if (target?.locationData) resolveMarkerCoordinates(target.id, target.locationData);
+        break;
+      }
+      case 'photo': {
+        const photo = retryablePhoto(retry.messageId);
+        if (photo) locatePhoto(retry.messageId, photo);
+        break;
+      }
     }
   };
 
@@ -444,13 +1363,26 @@ const App: React.FC = () => {
     handleSend(question);
     setSuggestedQuestions(prev => prev.filter(q => q !== question));
     try {
-      const newQuestion = await geminiService.current.getSinglePertinentQuestion(currentLocationName, suggestedQuestions);
-      if (newQuestion) setSuggestedQuestions(prev => [...prev, newQuestion]);
+      const signal = galleryController.current?.signal;
+      const newQuestion = await locationService.current.getSinglePertinentQuestion(currentLocationName, suggestedQuestions, signal);
+      if (newQuestion && !signal?.aborted) setSuggestedQuestions(prev => [...prev, newQuestion]);
     } catch (e) {
-      console.error("Failed to fetch replacement question", e);
+      if (!isAbortError(e)) console.error("Failed to fetch replacement question", e);
     }
   };
 
+  // The refetch waits for the refresh, or it could be answered from the old cache entry.
+  const handleRefreshPlace = async () => {
+    if (isGalleryLoading) return;
+    const topic = galleryTopic.current;
+    setIsGalleryLoading(true);
+    await Promise.all([
+      locationService.current.invalidateCache('getVisualKeywords', [topic, []]),
+      locationService.current.invalidateCache('getPertinentQuestions', [topic, QUESTION_COUNT]),
+    ]);
+    if (galleryTopic.current === topic) updateGalleryAndQuestions(topic);
+  };
+
   const handleImageClick = (img: VisualLandmark) => {
     setActiveRichCaption(img);
   };
@@ -461,7 +1393,7 @@ const App: React.FC = () => {
       {activeRichCaption && (
         <div className="fixed inset-0 z-[2000] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-[in_0.3s_ease-out]">
           <div className="bg-white rounded-[32px] overflow-hidden shadow-2xl w-full max-w-lg border border-white/20 relative">
-            <button onClick={() => setActiveRichCaption(null)} className="absolute top-4 right-4 z-20 p-2 bg-black/20 hover:bg-black/40 text-white rounded-full transition-all"><X className="w-5 h-5" /></button>
+            <button onClick={() => setActiveRichCaption(null)} aria-label={t('gallery.close')} className="absolute top-4 end-4 z-20 p-2 bg-black/20 hover:bg-black/40 text-white rounded-full transition-all"><X className="w-5 h-5" /></button>
             <div className="aspect-[4/3] w-full overflow-hidden bg-slate-100 relative">
               <img 
                 src={activeRichCaption.imageUrl} 
@@ -469,19 +1401,29 @@ const App: React.FC = () => {
                 alt={activeRichCaption.shortCaption} 
                 onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }}
               />
-              {activeRichCaption.sourceUri && (
-                <a href={activeRichCaption.sourceUri} target="_blank" rel="noopener noreferrer" className="absolute bottom-4 right-4 px-3 py-1.5 bg-black/40 backdrop-blur text-white text-[10px] font-black uppercase tracking-widest rounded-lg flex items-center gap-2 hover:bg-black/60 transition-all"><ExternalLink className="w-3 h-3" /> Web Source</a>
+              {(activeRichCaption.attribution?.pageUrl || activeRichCaption.sourceUri) && (
+                <a href={activeRichCaption.attribution?.pageUrl || activeRichCaption.sourceUri} target="_blank" rel="noopener noreferrer" className="absolute bottom-4 end-4 px-3 py-1.5 bg-black/40 backdrop-blur text-white text-[10px] font-black uppercase tracking-widest rounded-lg flex items-center gap-2 hover:bg-black/60 transition-all"><ExternalLink className="w-3 h-3" /> {t('gallery.webSource')}</a>
               )}
             </div>
             <div className="p-8">
-              <h4 className="text-[10px] font-black uppercase tracking-[0.3em] text-blue-600 mb-2">Web Capture</h4>
+              <h4 className="text-[10px] font-black uppercase tracking-[0.3em] text-blue-600 mb-2">{t('gallery.webCapture')}</h4>
               <h3 className="text-2xl font-black text-slate-900 mb-4 tracking-tighter leading-tight">{activeRichCaption.shortCaption}</h3>
               <p className="text-slate-600 font-medium leading-relaxed italic">{activeRichCaption.richCaption}</p>
+              <div className="mt-4 text-[11px] text-slate-500 font-bold leading-relaxed">
+                <span className="font-black uppercase tracking-widest text-slate-400">{describeProvider(activeRichCaption.attribution, t)}</span>
+                {activeRichCaption.attribution?.author && <span> · {t('gallery.photoBy', { author: activeRichCaption.attribution.author })}</span>}
+                {activeRichCaption.attribution?.license && (
+                  <span> · {activeRichCaption.attribution.licenseUrl
+                    ? <a href={activeRichCaption.attribution.licenseUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">{activeRichCaption.attribution.license}</a>
+                    : activeRichCaption.attribution.license}</span>
+                )}
+                {activeRichCaption.attribution?.replaced && <p className="mt-1 italic text-slate-400">{t('gallery.substituteNote')}</p>}
+              </div>
               <div className="mt-6 pt-6 border-t border-slate-50 flex flex-col gap-4">
                 {activeRichCaption.sourceUri && (
-                  <a href={activeRichCaption.sourceUri} target="_blank" rel="noopener noreferrer" className="flex items-center justify-center gap-2 w-full p-4 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-2xl text-xs font-black uppercase tracking-widest transition-all"><Globe className="w-4 h-4" /> Visit Original Web Page</a>
+                  <a href={activeRichCaption.sourceUri} target="_blank" rel="noopener noreferrer" className="flex items-center justify-center gap-2 w-full p-4 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-2xl text-xs font-black uppercase tracking-widest transition-all"><Globe className="w-4 h-4" /> {t('gallery.visitOriginal')}</a>
                 )}
-                <button onClick={() => setActiveRichCaption(null)} className="w-full py-4 bg-blue-600 text-white rounded-2xl text-sm font-black uppercase tracking-widest hover:bg-blue-700 transition-all active:scale-95 shadow-lg shadow-blue-100">Dismiss</button>
+                <button onClick={() => setActiveRichCaption(null)} className="w-full py-4 bg-blue-600 text-white rounded-2xl text-sm font-black uppercase tracking-widest hover:bg-blue-700 transition-all active:scale-95 shadow-lg shadow-blue-100">{t('gallery.dismiss')}</button>
               </div>
             </div>
           </div>
@@ -489,17 +1431,39 @@ const App: React.FC = () => {
       )}
 
       {/* Sidebar - Increased width for better chat flow */}
-      <div className="w-full md:w-[38%] lg:w-[32%] bg-white flex flex-col border-r border-slate-200 z-10 shadow-2xl overflow-hidden shrink-0 transition-all duration-300">
+      <div className="w-full md:w-[38%] lg:w-[32%] bg-white flex flex-col border-e border-slate-200 z-10 shadow-2xl overflow-hidden shrink-0 transition-all duration-300">
         <header className="p-8 border-b border-slate-100 flex flex-col">
           <div className="flex items-center gap-5">
             <div className="bg-blue-600 p-4 rounded-[22px] shadow-xl shadow-blue-100"><MapPin className="w-8 h-8 text-white" /></div>
             <div className="flex-1 overflow-hidden">
               <h1 className="font-black text-3xl tracking-tighter text-slate-900 leading-none mb-1.5">GeoSlop</h1>
               <div className="flex flex-col">
-                <p className="text-[11px] uppercase tracking-[0.25em] text-blue-600 font-black mb-1">Web Discovery</p>
+                <p className="text-[11px] uppercase tracking-[0.25em] text-blue-600 font-black mb-1">{t('app.tagline')}</p>
                 <div className="inline-flex items-center gap-2 px-3 py-1.5 bg-blue-50 text-blue-700 rounded-xl transition-all w-fit">
                   <Compass className="w-4 h-4 animate-spin-slow flex-shrink-0" />
-                  <p className="text-sm font-black uppercase tracking-widest truncate max-w-[200px]">{currentLocationName}</p>
+                  <p className="text-sm font-black uppercase tracking-widest truncate max-w-[200px]" title={currentLabel}>{currentLabel}</p>
+                </div>
+                <div className="mt-2 flex items-center gap-2">
+                  <SessionMenu sessions={savedSessions} activeId={storedSessionId} onSwitch={handleSwitchSession} onCreate={handleCreateSession} onRename={handleRenameSession} onDelete={handleDeleteSession} />
+                  <TripMenu getTrip={buildTrip} onImport={handleImportTrip} />
+                  <UsageMenu usage={usage} onReset={() => locationService.current.resetUsage()} />
+                  <LocaleMenu />
+                  <button
+                    onClick={handleOpenCompare}
+                    disabled={isCompareOpen || isGameOpen}
+                    className="inline-flex items-center gap-2 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 disabled:opacity-40 text-slate-600 rounded-xl text-[11px] font-black uppercase tracking-widest transition-all"
+                    aria-label={t('compare.openLabel')}
+                  >
+                    <Columns2 className="w-4 h-4" /> {t('compare.open')}
+                  </button>
+                  <button
+                    onClick={() => setIsGameOpen(true)}
+                    disabled={isGameOpen || isCompareOpen}
+                    className="inline-flex items-center gap-2 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 disabled:opacity-40 text-slate-600 rounded-xl text-[11px] font-black uppercase tracking-widest transition-all"
+                    aria-label={t('game.playLabel')}
+                  >
+                    <Gamepad2 className="w-4 h-4" /> {t('game.play')}
+                  </button>
                 </div>
               </div>
             </div>
@@ -508,26 +1472,96 @@ const App: React.FC = () => {
         <div className="flex-1 overflow-y-auto p-6 space-y-8 bg-slate-50/20">
           {messages.map((msg) => (
             <div key={msg.id} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
-              <div className={`max-w-[90%] p-5 rounded-[28px] shadow-sm border ${msg.role === 'user' ? 'bg-blue-600 border-blue-500 text-white rounded-br-none' : 'bg-white border-slate-200 text-slate-800 rounded-bl-none'}`}>
-                <div className="text-[15px] font-medium leading-relaxed whitespace-pre-wrap">{msg.content}</div>
+              <div className={`max-w-[90%] p-5 rounded-[28px] shadow-sm border ${msg.role === 'user' ? 'bg-blue-600 border-blue-500 text-white rounded-ee-none' : `bg-white text-slate-800 rounded-es-none ${msg.error ? 'border-red-200' : 'border-slate-200'}`}`}>
+                {msg.image && <img src={msg.image} alt={t('photo.attached')} className="mb-3 max-h-48 rounded-2xl" />}
+                {(msg.content || msg.status === 'streaming') && (
+                  <div dir="auto" className={`text-[15px] font-medium leading-relaxed ${msg.role === 'user' ? 'whitespace-pre-wrap' : ''}`}>
+                    {msg.role === 'user' ? msg.content : (
+                      <MarkdownMessage content={msg.content} citations={msg.citations} sources={msg.sources} onHoverSource={(source) => handleHoverSource(msg, source)} />
+                    )}
+                    {msg.status === 'streaming' && <span className="inline-block w-2 h-4 ms-1 align-middle bg-blue-500 animate-pulse rounded-sm" />}
+                  </div>
+                )}
+                {msg.role === 'assistant' && msg.sources && msg.sources.length > 0 && (
+                  <SourceList sources={msg.sources} onHoverSource={(source) => handleHoverSource(msg, source)} />
+                )}
+                {msg.error && <ErrorNotice error={offeredError(msg.error)} disabled={isLoading} onRetry={() => handleRetry(msg)} />}
+                {msg.photoMatch && (
+                  <PhotoMatchCard
+                    match={msg.photoMatch}
+                    pinIds={photoPins(msg.id, msg.photoMatch).map(pin => pin.id as string)}
+                    highlightedId={highlightedPlaceId}
+                    disabled={isLoading}
+                    onGoTo={(candidate) => jumpTo(candidate.name, candidate.lat, candidate.lng, false, { check: candidate.check, localName: candidate.localName })}
+                    onShowPin={(index) => handleShowPhotoPin(msg, index)}
+                  />
+                )}
+                {msg.status === 'stopped' && <div className="mt-2 text-[10px] font-black uppercase tracking-widest text-slate-400">{t('chat.stopped')}</div>}
+                {msg.locationData && msg.locationData.length > 0 && (
+                  <div className="mt-4 flex flex-wrap gap-2">
+                    {msg.locationData.map((loc) => {
+                      const pinned = isValidCoord(loc.latitude) && isValidCoord(loc.longitude);
+                      return (
+                        <button
+                          key={loc.id}
+                          id={`place-chip-${loc.id}`}
+                          onClick={() => { if (loc.id) { setMarkers(msg.locationData || []); setHighlightedPlaceId(loc.id); } }}
+                          disabled={!pinned}
+                          className={`px-3 py-1.5 rounded-xl text-[11px] font-black flex items-center gap-1.5 border-2 transition-all active:scale-95 ${loc.id === highlightedPlaceId ? 'bg-blue-600 border-blue-600 text-white' : 'bg-slate-50 border-slate-100 text-slate-600 hover:border-blue-200'} ${pinned ? '' : 'opacity-50'}`}
+                        >
+                          <MapPin className="w-3 h-3" /> {loc.title}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
-              <span className="text-[10px] text-slate-400 mt-2.5 font-black uppercase tracking-tighter">{new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+              <span className="text-[10px] text-slate-400 mt-2.5 font-black uppercase tracking-tighter">{new Date(msg.timestamp).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' })}</span>
             </div>
           ))}
-          {isLoading && <div className="flex items-center gap-3 text-blue-600 p-3 italic text-sm font-black animate-pulse"><Loader2 className="w-5 h-5 animate-spin" />Scanning web assets...</div>}
+          {retryNotice && <RetryCountdown notice={retryNotice.notice} until={retryNotice.until} />}
+          {isLoading && !streamingId && <div className="flex items-center gap-3 text-blue-600 p-3 italic text-sm font-black animate-pulse"><Loader2 className="w-5 h-5 animate-spin" />{t('chat.scanning')}</div>}
           <div ref={chatEndRef} />
         </div>
         <div className="p-8 border-t border-slate-100 bg-white">
+          {selectedRegion && (
+            <div className="mb-3 inline-flex items-center gap-2 px-3 py-1.5 bg-amber-50 border border-amber-200 text-amber-800 rounded-xl text-[11px] font-black">
+              <SquareDashed className="w-3.5 h-3.5" /> {t('chat.askingAbout', { name: regionTitle(selectedRegion, regions.indexOf(selectedRegion), t) })}
+              <button onClick={() => setSelectedRegionId(null)} className="p-0.5 text-amber-500 hover:text-amber-800" aria-label={t('chat.detachRegion')}><X className="w-3.5 h-3.5" /></button>
+            </div>
+          )}
+          {comparing && (
+            <div className="mb-3 inline-flex items-center gap-2 px-3 py-1.5 bg-blue-50 border border-blue-200 text-blue-800 rounded-xl text-[11px] font-black">
+              <Columns2 className="w-3.5 h-3.5" /> {t('compare.askingAbout', { first: comparing[0], second: comparing[1] })}
+            </div>
+          )}
           <div className="relative flex items-center gap-4">
+            <input
+              ref={photoInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handlePhotoUpload(file);
+                e.target.value = '';
+              }}
+            />
+            <button onClick={() => photoInputRef.current?.click()} disabled={isLoading} aria-label={t('photo.upload')} title={t('photo.upload')} className="p-6 bg-slate-100 text-slate-600 rounded-[22px] hover:bg-slate-200 transition-all active:scale-90"><Camera className="w-7 h-7" /></button>
             <input 
               type="text" 
               value={input} 
               onChange={(e) => setInput(e.target.value)} 
               onKeyDown={(e) => e.key === 'Enter' && handleSend()} 
-              placeholder="Ask about this place..." 
+              dir="auto"
+              placeholder={t('chat.placeholder')}
               className="flex-1 p-6 bg-slate-50 rounded-[22px] border-2 border-slate-200 focus:outline-none focus:ring-4 focus:ring-blue-100 focus:bg-white text-xl font-bold placeholder:text-slate-400 shadow-lg transition-all" 
             />
-            <button onClick={() => handleSend()} disabled={isLoading || !input.trim()} className="p-6 bg-blue-600 text-white rounded-[22px] hover:bg-blue-700 transition-all active:scale-90"><Send className="w-7 h-7" /></button>
+            {streamingId ? (
+              <button onClick={handleStopStream} className="p-6 bg-slate-800 text-white rounded-[22px] hover:bg-slate-700 transition-all active:scale-90" aria-label={t('chat.stop')}><Square className="w-7 h-7" /></button>
+            ) : (
+              <button onClick={() => handleSend()} disabled={isLoading || !input.trim()} aria-label={t('chat.send')} className="p-6 bg-blue-600 text-white rounded-[22px] hover:bg-blue-700 transition-all active:scale-90"><Send className="w-7 h-7 rtl:-scale-x-100" /></button>
+            )}
           </div>
         </div>
       </div>
@@ -536,38 +1570,112 @@ const App: React.FC = () => {
       <div className="flex-1 relative flex flex-col min-w-0">
         <div className="flex-1 relative w-full h-full min-h-0 bg-slate-100">
           <MapContainer center={mapCenter} zoom={mapZoom} className="h-full w-full" scrollWheelZoom={true} zoomControl={false}>
-            {mapType === 'road' ? <TileLayer attribution='&copy; OpenStreetMap' url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png" /> : <TileLayer attribution='Tiles &copy; Esri' url="https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}" />}
+            <MapLayers settings={layerSettings} />
             <MapUpdater center={mapCenter} zoom={mapZoom} />
-            <MapEventsHandler onMapClick={handleMapClick} />
-            <div className="absolute top-1/2 -translate-y-1/2 right-4 z-[1000] pointer-events-none">
-              <MapControls onToggleMapType={() => setMapType(mapType === 'road' ? 'satellite' : 'road')} mapType={mapType} isMaximized={isMaximized} onToggleMaximize={() => setIsMaximized(!isMaximized)} />
+            <MapEventsHandler onMapClick={handleMapClick} onZoomChange={setViewZoom} />
+            <div className="absolute top-1/2 -translate-y-1/2 end-4 z-[1000] pointer-events-none">
+              <MapControls layerSettings={layerSettings} onLayersChange={setLayerSettings} isMaximized={isMaximized} onToggleMaximize={() => setIsMaximized(!isMaximized)} />
             </div>
-            {markers.map((loc, idx) => isValidCoord(loc.latitude) && isValidCoord(loc.longitude) ? <Marker key={idx} position={[loc.latitude, loc.longitude]}><Popup><h3 className="font-black text-blue-700">{loc.title}</h3></Popup></Marker> : null)}
+            {isGameOpen && <GeoGuessLayer round={game?.rounds[game.current]} pendingGuess={pendingGuess} revealed={game?.status === 'revealed' || game?.status === 'finished'} />}
+            {!isGameOpen && <ResultMarkers results={markers} highlightedId={highlightedPlaceId} hoveredId={hoveredPlaceId} onSelect={handleSelectPlace} onAddStop={(loc) => handleAddStop(loc.title, loc.latitude as number, loc.longitude as number)} />}
+            {!isGameOpen && <ItineraryRoute stops={itinerary} onRemove={handleRemoveStop} />}
+            {!isGameOpen && showTerminator && <TerminatorLayer />}
+            {!isGameOpen && showFavorites && <FavoriteMarkers favorites={favorites} onVisit={handleReturnTo} onUnstar={handleToggleFavorite} />}
+            {!isGameOpen && <RegionDrawTool
+              mode={drawMode}
+              regions={regions}
+              selectedId={selectedRegionId}
+              onCreate={handleCreateRegion}
+              onUpdate={handleUpdateRegion}
+              onSelect={setSelectedRegionId}
+              onCancel={cancelDrawing}
+            />}
           </MapContainer>
 
+          {isGameOpen && (
+            <div className={`absolute z-[1100] pointer-events-none ${game ? 'top-24 start-4' : 'inset-0 flex items-center justify-center'}`}>
+              <GeoGuessPanel
+                game={game}
+                highScores={highScores}
+                pendingGuess={pendingGuess}
+                error={gameError}
+                onStart={handleStartGame}
+                onLockIn={handleLockInGuess}
+                onTimeout={handleGameTimeout}
+                onNext={handleNextRound}
+                onRetry={() => game && loadGameRound(game)}
+                onVisit={handleVisitRound}
+                onQuit={handleQuitGame}
+              />
+            </div>
+          )}
+
+          {!isGameOpen && <div className="absolute top-24 start-4 z-[1000] pointer-events-none">
+            <RegionPanel
+              mode={drawMode}
+              regions={regions}
+              selectedId={selectedRegionId}
+              onModeChange={setDrawMode}
+              onSelect={setSelectedRegionId}
+              onExplore={handleExploreRegion}
+              onDelete={handleDeleteRegion}
+            />
+          </div>}
+
+          {!isGameOpen && currentPlace && <div className="absolute top-24 end-4 z-[1000] pointer-events-none">
+            <SunPanel
+              place={{ name: currentLabel, lat: currentPlace.lat, lng: currentPlace.lng }}
+              showTerminator={showTerminator}
+              onShowTerminator={setShowTerminator}
+            />
+          </div>}
+
+          {!isGameOpen && <div className="absolute bottom-4 start-4 z-[1000] pointer-events-none flex flex-col gap-2">
+            <TimelinePanel
+              visits={visits}
+              favorites={favorites}
+              current={currentPlace}
+              showFavoritesOnMap={showFavorites}
+              onVisit={handleReturnTo}
+              onToggleFavorite={handleToggleFavorite}
+              onVisitNote={handleVisitNote}
+              onFavoriteNote={(id, note) => setFavorites(prev => setFavoriteNote(prev, id, note))}
+              onShowFavoritesOnMap={setShowFavorites}
+            />
+            <ItineraryPanel
+              stops={itinerary}
+              currentLocationName={currentLocationName}
+              onAddCurrent={handleAddCurrentStop}
+              onMove={handleMoveStop}
+              onRemove={handleRemoveStop}
+              onOptimize={() => setItinerary(prev => optimizeStopOrder(prev))}
+              onClear={() => setItinerary([])}
+            />
+          </div>}
+
           {/* Search Bar */}
           <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[1000] w-full max-w-4xl px-4 pointer-events-none">
             <div className="bg-white/90 backdrop-blur-xl shadow-2xl rounded-[32px] border border-white/40 p-2 flex flex-row items-center gap-3 pointer-events-auto transition-transform active:scale-[0.998]">
-              <div className="flex gap-1 pr-1 border-r border-slate-200/50">
-                <button onClick={handleBack} disabled={historyIndex === 0} className="p-3 bg-slate-100 hover:bg-slate-200 rounded-full text-slate-600 transition-all active:scale-75"><ArrowLeft className="w-5 h-5" /></button>
-                <button onClick={handleForward} disabled={historyIndex === navHistory.length - 1} className="p-3 bg-slate-100 hover:bg-slate-200 rounded-full text-slate-600 transition-all active:scale-75"><ArrowRight className="w-5 h-5" /></button>
+              <div className="flex gap-1 pe-1 border-e border-slate-200/50">
+                <button onClick={handleBack} disabled={historyIndex === 0} className="p-3 bg-slate-100 hover:bg-slate-200 rounded-full text-slate-600 transition-all active:scale-75" aria-label={t('nav.back')}><ArrowLeft className="w-5 h-5 rtl:rotate-180" /></button>
+                <button onClick={handleForward} disabled={historyIndex === navHistory.length - 1} className="p-3 bg-slate-100 hover:bg-slate-200 rounded-full text-slate-600 transition-all active:scale-75" aria-label={t('nav.forward')}><ArrowRight className="w-5 h-5 rtl:rotate-180" /></button>
               </div>
               <form onSubmit={handleLocationSearch} className="flex-[10] flex items-center gap-3">
                 <div className="relative flex-1 group">
-                  <Search className="absolute left-4 top-1/2 -translate-y-1/2 h-6 w-6 text-slate-400 group-focus-within:text-blue-500 transition-colors" />
+                  <Search className="absolute start-4 top-1/2 -translate-y-1/2 h-6 w-6 text-slate-400 group-focus-within:text-blue-500 transition-colors" />
                   <input 
                     type="text" value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} 
-                    placeholder="Warp to a new city..." 
-                    className="block w-full h-14 pl-14 pr-10 text-xl font-bold text-slate-800 bg-slate-100/40 hover:bg-slate-100/60 focus:bg-white rounded-[24px] border border-transparent focus:border-blue-500/20 outline-none transition-all placeholder:text-slate-400" 
+                    placeholder={t('nav.searchPlaceholder')}
+                    className="block w-full h-14 ps-14 pe-10 text-xl font-bold text-slate-800 bg-slate-100/40 hover:bg-slate-100/60 focus:bg-white rounded-[24px] border border-transparent focus:border-blue-500/20 outline-none transition-all placeholder:text-slate-400" 
                   />
-                  {searchQuery && <button type="button" onClick={() => setSearchQuery('')} className="absolute right-4 top-1/2 -translate-y-1/2 p-1.5 text-slate-400 hover:text-slate-600"><X className="w-5 h-5" /></button>}
+                  {searchQuery && <button type="button" onClick={() => setSearchQuery('')} aria-label={t('nav.clearSearch')} className="absolute end-4 top-1/2 -translate-y-1/2 p-1.5 text-slate-400 hover:text-slate-600"><X className="w-5 h-5" /></button>}
                 </div>
-                <button type="submit" disabled={isLoading} className="px-10 h-14 bg-blue-600 text-white rounded-[24px] font-black text-sm uppercase tracking-widest hover:bg-blue-700 transition-all shadow-lg active:scale-95">{isLoading ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Go'}</button>
+                <button type="submit" disabled={isLoading} className="px-10 h-14 bg-blue-600 text-white rounded-[24px] font-black text-sm uppercase tracking-widest hover:bg-blue-700 transition-all shadow-lg active:scale-95">{isLoading ? <Loader2 className="w-5 h-5 animate-spin" /> : t('nav.go')}</button>
               </form>
               <div className="w-px h-10 bg-slate-200 mx-1 hidden sm:block"></div>
-              <button onClick={handleReturnHome} className="flex-1 h-14 bg-slate-800 text-white rounded-[24px] flex items-center justify-center hover:bg-slate-700 transition-all active:scale-90" title="Home"><Home className="w-6 h-6" /></button>
+              <button onClick={handleReturnHome} className="flex-1 h-14 bg-slate-800 text-white rounded-[24px] flex items-center justify-center hover:bg-slate-700 transition-all active:scale-90" title={t('nav.home')}><Home className="w-6 h-6" /></button>
               <button onClick={handleFeelingLucky} className="flex-[2.8] h-14 bg-gradient-to-br from-blue-600 to-indigo-700 text-white rounded-[24px] font-black text-xs uppercase tracking-widest flex items-center justify-center gap-2 hover:shadow-blue-200 transition-all active:scale-90" disabled={isLoading}>
-                <Sparkles className="w-5 h-5" /> <span className="hidden xl:inline">Next cool place</span>
+                <Sparkles className="w-5 h-5" /> <span className="hidden xl:inline">{t('nav.lucky')}</span>
               </button>
             </div>
           </div>
@@ -577,10 +1685,10 @@ const App: React.FC = () => {
         {!isMaximized && (
           <div className="h-[360px] bg-white border-t-2 border-slate-100 flex flex-col shrink-0 relative group/gallery transition-all duration-300">
             <div className="px-8 py-4 flex items-center justify-between border-b border-slate-50 shrink-0">
-              <div className="flex-1 flex items-center gap-6 overflow-hidden pr-4">
+              <div className="flex-1 flex items-center gap-6 overflow-hidden pe-4">
                 <div className="flex items-center gap-3">
                   <div className="p-2 bg-blue-50 rounded-xl"><ImageIcon className="w-6 h-6 text-blue-600" /></div>
-                  <h3 className="text-slate-900 text-sm font-black uppercase tracking-[0.2em] whitespace-nowrap">Web Swarm</h3>
+                  <h3 className="text-slate-900 text-sm font-black uppercase tracking-[0.2em] whitespace-nowrap">{t('gallery.title')}</h3>
                 </div>
                 <div className="hidden md:flex flex-1 items-center gap-3 overflow-x-auto no-scrollbar py-1">
                   {suggestedQuestions.map((q, idx) => (
@@ -588,16 +1696,19 @@ const App: React.FC = () => {
                   ))}
                 </div>
               </div>
-              <span className="text-[11px] text-slate-400 font-black uppercase tracking-[0.15em] italic">Live Discovery</span>
+              <div className="flex items-center gap-3">
+                <button onClick={handleRefreshPlace} disabled={isGalleryLoading} className="p-2 bg-slate-50 hover:bg-blue-50 rounded-xl text-slate-400 hover:text-blue-600 transition-all active:scale-90 disabled:opacity-40" title={t('gallery.refresh')}><RefreshCw className={`w-4 h-4 ${isGalleryLoading ? 'animate-spin' : ''}`} /></button>
+                <span className="text-[11px] text-slate-400 font-black uppercase tracking-[0.15em] italic">{t('gallery.live')}</span>
+              </div>
             </div>
             <div className="relative flex-1 overflow-hidden">
-              <button onClick={() => scrollGallery('left')} className="absolute left-6 top-1/2 -translate-y-1/2 z-20 p-4 bg-white/95 border border-slate-200 rounded-3xl shadow-xl hover:bg-white active:scale-75 transition-all opacity-0 group-hover/gallery:opacity-100"><ChevronLeft className="w-6 h-6 text-slate-700" /></button>
-              <button onClick={() => scrollGallery('right')} className="absolute right-6 top-1/2 -translate-y-1/2 z-20 p-4 bg-white/95 border border-slate-200 rounded-3xl shadow-xl hover:bg-white active:scale-75 transition-all opacity-0 group-hover/gallery:opacity-100"><ChevronRight className="w-6 h-6 text-slate-700" /></button>
+              <button onClick={() => scrollGallery('left')} aria-label={t('gallery.scrollLeft')} className="absolute left-6 top-1/2 -translate-y-1/2 z-20 p-4 bg-white/95 border border-slate-200 rounded-3xl shadow-xl hover:bg-white active:scale-75 transition-all opacity-0 group-hover/gallery:opacity-100"><ChevronLeft className="w-6 h-6 text-slate-700" /></button>
+              <button onClick={() => scrollGallery('right')} aria-label={t('gallery.scrollRight')} className="absolute right-6 top-1/2 -translate-y-1/2 z-20 p-4 bg-white/95 border border-slate-200 rounded-3xl shadow-xl hover:bg-white active:scale-75 transition-all opacity-0 group-hover/gallery:opacity-100"><ChevronRight className="w-6 h-6 text-slate-700" /></button>
               <div ref={scrollContainerRef} className="h-full overflow-x-auto px-8 py-6 flex gap-6 items-center custom-scrollbar select-none" style={{ scrollSnapType: 'x mandatory' }}>
                 {isGalleryLoading ? (
                   <div className="flex-1 flex items-center justify-center gap-12 max-w-5xl mx-auto">
                     <EyeDrone className="relative w-48 h-48 animate-[swarm_4s_infinite] drop-shadow-2xl" />
-                    <div className="flex flex-col"><h2 className="text-4xl font-black text-slate-900 leading-none tracking-tighter">Locating <span className="text-blue-600">{currentLocationName}</span></h2><p className="text-slate-400 uppercase tracking-widest text-xs mt-2 font-black">Connecting to visual swarm...</p></div>
+                    <div className="flex flex-col"><h2 className="text-4xl font-black text-slate-900 leading-none tracking-tighter">{t('gallery.locating')} <span className="text-blue-600">{currentLabel}</span></h2><p className="text-slate-400 uppercase tracking-widest text-xs mt-2 font-black">{t('gallery.connecting')}</p></div>
                   </div>
                 ) : (
                   <>
@@ -610,6 +1721,23 @@ const App: React.FC = () => {
             </div>
           </div>
         )}
+
+        {isCompareOpen && (
+          <div className="absolute inset-0 z-[1200]">
+            <CompareView
+              sides={compareSides}
+              table={compareTable}
+              layerSettings={layerSettings}
+              onSearch={handleCompareSearch}
+              onRetrySide={handleRetryCompareSide}
+              onRetryTable={() => comparing && loadCompareTable(comparing[0], comparing[1])}
+              onSwap={handleSwapCompare}
+              onExplore={handleExploreCompared}
+              onOpenImage={handleImageClick}
+              onClose={handleCloseCompare}
+            />
+          </div>
+        )}
       </div>
       <style>{`
         @keyframes in { from { opacity: 0; transform: scale(0.95) translateX(20px); } to { opacity: 1; transform: scale(1) translateX(0); } }
@@ -0,0 +1,285 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { MapContainer, Marker, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { ArrowLeftRight, Columns2, Compass, Loader2, MapPin, Search, X } from 'lucide-react';
+import { NamedPlace, VisualLandmark } from '../types';
+import { COMPARISON_TOPICS, CompareSide, CompareSlot, CompareTable, mirrorCenter } from '../utils/compare';
+import { placeLabel } from '../utils/i18n';
+import { LayerSettings } from '../utils/mapLayers';
+import { MapLayers } from './MapLayers';
+import { ErrorNotice } from './ServiceStatus';
+import { useI18n } from './I18nProvider';
+
+const SLOT_LETTERS = ['A', 'B'];
+const SLOT_COLORS = ['#2563eb', '#7c3aed'];
+
+const slotIcon = (slot: CompareSlot) => L.divIcon({
+  html: `<div style="width:30px;height:30px;border-radius:9999px;background:${SLOT_COLORS[slot]};color:#fff;border:3px solid #fff;box-shadow:0 4px 12px rgba(15,23,42,.35);display:flex;align-items:center;justify-content:center;font-weight:900;font-size:13px;font-family:inherit">${SLOT_LETTERS[slot]}</div>`,
+  className: '',
+  iconSize: [30, 30],
+  iconAnchor: [15, 15],
+});
+
+// Shared between the two maps so each can move the other. syncing is set while one map
+// is being moved on the other's behalf, so the echo of that move is not sent back.
+interface MapLink {
+  maps: (L.Map | null)[];
+  anchors: (NamedPlace | undefined)[];
+  syncing: boolean;
+}
+
+const withoutEcho = (link: MapLink, move: () => void) => {
+  link.syncing = true;
+  try {
+    move();
+  } finally {
+    link.syncing = false;
+  }
+};
+
+function MapSync({ slot, place, link }: { slot: CompareSlot, place: NamedPlace, link: MapLink }) {
+  const map = useMap();
+
+  useEffect(() => {
+    link.maps[slot] = map;
+    return () => { link.maps[slot] = null; };
+  }, [map]);
+
+  // A new place recentres this map at the other map's zoom, without moving the other map.
+  useEffect(() => {
+    link.anchors[slot] = place;
+    const zoom = link.maps[1 - slot]?.getZoom() ?? map.getZoom();
+    withoutEcho(link, () => map.setView([place.lat, place.lng], zoom, { animate: false }));
+  }, [place.lat, place.lng]);
+
+  useMapEvents({
+    move: () => {
+      const other = link.maps[1 - slot];
+      const otherPlace = link.anchors[1 - slot];
+      if (link.syncing || !other || !otherPlace) return;
+      const center = map.getCenter();
+      withoutEcho(link, () => other.setView(mirrorCenter(place, otherPlace, center), map.getZoom(), { animate: false }));
+    }
+  });
+  return null;
+}
+
+const Gallery = ({ images, onOpen }: { images: VisualLandmark[], onOpen: (img: VisualLandmark) => void }) => {
+  const { t } = useI18n();
+  if (images.length === 0) return <p className="text-xs font-bold text-slate-400">{t('compare.noPhotos')}</p>;
+  return (
+    <div className="flex gap-2 overflow-x-auto no-scrollbar">
+      {images.map((img, idx) => (
+        <button key={idx} onClick={() => onOpen(img)} className="flex-none w-32 h-20 rounded-xl overflow-hidden bg-slate-100 relative group" title={img.shortCaption}>
+          <img src={img.imageUrl} alt={img.shortCaption} loading="lazy" className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-700" onError={(e) => { (e.target as HTMLImageElement).style.visibility = 'hidden'; }} />
+          <span className="absolute inset-x-0 bottom-0 px-2 py-1 bg-gradient-to-t from-black/70 to-transparent text-[9px] font-black uppercase tracking-widest text-white truncate text-start">{img.shortCaption}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+function SideColumn({
+  slot,
+  side,
+  layerSettings,
+  link,
+  onSearch,
+  onRetry,
+  onExplore,
+  onOpenImage
+}: {
+  slot: CompareSlot,
+  side: CompareSide | null,
+  layerSettings: LayerSettings,
+  link: MapLink,
+  onSearch: (slot: CompareSlot, query: string) => void,
+  onRetry: (slot: CompareSlot) => void,
+  onExplore: (place: NamedPlace) => void,
+  onOpenImage: (img: VisualLandmark) => void
+}) {
+  const { t } = useI18n();
+  const [query, setQuery] = useState(side?.query || '');
+  const place = side?.place;
+  const busy = side?.status === 'searching' || side?.status === 'loading';
+
+  useEffect(() => {
+    if (side?.query) setQuery(side.query);
+  }, [side?.query]);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (query.trim()) onSearch(slot, query);
+  };
+
+  return (
+    <div className="flex flex-col min-w-0">
+      <form onSubmit={submit} className="flex items-center gap-2 p-4">
+        <span className="flex-shrink-0 w-8 h-8 rounded-full text-white text-xs font-black flex items-center justify-center" style={{ background: SLOT_COLORS[slot] }}>{SLOT_LETTERS[slot]}</span>
+        <div className="relative flex-1">
+          <Search className="absolute start-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('compare.searchPlaceholder')}
+            className="w-full h-10 ps-9 pe-3 bg-slate-100/60 focus:bg-white rounded-xl border border-transparent focus:border-blue-500/20 outline-none text-sm font-bold text-slate-800 placeholder:text-slate-400"
+          />
+        </div>
+        <button type="submit" disabled={busy || !query.trim()} className="h-10 px-4 bg-blue-600 text-white rounded-xl text-[11px] font-black uppercase tracking-widest hover:bg-blue-700 disabled:opacity-40 transition-all active:scale-95">
+          {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : t('compare.set')}
+        </button>
+      </form>
+
+      <div className="h-72 relative bg-slate-100 shrink-0">
+        {place ? (
+          <MapContainer center={[place.lat, place.lng]} zoom={11} className="h-full w-full" scrollWheelZoom={true} zoomControl={false}>
+            <MapLayers settings={layerSettings} />
+            <Marker position={[place.lat, place.lng]} icon={slotIcon(slot)} />
+            <MapSync slot={slot} place={place} link={link} />
+          </MapContainer>
+        ) : (
+          <div className="h-full flex flex-col items-center justify-center gap-2 text-slate-400">
+            <MapPin className="w-8 h-8" />
+            <span className="text-xs font-black uppercase tracking-widest">{t('compare.pickPlace')}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 space-y-3">
+        {busy && (
+          <div className="flex items-center gap-2 text-sm font-black text-blue-600 animate-pulse">
+            <Loader2 className="w-4 h-4 animate-spin" /> {t('compare.loading', { name: place ? placeLabel(place.name, place.localName) : side?.query || '' })}
+          </div>
+        )}
+        {side?.status === 'not-found' && (
+          <div>
+            <p className="text-sm font-bold text-slate-600">{t('nav.notFound', { query: side.query })}</p>
+            {side.alternatives && side.alternatives.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {side.alternatives.map(alt => (
+                  <button key={alt} onClick={() => onSearch(slot, alt)} className="px-3 py-1.5 bg-slate-50 border-2 border-slate-100 rounded-xl text-[11px] font-black text-slate-600 hover:border-blue-200">{alt}</button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+        {side?.status === 'error' && side.error && <ErrorNotice error={side.error} disabled={false} onRetry={() => onRetry(slot)} />}
+        {place && !busy && (
+          <div className="flex items-center gap-2">
+            <h3 className="flex-1 min-w-0 truncate text-lg font-black tracking-tight text-slate-900">{placeLabel(place.name, place.localName)}</h3>
+            <button onClick={() => onExplore(place)} className="flex-shrink-0 inline-flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all">
+              <Compass className="w-3.5 h-3.5" /> {t('compare.explore')}
+            </button>
+          </div>
+        )}
+        {side?.status === 'ready' && (
+          <>
+            {side.summary && <p dir="auto" className="text-sm font-medium leading-relaxed text-slate-600">{side.summary}</p>}
+            <Gallery images={side.gallery} onOpen={onOpenImage} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ComparisonTable({ table, onRetry }: { table: CompareTable | null, onRetry: () => void }) {
+  const { t } = useI18n();
+  if (!table) return <p className="text-sm font-bold text-slate-400">{t('compare.empty')}</p>;
+  const [first, second] = table.names;
+  if (table.status === 'loading') {
+    return (
+      <div className="flex items-center gap-2 text-sm font-black text-blue-600 animate-pulse">
+        <Loader2 className="w-4 h-4 animate-spin" /> {t('compare.tableLoading', { first, second })}
+      </div>
+    );
+  }
+  if (table.status === 'error' && table.error) return <ErrorNotice error={table.error} disabled={false} onRetry={onRetry} />;
+  if (!table.value) return <p className="text-sm font-bold text-slate-400">{t('compare.tableUnavailable')}</p>;
+  const value = table.value;
+  return (
+    <table className="w-full table-fixed text-sm">
+      <thead>
+        <tr className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+          <th className="w-28 pb-2 text-start" />
+          <th className="pb-2 pe-4 text-start" style={{ color: SLOT_COLORS[0] }}>{first}</th>
+          <th className="pb-2 text-start" style={{ color: SLOT_COLORS[1] }}>{second}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {COMPARISON_TOPICS.map(topic => (
+          <tr key={topic} className="border-t border-slate-100 align-top">
+            <th className="py-3 pe-4 text-start text-[10px] font-black uppercase tracking-widest text-slate-500">{t(`compare.topic.${topic}`)}</th>
+            <td dir="auto" className="py-3 pe-4 font-medium leading-relaxed text-slate-700">{value[topic].first}</td>
+            <td dir="auto" className="py-3 font-medium leading-relaxed text-slate-700">{value[topic].second}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// Covers the map area while compare mode is on: a column per place, each with its own map
+// (panned and zoomed together), summary and photos, and the comparison table underneath.
+export function CompareView({
+  sides,
+  table,
+  layerSettings,
+  onSearch,
+  onRetrySide,
+  onRetryTable,
+  onSwap,
+  onExplore,
+  onOpenImage,
+  onClose
+}: {
+  sides: [CompareSide | null, CompareSide | null],
+  table: CompareTable | null,
+  layerSettings: LayerSettings,
+  onSearch: (slot: CompareSlot, query: string) => void,
+  onRetrySide: (slot: CompareSlot) => void,
+  onRetryTable: () => void,
+  onSwap: () => void,
+  onExplore: (place: NamedPlace) => void,
+  onOpenImage: (img: VisualLandmark) => void,
+  onClose: () => void
+}) {
+  const { t } = useI18n();
+  const link = useRef<MapLink>({ maps: [null, null], anchors: [undefined, undefined], syncing: false });
+
+  const column = (slot: CompareSlot) => (
+    <SideColumn
+      slot={slot}
+      side={sides[slot]}
+      layerSettings={layerSettings}
+      link={link.current}
+      onSearch={onSearch}
+      onRetry={onRetrySide}
+      onExplore={onExplore}
+      onOpenImage={onOpenImage}
+    />
+  );
+
+  return (
+    <div className="h-full flex flex-col bg-white">
+      <div className="px-8 py-4 flex items-center gap-3 border-b border-slate-100 shrink-0">
+        <div className="p-2 bg-blue-50 rounded-xl"><Columns2 className="w-6 h-6 text-blue-600" /></div>
+        <h2 className="flex-1 text-slate-900 text-sm font-black uppercase tracking-[0.2em]">{t('compare.title')}</h2>
+        <button onClick={onSwap} disabled={!sides[0] && !sides[1]} className="p-2 bg-slate-50 hover:bg-blue-50 rounded-xl text-slate-400 hover:text-blue-600 transition-all active:scale-90 disabled:opacity-40" aria-label={t('compare.swap')}><ArrowLeftRight className="w-4 h-4" /></button>
+        <button onClick={onClose} className="p-2 bg-slate-50 hover:bg-slate-100 rounded-xl text-slate-400 hover:text-slate-700 transition-all active:scale-90" aria-label={t('compare.close')}><X className="w-4 h-4" /></button>
+      </div>
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        <div className="grid grid-cols-2 divide-x rtl:divide-x-reverse divide-slate-100 border-b border-slate-100">
+          {column(0)}
+          {column(1)}
+        </div>
+        <section className="px-8 py-6">
+          <h3 className="mb-4 text-[11px] font-black uppercase tracking-[0.2em] text-slate-400">{t('compare.tableTitle')}</h3>
+          <ComparisonTable table={table} onRetry={onRetryTable} />
+        </section>
+      </div>
+    </div>
+  );
+}
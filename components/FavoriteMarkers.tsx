@@ -0,0 +1,51 @@
+
+import React from 'react';
+import { Marker, Popup, Tooltip } from 'react-leaflet';
+import L from 'leaflet';
+import { Favorite } from '../types';
+import { placeLabel } from '../utils/i18n';
+import { useI18n } from './I18nProvider';
+
+const starIcon = L.divIcon({
+  html: `<div style="width:26px;height:26px;border-radius:9999px;background:#f59e0b;color:#fff;border:3px solid #fff;box-shadow:0 4px 12px rgba(15,23,42,.35);display:flex;align-items:center;justify-content:center;font-size:13px;line-height:1">&#9733;</div>`,
+  className: '',
+  iconSize: [26, 26],
+  iconAnchor: [13, 13],
+});
+
+// Drawn inside the MapContainer: a star pin per favorite, with its note and a way back to it.
+export function FavoriteMarkers({
+  favorites,
+  onVisit,
+  onUnstar
+}: {
+  favorites: Favorite[],
+  onVisit: (favorite: Favorite) => void,
+  onUnstar: (favorite: Favorite) => void
+}) {
+  const { t } = useI18n();
+  return (
+    <>
+      {favorites.map(favorite => {
+        const label = placeLabel(favorite.name, favorite.localName);
+        return (
+          <Marker key={favorite.id} position={[favorite.lat, favorite.lng]} icon={starIcon}>
+            <Tooltip direction="top" offset={[0, -14]}>{label}</Tooltip>
+            <Popup>
+              <h3 className="font-black text-amber-600">{label}</h3>
+              {favorite.note && <p dir="auto" className="!my-1 text-xs text-slate-600 whitespace-pre-line">{favorite.note}</p>}
+              <div className="flex gap-3 mt-1">
+                <button onClick={() => onVisit(favorite)} className="text-[10px] font-black uppercase tracking-widest text-blue-600 hover:text-blue-800">
+                  {t('timeline.goTo', { name: favorite.name })}
+                </button>
+                <button onClick={() => onUnstar(favorite)} className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-red-600">
+                  {t('timeline.unstar')}
+                </button>
+              </div>
+            </Popup>
+          </Marker>
+        );
+      })}
+    </>
+  );
+}
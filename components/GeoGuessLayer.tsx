@@ -0,0 +1,69 @@
+
+import React, { useEffect } from 'react';
+import { Marker, Polyline, Tooltip, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { GameRound } from '../utils/geoGuess';
+import { formatKm, greatCirclePath } from '../utils/itinerary';
+import { useI18n } from './I18nProvider';
+
+const pinIcon = (color: string, label: string) => L.divIcon({
+  html: `<div style="width:30px;height:30px;border-radius:9999px;background:${color};color:#fff;border:3px solid #fff;box-shadow:0 4px 12px rgba(15,23,42,.35);display:flex;align-items:center;justify-content:center;font-weight:900;font-size:13px;font-family:inherit">${label}</div>`,
+  className: '',
+  iconSize: [30, 30],
+  iconAnchor: [15, 15],
+});
+
+const guessIcon = pinIcon('#2563eb', '?');
+const answerIcon = pinIcon('#16a34a', '★');
+
+// Drawn inside the MapContainer: the pending guess while guessing, then the guess,
+// the answer and the great-circle line between them once the round is revealed.
+export function GeoGuessLayer({
+  round,
+  pendingGuess,
+  revealed
+}: {
+  round: GameRound | undefined,
+  pendingGuess: { lat: number, lng: number } | null,
+  revealed: boolean
+}) {
+  const map = useMap();
+  const { t } = useI18n();
+  const guess = round?.guess;
+
+  useEffect(() => {
+    if (!revealed || !round) return;
+    const answer: [number, number] = [round.place.lat, round.place.lng];
+    if (guess) {
+      map.flyToBounds(L.latLngBounds([answer, [guess.lat, guess.lng]]), { padding: [80, 80], duration: 1.5, maxZoom: 10 });
+    } else {
+      map.flyTo(answer, 6, { duration: 1.5 });
+    }
+  }, [revealed, round]);
+
+  if (!round) return null;
+  if (!revealed) {
+    return pendingGuess ? <Marker position={[pendingGuess.lat, pendingGuess.lng]} icon={guessIcon} /> : null;
+  }
+  const answer = { id: 'answer', name: round.place.name, lat: round.place.lat, lng: round.place.lng };
+  return (
+    <>
+      {guess && (
+        <>
+          <Polyline
+            positions={greatCirclePath({ id: 'guess', name: 'Guess', ...guess }, answer)}
+            pathOptions={{ color: '#0f172a', weight: 3, opacity: 0.8, dashArray: '6 8' }}
+          >
+            <Tooltip sticky>{formatKm(round.distanceKm || 0)}</Tooltip>
+          </Polyline>
+          <Marker position={[guess.lat, guess.lng]} icon={guessIcon}>
+            <Tooltip direction="top" offset={[0, -14]}>{t('game.yourGuess')}</Tooltip>
+          </Marker>
+        </>
+      )}
+      <Marker position={[answer.lat, answer.lng]} icon={answerIcon}>
+        <Tooltip direction="top" offset={[0, -14]} permanent>{round.place.name}</Tooltip>
+      </Marker>
+    </>
+  );
+}
@@ -0,0 +1,277 @@
+
+import React, { useEffect, useState } from 'react';
+import { Crosshair, Loader2, Navigation, Play, Timer, Trophy, X } from 'lucide-react';
+import { MessageError } from '../types';
+import { ErrorNotice } from './ServiceStatus';
+import {
+  DIFFICULTIES,
+  GameDifficulty,
+  GameRound,
+  GameState,
+  HighScore,
+  MAX_ROUND_SCORE,
+  ROUND_OPTIONS,
+  totalScore
+} from '../utils/geoGuess';
+import { formatKm } from '../utils/itinerary';
+import { useI18n } from './I18nProvider';
+
+const cardClass = 'bg-white/95 backdrop-blur shadow-2xl rounded-3xl border border-slate-200 pointer-events-auto';
+const labelClass = 'text-[10px] font-black uppercase tracking-widest text-slate-400';
+
+function GameClock({ deadline, onTimeout }: { deadline: number, onTimeout: () => void }) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    const expire = setTimeout(onTimeout, Math.max(0, deadline - Date.now()));
+    return () => {
+      clearInterval(timer);
+      clearTimeout(expire);
+    };
+  }, [deadline, onTimeout]);
+
+  const seconds = Math.max(0, Math.ceil((deadline - now) / 1000));
+  return (
+    <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-lg text-[11px] font-black ${seconds <= 10 ? 'bg-red-100 text-red-700' : 'bg-slate-100 text-slate-600'}`}>
+      <Timer className="w-3.5 h-3.5" /> {Math.floor(seconds / 60)}:{String(seconds % 60).padStart(2, '0')}
+    </span>
+  );
+}
+
+function HighScoreTable({ scores }: { scores: HighScore[] }) {
+  const { locale, t, tn } = useI18n();
+  const [difficulty, setDifficulty] = useState<GameDifficulty>('normal');
+  const rows = scores.filter(s => s.difficulty === difficulty);
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2">
+        <Trophy className="w-4 h-4 text-amber-500" />
+        <span className={labelClass}>{t('game.highScores')}</span>
+        <div className="ms-auto flex gap-1">
+          {(Object.keys(DIFFICULTIES) as GameDifficulty[]).map(d => (
+            <button key={d} onClick={() => setDifficulty(d)} className={`px-2 py-0.5 rounded-md text-[10px] font-black uppercase tracking-widest ${d === difficulty ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-slate-700'}`}>
+              {t(`game.difficulty.${d}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+      {rows.length === 0 && <div className="text-xs font-bold text-slate-400">{t('game.noScores')}</div>}
+      <ol className="space-y-1">
+        {rows.map((s, i) => (
+          <li key={`${s.playedAt}-${i}`} className="flex items-center gap-2 text-xs font-bold text-slate-600">
+            <span className="w-5 text-end font-black text-slate-400">{i + 1}</span>
+            <span className="flex-1 truncate">{s.player}</span>
+            <span className="text-[10px] text-slate-400">{tn('game.roundsPlayed', s.rounds)} · {new Date(s.playedAt).toLocaleDateString(locale)}</span>
+            <span className="w-14 text-end font-black text-slate-800">{s.score.toLocaleString(locale)}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+function GameSetup({
+  highScores,
+  onStart,
+  onClose
+}: {
+  highScores: HighScore[],
+  onStart: (difficulty: GameDifficulty, rounds: number, player: string) => void,
+  onClose: () => void
+}) {
+  const { locale, t, tn } = useI18n();
+  const [difficulty, setDifficulty] = useState<GameDifficulty>('normal');
+  const [rounds, setRounds] = useState(5);
+  const [player, setPlayer] = useState('');
+  const settings = DIFFICULTIES[difficulty];
+
+  return (
+    <div className={`${cardClass} w-[420px] p-6 space-y-5`}>
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-black tracking-tighter text-slate-900">{t('game.title')}</h2>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700" aria-label={t('game.close')}><X className="w-5 h-5" /></button>
+      </div>
+      <p className="text-sm font-medium text-slate-500">{t('game.intro', { points: MAX_ROUND_SCORE.toLocaleString(locale) })}</p>
+      <div>
+        <div className={`${labelClass} mb-2`}>{t('game.difficulty')}</div>
+        <div className="flex gap-2">
+          {(Object.keys(DIFFICULTIES) as GameDifficulty[]).map(d => (
+            <button key={d} onClick={() => setDifficulty(d)} className={`flex-1 py-2 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${d === difficulty ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}>
+              {t(`game.difficulty.${d}`)}
+            </button>
+          ))}
+        </div>
+        <div className="mt-2 text-[11px] font-bold text-slate-400">
+          {tn('game.photos', settings.photos)} · {settings.timeLimitSec ? t('game.timeLimit', { seconds: settings.timeLimitSec }) : t('game.noTimeLimit')}
+        </div>
+      </div>
+      <div className="flex gap-4">
+        <div>
+          <div className={`${labelClass} mb-2`}>{t('game.rounds')}</div>
+          <div className="flex gap-1">
+            {ROUND_OPTIONS.map(n => (
+              <button key={n} onClick={() => setRounds(n)} className={`w-10 py-2 rounded-xl text-xs font-black transition-all ${n === rounds ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}>{n}</button>
+            ))}
+          </div>
+        </div>
+        <div className="flex-1">
+          <div className={`${labelClass} mb-2`}>{t('game.player')}</div>
+          <input value={player} onChange={(e) => setPlayer(e.target.value)} maxLength={24} placeholder={t('game.defaultPlayer')} className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700 outline-none focus:border-blue-400" />
+        </div>
+      </div>
+      <button onClick={() => onStart(difficulty, rounds, player)} className="w-full flex items-center justify-center gap-2 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-2xl text-sm font-black uppercase tracking-widest transition-all active:scale-95">
+        <Play className="w-4 h-4" /> {t('game.start')}
+      </button>
+      <div className="pt-4 border-t border-slate-100">
+        <HighScoreTable scores={highScores} />
+      </div>
+    </div>
+  );
+}
+
+function RoundPhotos({ round, revealed }: { round: GameRound, revealed: boolean }) {
+  const { t } = useI18n();
+  const [selected, setSelected] = useState(0);
+  const photo = round.photos[Math.min(selected, round.photos.length - 1)];
+
+  useEffect(() => setSelected(0), [round]);
+
+  return (
+    <div>
+      <div className="relative w-full h-52 rounded-2xl overflow-hidden bg-slate-900">
+        <img src={photo.imageUrl} alt={revealed ? photo.shortCaption : t('game.mystery')} className="w-full h-full object-cover" referrerPolicy="no-referrer" />
+      </div>
+      {round.photos.length > 1 && (
+        <div className="mt-2 flex gap-2">
+          {round.photos.map((p, i) => (
+            <button key={p.imageUrl} onClick={() => setSelected(i)} className={`w-14 h-10 rounded-lg overflow-hidden border-2 ${i === selected ? 'border-blue-600' : 'border-transparent opacity-70 hover:opacity-100'}`}>
+              <img src={p.imageUrl} alt="" className="w-full h-full object-cover" referrerPolicy="no-referrer" />
+            </button>
+          ))}
+        </div>
+      )}
+      {revealed && (
+        <div className="mt-2">
+          <div className="text-sm font-black text-slate-800">{photo.shortCaption}</div>
+          {photo.attribution && (
+            <div className="text-[10px] font-bold text-slate-400">{[photo.attribution.author, photo.attribution.license].filter(Boolean).join(' · ')}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Game overlay over the map. Captions stay hidden until a round is revealed.
+export function GeoGuessPanel({
+  game,
+  highScores,
+  pendingGuess,
+  error,
+  onStart,
+  onLockIn,
+  onTimeout,
+  onNext,
+  onRetry,
+  onVisit,
+  onQuit
+}: {
+  game: GameState | null,
+  highScores: HighScore[],
+  pendingGuess: { lat: number, lng: number } | null,
+  error: MessageError | null,
+  onStart: (difficulty: GameDifficulty, rounds: number, player: string) => void,
+  onLockIn: () => void,
+  onTimeout: () => void,
+  onNext: () => void,
+  onRetry: () => void,
+  onVisit: (round: GameRound) => void,
+  onQuit: () => void
+}) {
+  const { locale, t } = useI18n();
+  if (!game) return <GameSetup highScores={highScores} onStart={onStart} onClose={onQuit} />;
+
+  const round = game.rounds[game.current];
+  const header = (
+    <div className="flex items-center gap-2">
+      <span className={labelClass}>
+        {game.status === 'finished' ? t('game.finalScore') : t('game.roundOf', { round: Math.min(game.rounds.length + (game.status === 'loading' ? 1 : 0), game.totalRounds), total: game.totalRounds })}
+      </span>
+      <span className="text-[11px] font-black text-slate-800">{t('game.points', { points: totalScore(game).toLocaleString(locale) })}</span>
+      {game.status === 'guessing' && game.deadline && <GameClock deadline={game.deadline} onTimeout={onTimeout} />}
+      <button onClick={onQuit} className="ms-auto p-1 text-slate-400 hover:text-slate-700" aria-label={t('game.quit')}><X className="w-4 h-4" /></button>
+    </div>
+  );
+
+  if (game.status === 'loading') {
+    return (
+      <div className={`${cardClass} w-96 p-5 space-y-3`}>
+        {header}
+        {error ? (
+          <ErrorNotice error={error} disabled={false} onRetry={onRetry} />
+        ) : (
+          <div className="flex items-center gap-3 text-sm font-black text-blue-600"><Loader2 className="w-5 h-5 animate-spin" /> {t('game.scouting')}</div>
+        )}
+      </div>
+    );
+  }
+
+  if (game.status === 'finished') {
+    const rank = highScores.filter(s => s.difficulty === game.difficulty).findIndex(s => s.player === game.player && s.score === totalScore(game));
+    return (
+      <div className={`${cardClass} w-96 p-5 space-y-4`}>
+        {header}
+        <div className="text-4xl font-black tracking-tighter text-slate-900">{totalScore(game).toLocaleString(locale)}<span className="text-base text-slate-400"> / {(game.totalRounds * MAX_ROUND_SCORE).toLocaleString(locale)}</span></div>
+        {rank >= 0 && <div className="text-xs font-black text-amber-600">{t('game.rank', { rank: rank + 1, difficulty: t(`game.difficulty.${game.difficulty}`) })}</div>}
+        <ol className="space-y-1">
+          {game.rounds.map((r, i) => (
+            <li key={i} className="flex items-center gap-2 text-xs font-bold text-slate-600">
+              <span className="w-5 text-end font-black text-slate-400">{i + 1}</span>
+              <span className="flex-1 truncate">{r.place.name}</span>
+              <span className="text-[10px] text-slate-400">{r.timedOut ? t('game.timedOut') : formatKm(r.distanceKm || 0)}</span>
+              <span className="w-12 text-end font-black text-slate-800">{(r.score || 0).toLocaleString(locale)}</span>
+              <button onClick={() => onVisit(r)} className="p-1 text-slate-400 hover:text-blue-600" aria-label={t('game.visitPlace', { name: r.place.name })}><Navigation className="w-3.5 h-3.5" /></button>
+            </li>
+          ))}
+        </ol>
+        <div className="flex gap-2">
+          <button onClick={() => onStart(game.difficulty, game.totalRounds, game.player)} className="flex-1 flex items-center justify-center gap-2 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-xl text-[11px] font-black uppercase tracking-widest"><Play className="w-4 h-4" /> {t('game.playAgain')}</button>
+          <button onClick={onQuit} className="px-4 py-2.5 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-xl text-[11px] font-black uppercase tracking-widest">{t('game.done')}</button>
+        </div>
+        <div className="pt-4 border-t border-slate-100">
+          <HighScoreTable scores={highScores} />
+        </div>
+      </div>
+    );
+  }
+
+  const revealed = game.status === 'revealed';
+  return (
+    <div className={`${cardClass} w-96 p-5 space-y-3`}>
+      {header}
+      <RoundPhotos round={round} revealed={revealed} />
+      {revealed ? (
+        <>
+          <div>
+            <div className="text-lg font-black text-slate-900">{round.place.name}</div>
+            <div className="text-xs font-bold text-slate-500">
+              {round.timedOut ? t('game.outOfTime') : t('game.result', { distance: formatKm(round.distanceKm || 0), points: (round.score || 0).toLocaleString(locale) })}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={onNext} className="flex-1 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-xl text-[11px] font-black uppercase tracking-widest">
+              {game.rounds.length >= game.totalRounds ? t('game.seeResults') : t('game.nextRound')}
+            </button>
+            <button onClick={() => onVisit(round)} className="px-3 py-2.5 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-xl text-[11px] font-black uppercase tracking-widest flex items-center gap-1.5"><Navigation className="w-3.5 h-3.5" /> {t('game.visit')}</button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="flex items-center gap-2 text-xs font-bold text-slate-500"><Crosshair className="w-4 h-4 text-blue-600" /> {pendingGuess ? t('game.movePin') : t('game.placePin')}</div>
+          <button onClick={onLockIn} disabled={!pendingGuess} className="w-full py-2.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white rounded-xl text-[11px] font-black uppercase tracking-widest">{t('game.lockIn')}</button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { MessageKey } from '../locales/en';
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  Locale,
+  LocaleInfo,
+  MessageParams,
+  PluralKey,
+  loadLocale,
+  saveLocale,
+  translate,
+  translatePlural
+} from '../utils/i18n';
+
+export interface I18nValue {
+  locale: Locale;
+  info: LocaleInfo;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  tn: (key: PluralKey, count: number, params?: MessageParams) => string;
+}
+
+const bind = (locale: Locale, setLocale: (locale: Locale) => void): I18nValue => ({
+  locale,
+  info: LOCALES[locale],
+  setLocale,
+  t: (key, params) => translate(locale, key, params),
+  tn: (key, count, params) => translatePlural(locale, key, count, params),
+});
+
+const I18nContext = createContext<I18nValue>(bind(DEFAULT_LOCALE, () => {}));
+
+// Holds the chosen locale and mirrors it onto <html lang dir>, which is what flips
+// Tailwind's logical utilities (ps-, start-, rtl:) for right-to-left scripts.
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = LOCALES[locale].dir;
+    saveLocale(locale);
+  }, [locale]);
+
+  const value = useMemo(() => bind(locale, setLocale), [locale]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,67 @@
+
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, ChevronDown, ChevronUp, MapPinned, Plus, Shuffle, Trash2, X } from 'lucide-react';
+import { ItineraryStop } from '../types';
+import { formatKm, legDistancesKm, routeLengthKm } from '../utils/itinerary';
+import { useI18n } from './I18nProvider';
+
+export function ItineraryPanel({
+  stops,
+  currentLocationName,
+  onAddCurrent,
+  onMove,
+  onRemove,
+  onOptimize,
+  onClear
+}: {
+  stops: ItineraryStop[],
+  currentLocationName: string,
+  onAddCurrent: () => void,
+  onMove: (index: number, delta: -1 | 1) => void,
+  onRemove: (id: string) => void,
+  onOptimize: () => void,
+  onClear: () => void
+}) {
+  const { t, tn } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const legs = legDistancesKm(stops);
+
+  return (
+    <div className="w-72 bg-white/95 backdrop-blur shadow-2xl rounded-2xl border border-slate-200 overflow-hidden pointer-events-auto">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center gap-2 px-4 py-3 text-[11px] font-black uppercase tracking-widest text-slate-600 hover:bg-slate-50">
+        <MapPinned className="w-4 h-4 text-indigo-600" />
+        <span className="flex-1 text-start">{tn('itinerary.title', stops.length)}</span>
+        {stops.length > 1 && <span className="text-indigo-600">{formatKm(routeLengthKm(stops))}</span>}
+        {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+      </button>
+      {isOpen && (
+        <div className="border-t border-slate-100">
+          <div className="max-h-64 overflow-y-auto">
+            {stops.length === 0 && <div className="px-4 py-3 text-xs font-bold text-slate-400">{t('itinerary.empty')}</div>}
+            {stops.map((stop, i) => (
+              <React.Fragment key={stop.id}>
+                <div className="flex items-center gap-2 px-4 py-2">
+                  <span className="w-6 h-6 flex-shrink-0 rounded-full bg-indigo-600 text-white text-[11px] font-black flex items-center justify-center">{i + 1}</span>
+                  <span className="flex-1 truncate text-xs font-bold text-slate-700">{stop.name}</span>
+                  <button onClick={() => onMove(i, -1)} disabled={i === 0} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30" aria-label={t('itinerary.moveUp')}><ArrowUp className="w-3.5 h-3.5" /></button>
+                  <button onClick={() => onMove(i, 1)} disabled={i === stops.length - 1} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30" aria-label={t('itinerary.moveDown')}><ArrowDown className="w-3.5 h-3.5" /></button>
+                  <button onClick={() => onRemove(stop.id)} className="p-1 text-slate-400 hover:text-red-600" aria-label={t('itinerary.remove')}><X className="w-3.5 h-3.5" /></button>
+                </div>
+                {i < legs.length && <div className="ps-12 text-[10px] font-black uppercase tracking-widest text-slate-400">↓ {formatKm(legs[i])}</div>}
+              </React.Fragment>
+            ))}
+          </div>
+          <div className="p-3 border-t border-slate-100 flex flex-wrap gap-2">
+            <button onClick={onAddCurrent} className="flex-1 inline-flex items-center justify-center gap-1.5 px-3 py-2 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 truncate" title={t('itinerary.add', { name: currentLocationName })}>
+              <Plus className="w-3.5 h-3.5" /> {t('itinerary.add', { name: currentLocationName })}
+            </button>
+            <button onClick={onOptimize} disabled={stops.length < 3} className="inline-flex items-center gap-1.5 px-3 py-2 bg-slate-100 text-slate-600 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 disabled:opacity-40" title={t('itinerary.optimizeHint')}>
+              <Shuffle className="w-3.5 h-3.5" /> {t('itinerary.optimize')}
+            </button>
+            <button onClick={onClear} disabled={stops.length === 0} className="p-2 bg-slate-100 text-slate-500 rounded-xl hover:bg-red-50 hover:text-red-600 disabled:opacity-40" aria-label={t('itinerary.clear')}><Trash2 className="w-3.5 h-3.5" /></button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+
+import React from 'react';
+import { Marker, Polyline, Popup, Tooltip } from 'react-leaflet';
+import L from 'leaflet';
+import { ItineraryStop } from '../types';
+import { formatKm, greatCirclePath, legDistancesKm } from '../utils/itinerary';
+import { useI18n } from './I18nProvider';
+
+const stopIcon = (index: number) => L.divIcon({
+  html: `<div style="width:28px;height:28px;border-radius:9999px;background:#4f46e5;color:#fff;border:3px solid #fff;box-shadow:0 4px 12px rgba(15,23,42,.35);display:flex;align-items:center;justify-content:center;font-weight:900;font-size:12px;font-family:inherit">${index + 1}</div>`,
+  className: '',
+  iconSize: [28, 28],
+  iconAnchor: [14, 14],
+});
+
+// Drawn inside the MapContainer: one great-circle line per leg and a numbered pin per stop.
+export function ItineraryRoute({
+  stops,
+  onRemove
+}: {
+  stops: ItineraryStop[],
+  onRemove: (id: string) => void
+}) {
+  const { t } = useI18n();
+  const legs = legDistancesKm(stops);
+  return (
+    <>
+      {legs.map((km, i) => (
+        <Polyline
+          key={`${stops[i].id}-${stops[i + 1].id}`}
+          positions={greatCirclePath(stops[i], stops[i + 1])}
+          pathOptions={{ color: '#4f46e5', weight: 4, opacity: 0.8, dashArray: '8 8' }}
+        >
+          <Tooltip sticky>{t('itinerary.leg', { from: i + 1, to: i + 2, distance: formatKm(km) })}</Tooltip>
+        </Polyline>
+      ))}
+      {stops.map((stop, i) => (
+        <Marker key={stop.id} position={[stop.lat, stop.lng]} icon={stopIcon(i)}>
+          <Popup>
+            <h3 className="font-black text-indigo-700">{i + 1}. {stop.name}</h3>
+            <button onClick={() => onRemove(stop.id)} className="mt-1 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-red-600">
+              {t('itinerary.removeFromItinerary')}
+            </button>
+          </Popup>
+        </Marker>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,185 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import { Layers, Plus, Trash2, X } from 'lucide-react';
+import { MessageKey } from '../locales/en';
+import {
+  LayerProtocol,
+  LayerRole,
+  LayerSettings,
+  MapLayerSource,
+  addCustomLayer,
+  allLayers,
+  removeCustomLayer,
+  selectBaseLayer,
+  setOverlayOpacity,
+  toggleOverlay,
+  validateLayerSource
+} from '../utils/mapLayers';
+import { useI18n } from './I18nProvider';
+
+// Built-in layers are named in the UI language; custom ones keep the name they were given.
+const BUILT_IN_NAMES: Record<string, MessageKey> = {
+  road: 'layers.builtIn.road',
+  satellite: 'layers.builtIn.satellite',
+  topo: 'layers.builtIn.topo',
+  dark: 'layers.builtIn.dark',
+  terrain: 'layers.builtIn.terrain',
+  labels: 'layers.builtIn.labels',
+  'roads-overlay': 'layers.builtIn.roads-overlay',
+  hillshade: 'layers.builtIn.hillshade',
+};
+
+const EMPTY_FORM = { name: '', protocol: 'xyz' as LayerProtocol, role: 'overlay' as LayerRole, url: '', wmsLayers: '', attribution: '' };
+
+const inputClass = 'w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700 outline-none focus:border-blue-400';
+
+// Sits inside the map's control column; the panel swallows clicks, drags and wheel
+// events so adjusting a slider doesn't pan the map or trigger a place lookup.
+export function LayerMenu({
+  settings,
+  onChange
+}: {
+  settings: LayerSettings,
+  onChange: (settings: LayerSettings) => void
+}) {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isAdding, setIsAdding] = useState(false);
+  const [formError, setFormError] = useState<MessageKey | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!panelRef.current) return;
+    L.DomEvent.disableClickPropagation(panelRef.current);
+    L.DomEvent.disableScrollPropagation(panelRef.current);
+  }, []);
+
+  const layers = allLayers(settings);
+  const bases = layers.filter(l => l.role === 'base');
+  const overlays = layers.filter(l => l.role === 'overlay');
+  const layerName = (layer: MapLayerSource) => !layer.custom && BUILT_IN_NAMES[layer.id] ? t(BUILT_IN_NAMES[layer.id]) : layer.name;
+
+  const handleAdd = () => {
+    const error = validateLayerSource(form);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+    onChange(addCustomLayer(settings, {
+      id: `custom-${Date.now()}`,
+      name: form.name.trim(),
+      role: form.role,
+      protocol: form.protocol,
+      url: form.url.trim(),
+      attribution: form.attribution.trim(),
+      wmsLayers: form.protocol === 'wms' ? form.wmsLayers.trim() : undefined,
+    }));
+    setForm(EMPTY_FORM);
+    setFormError(null);
+    setIsAdding(false);
+  };
+
+  const removeButton = (id: string) => (
+    <button onClick={() => onChange(removeCustomLayer(settings, id))} className="p-1 text-slate-300 hover:text-red-600" aria-label={t('layers.remove')}><Trash2 className="w-3.5 h-3.5" /></button>
+  );
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-3 bg-white/90 backdrop-blur border border-slate-200 rounded-2xl shadow-2xl hover:bg-slate-50 transition-all active:scale-90 flex items-center gap-2 text-slate-600"
+        aria-label={t('layers.label')}
+      >
+        <Layers className="w-5 h-5 text-blue-600" />
+      </button>
+      {isOpen && (
+        <div className="absolute end-full me-3 top-1/2 -translate-y-1/2 w-80 max-h-[70vh] overflow-y-auto bg-white border border-slate-200 rounded-2xl shadow-2xl">
+          <div className="px-4 py-3 border-b border-slate-50 flex items-center justify-between">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{t('layers.base')}</span>
+            <button onClick={() => setIsOpen(false)} className="p-1 text-slate-400 hover:text-slate-700" aria-label={t('layers.close')}><X className="w-4 h-4" /></button>
+          </div>
+          <div className="p-2 grid grid-cols-2 gap-1">
+            {bases.map(layer => (
+              <div key={layer.id} className="flex items-center">
+                <button
+                  onClick={() => onChange(selectBaseLayer(settings, layer.id))}
+                  className={`flex-1 px-3 py-2 rounded-xl text-xs font-black text-start truncate transition-all ${settings.baseId === layer.id ? 'bg-blue-600 text-white' : 'text-slate-600 hover:bg-slate-100'}`}
+                >
+                  {layerName(layer)}
+                </button>
+                {layer.custom && removeButton(layer.id)}
+              </div>
+            ))}
+          </div>
+
+          <div className="px-4 pt-3 pb-1 border-t border-slate-50 text-[10px] font-black uppercase tracking-widest text-slate-400">{t('layers.overlays')}</div>
+          {overlays.map(layer => {
+            const active = settings.overlays.find(o => o.id === layer.id);
+            return (
+              <div key={layer.id} className="px-4 py-2">
+                <div className="flex items-center gap-2">
+                  <label className="flex-1 flex items-center gap-2 text-xs font-black text-slate-700 cursor-pointer">
+                    <input type="checkbox" checked={!!active} onChange={() => onChange(toggleOverlay(settings, layer.id))} className="accent-blue-600" />
+                    <span className="truncate">{layerName(layer)}</span>
+                  </label>
+                  {active && <span className="text-[10px] font-black text-slate-400">{Math.round(active.opacity * 100)}%</span>}
+                  {layer.custom && removeButton(layer.id)}
+                </div>
+                {active && (
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={Math.round(active.opacity * 100)}
+                    onChange={(e) => onChange(setOverlayOpacity(settings, layer.id, Number(e.target.value) / 100))}
+                    className="w-full mt-1 accent-blue-600"
+                    aria-label={t('layers.opacity', { name: layerName(layer) })}
+                  />
+                )}
+              </div>
+            );
+          })}
+
+          <div className="p-3 border-t border-slate-50">
+            {isAdding ? (
+              <div className="flex flex-col gap-2">
+                <input className={inputClass} placeholder={t('layers.name')} value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+                <div className="flex gap-2">
+                  <select className={inputClass} value={form.protocol} onChange={(e) => setForm({ ...form, protocol: e.target.value as LayerProtocol })}>
+                    <option value="xyz">{t('layers.xyz')}</option>
+                    <option value="wms">{t('layers.wms')}</option>
+                  </select>
+                  <select className={inputClass} value={form.role} onChange={(e) => setForm({ ...form, role: e.target.value as LayerRole })}>
+                    <option value="overlay">{t('layers.overlay')}</option>
+                    <option value="base">{t('layers.base')}</option>
+                  </select>
+                </div>
+                <input
+                  className={inputClass}
+                  placeholder={form.protocol === 'xyz' ? 'https://tiles.example.com/{z}/{x}/{y}.png' : 'https://example.com/wms'}
+                  value={form.url}
+                  onChange={(e) => setForm({ ...form, url: e.target.value })}
+                />
+                {form.protocol === 'wms' && (
+                  <input className={inputClass} placeholder={t('layers.wmsLayers')} value={form.wmsLayers} onChange={(e) => setForm({ ...form, wmsLayers: e.target.value })} />
+                )}
+                <input className={inputClass} placeholder={t('layers.attribution')} value={form.attribution} onChange={(e) => setForm({ ...form, attribution: e.target.value })} />
+                {formError && <div className="text-[11px] font-bold text-red-600">{t(formError)}</div>}
+                <div className="flex gap-2">
+                  <button onClick={handleAdd} className="flex-1 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-xl text-[11px] font-black uppercase tracking-widest">{t('layers.add')}</button>
+                  <button onClick={() => { setIsAdding(false); setFormError(null); }} className="px-3 py-2 text-slate-500 hover:bg-slate-100 rounded-xl text-[11px] font-black uppercase tracking-widest">{t('layers.cancel')}</button>
+                </div>
+              </div>
+            ) : (
+              <button onClick={() => setIsAdding(true)} className="w-full flex items-center justify-center gap-2 py-2 text-slate-500 hover:bg-slate-100 rounded-xl text-[11px] font-black uppercase tracking-widest">
+                <Plus className="w-4 h-4" /> {t('layers.addSource')}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+
+import React, { useState } from 'react';
+import { Check, Languages } from 'lucide-react';
+import { LOCALES } from '../utils/i18n';
+import { useI18n } from './I18nProvider';
+
+export function LocaleMenu() {
+  const { locale, info, setLocale, t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="inline-flex items-center gap-2 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-xl text-[11px] font-black uppercase tracking-widest transition-all"
+        aria-label={t('locale.label')}
+      >
+        <Languages className="w-4 h-4" /> {info.code}
+      </button>
+      {isOpen && (
+        <div className="absolute start-0 top-full mt-2 w-48 bg-white border border-slate-200 rounded-2xl shadow-2xl z-[1500] overflow-hidden">
+          {Object.values(LOCALES).map(option => (
+            <button
+              key={option.code}
+              lang={option.code}
+              dir={option.dir}
+              onClick={() => { setLocale(option.code); setIsOpen(false); }}
+              className={`w-full flex items-center gap-2 px-4 py-3 text-sm font-black border-b border-slate-50 ${option.code === locale ? 'bg-blue-50 text-blue-700' : 'text-slate-700 hover:bg-slate-50'}`}
+            >
+              <span className="flex-1 text-start">{option.nativeName}</span>
+              {option.code === locale && <Check className="w-4 h-4" />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+
+import React from 'react';
+import { TileLayer, WMSTileLayer } from 'react-leaflet';
+import { LayerSettings, MapLayerSource, baseLayer, findLayer } from '../utils/mapLayers';
+
+const SourceLayer: React.FC<{ source: MapLayerSource, opacity: number, zIndex: number }> = ({ source, opacity, zIndex }) => {
+  if (source.protocol === 'wms') {
+    return (
+      <WMSTileLayer
+        url={source.url}
+        params={{ layers: source.wmsLayers || '', format: source.wmsFormat || 'image/png', transparent: source.role === 'overlay' }}
+        attribution={source.attribution}
+        opacity={opacity}
+        zIndex={zIndex}
+      />
+    );
+  }
+  return (
+    <TileLayer
+      url={source.url}
+      attribution={source.attribution}
+      opacity={opacity}
+      zIndex={zIndex}
+      maxZoom={source.maxZoom ?? 19}
+      {...(source.subdomains ? { subdomains: source.subdomains } : {})}
+    />
+  );
+};
+
+// Renders the active base layer and overlays inside the MapContainer. Keys include the
+// URL so editing a custom source remounts its layer instead of keeping stale tiles.
+export function MapLayers({ settings }: { settings: LayerSettings }) {
+  const base = baseLayer(settings);
+  return (
+    <>
+      <SourceLayer key={`${base.id}:${base.url}`} source={base} opacity={1} zIndex={1} />
+      {settings.overlays.map((overlay, i) => {
+        const source = findLayer(settings, overlay.id);
+        return source && <SourceLayer key={`${source.id}:${source.url}`} source={source} opacity={overlay.opacity} zIndex={10 + i} />;
+      })}
+    </>
+  );
+}
@@ -0,0 +1,148 @@
+
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Globe, MapPin } from 'lucide-react';
+import { Citation, GroundingSource } from '../types';
+import { insertCitationMarkers } from '../utils/citations';
+import { MarkdownBlock, MarkdownInline, parseMarkdown, sanitizeHref } from '../utils/markdown';
+import { useI18n } from './I18nProvider';
+
+const HEADING_CLASSES = ['text-xl', 'text-lg', 'text-base', 'text-[15px]', 'text-[15px]', 'text-[15px]'];
+
+const CitationMarker: React.FC<{
+  sources: GroundingSource[],
+  indices: number[],
+  onHoverSource: (source: GroundingSource | null) => void
+}> = ({ sources, indices, onHoverSource }) => {
+  return (
+    <sup className="ms-0.5 inline-flex gap-0.5">
+      {indices.map(i => {
+        const source = sources[i];
+        const href = source && sanitizeHref(source.uri);
+        const label = `${i + 1}`;
+        if (!source || !href) return <span key={i} className="text-[10px] font-black text-slate-400">[{label}]</span>;
+        return (
+          <a
+            key={i}
+            href={href}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={source.title}
+            onMouseEnter={() => onHoverSource(source)}
+            onMouseLeave={() => onHoverSource(null)}
+            className="px-1 rounded-md bg-blue-50 text-[10px] font-black text-blue-600 hover:bg-blue-600 hover:text-white no-underline"
+          >
+            {label}
+          </a>
+        );
+      })}
+    </sup>
+  );
+};
+
+const renderInline = (
+  nodes: MarkdownInline[],
+  sources: GroundingSource[],
+  onHoverSource: (source: GroundingSource | null) => void
+): React.ReactNode[] => nodes.map((node, i) => {
+  switch (node.type) {
+    case 'text':
+      return node.text;
+    case 'strong':
+      return <strong key={i} className="font-black">{renderInline(node.children, sources, onHoverSource)}</strong>;
+    case 'em':
+      return <em key={i}>{renderInline(node.children, sources, onHoverSource)}</em>;
+    case 'code':
+      return <code key={i} className="px-1.5 py-0.5 bg-slate-100 rounded-md text-[13px] font-mono">{node.text}</code>;
+    case 'link':
+      return <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline decoration-blue-200 hover:decoration-blue-600">{renderInline(node.children, sources, onHoverSource)}</a>;
+    case 'cite':
+      return <CitationMarker key={i} sources={sources} indices={node.sources} onHoverSource={onHoverSource} />;
+  }
+});
+
+const renderBlock = (
+  block: MarkdownBlock,
+  key: number,
+  sources: GroundingSource[],
+  onHoverSource: (source: GroundingSource | null) => void
+): React.ReactNode => {
+  const inline = (nodes: MarkdownInline[]) => renderInline(nodes, sources, onHoverSource);
+  switch (block.type) {
+    case 'paragraph':
+      return <p key={key} className="whitespace-pre-wrap">{inline(block.children)}</p>;
+    case 'heading':
+      return <p key={key} className={`${HEADING_CLASSES[block.level - 1]} font-black text-slate-900`}>{inline(block.children)}</p>;
+    case 'list':
+      return block.ordered ? (
+        <ol key={key} start={block.start} className="list-decimal ps-6 space-y-1">{block.items.map((item, i) => <li key={i}>{inline(item)}</li>)}</ol>
+      ) : (
+        <ul key={key} className="list-disc ps-6 space-y-1">{block.items.map((item, i) => <li key={i}>{inline(item)}</li>)}</ul>
+      );
+    case 'quote':
+      return <blockquote key={key} className="ps-4 border-s-4 border-slate-200 text-slate-600 whitespace-pre-wrap">{inline(block.children)}</blockquote>;
+    case 'code':
+      return <pre key={key} className="p-3 bg-slate-900 text-slate-100 rounded-xl text-[13px] font-mono overflow-x-auto"><code>{block.text}</code></pre>;
+  }
+};
+
+// Assistant replies as sanitized Markdown with [n] citations linked to the message's sources.
+export function MarkdownMessage({
+  content,
+  citations,
+  sources = [],
+  onHoverSource
+}: {
+  content: string,
+  citations?: Citation[],
+  sources?: GroundingSource[],
+  onHoverSource: (source: GroundingSource | null) => void
+}) {
+  const blocks = useMemo(() => parseMarkdown(insertCitationMarkers(content, citations)), [content, citations]);
+  return (
+    <div className="space-y-3">
+      {blocks.map((block, i) => renderBlock(block, i, sources, onHoverSource))}
+    </div>
+  );
+}
+
+export function SourceList({
+  sources,
+  onHoverSource
+}: {
+  sources: GroundingSource[],
+  onHoverSource: (source: GroundingSource | null) => void
+}) {
+  const { tn } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  return (
+    <div className="mt-4 pt-3 border-t border-slate-100">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-blue-600"
+        aria-expanded={isOpen}
+      >
+        {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        {tn('sources.count', sources.length)}
+      </button>
+      {isOpen && (
+        <ol className="mt-2 space-y-1">
+          {sources.map((source, i) => {
+            const href = sanitizeHref(source.uri);
+            const Icon = source.kind === 'maps' ? MapPin : Globe;
+            return (
+              <li key={i} className="flex items-start gap-2 text-xs font-bold text-slate-600" onMouseEnter={() => onHoverSource(source)} onMouseLeave={() => onHoverSource(null)}>
+                <span className="w-5 shrink-0 text-end text-[10px] font-black text-blue-600">{i + 1}</span>
+                <Icon className="w-3.5 h-3.5 mt-0.5 shrink-0 text-slate-400" />
+                {href ? (
+                  <a href={href} target="_blank" rel="noopener noreferrer" className="truncate hover:text-blue-600 hover:underline">{source.title || href}</a>
+                ) : (
+                  <span className="truncate">{source.title}</span>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+
+import React from 'react';
+import { MapPin, Navigation, Satellite, Sparkles } from 'lucide-react';
+import { PhotoCandidate, PhotoMatch } from '../types';
+import { placeLabel } from '../utils/i18n';
+import { confidencePercent, isConfidentMatch } from '../utils/photos';
+import { useI18n } from './I18nProvider';
+
+// Shown under a reply to a photo: where it was taken, or the model's ranked guesses, each
+// with a way to warp there and (for guesses) to find its pin on the map.
+export function PhotoMatchCard({
+  match,
+  pinIds,
+  highlightedId,
+  disabled,
+  onGoTo,
+  onShowPin
+}: {
+  match: PhotoMatch,
+  pinIds: string[],
+  highlightedId: string | null,
+  disabled: boolean,
+  onGoTo: (candidate: PhotoCandidate) => void,
+  onShowPin: (index: number) => void
+}) {
+  const { t } = useI18n();
+  const confident = isConfidentMatch(match);
+  const fromGps = match.source === 'exif';
+
+  return (
+    <div className="mt-4 rounded-2xl border border-slate-100 bg-slate-50/70 overflow-hidden">
+      <div className="flex items-center gap-1.5 px-3 py-2 text-[10px] font-black uppercase tracking-widest text-slate-400 border-b border-slate-100">
+        {fromGps ? <Satellite className="w-3.5 h-3.5 text-emerald-500" /> : <Sparkles className="w-3.5 h-3.5 text-blue-500" />}
+        {t(fromGps ? 'photo.fromGpsTags' : 'photo.modelGuess')}
+      </div>
+      {match.candidates.map((candidate, i) => {
+        const percent = confidencePercent(candidate.confidence);
+        const top = i === 0 && confident;
+        return (
+          <div key={pinIds[i]} className={`px-3 py-2.5 border-b border-slate-100 last:border-b-0 ${pinIds[i] === highlightedId ? 'bg-blue-50' : ''}`}>
+            <div className="flex items-center gap-2">
+              <span className="w-5 text-center text-[11px] font-black text-slate-400">{i + 1}</span>
+              <div className="flex-1 min-w-0">
+                <div className="truncate text-xs font-black text-slate-700">{placeLabel(candidate.name, candidate.localName)}</div>
+                {!fromGps && (
+                  <div className="mt-1 flex items-center gap-2">
+                    <div className="flex-1 h-1.5 rounded-full bg-slate-200 overflow-hidden">
+                      <div className={`h-full rounded-full ${top ? 'bg-emerald-500' : 'bg-blue-400'}`} style={{ width: `${percent}%` }} />
+                    </div>
+                    <span className="text-[10px] font-black text-slate-500 tabular-nums">{percent}%</span>
+                  </div>
+                )}
+              </div>
+              {!confident && (
+                <button onClick={() => onShowPin(i)} className="p-1.5 text-slate-400 hover:text-blue-600" aria-label={t('photo.showPin', { name: candidate.name })}>
+                  <MapPin className="w-4 h-4" />
+                </button>
+              )}
+              <button
+                onClick={() => onGoTo(candidate)}
+                disabled={disabled}
+                className={`px-2.5 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest flex items-center gap-1 transition-all active:scale-95 ${top ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-white border border-slate-200 text-slate-600 hover:border-blue-200'}`}
+              >
+                <Navigation className="w-3 h-3" /> {t('photo.goThere')}
+              </button>
+            </div>
+            {candidate.clues && <p dir="auto" className="mt-1 ps-7 text-[11px] font-medium text-slate-500">{candidate.clues}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+
+import React, { useEffect, useState } from 'react';
+import { Circle, CircleMarker, Marker, Polygon, Polyline, Rectangle, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { DrawnRegion } from '../types';
+import { circleRadiusKm, rectangleCorners } from '../utils/regions';
+
+export type DrawMode = DrawnRegion['kind'] | null;
+
+// Clicking this close (in pixels) to a polygon's first vertex closes it.
+const CLOSE_RADIUS_PX = 12;
+
+const KM_PER_DEGREE_LAT = 111.32;
+
+const handleIcon = L.divIcon({
+  html: '<div style="width:14px;height:14px;border-radius:4px;background:#fff;border:3px solid #f59e0b;box-shadow:0 2px 6px rgba(15,23,42,.35)"></div>',
+  className: '',
+  iconSize: [14, 14],
+  iconAnchor: [7, 7],
+});
+
+const REGION_STYLE = { color: '#0ea5e9', weight: 2, fillOpacity: 0.12 };
+const SELECTED_STYLE = { color: '#f59e0b', weight: 3, fillOpacity: 0.18 };
+const DRAFT_STYLE = { color: '#0ea5e9', weight: 2, dashArray: '6 6', fillOpacity: 0.08 };
+
+// A double-click arrives as two clicks first; drop the repeated vertices they leave behind.
+const dedupe = (points: [number, number][]) =>
+  points.filter((p, i) => i === 0 || Math.abs(p[0] - points[i - 1][0]) > 1e-9 || Math.abs(p[1] - points[i - 1][1]) > 1e-9);
+
+// Point on a circle's eastern edge, where its radius handle sits.
+const edgePoint = (region: DrawnRegion): [number, number] => {
+  const [lat, lng] = region.points[0];
+  const dLng = (region.radiusKm || 0) / (KM_PER_DEGREE_LAT * Math.max(Math.cos(lat * Math.PI / 180), 0.01));
+  return [lat, lng + dLng];
+};
+
+function EditHandles({ region, onUpdate }: { region: DrawnRegion, onUpdate: (region: DrawnRegion) => void }) {
+  const dragTo = (apply: (point: [number, number]) => DrawnRegion) => ({
+    drag: (e: L.LeafletEvent) => {
+      const { lat, lng } = (e.target as L.Marker).getLatLng();
+      onUpdate(apply([lat, lng]));
+    }
+  });
+
+  if (region.kind === 'circle') {
+    return (
+      <>
+        <Marker position={region.points[0]} icon={handleIcon} draggable eventHandlers={dragTo(p => ({ ...region, points: [p] }))} />
+        <Marker position={edgePoint(region)} icon={handleIcon} draggable eventHandlers={dragTo(p => ({ ...region, radiusKm: circleRadiusKm(region.points[0], p) }))} />
+      </>
+    );
+  }
+  return (
+    <>
+      {region.points.map((point, i) => (
+        <Marker
+          key={i}
+          position={point}
+          icon={handleIcon}
+          draggable
+          eventHandlers={dragTo(p => ({ ...region, points: region.points.map((q, j) => j === i ? p : q) }))}
+        />
+      ))}
+    </>
+  );
+}
+
+// Lives inside the MapContainer. In a draw mode, map clicks place corners, vertices or
+// the circle edge; otherwise shapes are clickable and the selected one gets drag handles.
+export function RegionDrawTool({
+  mode,
+  regions,
+  selectedId,
+  onCreate,
+  onUpdate,
+  onSelect,
+  onCancel
+}: {
+  mode: DrawMode,
+  regions: DrawnRegion[],
+  selectedId: string | null,
+  onCreate: (region: DrawnRegion) => void,
+  onUpdate: (region: DrawnRegion) => void,
+  onSelect: (id: string | null) => void,
+  onCancel: () => void
+}) {
+  const map = useMap();
+  const [draft, setDraft] = useState<[number, number][]>([]);
+  const [cursor, setCursor] = useState<[number, number] | null>(null);
+
+  useEffect(() => {
+    setDraft([]);
+    setCursor(null);
+    if (mode === 'polygon') map.doubleClickZoom.disable();
+    map.getContainer().style.cursor = mode ? 'crosshair' : '';
+    return () => {
+      map.doubleClickZoom.enable();
+      map.getContainer().style.cursor = '';
+    };
+  }, [mode, map]);
+
+  useEffect(() => {
+    if (!mode) return;
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onCancel(); };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [mode, onCancel]);
+
+  const finish = (region: Omit<DrawnRegion, 'id'>) => {
+    setDraft([]);
+    setCursor(null);
+    onCreate({ ...region, id: `region-${Date.now()}` });
+  };
+
+  useMapEvents({
+    click: (e) => {
+      if (!mode) return;
+      const point: [number, number] = [e.latlng.lat, e.latlng.lng];
+      if (mode === 'polygon') {
+        const ring = dedupe(draft);
+        if (ring.length >= 3 && map.latLngToContainerPoint(ring[0]).distanceTo(e.containerPoint) < CLOSE_RADIUS_PX) {
+          finish({ kind: 'polygon', points: ring });
+        } else {
+          setDraft([...draft, point]);
+        }
+        return;
+      }
+      if (draft.length === 0) {
+        setDraft([point]);
+      } else if (mode === 'rectangle') {
+        finish({ kind: 'rectangle', points: [draft[0], point] });
+      } else {
+        finish({ kind: 'circle', points: [draft[0]], radiusKm: circleRadiusKm(draft[0], point) });
+      }
+    },
+    dblclick: () => {
+      const ring = dedupe(draft);
+      if (mode === 'polygon' && ring.length >= 3) finish({ kind: 'polygon', points: ring });
+    },
+    mousemove: (e) => {
+      if (mode && draft.length > 0) setCursor([e.latlng.lat, e.latlng.lng]);
+    }
+  });
+
+  const selected = regions.find(r => r.id === selectedId);
+
+  return (
+    <>
+      {regions.map(region => {
+        // Shapes stop catching clicks while drawing, so new shapes can start inside old ones.
+        const key = `${region.id}-${mode ? 'drawing' : 'idle'}`;
+        const pathOptions = region.id === selectedId ? SELECTED_STYLE : REGION_STYLE;
+        const eventHandlers = { click: () => onSelect(region.id === selectedId ? null : region.id) };
+        return region.kind === 'circle' ? (
+          <Circle key={key} center={region.points[0]} radius={(region.radiusKm || 0) * 1000} pathOptions={pathOptions} eventHandlers={eventHandlers} interactive={!mode} bubblingMouseEvents={false} />
+        ) : (
+          <Polygon key={key} positions={region.kind === 'rectangle' ? rectangleCorners(region) : region.points} pathOptions={pathOptions} eventHandlers={eventHandlers} interactive={!mode} bubblingMouseEvents={false} />
+        );
+      })}
+
+      {mode === 'rectangle' && draft.length === 1 && cursor && <Rectangle bounds={[draft[0], cursor]} pathOptions={DRAFT_STYLE} interactive={false} />}
+      {mode === 'circle' && draft.length === 1 && cursor && <Circle center={draft[0]} radius={circleRadiusKm(draft[0], cursor) * 1000} pathOptions={DRAFT_STYLE} interactive={false} />}
+      {mode === 'polygon' && draft.length > 0 && (
+        <>
+          <Polyline positions={cursor ? [...draft, cursor] : draft} pathOptions={DRAFT_STYLE} interactive={false} />
+          {draft.map((p, i) => <CircleMarker key={i} center={p} radius={4} pathOptions={{ color: '#0ea5e9', fillOpacity: 1 }} interactive={false} />)}
+        </>
+      )}
+
+      {!mode && selected && <EditHandles region={selected} onUpdate={onUpdate} />}
+    </>
+  );
+}
@@ -0,0 +1,78 @@
+
+import React from 'react';
+import { CircleDashed, Pentagon, SquareDashed, Telescope, Trash2, X } from 'lucide-react';
+import { DrawnRegion } from '../types';
+import { Translate } from '../utils/i18n';
+import { formatArea, regionGeometry } from '../utils/regions';
+import { useI18n } from './I18nProvider';
+import { DrawMode } from './RegionDrawTool';
+
+const TOOLS: { mode: Exclude<DrawMode, null>; Icon: typeof SquareDashed }[] = [
+  { mode: 'rectangle', Icon: SquareDashed },
+  { mode: 'polygon', Icon: Pentagon },
+  { mode: 'circle', Icon: CircleDashed },
+];
+
+export const regionTitle = (region: DrawnRegion, index: number, t: Translate) =>
+  region.label ? t('regions.areaNear', { name: region.label }) : t('regions.numbered', { number: index + 1 });
+
+export function RegionPanel({
+  mode,
+  regions,
+  selectedId,
+  onModeChange,
+  onSelect,
+  onExplore,
+  onDelete
+}: {
+  mode: DrawMode,
+  regions: DrawnRegion[],
+  selectedId: string | null,
+  onModeChange: (mode: DrawMode) => void,
+  onSelect: (id: string | null) => void,
+  onExplore: (region: DrawnRegion) => void,
+  onDelete: (id: string) => void
+}) {
+  const { t } = useI18n();
+
+  return (
+    <div className="w-64 bg-white/95 backdrop-blur shadow-2xl rounded-2xl border border-slate-200 overflow-hidden pointer-events-auto">
+      <div className="flex p-1.5 gap-1">
+        {TOOLS.map(({ mode: toolMode, Icon }) => (
+          <button
+            key={toolMode}
+            onClick={() => onModeChange(mode === toolMode ? null : toolMode)}
+            className={`flex-1 flex items-center justify-center gap-1.5 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${mode === toolMode ? 'bg-sky-500 text-white' : 'text-slate-600 hover:bg-slate-100'}`}
+            aria-label={t('regions.draw', { tool: t(`regions.tool.${toolMode}`) })}
+          >
+            <Icon className="w-4 h-4" /> {t(`regions.tool.${toolMode}`)}
+          </button>
+        ))}
+      </div>
+      {mode && (
+        <div className="px-3 pb-2 flex items-center gap-2 text-[11px] font-bold text-sky-700">
+          <span className="flex-1">{t(`regions.hint.${mode}`)}</span>
+          <button onClick={() => onModeChange(null)} className="p-1 text-slate-400 hover:text-slate-700" aria-label={t('regions.cancel')}><X className="w-3.5 h-3.5" /></button>
+        </div>
+      )}
+      {regions.length > 0 && (
+        <div className="border-t border-slate-100 max-h-56 overflow-y-auto">
+          {regions.map((region, i) => (
+            <div
+              key={region.id}
+              onClick={() => onSelect(region.id === selectedId ? null : region.id)}
+              className={`flex items-center gap-2 px-3 py-2 cursor-pointer ${region.id === selectedId ? 'bg-amber-50' : 'hover:bg-slate-50'}`}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="text-xs font-black text-slate-700 truncate">{regionTitle(region, i, t)}</div>
+                <div className="text-[10px] font-bold text-slate-400">{formatArea(regionGeometry(region).areaKm2)}{region.id === selectedId ? ` · ${t('regions.attached')}` : ''}</div>
+              </div>
+              <button onClick={(e) => { e.stopPropagation(); onExplore(region); }} className="p-1.5 text-slate-400 hover:text-blue-600" aria-label={t('regions.explore')} title={t('regions.exploreHint')}><Telescope className="w-4 h-4" /></button>
+              <button onClick={(e) => { e.stopPropagation(); onDelete(region.id); }} className="p-1.5 text-slate-400 hover:text-red-600" aria-label={t('regions.delete')}><Trash2 className="w-4 h-4" /></button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Marker, Popup, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { ExternalLink, Plus } from 'lucide-react';
+import { LocationResult } from '../types';
+import { isValidLatLng } from '../utils/geo';
+import { useI18n } from './I18nProvider';
+
+// Markers closer than this many screen pixels collapse into one cluster bubble.
+const CLUSTER_RADIUS_PX = 48;
+
+interface PlacedResult extends LocationResult {
+  id: string;
+  latitude: number;
+  longitude: number;
+}
+
+interface Cluster {
+  key: string;
+  lat: number;
+  lng: number;
+  members: PlacedResult[];
+}
+
+const HighlightIcon = L.icon({
+  iconUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon-2x.png',
+  shadowUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png',
+  iconSize: [30, 49],
+  iconAnchor: [15, 49],
+  popupAnchor: [1, -40],
+});
+
+const clusterIcon = (count: number, highlighted: boolean) => L.divIcon({
+  html: `<div style="width:40px;height:40px;border-radius:9999px;background:${highlighted ? '#f59e0b' : '#2563eb'};color:#fff;border:3px solid #fff;box-shadow:0 4px 12px rgba(15,23,42,.35);display:flex;align-items:center;justify-content:center;font-weight:900;font-size:13px;font-family:inherit">${count}</div>`,
+  className: '',
+  iconSize: [40, 40],
+  iconAnchor: [20, 20],
+});
+
+// Greedy screen-space clustering: each marker joins the first cluster within range.
+const clusterResults = (map: L.Map, results: PlacedResult[]): Cluster[] => {
+  const zoom = map.getZoom();
+  const clusters: (Cluster & { point: L.Point })[] = [];
+  results.forEach(r => {
+    const point = map.project([r.latitude, r.longitude], zoom);
+    const hit = clusters.find(c => c.point.distanceTo(point) <= CLUSTER_RADIUS_PX);
+    if (hit) {
+      hit.members.push(r);
+      hit.lat = hit.members.reduce((sum, m) => sum + m.latitude, 0) / hit.members.length;
+      hit.lng = hit.members.reduce((sum, m) => sum + m.longitude, 0) / hit.members.length;
+    } else {
+      clusters.push({ key: r.id, lat: r.latitude, lng: r.longitude, members: [r], point });
+    }
+  });
+  return clusters;
+};
+
+export function ResultMarkers({
+  results,
+  highlightedId,
+  hoveredId = null,
+  onSelect,
+  onAddStop
+}: {
+  results: LocationResult[],
+  highlightedId: string | null,
+  // Lit up without flying or opening a popup, e.g. while a cited source is hovered.
+  hoveredId?: string | null,
+  onSelect: (id: string) => void,
+  onAddStop?: (result: LocationResult) => void
+}) {
+  const map = useMap();
+  const { t } = useI18n();
+  const [zoom, setZoom] = useState(map.getZoom());
+  const markerRefs = useRef<Record<string, L.Marker | null>>({});
+
+  useMapEvents({ zoomend: () => setZoom(map.getZoom()) });
+
+  const placed = useMemo(() => results
+    .filter((r): r is PlacedResult => !!r.id && isValidLatLng(r.latitude, r.longitude)), [results]);
+
+  const clusters = useMemo(() => clusterResults(map, placed), [map, placed, zoom]);
+
+  // Fit the map around a fresh set of results once they have coordinates.
+  const fitKey = placed.map(r => r.id).join('|');
+  useEffect(() => {
+    if (placed.length === 0) return;
+    if (placed.length === 1) {
+      map.flyTo([placed[0].latitude, placed[0].longitude], Math.max(map.getZoom(), 15), { duration: 1.5 });
+    } else {
+      map.flyToBounds(L.latLngBounds(placed.map(r => [r.latitude, r.longitude] as [number, number])), { padding: [60, 60], duration: 1.5 });
+    }
+  }, [fitKey]);
+
+  // Selecting a result from the chat zooms in far enough to break its cluster and opens its popup.
+  useEffect(() => {
+    if (!highlightedId) return;
+    const target = placed.find(r => r.id === highlightedId);
+    if (!target) return;
+    const inCluster = clusters.some(c => c.members.length > 1 && c.members.some(m => m.id === highlightedId));
+    if (inCluster) {
+      map.flyTo([target.latitude, target.longitude], Math.min(map.getMaxZoom(), map.getZoom() + 3), { duration: 1 });
+    } else {
+      markerRefs.current[highlightedId]?.openPopup();
+    }
+  }, [highlightedId, clusters]);
+
+  return (
+    <>
+      {clusters.map(cluster => {
+        if (cluster.members.length > 1) {
+          return (
+            <Marker
+              key={`cluster-${cluster.key}`}
+              position={[cluster.lat, cluster.lng]}
+              icon={clusterIcon(cluster.members.length, !!hoveredId && cluster.members.some(m => m.id === hoveredId))}
+              eventHandlers={{
+                click: () => map.flyToBounds(L.latLngBounds(cluster.members.map(m => [m.latitude, m.longitude] as [number, number])), { padding: [60, 60], duration: 1 })
+              }}
+            />
+          );
+        }
+        const loc = cluster.members[0];
+        return (
+          <Marker
+            key={loc.id}
+            position={[loc.latitude, loc.longitude]}
+            icon={loc.id === highlightedId || loc.id === hoveredId ? HighlightIcon : L.Marker.prototype.options.icon as L.Icon}
+            ref={(ref) => { markerRefs.current[loc.id] = ref; }}
+            eventHandlers={{ click: () => onSelect(loc.id) }}
+          >
+            <Popup>
+              <h3 className="font-black text-blue-700">{loc.title}</h3>
+              {loc.uri && (
+                <a href={loc.uri} target="_blank" rel="noopener noreferrer" className="mt-1 inline-flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-blue-600">
+                  <ExternalLink className="w-3 h-3" /> {t('map.viewOnGoogleMaps')}
+                </a>
+              )}
+              {onAddStop && (
+                <button onClick={() => onAddStop(loc)} className="mt-1 flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800">
+                  <Plus className="w-3 h-3" /> {t('map.addToItinerary')}
+                </button>
+              )}
+            </Popup>
+          </Marker>
+        );
+      })}
+    </>
+  );
+}
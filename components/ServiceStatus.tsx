@@ -0,0 +1,52 @@
+
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Loader2, RefreshCw } from 'lucide-react';
+import { MessageError } from '../types';
+import { RetryNotice } from '../services/serviceErrors';
+import { useI18n } from './I18nProvider';
+
+export function ErrorNotice({
+  error,
+  disabled,
+  onRetry
+}: {
+  error: MessageError,
+  disabled: boolean,
+  onRetry: () => void
+}) {
+  // A rejected key fails the same way every time; retrying only helps once it is fixed.
+  const canRetry = !!error.retry && error.kind !== 'auth';
+  const { t } = useI18n();
+  return (
+    <div className="mt-3 p-3 bg-red-50 border border-red-100 rounded-2xl flex items-start gap-3">
+      <AlertCircle className="w-4 h-4 text-red-500 mt-0.5 flex-shrink-0" />
+      <div className="flex-1">
+        <div className="text-[10px] font-black uppercase tracking-widest text-red-600">{t(`errors.${error.kind}.title`)}</div>
+        <div className="text-xs font-bold text-red-900/70 mt-1">{t(`errors.${error.kind}.message`)}</div>
+      </div>
+      {canRetry && (
+        <button onClick={onRetry} disabled={disabled} className="flex-shrink-0 px-3 py-1.5 bg-white border border-red-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-red-600 hover:bg-red-100 transition-all active:scale-95 disabled:opacity-40 flex items-center gap-1.5">
+          <RefreshCw className="w-3 h-3" /> {t('errors.retry')}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export function RetryCountdown({ notice, until }: { notice: RetryNotice, until: number }) {
+  const [now, setNow] = useState(Date.now());
+  const { t } = useI18n();
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [until]);
+
+  const seconds = Math.max(0, Math.ceil((until - now) / 1000));
+  return (
+    <div className="flex items-center gap-3 text-amber-600 p-3 text-xs font-black uppercase tracking-widest">
+      <Loader2 className="w-4 h-4 animate-spin" />
+      {t(`errors.${notice.error.kind}.title`)} · {seconds > 0 ? t('errors.retryingIn', { seconds }) : t('errors.retryingNow')} {t('errors.attempt', { attempt: notice.attempt, max: notice.maxRetries })}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+
+import React, { useState } from 'react';
+import { Check, FolderOpen, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { StoredSession } from '../types';
+import { useI18n } from './I18nProvider';
+
+export function SessionMenu({
+  sessions,
+  activeId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDelete
+}: {
+  sessions: StoredSession[],
+  activeId: string | null,
+  onSwitch: (id: string) => void,
+  onCreate: () => void,
+  onRename: (id: string, name: string) => void,
+  onDelete: (id: string) => void
+}) {
+  const { locale, t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const active = sessions.find(s => s.id === activeId);
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="inline-flex items-center gap-2 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-xl text-[11px] font-black uppercase tracking-widest transition-all max-w-[220px]"
+        aria-label={t('sessions.label')}
+      >
+        <FolderOpen className="w-4 h-4 flex-shrink-0" />
+        <span className="truncate">{active?.name || t('sessions.fallback')}</span>
+      </button>
+      {isOpen && (
+        <div className="absolute start-0 top-full mt-2 w-80 bg-white border border-slate-200 rounded-2xl shadow-2xl z-[1500] overflow-hidden">
+          <div className="max-h-72 overflow-y-auto">
+            {sessions.map(session => (
+              <div key={session.id} className={`flex items-center gap-2 px-4 py-3 border-b border-slate-50 ${session.id === activeId ? 'bg-blue-50' : 'hover:bg-slate-50'}`}>
+                {editingId === session.id ? (
+                  <>
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingId(null); }}
+                      className="flex-1 min-w-0 px-2 py-1 text-sm font-bold border border-slate-200 rounded-lg outline-none focus:border-blue-400"
+                    />
+                    <button onClick={commitRename} className="p-1.5 text-blue-600 hover:bg-blue-100 rounded-lg" aria-label={t('sessions.saveName')}><Check className="w-4 h-4" /></button>
+                    <button onClick={() => setEditingId(null)} className="p-1.5 text-slate-400 hover:bg-slate-100 rounded-lg" aria-label={t('sessions.cancelRename')}><X className="w-4 h-4" /></button>
+                  </>
+                ) : (
+                  <>
+                    <button onClick={() => { onSwitch(session.id); setIsOpen(false); }} className="flex-1 min-w-0 text-start">
+                      <p className="text-sm font-black text-slate-800 truncate">{session.name}</p>
+                      <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest truncate">
+                        {session.snapshot.currentLocationName} · {new Date(session.updatedAt).toLocaleDateString(locale)}
+                      </p>
+                    </button>
+                    <button onClick={() => { setEditingId(session.id); setDraftName(session.name); }} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-lg" aria-label={t('sessions.rename')}><Pencil className="w-4 h-4" /></button>
+                    <button onClick={() => onDelete(session.id)} disabled={sessions.length <= 1} className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-30" aria-label={t('sessions.delete')}><Trash2 className="w-4 h-4" /></button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+          <button onClick={() => { onCreate(); setIsOpen(false); }} className="w-full flex items-center justify-center gap-2 p-3 text-xs font-black uppercase tracking-widest text-blue-600 hover:bg-blue-50 transition-all">
+            <Plus className="w-4 h-4" /> {t('sessions.new')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, Moon, Sun, Sunrise, Sunset } from 'lucide-react';
+import { dayPhase, SUN_ALTITUDES, SunBand, sunPosition, sunTimes } from '../utils/solar';
+import { findTimeZone, formatUtcOffset, isDaylightSaving, zoneNoon, zoneOffsetMinutes } from '../utils/timeZones';
+import { useI18n } from './I18nProvider';
+
+const BANDS = Object.keys(SUN_ALTITUDES) as SunBand[];
+
+// Local clock, sunrise/sunset and twilight for the place in focus, all worked out in the
+// browser from the bundled time-zone anchors and the solar formulas; no model call.
+export function SunPanel({
+  place,
+  showTerminator,
+  onShowTerminator
+}: {
+  place: { name: string; lat: number; lng: number },
+  showTerminator: boolean,
+  onShowTerminator: (show: boolean) => void
+}) {
+  const { locale, t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 15000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const zone = useMemo(() => findTimeZone(place.lat, place.lng), [place.lat, place.lng]);
+  const offset = zoneOffsetMinutes(zone.id, now);
+  const noon = zoneNoon(zone.id, now).getTime();
+  const times = useMemo(() => sunTimes(new Date(noon), place.lat, place.lng), [noon, place.lat, place.lng]);
+  const position = sunPosition(now, place.lat, place.lng);
+  const phase = dayPhase(position.elevation);
+
+  const clock = (date?: Date) => date ? date.toLocaleTimeString(locale, { timeZone: zone.id, hour: '2-digit', minute: '2-digit' }) : '—';
+  const zoneName = zone.nautical
+    ? t('sun.nautical')
+    : new Intl.DateTimeFormat(locale, { timeZone: zone.id, timeZoneName: 'long' }).formatToParts(now).find(p => p.type === 'timeZoneName')?.value || zone.id;
+
+  const sun = times.spans.sun;
+  const dayMinutes = sun.start && sun.end ? Math.round((sun.end.getTime() - sun.start.getTime()) / 60000) : sun.always === 'above' ? 24 * 60 : 0;
+
+  const spanText = (band: SunBand) => {
+    const span = times.spans[band];
+    if (span.always) return t(band === 'sun' ? (span.always === 'above' ? 'sun.polarDay' : 'sun.polarNight') : `sun.always.${span.always}`);
+    return `${clock(span.start)} – ${clock(span.end)}`;
+  };
+
+  const PhaseIcon = phase === 'day' ? Sun : phase === 'night' ? Moon : position.azimuth < 180 ? Sunrise : Sunset;
+
+  return (
+    <div className="w-72 bg-white/95 backdrop-blur shadow-2xl rounded-2xl border border-slate-200 overflow-hidden pointer-events-auto">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center gap-2 px-4 py-3 text-[11px] font-black uppercase tracking-widest text-slate-600 hover:bg-slate-50">
+        <PhaseIcon className={`w-4 h-4 ${phase === 'day' ? 'text-amber-500' : 'text-indigo-500'}`} />
+        <span className="flex-1 text-start truncate">{t('sun.title')}</span>
+        <span className="text-slate-800 tabular-nums">{zone.approximate && '≈ '}{clock(now)}</span>
+        {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+      {isOpen && (
+        <div className="border-t border-slate-100 px-4 py-3 space-y-3">
+          <div>
+            <div className="text-xs font-black text-slate-700 truncate">{place.name}</div>
+            <div className="text-[11px] font-bold text-slate-500">
+              {now.toLocaleDateString(locale, { timeZone: zone.id, weekday: 'long', month: 'long', day: 'numeric' })}
+            </div>
+            <div className="mt-1 text-[11px] font-bold text-slate-500">
+              {zoneName} · <span dir="ltr">{formatUtcOffset(offset)}</span>
+              {isDaylightSaving(zone.id, now) && <span className="ms-1 px-1.5 py-0.5 bg-amber-100 text-amber-700 rounded text-[9px] font-black uppercase">{t('sun.dst')}</span>}
+            </div>
+            {!zone.nautical && <div className="text-[10px] font-bold text-slate-400" dir="ltr">{zone.id}</div>}
+            {zone.approximate && <div className="mt-1 text-[10px] font-bold text-amber-600">{t('sun.approximate')}</div>}
+          </div>
+          <div className="flex items-center gap-2 px-3 py-2 bg-slate-50 rounded-xl">
+            <PhaseIcon className={`w-5 h-5 flex-shrink-0 ${phase === 'day' ? 'text-amber-500' : 'text-indigo-500'}`} />
+            <div className="min-w-0">
+              <div className="text-xs font-black text-slate-700">{t(`sun.phase.${phase}`)}</div>
+              <div className="text-[11px] font-bold text-slate-500">
+                {t('sun.position', { elevation: position.elevation.toFixed(1), azimuth: Math.round(position.azimuth) })}
+              </div>
+            </div>
+          </div>
+          <dl className="space-y-1.5 text-[11px]">
+            {BANDS.map(band => (
+              <div key={band} className="flex justify-between gap-2">
+                <dt className="font-bold text-slate-500">{t(`sun.band.${band}`)}</dt>
+                <dd className="font-black text-slate-700 tabular-nums">{spanText(band)}</dd>
+              </div>
+            ))}
+            <div className="flex justify-between gap-2">
+              <dt className="font-bold text-slate-500">{t('sun.solarNoon')}</dt>
+              <dd className="font-black text-slate-700 tabular-nums">{clock(times.solarNoon)} · {times.noonElevation.toFixed(1)}°</dd>
+            </div>
+            <div className="flex justify-between gap-2">
+              <dt className="font-bold text-slate-500">{t('sun.dayLength')}</dt>
+              <dd className="font-black text-slate-700 tabular-nums">{t('sun.duration', { hours: Math.floor(dayMinutes / 60), minutes: dayMinutes % 60 })}</dd>
+            </div>
+          </dl>
+          <label className="flex items-center gap-2 pt-3 border-t border-slate-100 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+            <input type="checkbox" checked={showTerminator} onChange={(e) => onShowTerminator(e.target.checked)} className="accent-indigo-500" />
+            {t('sun.showTerminator')}
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
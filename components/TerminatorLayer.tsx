@@ -0,0 +1,22 @@
+
+import React, { useEffect, useState } from 'react';
+import { Polygon } from 'react-leaflet';
+import { nightPolygon } from '../utils/solar';
+
+// Drawn inside the MapContainer: the half of the globe where the sun is down, redrawn every minute.
+export function TerminatorLayer() {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <Polygon
+      positions={nightPolygon(now)}
+      interactive={false}
+      pathOptions={{ stroke: false, fillColor: '#0f172a', fillOpacity: 0.3 }}
+    />
+  );
+}
@@ -0,0 +1,138 @@
+
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, History, MapPin, NotebookPen, Star } from 'lucide-react';
+import { Favorite, Visit } from '../types';
+import { findFavorite, samePlace } from '../utils/favorites';
+import { placeLabel } from '../utils/i18n';
+import { useI18n } from './I18nProvider';
+
+type Tab = 'visits' | 'favorites';
+
+type PlaceRow = {
+  id: string;
+  name: string;
+  localName?: string;
+  lat: number;
+  lng: number;
+  thumbnail?: string;
+  note?: string;
+  time: number;
+};
+
+const Thumbnail = ({ src }: { src?: string }) => src ? (
+  <img src={src} alt="" className="w-10 h-10 flex-shrink-0 rounded-lg object-cover bg-slate-100" onError={(e) => { (e.target as HTMLImageElement).style.visibility = 'hidden'; }} />
+) : (
+  <div className="w-10 h-10 flex-shrink-0 rounded-lg bg-slate-100 flex items-center justify-center"><MapPin className="w-4 h-4 text-slate-300" /></div>
+);
+
+// Every place visited this session (newest first) and the starred places, each with a note.
+// Clicking a row flies back to it; the star toggles it in and out of the favorites.
+export function TimelinePanel({
+  visits,
+  favorites,
+  current,
+  showFavoritesOnMap,
+  onVisit,
+  onToggleFavorite,
+  onVisitNote,
+  onFavoriteNote,
+  onShowFavoritesOnMap
+}: {
+  visits: Visit[],
+  favorites: Favorite[],
+  current?: { name: string; lat: number; lng: number },
+  showFavoritesOnMap: boolean,
+  onVisit: (place: { name: string; localName?: string; lat: number; lng: number }) => void,
+  onToggleFavorite: (place: Omit<Favorite, 'id' | 'addedAt'>) => void,
+  onVisitNote: (id: string, note: string) => void,
+  onFavoriteNote: (id: string, note: string) => void,
+  onShowFavoritesOnMap: (show: boolean) => void
+}) {
+  const { locale, t, tn } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [tab, setTab] = useState<Tab>('visits');
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const rows: PlaceRow[] = tab === 'visits'
+    ? [...visits].reverse().map(v => ({ ...v, time: v.visitedAt }))
+    : favorites.map(f => ({ ...f, time: f.addedAt }));
+
+  const formatTime = (time: number) => new Date(time).toLocaleString(locale, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  const tabClass = (value: Tab) => `flex-1 py-2 text-[10px] font-black uppercase tracking-widest ${tab === value ? 'text-amber-600 border-b-2 border-amber-500' : 'text-slate-400 hover:text-slate-600'}`;
+
+  return (
+    <div className="w-72 bg-white/95 backdrop-blur shadow-2xl rounded-2xl border border-slate-200 overflow-hidden pointer-events-auto">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center gap-2 px-4 py-3 text-[11px] font-black uppercase tracking-widest text-slate-600 hover:bg-slate-50">
+        <History className="w-4 h-4 text-amber-500" />
+        <span className="flex-1 text-start">{tn('timeline.title', visits.length)}</span>
+        {favorites.length > 0 && <span className="inline-flex items-center gap-1 text-amber-600"><Star className="w-3.5 h-3.5 fill-current" />{favorites.length}</span>}
+        {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+      </button>
+      {isOpen && (
+        <div className="border-t border-slate-100">
+          <div className="flex border-b border-slate-100">
+            <button onClick={() => setTab('visits')} className={tabClass('visits')}>{t('timeline.visits')}</button>
+            <button onClick={() => setTab('favorites')} className={tabClass('favorites')}>{t('timeline.favorites')}</button>
+          </div>
+          <div className="max-h-72 overflow-y-auto">
+            {rows.length === 0 && (
+              <div className="px-4 py-3 text-xs font-bold text-slate-400">{t(tab === 'visits' ? 'timeline.empty' : 'timeline.noFavorites')}</div>
+            )}
+            {rows.map(row => {
+              const starred = tab === 'favorites' || !!findFavorite(favorites, row);
+              const isCurrent = !!current && samePlace(row, current);
+              const label = placeLabel(row.name, row.localName);
+              return (
+                <div key={row.id} className={`px-3 py-2 border-b border-slate-50 ${isCurrent ? 'bg-amber-50/60' : ''}`}>
+                  <div className="flex items-center gap-2">
+                    <button onClick={() => onVisit(row)} className="flex-1 min-w-0 flex items-center gap-2 text-start" title={t('timeline.goTo', { name: label })}>
+                      <Thumbnail src={row.thumbnail} />
+                      <span className="min-w-0">
+                        <span className="block truncate text-xs font-black text-slate-700">{label}</span>
+                        <span className="block text-[10px] font-bold text-slate-400">{isCurrent ? t('timeline.here') : formatTime(row.time)}</span>
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => setEditingId(editingId === row.id ? null : row.id)}
+                      className={`p-1 hover:text-slate-700 ${row.note ? 'text-amber-600' : 'text-slate-300'}`}
+                      aria-label={t('timeline.note')}
+                    >
+                      <NotebookPen className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => onToggleFavorite(row)}
+                      className={`p-1 ${starred ? 'text-amber-500' : 'text-slate-300 hover:text-amber-500'}`}
+                      aria-label={t(starred ? 'timeline.unstar' : 'timeline.star')}
+                    >
+                      <Star className={`w-4 h-4 ${starred ? 'fill-current' : ''}`} />
+                    </button>
+                  </div>
+                  {editingId === row.id ? (
+                    <textarea
+                      value={row.note || ''}
+                      onChange={(e) => tab === 'visits' ? onVisitNote(row.id, e.target.value) : onFavoriteNote(row.id, e.target.value)}
+                      placeholder={t('timeline.notePlaceholder')}
+                      dir="auto"
+                      rows={2}
+                      className="mt-2 w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium text-slate-700 outline-none focus:border-amber-400 resize-none"
+                      autoFocus
+                    />
+                  ) : row.note && (
+                    <p dir="auto" className="mt-1 ps-12 text-[11px] font-medium text-slate-500 line-clamp-2">{row.note}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          {tab === 'favorites' && (
+            <label className="flex items-center gap-2 px-4 py-3 border-t border-slate-100 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+              <input type="checkbox" checked={showFavoritesOnMap} onChange={(e) => onShowFavoritesOnMap(e.target.checked)} className="accent-amber-500" />
+              {t('timeline.showOnMap')}
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
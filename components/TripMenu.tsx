@@ -0,0 +1,71 @@
+
+import React, { useRef, useState } from 'react';
+import { Download, Route, Upload } from 'lucide-react';
+import { TRIP_FORMATS, Trip, TripFormat, serializeTrip } from '../utils/tripFormats';
+import { useI18n } from './I18nProvider';
+
+const downloadText = (fileName: string, text: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'trip';
+
+export function TripMenu({
+  getTrip,
+  onImport
+}: {
+  getTrip: () => Trip,
+  onImport: (file: File) => void
+}) {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = (format: TripFormat) => {
+    const spec = TRIP_FORMATS.find(f => f.format === format)!;
+    const trip = getTrip();
+    downloadText(`${slugify(trip.name)}.${spec.extension}`, serializeTrip(trip, format), spec.mimeType);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="inline-flex items-center gap-2 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-xl text-[11px] font-black uppercase tracking-widest transition-all"
+        aria-label={t('trip.label')}
+      >
+        <Route className="w-4 h-4" /> {t('trip.button')}
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".geojson,.json,.kml,.gpx"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = '';
+          setIsOpen(false);
+        }}
+      />
+      {isOpen && (
+        <div className="absolute start-0 top-full mt-2 w-56 bg-white border border-slate-200 rounded-2xl shadow-2xl z-[1500] overflow-hidden">
+          {TRIP_FORMATS.map(f => (
+            <button key={f.format} onClick={() => handleExport(f.format)} className="w-full flex items-center gap-2 px-4 py-3 text-xs font-black uppercase tracking-widest text-slate-600 hover:bg-slate-50 border-b border-slate-50">
+              <Download className="w-4 h-4" /> {t('trip.export', { format: f.label })}
+            </button>
+          ))}
+          <button onClick={() => fileInputRef.current?.click()} className="w-full flex items-center gap-2 px-4 py-3 text-xs font-black uppercase tracking-widest text-blue-600 hover:bg-blue-50">
+            <Upload className="w-4 h-4" /> {t('trip.import')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
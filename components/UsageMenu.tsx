@@ -0,0 +1,74 @@
+
+import React, { useState } from 'react';
+import { Gauge, RotateCcw } from 'lucide-react';
+import { UsageSnapshot } from '../services/usageMeter';
+import { useI18n } from './I18nProvider';
+
+const formatTokens = (count: number) => count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+
+export function UsageMenu({
+  usage,
+  onReset
+}: {
+  usage: UsageSnapshot | null,
+  onReset: () => void
+}) {
+  const { locale, t, tn } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const models = usage?.models || [];
+  const totals = models.reduce((acc, m) => ({
+    calls: acc.calls + m.calls,
+    promptTokens: acc.promptTokens + m.promptTokens,
+    outputTokens: acc.outputTokens + m.outputTokens,
+    totalTokens: acc.totalTokens + m.totalTokens,
+  }), { calls: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0 });
+  const queued = (usage?.quota || []).reduce((sum, q) => sum + q.queued, 0);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="inline-flex items-center gap-2 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-xl text-[11px] font-black uppercase tracking-widest transition-all"
+        aria-label={t('usage.label')}
+      >
+        <Gauge className="w-4 h-4" /> {formatTokens(totals.totalTokens)}
+        {queued > 0 && <span className="px-1.5 bg-amber-100 text-amber-700 rounded-md">{t('usage.queued', { count: queued })}</span>}
+      </button>
+      {isOpen && (
+        <div className="absolute start-0 top-full mt-2 w-80 bg-white border border-slate-200 rounded-2xl shadow-2xl z-[1500] overflow-hidden">
+          <div className="px-4 py-3 border-b border-slate-50 flex items-center justify-between">
+            <div>
+              <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">{t('usage.since', { time: usage ? new Date(usage.since).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' }) : '—' })}</div>
+              <div className="text-sm font-black text-slate-800">{t('usage.summary', { calls: tn('usage.calls', totals.calls), input: formatTokens(totals.promptTokens), output: formatTokens(totals.outputTokens) })}</div>
+            </div>
+            <button onClick={onReset} className="p-2 text-slate-400 hover:text-blue-600" aria-label={t('usage.reset')}><RotateCcw className="w-4 h-4" /></button>
+          </div>
+          {models.length === 0 && <div className="px-4 py-3 text-xs font-bold text-slate-400">{t('usage.none')}</div>}
+          {models.map(m => {
+            const quota = usage?.quota.find(q => q.model === m.model);
+            const load = quota ? Math.min(1, quota.usedLastMinute / quota.requestsPerMinute) : 0;
+            return (
+              <div key={m.model} className="px-4 py-3 border-b border-slate-50">
+                <div className="flex items-center justify-between text-[11px] font-black text-slate-700">
+                  <span className="truncate">{m.model}</span>
+                  <span className="text-slate-400">{tn('usage.calls', m.calls)}</span>
+                </div>
+                <div className="text-[11px] font-bold text-slate-500 mt-0.5">{t('usage.tokens', { input: formatTokens(m.promptTokens), output: formatTokens(m.outputTokens) })}</div>
+                {quota && (
+                  <div className="mt-2">
+                    <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                      <div className={`h-full ${load >= 1 ? 'bg-red-500' : load > 0.7 ? 'bg-amber-500' : 'bg-blue-500'}`} style={{ width: `${load * 100}%` }} />
+                    </div>
+                    <div className="mt-1 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                      {t('usage.quota', { used: quota.usedLastMinute, limit: quota.requestsPerMinute, active: quota.active })}{quota.queued > 0 ? ` · ${t('usage.queued', { count: quota.queued })}` : ''}
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
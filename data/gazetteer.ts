@@ -0,0 +1,421 @@
+
+// Compact offline gazetteer: capitals, major cities and first-level admin areas.
+// Rows are tuples to keep the bundle small. Coordinates are city centres / area
+// centroids rounded to two decimals; alternate names are separated by "|".
+
+// [name, ISO country code, lat, lng, population in thousands, alternate names]
+export type CityRow = [string, string, number, number, number, string?];
+
+// [name, ISO country code, lat, lng, approximate radius in km, alternate names]
+export type AdminRow = [string, string, number, number, number, string?];
+
+export const CITIES: CityRow[] = [
+  // North America
+  ["New York", "US", 40.71, -74.01, 8336, "New York City|NYC"],
+  ["Los Angeles", "US", 34.05, -118.24, 3898, "LA"],
+  ["Chicago", "US", 41.88, -87.63, 2746],
+  ["Houston", "US", 29.76, -95.37, 2304],
+  ["Phoenix", "US", 33.45, -112.07, 1608],
+  ["Philadelphia", "US", 39.95, -75.17, 1603],
+  ["San Antonio", "US", 29.42, -98.49, 1434],
+  ["San Diego", "US", 32.72, -117.16, 1386],
+  ["Dallas", "US", 32.78, -96.80, 1304],
+  ["Austin", "US", 30.27, -97.74, 961],
+  ["San Francisco", "US", 37.77, -122.42, 815, "SF"],
+  ["Seattle", "US", 47.61, -122.33, 737],
+  ["Denver", "US", 39.74, -104.99, 715],
+  ["Washington", "US", 38.91, -77.04, 690, "Washington DC|Washington D.C."],
+  ["Boston", "US", 42.36, -71.06, 675],
+  ["Nashville", "US", 36.16, -86.78, 689],
+  ["Las Vegas", "US", 36.17, -115.14, 641],
+  ["Portland", "US", 45.52, -122.68, 652],
+  ["Miami", "US", 25.76, -80.19, 442],
+  ["Atlanta", "US", 33.75, -84.39, 499],
+  ["New Orleans", "US", 29.95, -90.07, 384],
+  ["Honolulu", "US", 21.31, -157.86, 350],
+  ["Anchorage", "US", 61.22, -149.90, 291],
+  ["Salt Lake City", "US", 40.76, -111.89, 200],
+  ["Minneapolis", "US", 44.98, -93.27, 429],
+  ["Detroit", "US", 42.33, -83.05, 639],
+  ["Tacoma", "US", 47.25, -122.44, 219],
+  ["Toronto", "CA", 43.65, -79.38, 2794],
+  ["Montreal", "CA", 45.50, -73.57, 1762, "Montréal"],
+  ["Vancouver", "CA", 49.28, -123.12, 662],
+  ["Calgary", "CA", 51.05, -114.07, 1306],
+  ["Ottawa", "CA", 45.42, -75.70, 1017],
+  ["Quebec City", "CA", 46.81, -71.21, 549, "Québec"],
+  ["Mexico City", "MX", 19.43, -99.13, 9209, "Ciudad de México|CDMX"],
+  ["Guadalajara", "MX", 20.66, -103.35, 1385],
+  ["Monterrey", "MX", 25.69, -100.32, 1142],
+  ["Cancun", "MX", 21.16, -86.85, 888, "Cancún"],
+  ["Oaxaca", "MX", 17.07, -96.72, 270, "Oaxaca de Juárez"],
+  ["Havana", "CU", 23.11, -82.37, 2132, "La Habana"],
+  ["Guatemala City", "GT", 14.63, -90.51, 3015],
+  ["Panama City", "PA", 8.98, -79.52, 880],
+  ["San José", "CR", 9.93, -84.08, 342, "San Jose"],
+  ["Kingston", "JM", 17.97, -76.79, 670],
+  ["Reykjavik", "IS", 64.15, -21.94, 139, "Reykjavík"],
+  ["Nuuk", "GL", 64.18, -51.72, 19],
+  // South America
+  ["São Paulo", "BR", -23.55, -46.63, 12325, "Sao Paulo"],
+  ["Rio de Janeiro", "BR", -22.91, -43.17, 6748, "Rio"],
+  ["Brasília", "BR", -15.79, -47.88, 3055, "Brasilia"],
+  ["Salvador", "BR", -12.97, -38.50, 2887],
+  ["Manaus", "BR", -3.12, -60.02, 2219],
+  ["Buenos Aires", "AR", -34.60, -58.38, 3075],
+  ["Córdoba", "AR", -31.42, -64.18, 1391, "Cordoba"],
+  ["Ushuaia", "AR", -54.80, -68.30, 82],
+  ["Santiago", "CL", -33.45, -70.67, 6257, "Santiago de Chile"],
+  ["Valparaíso", "CL", -33.05, -71.62, 296, "Valparaiso"],
+  ["Lima", "PE", -12.05, -77.04, 9752],
+  ["Cusco", "PE", -13.53, -71.97, 428, "Cuzco"],
+  ["Bogotá", "CO", 4.71, -74.07, 7181, "Bogota"],
+  ["Medellín", "CO", 6.24, -75.58, 2533, "Medellin"],
+  ["Cartagena", "CO", 10.39, -75.48, 914],
+  ["Quito", "EC", -0.18, -78.47, 2011],
+  ["Caracas", "VE", 10.48, -66.90, 2245],
+  ["La Paz", "BO", -16.50, -68.15, 757],
+  ["Uyuni", "BO", -20.46, -66.83, 29],
+  ["Montevideo", "UY", -34.90, -56.16, 1319],
+  ["Asunción", "PY", -25.26, -57.58, 525, "Asuncion"],
+  // Europe
+  ["London", "GB", 51.51, -0.13, 8982],
+  ["Edinburgh", "GB", 55.95, -3.19, 527],
+  ["Manchester", "GB", 53.48, -2.24, 553],
+  ["Dublin", "IE", 53.35, -6.26, 554],
+  ["Paris", "FR", 48.86, 2.35, 2161],
+  ["Marseille", "FR", 43.30, 5.37, 870],
+  ["Lyon", "FR", 45.76, 4.84, 516],
+  ["Nice", "FR", 43.70, 7.27, 342],
+  ["Madrid", "ES", 40.42, -3.70, 3223],
+  ["Barcelona", "ES", 41.39, 2.17, 1620],
+  ["Seville", "ES", 37.39, -5.98, 688, "Sevilla"],
+  ["Granada", "ES", 37.18, -3.60, 232],
+  ["Lisbon", "PT", 38.72, -9.14, 545, "Lisboa"],
+  ["Porto", "PT", 41.15, -8.61, 232],
+  ["Rome", "IT", 41.90, 12.50, 2873, "Roma"],
+  ["Milan", "IT", 45.46, 9.19, 1352, "Milano"],
+  ["Naples", "IT", 40.85, 14.27, 959, "Napoli"],
+  ["Venice", "IT", 45.44, 12.32, 259, "Venezia"],
+  ["Florence", "IT", 43.77, 11.26, 382, "Firenze"],
+  ["Berlin", "DE", 52.52, 13.40, 3645],
+  ["Munich", "DE", 48.14, 11.58, 1472, "München"],
+  ["Hamburg", "DE", 53.55, 9.99, 1841],
+  ["Frankfurt", "DE", 50.11, 8.68, 753],
+  ["Cologne", "DE", 50.94, 6.96, 1086, "Köln"],
+  ["Amsterdam", "NL", 52.37, 4.90, 873],
+  ["Rotterdam", "NL", 51.92, 4.48, 651],
+  ["Brussels", "BE", 50.85, 4.35, 185, "Bruxelles"],
+  ["Luxembourg", "LU", 49.61, 6.13, 125],
+  ["Zurich", "CH", 47.38, 8.54, 421, "Zürich"],
+  ["Geneva", "CH", 46.20, 6.14, 203, "Genève"],
+  ["Bern", "CH", 46.95, 7.45, 134],
+  ["Vienna", "AT", 48.21, 16.37, 1897, "Wien"],
+  ["Salzburg", "AT", 47.81, 13.06, 155],
+  ["Prague", "CZ", 50.08, 14.44, 1309, "Praha"],
+  ["Warsaw", "PL", 52.23, 21.01, 1794, "Warszawa"],
+  ["Kraków", "PL", 50.06, 19.94, 780, "Krakow|Cracow"],
+  ["Budapest", "HU", 47.50, 19.04, 1752],
+  ["Bratislava", "SK", 48.15, 17.11, 475],
+  ["Ljubljana", "SI", 46.06, 14.51, 295],
+  ["Zagreb", "HR", 45.81, 15.98, 767],
+  ["Dubrovnik", "HR", 42.65, 18.09, 42],
+  ["Belgrade", "RS", 44.79, 20.45, 1374, "Beograd"],
+  ["Sarajevo", "BA", 43.86, 18.41, 275],
+  ["Bucharest", "RO", 44.43, 26.10, 1716, "București"],
+  ["Sofia", "BG", 42.70, 23.32, 1236],
+  ["Athens", "GR", 37.98, 23.73, 664, "Athína"],
+  ["Thessaloniki", "GR", 40.64, 22.94, 325],
+  ["Santorini", "GR", 36.39, 25.46, 15, "Thira|Fira"],
+  ["Copenhagen", "DK", 55.68, 12.57, 644, "København"],
+  ["Oslo", "NO", 59.91, 10.75, 697],
+  ["Bergen", "NO", 60.39, 5.32, 285],
+  ["Tromsø", "NO", 69.65, 18.96, 77, "Tromso"],
+  ["Stockholm", "SE", 59.33, 18.07, 975],
+  ["Gothenburg", "SE", 57.71, 11.97, 583, "Göteborg"],
+  ["Helsinki", "FI", 60.17, 24.94, 656],
+  ["Tallinn", "EE", 59.44, 24.75, 437],
+  ["Riga", "LV", 56.95, 24.11, 605],
+  ["Vilnius", "LT", 54.69, 25.28, 588],
+  ["Kyiv", "UA", 50.45, 30.52, 2962, "Kiev"],
+  ["Lviv", "UA", 49.84, 24.03, 721],
+  ["Minsk", "BY", 53.90, 27.56, 2009],
+  ["Moscow", "RU", 55.76, 37.62, 12506, "Moskva"],
+  ["Saint Petersburg", "RU", 59.93, 30.34, 5384, "St Petersburg|St. Petersburg"],
+  ["Novosibirsk", "RU", 55.01, 82.93, 1625],
+  ["Vladivostok", "RU", 43.12, 131.89, 605],
+  ["Istanbul", "TR", 41.01, 28.98, 15462],
+  ["Ankara", "TR", 39.93, 32.86, 5663],
+  ["Göreme", "TR", 38.64, 34.83, 2, "Goreme"],
+  ["Valletta", "MT", 35.90, 14.51, 6],
+  ["Monaco", "MC", 43.74, 7.42, 39],
+  // Africa
+  ["Cairo", "EG", 30.04, 31.24, 9540],
+  ["Alexandria", "EG", 31.20, 29.92, 5200],
+  ["Luxor", "EG", 25.69, 32.64, 507],
+  ["Casablanca", "MA", 33.57, -7.59, 3360],
+  ["Marrakesh", "MA", 31.63, -7.99, 929, "Marrakech"],
+  ["Fez", "MA", 34.03, -5.00, 1112, "Fès"],
+  ["Rabat", "MA", 34.02, -6.84, 577],
+  ["Algiers", "DZ", 36.75, 3.06, 2364],
+  ["Tunis", "TN", 36.81, 10.18, 638],
+  ["Tripoli", "LY", 32.89, 13.19, 1126],
+  ["Lagos", "NG", 6.52, 3.38, 14862],
+  ["Abuja", "NG", 9.08, 7.40, 1235],
+  ["Accra", "GH", 5.60, -0.19, 2291],
+  ["Dakar", "SN", 14.72, -17.47, 1146],
+  ["Timbuktu", "ML", 16.77, -3.01, 33, "Tombouctou"],
+  ["Addis Ababa", "ET", 9.03, 38.74, 3384],
+  ["Nairobi", "KE", -1.29, 36.82, 4397],
+  ["Mombasa", "KE", -4.04, 39.67, 1208],
+  ["Dar es Salaam", "TZ", -6.79, 39.21, 4365],
+  ["Zanzibar City", "TZ", -6.17, 39.19, 709, "Stone Town|Zanzibar"],
+  ["Kampala", "UG", 0.35, 32.58, 1680],
+  ["Kigali", "RW", -1.95, 30.06, 1132],
+  ["Kinshasa", "CD", -4.44, 15.27, 14970],
+  ["Luanda", "AO", -8.84, 13.23, 2572],
+  ["Windhoek", "NA", -22.56, 17.08, 431],
+  ["Cape Town", "ZA", -33.92, 18.42, 4618],
+  ["Johannesburg", "ZA", -26.20, 28.05, 5635],
+  ["Durban", "ZA", -29.86, 31.02, 3442],
+  ["Antananarivo", "MG", -18.88, 47.51, 1275],
+  ["Victoria Falls", "ZW", -17.93, 25.84, 33],
+  ["Khartoum", "SD", 15.50, 32.56, 5274],
+  // Middle East & Central Asia
+  ["Jerusalem", "IL", 31.77, 35.21, 936],
+  ["Tel Aviv", "IL", 32.09, 34.78, 460],
+  ["Amman", "JO", 31.95, 35.93, 4007],
+  ["Petra", "JO", 30.33, 35.44, 0, "Wadi Musa"],
+  ["Beirut", "LB", 33.89, 35.50, 2424],
+  ["Damascus", "SY", 33.51, 36.29, 2079],
+  ["Baghdad", "IQ", 33.32, 44.37, 7216],
+  ["Tehran", "IR", 35.69, 51.39, 8694],
+  ["Isfahan", "IR", 32.65, 51.67, 1961, "Esfahan"],
+  ["Riyadh", "SA", 24.71, 46.68, 7676],
+  ["Mecca", "SA", 21.39, 39.86, 2042, "Makkah"],
+  ["Dubai", "AE", 25.20, 55.27, 3331],
+  ["Abu Dhabi", "AE", 24.45, 54.38, 1483],
+  ["Doha", "QA", 25.29, 51.53, 956],
+  ["Muscat", "OM", 23.59, 58.41, 1421],
+  ["Sana'a", "YE", 15.37, 44.19, 2545, "Sanaa"],
+  ["Hadibu", "YE", 12.65, 54.02, 9],
+  ["Kabul", "AF", 34.56, 69.21, 4434],
+  ["Tashkent", "UZ", 41.30, 69.24, 2571],
+  ["Samarkand", "UZ", 39.65, 66.96, 551],
+  ["Almaty", "KZ", 43.24, 76.89, 1977],
+  ["Astana", "KZ", 51.17, 71.45, 1136, "Nur-Sultan"],
+  ["Tbilisi", "GE", 41.72, 44.79, 1202],
+  ["Yerevan", "AM", 40.18, 44.51, 1093],
+  ["Baku", "AZ", 40.41, 49.87, 2293],
+  // South & East Asia
+  ["Delhi", "IN", 28.70, 77.10, 16787, "New Delhi"],
+  ["Mumbai", "IN", 19.08, 72.88, 12442, "Bombay"],
+  ["Bengaluru", "IN", 12.97, 77.59, 8443, "Bangalore"],
+  ["Kolkata", "IN", 22.57, 88.36, 4497, "Calcutta"],
+  ["Chennai", "IN", 13.08, 80.27, 4646, "Madras"],
+  ["Jaipur", "IN", 26.91, 75.79, 3046],
+  ["Agra", "IN", 27.18, 78.01, 1585],
+  ["Varanasi", "IN", 25.32, 82.97, 1198, "Benares"],
+  ["Karachi", "PK", 24.86, 67.01, 14910],
+  ["Lahore", "PK", 31.55, 74.34, 11126],
+  ["Islamabad", "PK", 33.68, 73.05, 1015],
+  ["Dhaka", "BD", 23.81, 90.41, 8906],
+  ["Kathmandu", "NP", 27.72, 85.32, 1442],
+  ["Thimphu", "BT", 27.47, 89.64, 115],
+  ["Colombo", "LK", 6.93, 79.86, 753],
+  ["Malé", "MV", 4.18, 73.51, 133, "Male"],
+  ["Beijing", "CN", 39.90, 116.41, 21542, "Peking"],
+  ["Shanghai", "CN", 31.23, 121.47, 24870],
+  ["Guangzhou", "CN", 23.13, 113.26, 18676, "Canton"],
+  ["Shenzhen", "CN", 22.54, 114.06, 17560],
+  ["Chengdu", "CN", 30.57, 104.07, 16330],
+  ["Xi'an", "CN", 34.34, 108.94, 12952, "Xian"],
+  ["Lhasa", "CN", 29.65, 91.17, 868],
+  ["Guilin", "CN", 25.27, 110.29, 4931],
+  ["Hong Kong", "HK", 22.32, 114.17, 7482],
+  ["Macau", "MO", 22.20, 113.54, 683, "Macao"],
+  ["Taipei", "TW", 25.03, 121.57, 2647],
+  ["Tokyo", "JP", 35.68, 139.69, 13960],
+  ["Osaka", "JP", 34.69, 135.50, 2691],
+  ["Kyoto", "JP", 35.01, 135.77, 1464],
+  ["Sapporo", "JP", 43.06, 141.35, 1973],
+  ["Hiroshima", "JP", 34.39, 132.46, 1199],
+  ["Seoul", "KR", 37.57, 126.98, 9776],
+  ["Busan", "KR", 35.18, 129.08, 3429],
+  ["Pyongyang", "KP", 39.04, 125.76, 2870],
+  ["Ulaanbaatar", "MN", 47.89, 106.91, 1466, "Ulan Bator"],
+  ["Bangkok", "TH", 13.76, 100.50, 10539],
+  ["Chiang Mai", "TH", 18.79, 98.99, 131],
+  ["Hanoi", "VN", 21.03, 105.85, 8054],
+  ["Ho Chi Minh City", "VN", 10.82, 106.63, 8993, "Saigon"],
+  ["Phnom Penh", "KH", 11.56, 104.92, 2129],
+  ["Siem Reap", "KH", 13.36, 103.86, 245],
+  ["Vientiane", "LA", 17.98, 102.63, 948],
+  ["Yangon", "MM", 16.87, 96.20, 5160, "Rangoon"],
+  ["Bagan", "MM", 21.17, 94.86, 0],
+  ["Kuala Lumpur", "MY", 3.14, 101.69, 1808],
+  ["Singapore", "SG", 1.35, 103.82, 5686],
+  ["Jakarta", "ID", -6.21, 106.85, 10562],
+  ["Denpasar", "ID", -8.65, 115.22, 726, "Bali"],
+  ["Yogyakarta", "ID", -7.80, 110.36, 373, "Jogja"],
+  ["Manila", "PH", 14.60, 120.98, 1847],
+  ["Cebu City", "PH", 10.32, 123.89, 964],
+  // Oceania
+  ["Sydney", "AU", -33.87, 151.21, 5312],
+  ["Melbourne", "AU", -37.81, 144.96, 5078],
+  ["Brisbane", "AU", -27.47, 153.03, 2560],
+  ["Perth", "AU", -31.95, 115.86, 2085],
+  ["Adelaide", "AU", -34.93, 138.60, 1376],
+  ["Canberra", "AU", -35.28, 149.13, 431],
+  ["Darwin", "AU", -12.46, 130.84, 147],
+  ["Hobart", "AU", -42.88, 147.33, 247],
+  ["Cairns", "AU", -16.92, 145.77, 153],
+  ["Alice Springs", "AU", -23.70, 133.88, 25],
+  ["Auckland", "NZ", -36.85, 174.76, 1657],
+  ["Wellington", "NZ", -41.29, 174.78, 215],
+  ["Christchurch", "NZ", -43.53, 172.64, 381],
+  ["Queenstown", "NZ", -45.03, 168.66, 16],
+  ["Suva", "FJ", -18.14, 178.44, 94],
+  ["Port Moresby", "PG", -9.44, 147.18, 364],
+  ["Papeete", "PF", -17.54, -149.57, 26],
+  ["Nouméa", "NC", -22.28, 166.46, 94, "Noumea"],
+];
+
+export const ADMIN_AREAS: AdminRow[] = [
+  // Countries
+  ["United States", "US", 39.83, -98.58, 2200, "USA|United States of America"],
+  ["Canada", "CA", 56.13, -106.35, 2500],
+  ["Mexico", "MX", 23.63, -102.55, 1100, "México"],
+  ["Brazil", "BR", -14.24, -51.93, 2100, "Brasil"],
+  ["Argentina", "AR", -38.42, -63.62, 1500],
+  ["Chile", "CL", -35.68, -71.54, 2000],
+  ["Peru", "PE", -9.19, -75.02, 900, "Perú"],
+  ["Colombia", "CO", 4.57, -74.30, 800],
+  ["Bolivia", "BO", -16.29, -63.59, 700],
+  ["Ecuador", "EC", -1.83, -78.18, 1100],
+  ["Iceland", "IS", 64.96, -19.02, 250],
+  ["Greenland", "GL", 71.71, -42.60, 1400],
+  ["United Kingdom", "GB", 55.38, -3.44, 600, "UK|Great Britain|Britain"],
+  ["Ireland", "IE", 53.41, -8.24, 250],
+  ["France", "FR", 46.23, 2.21, 600],
+  ["Spain", "ES", 40.46, -3.75, 600, "España"],
+  ["Portugal", "PT", 39.40, -8.22, 300],
+  ["Italy", "IT", 41.87, 12.57, 650, "Italia"],
+  ["Germany", "DE", 51.17, 10.45, 450, "Deutschland"],
+  ["Netherlands", "NL", 52.13, 5.29, 150, "Holland"],
+  ["Switzerland", "CH", 46.82, 8.23, 150],
+  ["Austria", "AT", 47.52, 14.55, 300],
+  ["Poland", "PL", 51.92, 19.15, 350],
+  ["Greece", "GR", 39.07, 21.82, 450],
+  ["Norway", "NO", 60.47, 8.47, 900],
+  ["Sweden", "SE", 60.13, 18.64, 800],
+  ["Finland", "FI", 61.92, 25.75, 600],
+  ["Ukraine", "UA", 48.38, 31.17, 650],
+  ["Russia", "RU", 61.52, 105.32, 4500, "Russian Federation"],
+  ["Turkey", "TR", 38.96, 35.24, 800, "Türkiye"],
+  ["Egypt", "EG", 26.82, 30.80, 700],
+  ["Morocco", "MA", 31.79, -7.09, 700],
+  ["Nigeria", "NG", 9.08, 8.68, 650],
+  ["Kenya", "KE", -0.02, 37.91, 550],
+  ["Tanzania", "TZ", -6.37, 34.89, 650],
+  ["Ethiopia", "ET", 9.15, 40.49, 750],
+  ["South Africa", "ZA", -30.56, 22.94, 900],
+  ["Madagascar", "MG", -18.77, 46.87, 800],
+  ["Namibia", "NA", -22.96, 18.49, 700],
+  ["Jordan", "JO", 30.59, 36.24, 250],
+  ["Israel", "IL", 31.05, 34.85, 250],
+  ["Saudi Arabia", "SA", 23.89, 45.08, 1200],
+  ["United Arab Emirates", "AE", 23.42, 53.85, 250, "UAE"],
+  ["Iran", "IR", 32.43, 53.69, 1100],
+  ["Yemen", "YE", 15.55, 48.52, 700],
+  ["India", "IN", 20.59, 78.96, 1700],
+  ["Pakistan", "PK", 30.38, 69.35, 850],
+  ["Nepal", "NP", 28.39, 84.12, 450],
+  ["China", "CN", 35.86, 104.20, 2500],
+  ["Mongolia", "MN", 46.86, 103.85, 1200],
+  ["Japan", "JP", 36.20, 138.25, 1300],
+  ["South Korea", "KR", 35.91, 127.77, 350, "Korea"],
+  ["Thailand", "TH", 15.87, 100.99, 800],
+  ["Vietnam", "VN", 14.06, 108.28, 900, "Viet Nam"],
+  ["Cambodia", "KH", 12.57, 104.99, 350],
+  ["Indonesia", "ID", -0.79, 113.92, 2600],
+  ["Philippines", "PH", 12.88, 121.77, 1000],
+  ["Malaysia", "MY", 4.21, 101.98, 1000],
+  ["Australia", "AU", -25.27, 133.78, 2300],
+  ["New Zealand", "NZ", -40.90, 174.89, 800, "Aotearoa"],
+  // Islands and regions that are popular warp targets
+  ["Vashon Island", "US", 47.42, -122.46, 15, "Vashon|Vashon-Maury Island"],
+  ["Socotra", "YE", 12.46, 53.82, 90, "Soqotra"],
+  ["Bali", "ID", -8.34, 115.09, 80],
+  ["Hawaii", "US", 19.90, -155.58, 400, "Hawai'i"],
+  ["Sicily", "IT", 37.60, 14.02, 150, "Sicilia"],
+  ["Crete", "GR", 35.24, 24.81, 150],
+  ["Tasmania", "AU", -41.45, 145.97, 250],
+  ["Patagonia", "AR", -41.81, -68.91, 1000],
+  ["Sahara", "DZ", 23.42, 25.66, 2500, "Sahara Desert"],
+  ["Cappadocia", "TR", 38.66, 34.85, 100, "Kapadokya"],
+  ["Salar de Uyuni", "BO", -20.13, -67.49, 80, "Uyuni Salt Flat"],
+  ["Galápagos Islands", "EC", -0.95, -90.97, 250, "Galapagos|Galápagos"],
+  ["Easter Island", "CL", -27.11, -109.35, 15, "Rapa Nui"],
+  ["Svalbard", "NO", 78.22, 15.65, 300],
+  // US states
+  ["Alabama", "US", 32.81, -86.79, 250],
+  ["Alaska", "US", 64.20, -149.49, 1000],
+  ["Arizona", "US", 34.05, -111.09, 350],
+  ["Arkansas", "US", 34.80, -92.20, 250],
+  ["California", "US", 36.78, -119.42, 600],
+  ["Colorado", "US", 39.55, -105.78, 350],
+  ["Connecticut", "US", 41.60, -72.76, 80],
+  ["Delaware", "US", 38.91, -75.53, 80],
+  ["Florida", "US", 27.66, -81.52, 500],
+  ["Idaho", "US", 44.07, -114.74, 400],
+  ["Illinois", "US", 40.63, -89.40, 350],
+  ["Indiana", "US", 40.27, -86.13, 250],
+  ["Iowa", "US", 41.88, -93.10, 300],
+  ["Kansas", "US", 39.01, -98.48, 350],
+  ["Kentucky", "US", 37.84, -84.27, 300],
+  ["Louisiana", "US", 30.98, -91.96, 300],
+  ["Maine", "US", 45.25, -69.45, 300],
+  ["Maryland", "US", 39.05, -76.64, 200],
+  ["Massachusetts", "US", 42.41, -71.38, 150],
+  ["Michigan", "US", 44.31, -85.60, 400],
+  ["Minnesota", "US", 46.73, -94.69, 400],
+  ["Mississippi", "US", 32.35, -89.40, 300],
+  ["Missouri", "US", 37.96, -91.83, 350],
+  ["Montana", "US", 46.88, -110.36, 500],
+  ["Nebraska", "US", 41.49, -99.90, 400],
+  ["Nevada", "US", 38.80, -116.42, 450],
+  ["New Hampshire", "US", 43.19, -71.57, 150],
+  ["New Jersey", "US", 40.06, -74.41, 150],
+  ["New Mexico", "US", 34.52, -105.87, 400],
+  ["New York State", "US", 43.30, -74.22, 400],
+  ["North Carolina", "US", 35.76, -79.02, 400],
+  ["North Dakota", "US", 47.55, -101.00, 350],
+  ["Ohio", "US", 40.42, -82.91, 250],
+  ["Oklahoma", "US", 35.01, -97.09, 400],
+  ["Oregon", "US", 43.80, -120.55, 400],
+  ["Pennsylvania", "US", 41.20, -77.19, 300],
+  ["Rhode Island", "US", 41.58, -71.48, 50],
+  ["South Carolina", "US", 33.84, -81.16, 250],
+  ["South Dakota", "US", 43.97, -99.90, 350],
+  ["Tennessee", "US", 35.52, -86.58, 400],
+  ["Texas", "US", 31.97, -99.90, 700],
+  ["Utah", "US", 39.32, -111.09, 350],
+  ["Vermont", "US", 44.56, -72.58, 150],
+  ["Virginia", "US", 37.43, -78.66, 350],
+  ["Washington State", "US", 47.75, -120.74, 350],
+  ["West Virginia", "US", 38.60, -80.45, 200],
+  ["Wisconsin", "US", 43.78, -88.79, 300],
+  ["Wyoming", "US", 43.08, -107.29, 350],
+  // Canadian provinces
+  ["British Columbia", "CA", 53.73, -127.65, 700],
+  ["Alberta", "CA", 53.93, -116.58, 600],
+  ["Ontario", "CA", 51.25, -85.32, 900],
+  ["Quebec", "CA", 52.94, -73.55, 1000, "Québec Province"],
+  ["Nova Scotia", "CA", 44.68, -63.74, 250],
+  // Australian states
+  ["New South Wales", "AU", -31.84, 145.61, 700, "NSW"],
+  ["Victoria", "AU", -37.47, 144.79, 400],
+  ["Queensland", "AU", -20.92, 142.70, 1100],
+  ["Western Australia", "AU", -27.67, 121.63, 1200],
+];
@@ -0,0 +1,743 @@
+
+// Compact offline time-zone boundaries. Instead of full polygons, each IANA zone is
+// described by a handful of anchor points spread across the area it covers; a point
+// belongs to the zone of its nearest anchor. That is right well inside a zone, but near
+// a border the nearest anchor can sit across it, and where anchors are sparse the wrong
+// side can reach a hundred km or more into a country. Borders where the neighbour's
+// clock differs and that are known to go wrong (Poland/Belarus, Iran/Afghanistan,
+// India/Nepal/Bhutan) carry extra anchors on both sides, and elsewhere findTimeZone
+// marks a match approximate when another clock's anchors are nearly as close. Points
+// further than MAX_ANCHOR_KM from every anchor fall back to the nautical zone for their
+// longitude.
+
+// [IANA zone, lat, lng]
+export type TimeZoneRow = [string, number, number];
+
+export const MAX_ANCHOR_KM = 900;
+
+export const TIME_ZONES: TimeZoneRow[] = [
+  // North America
+  ["America/New_York", 40.71, -74.01],
+  ["America/New_York", 42.36, -71.06],
+  ["America/New_York", 44.48, -73.21],
+  ["America/New_York", 38.91, -77.04],
+  ["America/New_York", 35.78, -78.64],
+  ["America/New_York", 33.75, -84.39],
+  ["America/New_York", 30.33, -81.66],
+  ["America/New_York", 25.76, -80.19],
+  ["America/New_York", 39.96, -82.99],
+  ["America/Detroit", 42.33, -83.05],
+  ["America/Detroit", 44.76, -85.62],
+  ["America/Indiana/Indianapolis", 39.77, -86.16],
+  ["America/Kentucky/Louisville", 38.25, -85.76],
+  ["America/Chicago", 41.88, -87.63],
+  ["America/Chicago", 44.98, -93.27],
+  ["America/Chicago", 43.04, -87.91],
+  ["America/Chicago", 38.63, -90.20],
+  ["America/Chicago", 36.16, -86.78],
+  ["America/Chicago", 32.30, -90.18],
+  ["America/Chicago", 29.95, -90.07],
+  ["America/Chicago", 32.78, -96.80],
+  ["America/Chicago", 29.76, -95.37],
+  ["America/Chicago", 29.42, -98.49],
+  ["America/Chicago", 35.47, -97.52],
+  ["America/Chicago", 39.10, -94.58],
+  ["America/Chicago", 41.26, -95.94],
+  ["America/Chicago", 46.81, -100.78],
+  ["America/Denver", 39.74, -104.99],
+  ["America/Denver", 40.76, -111.89],
+  ["America/Denver", 35.08, -106.65],
+  ["America/Denver", 46.59, -112.04],
+  ["America/Denver", 43.62, -116.20],
+  ["America/Denver", 41.14, -104.82],
+  ["America/Denver", 31.76, -106.49],
+  ["America/Phoenix", 33.45, -112.07],
+  ["America/Phoenix", 35.20, -111.65],
+  ["America/Phoenix", 32.22, -110.97],
+  ["America/Los_Angeles", 34.05, -118.24],
+  ["America/Los_Angeles", 37.77, -122.42],
+  ["America/Los_Angeles", 38.58, -121.49],
+  ["America/Los_Angeles", 40.80, -124.16],
+  ["America/Los_Angeles", 45.52, -122.68],
+  ["America/Los_Angeles", 47.61, -122.33],
+  ["America/Los_Angeles", 47.66, -117.43],
+  ["America/Los_Angeles", 36.17, -115.14],
+  ["America/Los_Angeles", 39.53, -119.81],
+  ["America/Los_Angeles", 32.72, -117.16],
+  ["America/Anchorage", 61.22, -149.90],
+  ["America/Anchorage", 64.84, -147.72],
+  ["America/Anchorage", 58.30, -134.42],
+  ["America/Anchorage", 71.29, -156.79],
+  ["America/Anchorage", 60.55, -165.0],
+  ["Pacific/Honolulu", 21.31, -157.86],
+  ["Pacific/Honolulu", 19.72, -155.09],
+  ["America/Toronto", 43.65, -79.38],
+  ["America/Toronto", 45.42, -75.70],
+  ["America/Toronto", 45.50, -73.57],
+  ["America/Toronto", 46.81, -71.21],
+  ["America/Toronto", 48.38, -89.25],
+  ["America/Toronto", 52.0, -77.0],
+  ["America/Halifax", 44.65, -63.57],
+  ["America/Halifax", 46.24, -63.13],
+  ["America/Halifax", 47.0, -66.0],
+  ["America/St_Johns", 47.56, -52.71],
+  ["America/St_Johns", 48.95, -57.95],
+  ["America/Goose_Bay", 53.30, -60.33],
+  ["America/Winnipeg", 49.90, -97.14],
+  ["America/Winnipeg", 55.0, -97.0],
+  ["America/Regina", 50.45, -104.61],
+  ["America/Regina", 52.13, -106.67],
+  ["America/Regina", 56.0, -106.0],
+  ["America/Edmonton", 53.55, -113.49],
+  ["America/Edmonton", 51.05, -114.07],
+  ["America/Edmonton", 57.0, -115.0],
+  ["America/Vancouver", 49.28, -123.12],
+  ["America/Vancouver", 53.92, -122.75],
+  ["America/Vancouver", 57.0, -125.0],
+  ["America/Whitehorse", 60.72, -135.06],
+  ["America/Whitehorse", 64.06, -139.43],
+  ["America/Yellowknife", 62.45, -114.37],
+  ["America/Yellowknife", 68.36, -133.72],
+  ["America/Iqaluit", 63.75, -68.52],
+  ["America/Iqaluit", 70.0, -80.0],
+  ["America/Cambridge_Bay", 69.12, -105.06],
+  ["America/Rankin_Inlet", 62.81, -92.09],
+  ["America/Nuuk", 64.18, -51.72],
+  ["America/Nuuk", 70.0, -45.0],
+  ["America/Nuuk", 76.0, -50.0],
+  ["America/Mexico_City", 19.43, -99.13],
+  ["America/Mexico_City", 20.67, -103.35],
+  ["America/Mexico_City", 17.07, -96.73],
+  ["America/Mexico_City", 16.75, -93.12],
+  ["America/Monterrey", 25.69, -100.32],
+  ["America/Merida", 20.97, -89.62],
+  ["America/Cancun", 21.16, -86.85],
+  ["America/Chihuahua", 28.63, -106.07],
+  ["America/Hermosillo", 29.07, -110.96],
+  ["America/Mazatlan", 23.25, -106.41],
+  ["America/Mazatlan", 24.14, -110.31],
+  ["America/Tijuana", 32.51, -117.04],
+  ["America/Tijuana", 30.0, -115.0],
+  ["America/Guatemala", 14.63, -90.51],
+  ["America/Belize", 17.50, -88.20],
+  ["America/El_Salvador", 13.69, -89.22],
+  ["America/Tegucigalpa", 14.07, -87.19],
+  ["America/Managua", 12.11, -86.24],
+  ["America/Costa_Rica", 9.93, -84.08],
+  ["America/Panama", 8.98, -79.52],
+  ["America/Havana", 23.11, -82.37],
+  ["America/Havana", 20.02, -75.82],
+  ["America/Jamaica", 18.02, -76.80],
+  ["America/Port-au-Prince", 18.54, -72.34],
+  ["America/Santo_Domingo", 18.49, -69.93],
+  ["America/Puerto_Rico", 18.47, -66.11],
+  ["America/Nassau", 25.05, -77.36],
+  ["America/Barbados", 13.10, -59.61],
+  ["America/Port_of_Spain", 10.65, -61.51],
+  ["America/Martinique", 14.60, -61.07],
+
+  // South America
+  ["America/Bogota", 4.71, -74.07],
+  ["America/Bogota", 6.24, -75.58],
+  ["America/Bogota", 10.39, -75.51],
+  ["America/Bogota", 1.0, -71.0],
+  ["America/Caracas", 10.48, -66.90],
+  ["America/Caracas", 6.0, -64.0],
+  ["America/Guyana", 6.80, -58.16],
+  ["America/Paramaribo", 5.85, -55.20],
+  ["America/Cayenne", 4.92, -52.31],
+  ["America/Guayaquil", -0.18, -78.47],
+  ["America/Guayaquil", -2.17, -79.92],
+  ["Pacific/Galapagos", -0.74, -90.31],
+  ["America/Lima", -12.05, -77.04],
+  ["America/Lima", -13.53, -71.97],
+  ["America/Lima", -3.75, -73.25],
+  ["America/La_Paz", -16.50, -68.15],
+  ["America/La_Paz", -17.78, -63.18],
+  ["America/Santiago", -33.45, -70.67],
+  ["America/Santiago", -23.65, -70.40],
+  ["America/Santiago", -39.81, -73.25],
+  ["America/Santiago", -45.57, -72.07],
+  ["America/Punta_Arenas", -53.16, -70.92],
+  ["Pacific/Easter", -27.11, -109.35],
+  ["America/Argentina/Buenos_Aires", -34.60, -58.38],
+  ["America/Argentina/Cordoba", -31.42, -64.18],
+  ["America/Argentina/Cordoba", -24.78, -65.41],
+  ["America/Argentina/Mendoza", -32.89, -68.83],
+  ["America/Argentina/Salta", -38.95, -68.06],
+  ["America/Argentina/Rio_Gallegos", -51.62, -69.22],
+  ["America/Argentina/Ushuaia", -54.80, -68.30],
+  ["America/Asuncion", -25.26, -57.58],
+  ["America/Montevideo", -34.90, -56.16],
+  ["America/Sao_Paulo", -23.55, -46.63],
+  ["America/Sao_Paulo", -22.91, -43.17],
+  ["America/Sao_Paulo", -19.92, -43.94],
+  ["America/Sao_Paulo", -15.79, -47.88],
+  ["America/Sao_Paulo", -25.43, -49.27],
+  ["America/Sao_Paulo", -30.03, -51.23],
+  ["America/Bahia", -12.97, -38.50],
+  ["America/Recife", -8.05, -34.88],
+  ["America/Fortaleza", -3.73, -38.52],
+  ["America/Belem", -1.46, -48.50],
+  ["America/Araguaina", -7.19, -48.21],
+  ["America/Cuiaba", -15.60, -56.10],
+  ["America/Campo_Grande", -20.44, -54.65],
+  ["America/Manaus", -3.12, -60.02],
+  ["America/Manaus", -0.5, -65.0],
+  ["America/Porto_Velho", -8.76, -63.90],
+  ["America/Boa_Vista", 2.82, -60.67],
+  ["America/Rio_Branco", -9.97, -67.81],
+  ["America/Santarem", -2.44, -54.71],
+  ["Atlantic/Stanley", -51.70, -57.85],
+
+  // Europe
+  ["Atlantic/Reykjavik", 64.15, -21.94],
+  ["Atlantic/Reykjavik", 65.68, -18.09],
+  ["Atlantic/Faroe", 62.01, -6.77],
+  ["Europe/Dublin", 53.35, -6.26],
+  ["Europe/Dublin", 52.66, -8.63],
+  ["Europe/London", 51.51, -0.13],
+  ["Europe/London", 53.48, -2.24],
+  ["Europe/London", 55.95, -3.19],
+  ["Europe/London", 57.48, -4.22],
+  ["Europe/London", 54.60, -5.93],
+  ["Europe/London", 50.37, -4.14],
+  ["Europe/London", 60.15, -1.15],
+  ["Europe/Lisbon", 38.72, -9.14],
+  ["Europe/Lisbon", 41.15, -8.61],
+  ["Europe/Lisbon", 37.02, -7.93],
+  ["Atlantic/Madeira", 32.65, -16.91],
+  ["Atlantic/Azores", 37.74, -25.67],
+  ["Atlantic/Canary", 28.12, -15.43],
+  ["Atlantic/Canary", 28.46, -16.25],
+  ["Europe/Madrid", 40.42, -3.70],
+  ["Europe/Madrid", 41.39, 2.17],
+  ["Europe/Madrid", 37.39, -5.98],
+  ["Europe/Madrid", 42.88, -8.54],
+  ["Europe/Madrid", 43.26, -2.93],
+  ["Europe/Madrid", 39.47, -0.38],
+  ["Europe/Madrid", 39.57, 2.65],
+  ["Europe/Paris", 48.86, 2.35],
+  ["Europe/Paris", 45.76, 4.84],
+  ["Europe/Paris", 43.30, 5.37],
+  ["Europe/Paris", 44.84, -0.58],
+  ["Europe/Paris", 47.22, -1.55],
+  ["Europe/Paris", 48.39, -4.49],
+  ["Europe/Paris", 48.57, 7.75],
+  ["Europe/Paris", 43.60, 1.44],
+  ["Europe/Paris", 42.04, 9.01],
+  ["Europe/Brussels", 50.85, 4.35],
+  ["Europe/Amsterdam", 52.37, 4.90],
+  ["Europe/Amsterdam", 53.22, 6.57],
+  ["Europe/Luxembourg", 49.61, 6.13],
+  ["Europe/Berlin", 52.52, 13.40],
+  ["Europe/Berlin", 53.55, 9.99],
+  ["Europe/Berlin", 48.14, 11.58],
+  ["Europe/Berlin", 50.94, 6.96],
+  ["Europe/Berlin", 50.11, 8.68],
+  ["Europe/Berlin", 51.34, 12.37],
+  ["Europe/Zurich", 47.38, 8.54],
+  ["Europe/Zurich", 46.20, 6.14],
+  ["Europe/Vienna", 48.21, 16.37],
+  ["Europe/Vienna", 47.27, 11.39],
+  ["Europe/Rome", 41.90, 12.50],
+  ["Europe/Rome", 45.46, 9.19],
+  ["Europe/Rome", 40.85, 14.27],
+  ["Europe/Rome", 38.12, 13.36],
+  ["Europe/Rome", 39.22, 9.12],
+  ["Europe/Rome", 41.12, 16.87],
+  ["Europe/Malta", 35.90, 14.51],
+  ["Europe/Copenhagen", 55.68, 12.57],
+  ["Europe/Copenhagen", 56.16, 10.20],
+  ["Europe/Oslo", 59.91, 10.75],
+  ["Europe/Oslo", 60.39, 5.32],
+  ["Europe/Oslo", 63.43, 10.40],
+  ["Europe/Oslo", 69.65, 18.96],
+  ["Arctic/Longyearbyen", 78.22, 15.65],
+  ["Europe/Stockholm", 59.33, 18.07],
+  ["Europe/Stockholm", 57.71, 11.97],
+  ["Europe/Stockholm", 63.83, 20.26],
+  ["Europe/Stockholm", 67.86, 20.23],
+  ["Europe/Helsinki", 60.17, 24.94],
+  ["Europe/Helsinki", 65.01, 25.47],
+  ["Europe/Helsinki", 68.66, 27.54],
+  ["Europe/Tallinn", 59.44, 24.75],
+  ["Europe/Riga", 56.95, 24.11],
+  ["Europe/Vilnius", 54.69, 25.28],
+  ["Europe/Warsaw", 52.23, 21.01],
+  ["Europe/Warsaw", 50.06, 19.94],
+  ["Europe/Warsaw", 54.35, 18.65],
+  ["Europe/Warsaw", 52.41, 16.93],
+  ["Europe/Warsaw", 53.13, 23.16],
+  ["Europe/Warsaw", 51.25, 22.57],
+  ["Europe/Warsaw", 50.04, 22.00],
+  ["Europe/Warsaw", 54.10, 22.93],
+  ["Europe/Prague", 50.08, 14.44],
+  ["Europe/Prague", 49.20, 16.61],
+  ["Europe/Bratislava", 48.15, 17.11],
+  ["Europe/Bratislava", 48.72, 21.26],
+  ["Europe/Budapest", 47.50, 19.04],
+  ["Europe/Ljubljana", 46.06, 14.51],
+  ["Europe/Zagreb", 45.81, 15.98],
+  ["Europe/Zagreb", 43.51, 16.44],
+  ["Europe/Sarajevo", 43.86, 18.41],
+  ["Europe/Belgrade", 44.79, 20.45],
+  ["Europe/Podgorica", 42.44, 19.26],
+  ["Europe/Tirane", 41.33, 19.82],
+  ["Europe/Skopje", 41.99, 21.43],
+  ["Europe/Athens", 37.98, 23.73],
+  ["Europe/Athens", 40.64, 22.94],
+  ["Europe/Athens", 35.34, 25.13],
+  ["Europe/Sofia", 42.70, 23.32],
+  ["Europe/Sofia", 43.21, 27.91],
+  ["Europe/Bucharest", 44.43, 26.10],
+  ["Europe/Bucharest", 46.77, 23.59],
+  ["Europe/Chisinau", 47.01, 28.86],
+  ["Europe/Kyiv", 50.45, 30.52],
+  ["Europe/Kyiv", 49.84, 24.03],
+  ["Europe/Kyiv", 46.48, 30.72],
+  ["Europe/Kyiv", 49.99, 36.23],
+  ["Europe/Kyiv", 51.22, 24.71],
+  ["Europe/Simferopol", 44.95, 34.10],
+  ["Europe/Minsk", 53.90, 27.56],
+  ["Europe/Minsk", 52.09, 23.69],
+  ["Europe/Minsk", 53.68, 23.83],
+  ["Europe/Kaliningrad", 54.71, 20.51],
+  ["Europe/Moscow", 55.76, 37.62],
+  ["Europe/Moscow", 59.93, 30.34],
+  ["Europe/Moscow", 64.54, 40.54],
+  ["Europe/Moscow", 68.97, 33.08],
+  ["Europe/Moscow", 51.67, 39.21],
+  ["Europe/Moscow", 47.24, 39.71],
+  ["Europe/Moscow", 43.59, 39.73],
+  ["Europe/Moscow", 55.79, 49.12],
+  ["Europe/Volgograd", 48.71, 44.51],
+  ["Europe/Samara", 53.20, 50.15],
+  ["Europe/Astrakhan", 46.35, 48.04],
+  ["Europe/Saratov", 51.53, 46.03],
+  ["Europe/Istanbul", 41.01, 28.98],
+  ["Europe/Istanbul", 39.93, 32.86],
+  ["Europe/Istanbul", 38.42, 27.14],
+  ["Europe/Istanbul", 36.90, 30.70],
+  ["Europe/Istanbul", 39.91, 41.28],
+  ["Europe/Istanbul", 37.91, 40.22],
+  ["Asia/Nicosia", 35.19, 33.38],
+
+  // Middle East and Central Asia
+  ["Asia/Jerusalem", 31.77, 35.21],
+  ["Asia/Jerusalem", 32.79, 34.99],
+  ["Asia/Gaza", 31.50, 34.47],
+  ["Asia/Beirut", 33.89, 35.50],
+  ["Asia/Damascus", 33.51, 36.29],
+  ["Asia/Damascus", 36.20, 37.13],
+  ["Asia/Amman", 31.95, 35.93],
+  ["Asia/Amman", 29.53, 35.01],
+  ["Asia/Baghdad", 33.31, 44.36],
+  ["Asia/Baghdad", 30.51, 47.78],
+  ["Asia/Baghdad", 36.19, 44.01],
+  ["Asia/Riyadh", 24.71, 46.68],
+  ["Asia/Riyadh", 21.49, 39.19],
+  ["Asia/Riyadh", 26.42, 50.09],
+  ["Asia/Riyadh", 18.22, 42.51],
+  ["Asia/Riyadh", 28.38, 36.57],
+  ["Asia/Aden", 12.79, 45.02],
+  ["Asia/Aden", 15.37, 44.19],
+  ["Asia/Muscat", 23.59, 58.41],
+  ["Asia/Muscat", 17.02, 54.09],
+  ["Asia/Dubai", 25.20, 55.27],
+  ["Asia/Dubai", 24.45, 54.38],
+  ["Asia/Qatar", 25.29, 51.53],
+  ["Asia/Bahrain", 26.23, 50.59],
+  ["Asia/Kuwait", 29.38, 47.99],
+  ["Asia/Tehran", 35.69, 51.39],
+  ["Asia/Tehran", 29.59, 52.58],
+  ["Asia/Tehran", 38.08, 46.29],
+  ["Asia/Tehran", 36.30, 59.60],
+  ["Asia/Tehran", 29.50, 60.86],
+  ["Asia/Tehran", 34.74, 60.78],
+  ["Asia/Tehran", 32.87, 59.22],
+  ["Asia/Tbilisi", 41.72, 44.79],
+  ["Asia/Yerevan", 40.18, 44.51],
+  ["Asia/Baku", 40.41, 49.87],
+  ["Asia/Kabul", 34.56, 69.21],
+  ["Asia/Kabul", 31.61, 65.71],
+  ["Asia/Kabul", 36.71, 67.11],
+  ["Asia/Kabul", 34.35, 62.20],
+  ["Asia/Kabul", 34.66, 61.06],
+  ["Asia/Kabul", 32.37, 62.11],
+  ["Asia/Kabul", 30.96, 61.86],
+  ["Asia/Kabul", 35.92, 64.78],
+  ["Asia/Kabul", 34.43, 70.45],
+  ["Asia/Karachi", 24.86, 67.01],
+  ["Asia/Karachi", 31.55, 74.34],
+  ["Asia/Karachi", 33.68, 73.05],
+  ["Asia/Karachi", 30.18, 66.98],
+  ["Asia/Karachi", 34.01, 71.58],
+  ["Asia/Ashgabat", 37.96, 58.33],
+  ["Asia/Ashgabat", 39.0, 63.0],
+  ["Asia/Tashkent", 41.30, 69.24],
+  ["Asia/Samarkand", 39.65, 66.96],
+  ["Asia/Samarkand", 42.46, 59.60],
+  ["Asia/Dushanbe", 38.56, 68.79],
+  ["Asia/Bishkek", 42.87, 74.59],
+  ["Asia/Almaty", 43.24, 76.89],
+  ["Asia/Almaty", 51.17, 71.45],
+  ["Asia/Almaty", 49.95, 82.61],
+  ["Asia/Qostanay", 53.21, 63.63],
+  ["Asia/Aqtobe", 50.28, 57.17],
+  ["Asia/Atyrau", 47.10, 51.92],
+  ["Asia/Aqtau", 43.65, 51.16],
+  ["Asia/Qyzylorda", 44.85, 65.51],
+
+  // Russia east of the Urals
+  ["Asia/Yekaterinburg", 56.84, 60.61],
+  ["Asia/Yekaterinburg", 55.16, 61.40],
+  ["Asia/Yekaterinburg", 57.15, 65.53],
+  ["Asia/Yekaterinburg", 61.0, 69.0],
+  ["Asia/Yekaterinburg", 66.53, 66.61],
+  ["Asia/Omsk", 54.99, 73.37],
+  ["Asia/Novosibirsk", 55.01, 82.93],
+  ["Asia/Barnaul", 53.35, 83.78],
+  ["Asia/Tomsk", 56.50, 84.97],
+  ["Asia/Novokuznetsk", 53.76, 87.12],
+  ["Asia/Krasnoyarsk", 56.01, 92.89],
+  ["Asia/Krasnoyarsk", 69.35, 88.20],
+  ["Asia/Krasnoyarsk", 64.0, 95.0],
+  ["Asia/Krasnoyarsk", 51.72, 94.44],
+  ["Asia/Irkutsk", 52.29, 104.28],
+  ["Asia/Irkutsk", 56.15, 101.63],
+  ["Asia/Irkutsk", 51.83, 107.58],
+  ["Asia/Chita", 52.03, 113.50],
+  ["Asia/Yakutsk", 62.04, 129.73],
+  ["Asia/Yakutsk", 56.66, 124.72],
+  ["Asia/Yakutsk", 70.0, 125.0],
+  ["Asia/Vladivostok", 43.12, 131.89],
+  ["Asia/Vladivostok", 48.48, 135.08],
+  ["Asia/Vladivostok", 53.0, 140.0],
+  ["Asia/Sakhalin", 46.96, 142.73],
+  ["Asia/Magadan", 59.56, 150.80],
+  ["Asia/Srednekolymsk", 67.45, 153.71],
+  ["Asia/Kamchatka", 53.02, 158.65],
+  ["Asia/Anadyr", 64.73, 177.51],
+
+  // South and East Asia
+  ["Asia/Kolkata", 28.61, 77.21],
+  ["Asia/Kolkata", 19.08, 72.88],
+  ["Asia/Kolkata", 12.97, 77.59],
+  ["Asia/Kolkata", 22.57, 88.36],
+  ["Asia/Kolkata", 13.08, 80.27],
+  ["Asia/Kolkata", 17.39, 78.49],
+  ["Asia/Kolkata", 26.91, 75.79],
+  ["Asia/Kolkata", 34.08, 74.80],
+  ["Asia/Kolkata", 26.14, 91.74],
+  ["Asia/Kolkata", 8.52, 76.94],
+  ["Asia/Kolkata", 11.67, 92.74],
+  ["Asia/Kolkata", 27.04, 88.26],
+  ["Asia/Kolkata", 26.73, 88.40],
+  ["Asia/Kolkata", 27.33, 88.61],
+  ["Asia/Kolkata", 26.49, 89.53],
+  ["Asia/Kolkata", 26.63, 92.80],
+  ["Asia/Kolkata", 26.76, 83.37],
+  ["Asia/Kolkata", 26.85, 80.95],
+  ["Asia/Kolkata", 25.59, 85.14],
+  ["Asia/Kolkata", 30.32, 78.03],
+  ["Asia/Colombo", 6.93, 79.86],
+  ["Asia/Colombo", 9.66, 80.02],
+  ["Indian/Maldives", 4.18, 73.51],
+  ["Asia/Kathmandu", 27.72, 85.32],
+  ["Asia/Kathmandu", 28.21, 83.99],
+  ["Asia/Kathmandu", 26.45, 87.27],
+  ["Asia/Kathmandu", 26.91, 87.93],
+  ["Asia/Kathmandu", 27.01, 84.88],
+  ["Asia/Kathmandu", 28.05, 81.62],
+  ["Asia/Kathmandu", 28.70, 80.59],
+  ["Asia/Thimphu", 27.47, 89.64],
+  ["Asia/Thimphu", 26.85, 89.39],
+  ["Asia/Thimphu", 26.87, 90.49],
+  ["Asia/Thimphu", 27.33, 91.55],
+  ["Asia/Dhaka", 23.81, 90.41],
+  ["Asia/Dhaka", 22.36, 91.78],
+  ["Asia/Yangon", 16.87, 96.20],
+  ["Asia/Yangon", 21.98, 96.08],
+  ["Asia/Yangon", 25.38, 97.40],
+  ["Asia/Bangkok", 13.76, 100.50],
+  ["Asia/Bangkok", 18.79, 98.98],
+  ["Asia/Bangkok", 7.88, 98.39],
+  ["Asia/Bangkok", 15.24, 104.85],
+  ["Asia/Vientiane", 17.98, 102.63],
+  ["Asia/Vientiane", 20.0, 102.0],
+  ["Asia/Phnom_Penh", 11.56, 104.92],
+  ["Asia/Ho_Chi_Minh", 10.82, 106.63],
+  ["Asia/Ho_Chi_Minh", 16.05, 108.22],
+  ["Asia/Ho_Chi_Minh", 21.03, 105.85],
+  ["Asia/Kuala_Lumpur", 3.14, 101.69],
+  ["Asia/Kuala_Lumpur", 5.41, 100.33],
+  ["Asia/Kuching", 1.55, 110.34],
+  ["Asia/Kuching", 5.98, 116.07],
+  ["Asia/Singapore", 1.35, 103.82],
+  ["Asia/Brunei", 4.89, 114.94],
+  ["Asia/Jakarta", -6.21, 106.85],
+  ["Asia/Jakarta", -7.25, 112.75],
+  ["Asia/Jakarta", 3.59, 98.67],
+  ["Asia/Jakarta", -0.95, 100.35],
+  ["Asia/Jakarta", -2.99, 104.76],
+  ["Asia/Pontianak", -0.03, 109.34],
+  ["Asia/Pontianak", -2.0, 113.0],
+  ["Asia/Makassar", -5.15, 119.43],
+  ["Asia/Makassar", -8.65, 115.22],
+  ["Asia/Makassar", 1.47, 124.84],
+  ["Asia/Makassar", -1.27, 116.83],
+  ["Asia/Makassar", -10.17, 123.61],
+  ["Asia/Jayapura", -2.53, 140.72],
+  ["Asia/Jayapura", -3.70, 128.18],
+  ["Asia/Jayapura", -0.86, 134.06],
+  ["Asia/Jayapura", -8.49, 140.40],
+  ["Asia/Dili", -8.56, 125.57],
+  ["Asia/Manila", 14.60, 120.98],
+  ["Asia/Manila", 10.32, 123.89],
+  ["Asia/Manila", 7.07, 125.61],
+  ["Asia/Manila", 16.41, 120.60],
+  ["Asia/Shanghai", 31.23, 121.47],
+  ["Asia/Shanghai", 39.90, 116.41],
+  ["Asia/Shanghai", 23.13, 113.26],
+  ["Asia/Shanghai", 30.57, 104.07],
+  ["Asia/Shanghai", 34.34, 108.94],
+  ["Asia/Shanghai", 45.80, 126.53],
+  ["Asia/Shanghai", 25.04, 102.71],
+  ["Asia/Shanghai", 29.65, 91.13],
+  ["Asia/Shanghai", 36.06, 103.83],
+  ["Asia/Shanghai", 40.82, 111.65],
+  ["Asia/Shanghai", 32.0, 96.0],
+  ["Asia/Urumqi", 43.83, 87.62],
+  ["Asia/Urumqi", 39.47, 75.99],
+  ["Asia/Urumqi", 37.11, 79.93],
+  ["Asia/Hong_Kong", 22.32, 114.17],
+  ["Asia/Macau", 22.20, 113.54],
+  ["Asia/Taipei", 25.03, 121.57],
+  ["Asia/Taipei", 22.63, 120.30],
+  ["Asia/Ulaanbaatar", 47.89, 106.91],
+  ["Asia/Ulaanbaatar", 46.0, 100.0],
+  ["Asia/Choibalsan", 48.07, 114.53],
+  ["Asia/Hovd", 48.01, 91.64],
+  ["Asia/Pyongyang", 39.04, 125.76],
+  ["Asia/Pyongyang", 41.80, 129.78],
+  ["Asia/Seoul", 37.57, 126.98],
+  ["Asia/Seoul", 35.18, 129.08],
+  ["Asia/Seoul", 33.50, 126.53],
+  ["Asia/Tokyo", 35.68, 139.69],
+  ["Asia/Tokyo", 34.69, 135.50],
+  ["Asia/Tokyo", 43.06, 141.35],
+  ["Asia/Tokyo", 33.59, 130.40],
+  ["Asia/Tokyo", 26.21, 127.68],
+  ["Asia/Tokyo", 38.27, 140.87],
+
+  // Africa
+  ["Africa/Cairo", 30.04, 31.24],
+  ["Africa/Cairo", 31.20, 29.92],
+  ["Africa/Cairo", 25.69, 32.64],
+  ["Africa/Cairo", 23.0, 28.0],
+  ["Africa/Cairo", 28.0, 34.0],
+  ["Africa/Tripoli", 32.89, 13.19],
+  ["Africa/Tripoli", 32.12, 20.07],
+  ["Africa/Tripoli", 27.0, 14.0],
+  ["Africa/Tripoli", 24.0, 21.0],
+  ["Africa/Tunis", 36.81, 10.18],
+  ["Africa/Tunis", 33.0, 9.0],
+  ["Africa/Algiers", 36.75, 3.06],
+  ["Africa/Algiers", 35.70, -0.63],
+  ["Africa/Algiers", 28.0, 2.0],
+  ["Africa/Algiers", 22.79, 5.52],
+  ["Africa/Algiers", 27.67, -8.15],
+  ["Africa/Casablanca", 33.57, -7.59],
+  ["Africa/Casablanca", 31.63, -8.01],
+  ["Africa/Casablanca", 35.76, -5.83],
+  ["Africa/Casablanca", 30.42, -9.60],
+  ["Africa/El_Aaiun", 27.15, -13.20],
+  ["Africa/El_Aaiun", 23.70, -15.94],
+  ["Africa/Nouakchott", 18.09, -15.98],
+  ["Africa/Nouakchott", 20.0, -10.0],
+  ["Africa/Dakar", 14.72, -17.47],
+  ["Africa/Banjul", 13.45, -16.58],
+  ["Africa/Bissau", 11.86, -15.60],
+  ["Africa/Conakry", 9.64, -13.58],
+  ["Africa/Freetown", 8.47, -13.23],
+  ["Africa/Monrovia", 6.30, -10.80],
+  ["Africa/Abidjan", 5.36, -4.01],
+  ["Africa/Abidjan", 8.0, -5.5],
+  ["Africa/Bamako", 12.64, -8.00],
+  ["Africa/Bamako", 16.77, -3.01],
+  ["Africa/Bamako", 20.0, -1.0],
+  ["Africa/Ouagadougou", 12.37, -1.52],
+  ["Africa/Accra", 5.60, -0.19],
+  ["Africa/Accra", 9.40, -0.85],
+  ["Africa/Lome", 6.13, 1.22],
+  ["Africa/Porto-Novo", 6.50, 2.60],
+  ["Africa/Porto-Novo", 10.0, 2.5],
+  ["Africa/Niamey", 13.51, 2.11],
+  ["Africa/Niamey", 18.0, 9.0],
+  ["Africa/Lagos", 6.52, 3.38],
+  ["Africa/Lagos", 9.08, 7.40],
+  ["Africa/Lagos", 12.00, 8.52],
+  ["Africa/Lagos", 4.82, 7.03],
+  ["Africa/Ndjamena", 12.13, 15.06],
+  ["Africa/Ndjamena", 17.0, 19.0],
+  ["Africa/Douala", 4.05, 9.70],
+  ["Africa/Douala", 3.87, 11.52],
+  ["Africa/Douala", 9.0, 13.5],
+  ["Africa/Malabo", 3.75, 8.78],
+  ["Africa/Libreville", 0.42, 9.47],
+  ["Africa/Brazzaville", -4.27, 15.28],
+  ["Africa/Brazzaville", 1.0, 16.0],
+  ["Africa/Bangui", 4.39, 18.56],
+  ["Africa/Bangui", 7.0, 21.0],
+  ["Africa/Kinshasa", -4.44, 15.27],
+  ["Africa/Kinshasa", 0.05, 18.26],
+  ["Africa/Kinshasa", 2.0, 21.0],
+  ["Africa/Lubumbashi", -11.66, 27.48],
+  ["Africa/Lubumbashi", 0.52, 25.19],
+  ["Africa/Lubumbashi", -2.51, 28.86],
+  ["Africa/Lubumbashi", -6.0, 23.6],
+  ["Africa/Luanda", -8.84, 13.23],
+  ["Africa/Luanda", -12.0, 18.0],
+  ["Africa/Luanda", -14.92, 13.49],
+  ["Africa/Khartoum", 15.50, 32.56],
+  ["Africa/Khartoum", 19.62, 37.22],
+  ["Africa/Khartoum", 13.63, 25.35],
+  ["Africa/Khartoum", 20.0, 30.0],
+  ["Africa/Juba", 4.85, 31.58],
+  ["Africa/Juba", 8.0, 29.0],
+  ["Africa/Asmara", 15.32, 38.93],
+  ["Africa/Djibouti", 11.59, 43.15],
+  ["Africa/Addis_Ababa", 9.03, 38.74],
+  ["Africa/Addis_Ababa", 12.6, 37.47],
+  ["Africa/Addis_Ababa", 7.0, 44.0],
+  ["Africa/Mogadishu", 2.05, 45.32],
+  ["Africa/Mogadishu", 9.56, 44.06],
+  ["Africa/Mogadishu", 7.0, 48.0],
+  ["Africa/Nairobi", -1.29, 36.82],
+  ["Africa/Nairobi", -4.04, 39.67],
+  ["Africa/Nairobi", 3.0, 37.0],
+  ["Africa/Kampala", 0.35, 32.58],
+  ["Africa/Kampala", 2.77, 32.30],
+  ["Africa/Kigali", -1.94, 30.06],
+  ["Africa/Bujumbura", -3.38, 29.36],
+  ["Africa/Dar_es_Salaam", -6.79, 39.21],
+  ["Africa/Dar_es_Salaam", -2.52, 32.90],
+  ["Africa/Dar_es_Salaam", -8.0, 33.0],
+  ["Africa/Dar_es_Salaam", -3.37, 36.68],
+  ["Africa/Lusaka", -15.39, 28.32],
+  ["Africa/Lusaka", -12.8, 28.2],
+  ["Africa/Lusaka", -14.0, 24.0],
+  ["Africa/Blantyre", -13.96, 33.79],
+  ["Africa/Blantyre", -15.79, 35.01],
+  ["Africa/Maputo", -25.97, 32.57],
+  ["Africa/Maputo", -19.84, 34.84],
+  ["Africa/Maputo", -15.12, 39.27],
+  ["Africa/Harare", -17.83, 31.05],
+  ["Africa/Harare", -20.15, 28.58],
+  ["Africa/Gaborone", -24.63, 25.92],
+  ["Africa/Gaborone", -20.0, 23.0],
+  ["Africa/Windhoek", -22.56, 17.08],
+  ["Africa/Windhoek", -19.0, 16.0],
+  ["Africa/Windhoek", -26.65, 15.15],
+  ["Africa/Johannesburg", -26.20, 28.05],
+  ["Africa/Johannesburg", -33.92, 18.42],
+  ["Africa/Johannesburg", -29.86, 31.03],
+  ["Africa/Johannesburg", -33.96, 25.60],
+  ["Africa/Johannesburg", -28.74, 24.76],
+  ["Africa/Johannesburg", -23.90, 29.45],
+  ["Africa/Maseru", -29.31, 27.48],
+  ["Africa/Mbabane", -26.31, 31.14],
+  ["Indian/Antananarivo", -18.88, 47.51],
+  ["Indian/Antananarivo", -12.28, 49.29],
+  ["Indian/Antananarivo", -23.35, 43.67],
+  ["Indian/Comoro", -11.70, 43.26],
+  ["Indian/Mauritius", -20.16, 57.50],
+  ["Indian/Reunion", -20.88, 55.45],
+  ["Indian/Mahe", -4.62, 55.45],
+  ["Atlantic/Cape_Verde", 14.93, -23.51],
+  ["Africa/Sao_Tome", 0.34, 6.73],
+  ["Atlantic/St_Helena", -15.93, -5.72],
+
+  // Oceania
+  ["Australia/Sydney", -33.87, 151.21],
+  ["Australia/Sydney", -32.93, 151.78],
+  ["Australia/Sydney", -30.5, 145.0],
+  ["Australia/Sydney", -35.28, 149.13],
+  ["Australia/Melbourne", -37.81, 144.96],
+  ["Australia/Melbourne", -36.76, 144.28],
+  ["Australia/Melbourne", -37.5, 148.0],
+  ["Australia/Hobart", -42.88, 147.33],
+  ["Australia/Hobart", -41.44, 147.14],
+  ["Australia/Brisbane", -27.47, 153.03],
+  ["Australia/Brisbane", -19.26, 146.82],
+  ["Australia/Brisbane", -16.92, 145.77],
+  ["Australia/Brisbane", -23.70, 143.0],
+  ["Australia/Brisbane", -12.0, 142.5],
+  ["Australia/Adelaide", -34.93, 138.60],
+  ["Australia/Adelaide", -30.0, 135.0],
+  ["Australia/Adelaide", -27.0, 131.0],
+  ["Australia/Broken_Hill", -31.95, 141.47],
+  ["Australia/Darwin", -12.46, 130.84],
+  ["Australia/Darwin", -23.70, 133.88],
+  ["Australia/Darwin", -18.0, 133.0],
+  ["Australia/Perth", -31.95, 115.86],
+  ["Australia/Perth", -20.31, 118.58],
+  ["Australia/Perth", -17.96, 122.24],
+  ["Australia/Perth", -26.0, 121.0],
+  ["Australia/Perth", -30.75, 121.47],
+  ["Australia/Perth", -15.77, 128.74],
+  ["Australia/Eucla", -31.68, 128.88],
+  ["Australia/Lord_Howe", -31.55, 159.08],
+  ["Pacific/Norfolk", -29.04, 167.95],
+  ["Pacific/Auckland", -36.85, 174.76],
+  ["Pacific/Auckland", -41.29, 174.78],
+  ["Pacific/Auckland", -43.53, 172.64],
+  ["Pacific/Auckland", -45.87, 170.50],
+  ["Pacific/Auckland", -38.14, 176.25],
+  ["Pacific/Chatham", -43.95, -176.56],
+  ["Pacific/Port_Moresby", -9.44, 147.18],
+  ["Pacific/Port_Moresby", -6.0, 144.0],
+  ["Pacific/Port_Moresby", -3.57, 143.63],
+  ["Pacific/Bougainville", -6.23, 155.57],
+  ["Pacific/Guadalcanal", -9.43, 159.95],
+  ["Pacific/Noumea", -22.28, 166.46],
+  ["Pacific/Efate", -17.73, 168.32],
+  ["Pacific/Fiji", -18.14, 178.44],
+  ["Pacific/Fiji", -16.43, 179.38],
+  ["Pacific/Tongatapu", -21.14, -175.20],
+  ["Pacific/Apia", -13.83, -171.76],
+  ["Pacific/Pago_Pago", -14.28, -170.70],
+  ["Pacific/Rarotonga", -21.21, -159.78],
+  ["Pacific/Tahiti", -17.53, -149.57],
+  ["Pacific/Marquesas", -9.0, -140.0],
+  ["Pacific/Gambier", -23.12, -134.97],
+  ["Pacific/Pitcairn", -25.07, -130.10],
+  ["Pacific/Guam", 13.44, 144.79],
+  ["Pacific/Saipan", 15.18, 145.75],
+  ["Pacific/Palau", 7.50, 134.62],
+  ["Pacific/Chuuk", 7.45, 151.85],
+  ["Pacific/Pohnpei", 6.96, 158.21],
+  ["Pacific/Kosrae", 5.32, 162.98],
+  ["Pacific/Majuro", 7.09, 171.38],
+  ["Pacific/Kwajalein", 9.19, 167.42],
+  ["Pacific/Tarawa", 1.45, 173.03],
+  ["Pacific/Kanton", -2.81, -171.67],
+  ["Pacific/Kiritimati", 1.87, -157.43],
+  ["Pacific/Nauru", -0.55, 166.92],
+  ["Pacific/Funafuti", -8.52, 179.20],
+  ["Pacific/Wallis", -13.28, -176.17],
+  ["Pacific/Niue", -19.05, -169.87],
+  ["Pacific/Fakaofo", -9.38, -171.25],
+
+  // Antarctica: stations keep their supply base's clock; the rest is left to nautical time.
+  ["Antarctica/McMurdo", -77.85, 166.67],
+  ["Antarctica/Palmer", -64.77, -64.05],
+  ["Antarctica/Casey", -66.28, 110.53],
+  ["Antarctica/Davis", -68.58, 77.97],
+  ["Antarctica/Mawson", -67.60, 62.87],
+  ["Antarctica/Vostok", -78.46, 106.84],
+  ["Antarctica/DumontDUrville", -66.66, 140.0],
+  ["Antarctica/Syowa", -69.0, 39.58],
+  ["Antarctica/Troll", -72.01, 2.53],
+];
@@ -0,0 +1,322 @@
+import type { Catalog } from "../utils/i18n";
+
+export const ar: Catalog = {
+  'app.tagline': 'استكشاف الويب',
+  'app.welcome': 'مرحبًا بك في GeoSlop. أطلقتُ سربًا لالتقاط صور حقيقية من أجلك. إلى أين نذهب؟',
+  'app.sessionName': 'الجلسة {count}',
+  'app.yourLocation': 'موقعك',
+
+  'locale.label': 'اللغة',
+
+  'nav.back': 'رجوع',
+  'nav.forward': 'تقدّم',
+  'nav.home': 'الرئيسية',
+  'nav.searchPlaceholder': 'انتقل إلى مدينة جديدة...',
+  'nav.go': 'انطلق',
+  'nav.clearSearch': 'مسح البحث',
+  'nav.lucky': 'مكان رائع آخر',
+  'nav.warping': 'جارٍ الانتقال إلى {name}...',
+  'nav.warped': 'وصلنا إلى {name}!',
+  'nav.warpedReady': 'وصلنا إلى {name}! جاهزون للاستكشاف.',
+  'nav.didYouMean': 'لم أجد «{query}». هل تقصد أحد هذه الأماكن؟',
+  'nav.notFound': 'عذرًا، لم أجد «{query}». جرّب مدينة أخرى.',
+  'nav.scouring': 'أجوب العالم بحثًا عن مكان فريد...',
+  'nav.noNewSpot': 'لم أجد مكانًا جديدًا الآن. لنحاول مرة أخرى.',
+  'nav.checkCorrected': '⚠ كانت الإحداثيات المقترحة على بعد {distance} من {reference}، لذا استخدمتُ موقع الدليل الجغرافي المحلي بدلًا منها.',
+  'nav.checkSuspect': '⚠ تبعد هذه الإحداثيات {distance} عن مدخل الدليل الجغرافي لـ {reference}؛ قد يكون الدبوس في غير مكانه.',
+
+  'chat.placeholder': 'اسأل عن هذا المكان...',
+  'chat.send': 'إرسال',
+  'chat.stop': 'إيقاف الرد',
+  'chat.stopped': 'متوقف',
+  'chat.scanning': 'جارٍ فحص موارد الويب...',
+  'chat.askingAbout': 'السؤال عن {name}',
+  'chat.detachRegion': 'فصل المنطقة',
+  'chat.noInformation': 'لم أجد أي معلومات.',
+  'chat.welcomeTo': 'مرحبًا بك في {name}!',
+
+  'errors.gallery': 'تعذّر إكمال تحميل الصور والأسئلة عن {name}.',
+  'errors.reverse': 'تعذّر تحديد المكان عند {lat}، {lng}.',
+  'errors.search': 'تعذّر البحث عن «{query}».',
+  'errors.resolve': 'تعذّر وضع كل دبابيس هذه الإجابة على الخريطة.',
+  'errors.lucky': 'تعذّر العثور على مكان جديد.',
+  'errors.region': 'تعذّر تلخيص {name}.',
+  'errors.photo': 'تعذّر عليّ معرفة مكان التقاط هذه الصورة.',
+  'errors.rate-limited.title': 'تجاوز حد الطلبات',
+  'errors.rate-limited.message': 'النموذج يحدّ من طلباتنا. انتظر قليلًا ثم حاول مجددًا.',
+  'errors.server.title': 'الخدمة غير متاحة',
+  'errors.server.message': 'تواجه خدمة النموذج مشكلة حاليًا.',
+  'errors.auth.title': 'مشكلة في مفتاح API',
+  'errors.auth.message': 'مفتاح API مفقود أو مرفوض. اضبط GEMINI_API_KEY في ملف .env.local ثم أعد التشغيل.',
+  'errors.invalid-json.title': 'إجابة غير مقروءة',
+  'errors.invalid-json.message': 'أرسل النموذج إجابة لم أتمكن من قراءتها.',
+  'errors.invalid-output.title': 'إجابة غير صالحة',
+  'errors.invalid-output.message': 'لم تجتز إجابة النموذج التحقق، حتى بعد أن طُلب منه تصحيحها.',
+  'errors.safety-blocked.title': 'محظور بواسطة فلاتر الأمان',
+  'errors.safety-blocked.message': 'رفض النموذج الإجابة عن هذا السؤال.',
+  'errors.network.title': 'مشكلة في الاتصال',
+  'errors.network.message': 'تعذّر الوصول إلى خدمة النموذج. تحقق من اتصالك.',
+  'errors.aborted.title': 'أُلغي',
+  'errors.aborted.message': 'أُلغي الطلب.',
+  'errors.unknown.title': 'فشل الطلب',
+  'errors.unknown.message': 'حدث خطأ أثناء التواصل مع النموذج.',
+  'errors.retry': 'إعادة المحاولة',
+  'errors.retryingIn': 'إعادة المحاولة خلال {seconds} ث',
+  'errors.retryingNow': 'إعادة المحاولة الآن',
+  'errors.attempt': '(المحاولة {attempt} من {max})',
+
+  'map.zoomIn': 'تكبير',
+  'map.zoomOut': 'تصغير',
+  'map.toggleGallery': 'إظهار المعرض أو إخفاؤه',
+  'map.viewOnGoogleMaps': 'عرض على خرائط Google',
+  'map.addToItinerary': 'إضافة إلى خط الرحلة',
+
+  'gallery.title': 'سرب الويب',
+  'gallery.live': 'استكشاف مباشر',
+  'gallery.refresh': 'تحديث الصور والأسئلة',
+  'gallery.locating': 'جارٍ تحديد',
+  'gallery.connecting': 'جارٍ الاتصال بالسرب البصري...',
+  'gallery.scrollLeft': 'تمرير الصور إلى اليسار',
+  'gallery.scrollRight': 'تمرير الصور إلى اليمين',
+  'gallery.linkRestricted': 'رابط الصورة مقيّد',
+  'gallery.visitSource': 'زيارة صفحة المصدر',
+  'gallery.sourceLink': 'رابط المصدر',
+  'gallery.webSource': 'مصدر الويب',
+  'gallery.webCapture': 'لقطة من الويب',
+  'gallery.photoBy': 'تصوير {author}',
+  'gallery.substituteNote': 'لم تكن الصورة المقترحة متاحة؛ هذه أقرب صورة مطابقة من Commons.',
+  'gallery.visitOriginal': 'زيارة صفحة الويب الأصلية',
+  'gallery.dismiss': 'إغلاق',
+  'gallery.close': 'إغلاق الصورة',
+  'gallery.provider.wikimedia': 'ويكيميديا كومنز',
+  'gallery.provider.wikimediaSubstitute': 'ويكيميديا كومنز (بديلة)',
+  'gallery.provider.unsplash': 'Unsplash',
+  'gallery.provider.fixture': 'عرض تجريبي دون اتصال',
+  'gallery.provider.web': 'صورة من الويب',
+
+  'sources.count.zero': 'لا مصادر',
+  'sources.count.one': 'مصدر واحد',
+  'sources.count.two': 'مصدران',
+  'sources.count.few': '{count} مصادر',
+  'sources.count.many': '{count} مصدرًا',
+  'sources.count.other': '{count} مصدر',
+
+  'sessions.label': 'الجلسات المحفوظة',
+  'sessions.fallback': 'الجلسات',
+  'sessions.saveName': 'حفظ الاسم',
+  'sessions.cancelRename': 'إلغاء إعادة التسمية',
+  'sessions.rename': 'إعادة تسمية الجلسة',
+  'sessions.delete': 'حذف الجلسة',
+  'sessions.new': 'جلسة جديدة',
+
+  'trip.label': 'تصدير الرحلة أو استيرادها',
+  'trip.button': 'الرحلة',
+  'trip.export': 'تصدير {format}',
+  'trip.import': 'استيراد ملف',
+  'trip.imported': 'استُورد {visited} من الأماكن المزارة و{pins} من الدبابيس من {file}.',
+  'trip.importFailed': 'عذرًا، تعذّرت قراءة {file}. استخدم ملف GeoJSON أو KML أو GPX.',
+
+  'usage.label': 'عرض استهلاك الرموز',
+  'usage.queued': '{count} في الانتظار',
+  'usage.since': 'منذ {time}',
+  'usage.summary': '{calls} · {input} دخل · {output} خرج',
+  'usage.calls.zero': 'لا استدعاءات',
+  'usage.calls.one': 'استدعاء واحد',
+  'usage.calls.two': 'استدعاءان',
+  'usage.calls.few': '{count} استدعاءات',
+  'usage.calls.many': '{count} استدعاءً',
+  'usage.calls.other': '{count} استدعاء',
+  'usage.reset': 'إعادة ضبط الاستهلاك',
+  'usage.none': 'لا توجد استدعاءات للنموذج بعد.',
+  'usage.tokens': '{input} للطلب · {output} رموز للإخراج',
+  'usage.quota': '{used}/{limit} في الدقيقة · {active} نشطة',
+
+  'itinerary.title.zero': 'خط الرحلة · لا محطات',
+  'itinerary.title.one': 'خط الرحلة · محطة واحدة',
+  'itinerary.title.two': 'خط الرحلة · محطتان',
+  'itinerary.title.few': 'خط الرحلة · {count} محطات',
+  'itinerary.title.many': 'خط الرحلة · {count} محطة',
+  'itinerary.title.other': 'خط الرحلة · {count} محطة',
+  'itinerary.empty': 'أضف المكان الحالي أو نتيجة من الخريطة لبدء مسار.',
+  'itinerary.moveUp': 'نقل المحطة لأعلى',
+  'itinerary.moveDown': 'نقل المحطة لأسفل',
+  'itinerary.remove': 'إزالة المحطة',
+  'itinerary.add': 'إضافة {name}',
+  'itinerary.optimize': 'تحسين',
+  'itinerary.optimizeHint': 'أقصر ترتيب بدءًا من المحطة الأولى',
+  'itinerary.clear': 'مسح خط الرحلة',
+  'itinerary.leg': 'المحطة {from} ← {to}: {distance}',
+  'itinerary.removeFromItinerary': 'إزالة من خط الرحلة',
+
+  'timeline.title.zero': 'السجل · لا زيارات',
+  'timeline.title.one': 'السجل · زيارة واحدة',
+  'timeline.title.two': 'السجل · زيارتان',
+  'timeline.title.few': 'السجل · {count} زيارات',
+  'timeline.title.many': 'السجل · {count} زيارة',
+  'timeline.title.other': 'السجل · {count} زيارة',
+  'timeline.visits': 'الأماكن المزارة',
+  'timeline.favorites': 'المفضلة',
+  'timeline.empty': 'ستظهر هنا الأماكن التي تزورها في هذه الجلسة.',
+  'timeline.noFavorites': 'ضع نجمة على مكان زرته للاحتفاظ به هنا.',
+  'timeline.here': 'أنت هنا',
+  'timeline.goTo': 'الانتقال إلى {name}',
+  'timeline.star': 'إضافة إلى المفضلة',
+  'timeline.unstar': 'إزالة من المفضلة',
+  'timeline.note': 'ملاحظة',
+  'timeline.notePlaceholder': 'اكتب ملاحظة عن هذا المكان…',
+  'timeline.showOnMap': 'إظهار المفضلة على الخريطة',
+
+  'regions.tool.rectangle': 'مستطيل',
+  'regions.tool.polygon': 'شكل',
+  'regions.tool.circle': 'نطاق',
+  'regions.hint.rectangle': 'انقر على زاويتين متقابلتين.',
+  'regions.hint.polygon': 'انقر على كل زاوية؛ انقر نقرًا مزدوجًا أو انقر على النقطة الأولى للإنهاء.',
+  'regions.hint.circle': 'انقر على المركز ثم على الحافة.',
+  'regions.draw': 'رسم {tool}',
+  'regions.cancel': 'إلغاء الرسم',
+  'regions.areaNear': 'منطقة قرب {name}',
+  'regions.numbered': 'المنطقة {number}',
+  'regions.attached': 'مرفقة بالمحادثة',
+  'regions.explore': 'تلخيص المنطقة',
+  'regions.exploreHint': 'ملخص وصور لهذه المنطقة',
+  'regions.delete': 'حذف المنطقة',
+  'regions.surveying': 'جارٍ مسح {name}...',
+  'regions.surveyed': 'اكتمل مسح {name}.',
+
+  'layers.label': 'طبقات الخريطة',
+  'layers.close': 'إغلاق الطبقات',
+  'layers.base': 'الخريطة الأساسية',
+  'layers.overlays': 'الطبقات الإضافية',
+  'layers.remove': 'إزالة الطبقة',
+  'layers.opacity': 'شفافية {name}',
+  'layers.name': 'الاسم',
+  'layers.xyz': 'مربعات XYZ',
+  'layers.wms': 'WMS',
+  'layers.overlay': 'طبقة إضافية',
+  'layers.wmsLayers': 'أسماء الطبقات، مفصولة بفواصل',
+  'layers.attribution': 'الإسناد، مثل © Example Maps',
+  'layers.add': 'إضافة الطبقة',
+  'layers.cancel': 'إلغاء',
+  'layers.addSource': 'إضافة مصدر XYZ أو WMS',
+  'layers.builtIn.road': 'الطرق',
+  'layers.builtIn.satellite': 'القمر الصناعي',
+  'layers.builtIn.topo': 'طبوغرافية',
+  'layers.builtIn.dark': 'داكنة',
+  'layers.builtIn.terrain': 'التضاريس',
+  'layers.builtIn.labels': 'أسماء الأماكن',
+  'layers.builtIn.roads-overlay': 'الطرق الرئيسية',
+  'layers.builtIn.hillshade': 'تظليل التضاريس',
+  'layers.errors.name': 'أعطِ الطبقة اسمًا.',
+  'layers.errors.url': 'هذا ليس عنوان URL صالحًا.',
+  'layers.errors.protocol': 'لا تُدعم إلا عناوين مربعات http(s).',
+  'layers.errors.xyzPlaceholders': 'تحتاج عناوين XYZ إلى العناصر {z} و{x} و{y}.',
+  'layers.errors.wmsLayers': 'تحتاج مصادر WMS إلى اسم طبقة واحد على الأقل.',
+
+  'game.play': 'العب',
+  'game.playLabel': 'العب GeoGuess',
+  'game.title': 'GeoGuess',
+  'game.close': 'إغلاق اللعبة',
+  'game.intro': 'تأمّل الصور، وانقر حيث تظن أنها التُقطت، واجمع حتى {points} نقطة في كل جولة.',
+  'game.difficulty': 'الصعوبة',
+  'game.difficulty.easy': 'سهل',
+  'game.difficulty.normal': 'متوسط',
+  'game.difficulty.hard': 'صعب',
+  'game.photos.one': 'صورة واحدة في كل جولة',
+  'game.photos.two': 'صورتان في كل جولة',
+  'game.photos.few': '{count} صور في كل جولة',
+  'game.photos.other': '{count} صورة في كل جولة',
+  'game.timeLimit': '{seconds} ث للتخمين',
+  'game.noTimeLimit': 'بلا حد زمني',
+  'game.rounds': 'الجولات',
+  'game.player': 'اللاعب',
+  'game.defaultPlayer': 'مستكشف',
+  'game.start': 'ابدأ',
+  'game.highScores': 'أعلى النتائج',
+  'game.noScores': 'لم تُلعب أي مباراة بعد.',
+  'game.roundsPlayed.one': 'جولة واحدة',
+  'game.roundsPlayed.two': 'جولتان',
+  'game.roundsPlayed.few': '{count} جولات',
+  'game.roundsPlayed.many': '{count} جولة',
+  'game.roundsPlayed.other': '{count} جولة',
+  'game.finalScore': 'النتيجة النهائية',
+  'game.roundOf': 'الجولة {round} من {total}',
+  'game.points': '{points} نقطة',
+  'game.quit': 'إنهاء اللعبة',
+  'game.scouting': 'جارٍ البحث عن موقع غامض...',
+  'game.rank': 'المركز {rank} في جدول مستوى {difficulty}!',
+  'game.timedOut': 'انتهى الوقت',
+  'game.visit': 'زيارة',
+  'game.visitPlace': 'زيارة {name}',
+  'game.playAgain': 'العب مجددًا',
+  'game.done': 'تم',
+  'game.outOfTime': 'انتهى الوقت، لا نقاط في هذه الجولة.',
+  'game.result': 'على بعد {distance} · +{points} نقطة',
+  'game.seeResults': 'عرض النتائج',
+  'game.nextRound': 'الجولة التالية',
+  'game.movePin': 'انقر مجددًا لتحريك دبوسك.',
+  'game.placePin': 'انقر على الخريطة حيث تظن أن هذا المكان.',
+  'game.lockIn': 'تأكيد التخمين',
+  'game.mystery': 'موقع غامض',
+  'game.yourGuess': 'تخمينك',
+
+  'compare.open': 'قارن',
+  'compare.openLabel': 'قارن بين مكانين جنبًا إلى جنب',
+  'compare.title': 'مقارنة الأماكن',
+  'compare.swap': 'بدّل المكانين',
+  'compare.close': 'أغلق المقارنة',
+  'compare.searchPlaceholder': 'ابحث عن مكان...',
+  'compare.set': 'اختر',
+  'compare.pickPlace': 'اختر مكانًا',
+  'compare.loading': 'جارٍ تحميل {name}...',
+  'compare.explore': 'استكشف',
+  'compare.noPhotos': 'لم يُعثر على صور موثّقة.',
+  'compare.tableTitle': 'جنبًا إلى جنب',
+  'compare.empty': 'اختر مكانين لترى أوجه المقارنة بينهما.',
+  'compare.tableLoading': 'جارٍ مقارنة {first} و{second}...',
+  'compare.tableUnavailable': 'لا تتوفر مقارنة لهذين المكانين.',
+  'compare.topic.climate': 'المناخ',
+  'compare.topic.history': 'التاريخ',
+  'compare.topic.sights': 'أبرز المعالم',
+  'compare.askingAbout': 'مقارنة {first} و{second}',
+
+  'sun.title': 'التوقيت المحلي والشمس',
+  'sun.nautical': 'توقيت بحري (لا توجد منطقة برية قريبة)',
+  'sun.approximate': 'قرب حدود منطقة زمنية: قد يختلف التوقيت المحلي.',
+  'sun.dst': 'التوقيت الصيفي',
+  'sun.position': 'الشمس على ارتفاع {elevation}° وسمت {azimuth}°',
+  'sun.phase.day': 'نهار',
+  'sun.phase.civil': 'شفق مدني',
+  'sun.phase.nautical': 'شفق بحري',
+  'sun.phase.astronomical': 'شفق فلكي',
+  'sun.phase.night': 'ليل',
+  'sun.band.sun': 'الشروق – الغروب',
+  'sun.band.civil': 'الشفق المدني',
+  'sun.band.nautical': 'الشفق البحري',
+  'sun.band.astronomical': 'الشفق الفلكي',
+  'sun.polarDay': 'الشمس ظاهرة طوال اليوم',
+  'sun.polarNight': 'الشمس غائبة طوال اليوم',
+  'sun.always.above': 'يستمر طوال الليل',
+  'sun.always.below': 'ليس اليوم',
+  'sun.solarNoon': 'الظهر الشمسي',
+  'sun.dayLength': 'طول النهار',
+  'sun.duration': '{hours} س {minutes} د',
+  'sun.showTerminator': 'إظهار الليل والنهار على الخريطة',
+
+  'photo.upload': 'اكتشف أين التُقطت صورة',
+  'photo.question': 'أين التُقطت هذه الصورة؟',
+  'photo.attached': 'صورة مرفقة',
+  'photo.unreadable': 'تعذّر فتح {name} كصورة.',
+  'photo.fromGps': 'تحتوي هذه الصورة على بيانات GPS: التُقطت بالقرب من **{name}**.',
+  'photo.confident': 'يبدو أنها **{name}** (بثقة {percent}%).',
+  'photo.unsure.zero': 'لست متأكدًا من مكانها.',
+  'photo.unsure.one': 'لست متأكدًا من مكانها. أفضل تخمين لي مثبّت على الخريطة.',
+  'photo.unsure.two': 'لست متأكدًا من مكانها. أفضل تخمينين لي مثبّتان على الخريطة، الأرجح أولًا.',
+  'photo.unsure.few': 'لست متأكدًا من مكانها. أفضل {count} تخمينات لي مثبّتة على الخريطة، الأرجح أولًا.',
+  'photo.unsure.many': 'لست متأكدًا من مكانها. أفضل {count} تخمينًا لي مثبّتة على الخريطة، الأرجح أولًا.',
+  'photo.unsure.other': 'لست متأكدًا من مكانها. أفضل {count} تخمين لي مثبّتة على الخريطة، الأرجح أولًا.',
+  'photo.noMatch': 'لا شيء في هذه الصورة يكشف المكان. جرّب صورة فيها معلم أو لافتة أو منظر أوسع.',
+  'photo.fromGpsTags': 'من بيانات GPS في الصورة',
+  'photo.modelGuess': 'تخمين مما تُظهره الصورة',
+  'photo.goThere': 'اذهب إلى هناك',
+  'photo.showPin': 'إظهار {name} على الخريطة',
+};
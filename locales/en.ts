@@ -0,0 +1,302 @@
+
+// Source catalog. Every other locale translates these keys and falls back to
+// English for anything it is missing. {name} placeholders are filled in by translate();
+// keys ending in .one/.other (and .zero/.two/.few/.many) are plural forms for translatePlural().
+
+export const en = {
+  'app.tagline': 'Web Discovery',
+  'app.welcome': 'Welcome to GeoSlop. I have initiated a swarm capture to gather real-world photos for you. Where shall we go?',
+  'app.sessionName': 'Session {count}',
+  'app.yourLocation': 'Your Location',
+
+  'locale.label': 'Language',
+
+  'nav.back': 'Back',
+  'nav.forward': 'Forward',
+  'nav.home': 'Home',
+  'nav.searchPlaceholder': 'Warp to a new city...',
+  'nav.go': 'Go',
+  'nav.clearSearch': 'Clear search',
+  'nav.lucky': 'Next cool place',
+  'nav.warping': 'Warping to {name}...',
+  'nav.warped': 'Warped to {name}!',
+  'nav.warpedReady': 'Warped to {name}! Ready to explore.',
+  'nav.didYouMean': 'I couldn\'t find "{query}". Did you mean one of these?',
+  'nav.notFound': 'Sorry, I couldn\'t find "{query}". Try a different city.',
+  'nav.scouring': 'Scouring the globe for something unique...',
+  'nav.noNewSpot': 'I couldn\'t find a new spot right now. Let\'s try again.',
+  'nav.checkCorrected': '⚠ The suggested coordinates were {distance} from {reference}, so I used the offline gazetteer position instead.',
+  'nav.checkSuspect': '⚠ These coordinates are {distance} from the gazetteer entry for {reference}; the pin may be off.',
+
+  'chat.placeholder': 'Ask about this place...',
+  'chat.send': 'Send',
+  'chat.stop': 'Stop response',
+  'chat.stopped': 'Stopped',
+  'chat.scanning': 'Scanning web assets...',
+  'chat.askingAbout': 'Asking about {name}',
+  'chat.detachRegion': 'Detach region',
+  'chat.noInformation': 'I couldn\'t find any information.',
+  'chat.welcomeTo': 'Welcome to {name}!',
+
+  'errors.gallery': 'I couldn\'t finish loading photos and questions for {name}.',
+  'errors.reverse': 'I couldn\'t identify the place at {lat}, {lng}.',
+  'errors.search': 'I couldn\'t search for "{query}".',
+  'errors.resolve': 'I couldn\'t place every pin from that answer on the map.',
+  'errors.lucky': 'I couldn\'t scout a new spot.',
+  'errors.region': 'I couldn\'t summarize {name}.',
+  'errors.photo': 'I couldn\'t work out where that photo was taken.',
+  'errors.rate-limited.title': 'Rate limited',
+  'errors.rate-limited.message': 'The model is rate limiting us. Wait a moment and try again.',
+  'errors.server.title': 'Service unavailable',
+  'errors.server.message': 'The model service is having trouble right now.',
+  'errors.auth.title': 'API key problem',
+  'errors.auth.message': 'The API key is missing or was rejected. Set GEMINI_API_KEY in .env.local and restart.',
+  'errors.invalid-json.title': 'Unreadable answer',
+  'errors.invalid-json.message': 'The model sent back an answer I couldn\'t read.',
+  'errors.invalid-output.title': 'Answer failed checks',
+  'errors.invalid-output.message': 'The model\'s answer didn\'t pass validation, even after it was asked to fix it.',
+  'errors.safety-blocked.title': 'Blocked by safety filters',
+  'errors.safety-blocked.message': 'The model declined to answer that one.',
+  'errors.network.title': 'Connection problem',
+  'errors.network.message': 'I couldn\'t reach the model service. Check your connection.',
+  'errors.aborted.title': 'Cancelled',
+  'errors.aborted.message': 'The request was cancelled.',
+  'errors.unknown.title': 'Request failed',
+  'errors.unknown.message': 'Something went wrong talking to the model.',
+  'errors.retry': 'Retry',
+  'errors.retryingIn': 'retrying in {seconds}s',
+  'errors.retryingNow': 'retrying now',
+  'errors.attempt': '(attempt {attempt} of {max})',
+
+  'map.zoomIn': 'Zoom in',
+  'map.zoomOut': 'Zoom out',
+  'map.toggleGallery': 'Toggle Gallery Visibility',
+  'map.viewOnGoogleMaps': 'View on Google Maps',
+  'map.addToItinerary': 'Add to itinerary',
+
+  'gallery.title': 'Web Swarm',
+  'gallery.live': 'Live Discovery',
+  'gallery.refresh': 'Refresh photos and questions',
+  'gallery.locating': 'Locating',
+  'gallery.connecting': 'Connecting to visual swarm...',
+  'gallery.scrollLeft': 'Scroll photos left',
+  'gallery.scrollRight': 'Scroll photos right',
+  'gallery.linkRestricted': 'Web photo link restricted',
+  'gallery.visitSource': 'Visit Source Web Page',
+  'gallery.sourceLink': 'Source Link',
+  'gallery.webSource': 'Web Source',
+  'gallery.webCapture': 'Web Capture',
+  'gallery.photoBy': 'Photo by {author}',
+  'gallery.substituteNote': 'The suggested photo was unavailable; this is the closest Commons match.',
+  'gallery.visitOriginal': 'Visit Original Web Page',
+  'gallery.dismiss': 'Dismiss',
+  'gallery.close': 'Close photo',
+  'gallery.provider.wikimedia': 'Wikimedia Commons',
+  'gallery.provider.wikimediaSubstitute': 'Wikimedia Commons (substitute)',
+  'gallery.provider.unsplash': 'Unsplash',
+  'gallery.provider.fixture': 'Offline Demo',
+  'gallery.provider.web': 'Web Photo',
+
+  'sources.count.one': '{count} source',
+  'sources.count.other': '{count} sources',
+
+  'sessions.label': 'Saved sessions',
+  'sessions.fallback': 'Sessions',
+  'sessions.saveName': 'Save name',
+  'sessions.cancelRename': 'Cancel rename',
+  'sessions.rename': 'Rename session',
+  'sessions.delete': 'Delete session',
+  'sessions.new': 'New Session',
+
+  'trip.label': 'Export or import trip',
+  'trip.button': 'Trip',
+  'trip.export': 'Export {format}',
+  'trip.import': 'Import File',
+  'trip.imported': 'Imported {visited} visited places and {pins} pins from {file}.',
+  'trip.importFailed': 'Sorry, I couldn\'t read {file}. Use a GeoJSON, KML or GPX file.',
+
+  'usage.label': 'Show token usage',
+  'usage.queued': '{count} queued',
+  'usage.since': 'Since {time}',
+  'usage.summary': '{calls} · {input} in · {output} out',
+  'usage.calls.one': '{count} call',
+  'usage.calls.other': '{count} calls',
+  'usage.reset': 'Reset usage',
+  'usage.none': 'No model calls yet.',
+  'usage.tokens': '{input} prompt · {output} output tokens',
+  'usage.quota': '{used}/{limit} per min · {active} active',
+
+  'itinerary.title.one': 'Itinerary · {count} stop',
+  'itinerary.title.other': 'Itinerary · {count} stops',
+  'itinerary.empty': 'Add the current place or a map result to start a route.',
+  'itinerary.moveUp': 'Move stop up',
+  'itinerary.moveDown': 'Move stop down',
+  'itinerary.remove': 'Remove stop',
+  'itinerary.add': 'Add {name}',
+  'itinerary.optimize': 'Optimize',
+  'itinerary.optimizeHint': 'Shortest order from the first stop',
+  'itinerary.clear': 'Clear itinerary',
+  'itinerary.leg': 'Stop {from} → {to}: {distance}',
+  'itinerary.removeFromItinerary': 'Remove from itinerary',
+
+  'timeline.title.one': 'Timeline · {count} visit',
+  'timeline.title.other': 'Timeline · {count} visits',
+  'timeline.visits': 'Visited',
+  'timeline.favorites': 'Favorites',
+  'timeline.empty': 'Places you visit this session show up here.',
+  'timeline.noFavorites': 'Star a visited place to keep it here.',
+  'timeline.here': 'You are here',
+  'timeline.goTo': 'Go to {name}',
+  'timeline.star': 'Add to favorites',
+  'timeline.unstar': 'Remove from favorites',
+  'timeline.note': 'Note',
+  'timeline.notePlaceholder': 'Write a note about this place…',
+  'timeline.showOnMap': 'Show favorites on map',
+
+  'regions.tool.rectangle': 'Box',
+  'regions.tool.polygon': 'Shape',
+  'regions.tool.circle': 'Radius',
+  'regions.hint.rectangle': 'Click two opposite corners.',
+  'regions.hint.polygon': 'Click each corner; double-click or click the first point to finish.',
+  'regions.hint.circle': 'Click the centre, then the edge.',
+  'regions.draw': 'Draw {tool}',
+  'regions.cancel': 'Cancel drawing',
+  'regions.areaNear': 'Area near {name}',
+  'regions.numbered': 'Region {number}',
+  'regions.attached': 'attached to chat',
+  'regions.explore': 'Summarize region',
+  'regions.exploreHint': 'Summary and photos for this area',
+  'regions.delete': 'Delete region',
+  'regions.surveying': 'Surveying {name}...',
+  'regions.surveyed': 'Surveyed {name}.',
+
+  'layers.label': 'Map layers',
+  'layers.close': 'Close layers',
+  'layers.base': 'Base map',
+  'layers.overlays': 'Overlays',
+  'layers.remove': 'Remove layer',
+  'layers.opacity': '{name} opacity',
+  'layers.name': 'Name',
+  'layers.xyz': 'XYZ tiles',
+  'layers.wms': 'WMS',
+  'layers.overlay': 'Overlay',
+  'layers.wmsLayers': 'Layer names, comma-separated',
+  'layers.attribution': 'Attribution, e.g. © Example Maps',
+  'layers.add': 'Add layer',
+  'layers.cancel': 'Cancel',
+  'layers.addSource': 'Add XYZ or WMS source',
+  'layers.builtIn.road': 'Road',
+  'layers.builtIn.satellite': 'Satellite',
+  'layers.builtIn.topo': 'Topographic',
+  'layers.builtIn.dark': 'Dark',
+  'layers.builtIn.terrain': 'Terrain',
+  'layers.builtIn.labels': 'Place labels',
+  'layers.builtIn.roads-overlay': 'Roads',
+  'layers.builtIn.hillshade': 'Hillshade',
+  'layers.errors.name': 'Give the layer a name.',
+  'layers.errors.url': 'That is not a valid URL.',
+  'layers.errors.protocol': 'Only http(s) tile URLs are supported.',
+  'layers.errors.xyzPlaceholders': 'XYZ URLs need {z}, {x} and {y} placeholders.',
+  'layers.errors.wmsLayers': 'WMS sources need at least one layer name.',
+
+  'game.play': 'Play',
+  'game.playLabel': 'Play GeoGuess',
+  'game.title': 'GeoGuess',
+  'game.close': 'Close game',
+  'game.intro': 'Study the photos, click where you think they were taken, and score up to {points} points a round.',
+  'game.difficulty': 'Difficulty',
+  'game.difficulty.easy': 'Easy',
+  'game.difficulty.normal': 'Normal',
+  'game.difficulty.hard': 'Hard',
+  'game.photos.one': '{count} photo per round',
+  'game.photos.other': '{count} photos per round',
+  'game.timeLimit': '{seconds}s to guess',
+  'game.noTimeLimit': 'no time limit',
+  'game.rounds': 'Rounds',
+  'game.player': 'Player',
+  'game.defaultPlayer': 'Explorer',
+  'game.start': 'Start',
+  'game.highScores': 'High scores',
+  'game.noScores': 'No games played yet.',
+  'game.roundsPlayed.one': '{count} round',
+  'game.roundsPlayed.other': '{count} rounds',
+  'game.finalScore': 'Final score',
+  'game.roundOf': 'Round {round} of {total}',
+  'game.points': '{points} pts',
+  'game.quit': 'Quit game',
+  'game.scouting': 'Scouting a mystery location...',
+  'game.rank': '#{rank} on the {difficulty} high-score table!',
+  'game.timedOut': 'timed out',
+  'game.visit': 'Visit',
+  'game.visitPlace': 'Visit {name}',
+  'game.playAgain': 'Play again',
+  'game.done': 'Done',
+  'game.outOfTime': 'Out of time, no points this round.',
+  'game.result': '{distance} away · +{points} pts',
+  'game.seeResults': 'See results',
+  'game.nextRound': 'Next round',
+  'game.movePin': 'Click again to move your pin.',
+  'game.placePin': 'Click the map where you think this is.',
+  'game.lockIn': 'Lock in guess',
+  'game.mystery': 'Mystery location',
+  'game.yourGuess': 'Your guess',
+
+  'compare.open': 'Compare',
+  'compare.openLabel': 'Compare two places side by side',
+  'compare.title': 'Compare places',
+  'compare.swap': 'Swap places',
+  'compare.close': 'Close comparison',
+  'compare.searchPlaceholder': 'Search a place...',
+  'compare.set': 'Set',
+  'compare.pickPlace': 'Pick a place',
+  'compare.loading': 'Loading {name}...',
+  'compare.explore': 'Explore',
+  'compare.noPhotos': 'No verified photos found.',
+  'compare.tableTitle': 'Side by side',
+  'compare.empty': 'Pick two places to see how they compare.',
+  'compare.tableLoading': 'Comparing {first} and {second}...',
+  'compare.tableUnavailable': 'No comparison is available for these two places.',
+  'compare.topic.climate': 'Climate',
+  'compare.topic.history': 'History',
+  'compare.topic.sights': 'Notable sights',
+  'compare.askingAbout': 'Comparing {first} and {second}',
+
+  'sun.title': 'Local time & sun',
+  'sun.nautical': 'Nautical time (no nearby land zone)',
+  'sun.approximate': 'Near a time-zone border: the local time may differ.',
+  'sun.dst': 'Summer time',
+  'sun.position': 'Sun at {elevation}° elevation, {azimuth}° azimuth',
+  'sun.phase.day': 'Daylight',
+  'sun.phase.civil': 'Civil twilight',
+  'sun.phase.nautical': 'Nautical twilight',
+  'sun.phase.astronomical': 'Astronomical twilight',
+  'sun.phase.night': 'Night',
+  'sun.band.sun': 'Sunrise – sunset',
+  'sun.band.civil': 'Civil twilight',
+  'sun.band.nautical': 'Nautical twilight',
+  'sun.band.astronomical': 'Astronomical twilight',
+  'sun.polarDay': 'Sun up all day',
+  'sun.polarNight': 'Sun down all day',
+  'sun.always.above': 'Lasts all night',
+  'sun.always.below': 'Not today',
+  'sun.solarNoon': 'Solar noon',
+  'sun.dayLength': 'Day length',
+  'sun.duration': '{hours} h {minutes} min',
+  'sun.showTerminator': 'Show day and night on map',
+
+  'photo.upload': 'Find where a photo was taken',
+  'photo.question': 'Where was this photo taken?',
+  'photo.attached': 'Attached photo',
+  'photo.unreadable': 'I couldn\'t open {name} as an image.',
+  'photo.fromGps': 'This photo has GPS tags: it was taken near **{name}**.',
+  'photo.confident': 'This looks like **{name}** ({percent}% sure).',
+  'photo.unsure.one': 'I\'m not sure where this is. My best guess is pinned on the map.',
+  'photo.unsure.other': 'I\'m not sure where this is. My {count} best guesses are pinned on the map, most likely first.',
+  'photo.noMatch': 'Nothing in this photo gives the place away. Try one with a landmark, a sign or a wider view.',
+  'photo.fromGpsTags': 'From the photo\'s GPS tags',
+  'photo.modelGuess': 'Guessed from what the photo shows',
+  'photo.goThere': 'Go there',
+  'photo.showPin': 'Show {name} on the map',
+} as const;
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,297 @@
+import type { Catalog } from "../utils/i18n";
+
+export const es: Catalog = {
+  'app.tagline': 'Descubrimiento web',
+  'app.welcome': 'Bienvenido a GeoSlop. He lanzado un enjambre de captura para reunir fotos reales para ti. ¿Adónde vamos?',
+  'app.sessionName': 'Sesión {count}',
+  'app.yourLocation': 'Tu ubicación',
+
+  'locale.label': 'Idioma',
+
+  'nav.back': 'Atrás',
+  'nav.forward': 'Adelante',
+  'nav.home': 'Inicio',
+  'nav.searchPlaceholder': 'Viaja a una nueva ciudad...',
+  'nav.go': 'Ir',
+  'nav.clearSearch': 'Borrar búsqueda',
+  'nav.lucky': 'Otro lugar increíble',
+  'nav.warping': 'Viajando a {name}...',
+  'nav.warped': '¡Llegamos a {name}!',
+  'nav.warpedReady': '¡Llegamos a {name}! Listo para explorar.',
+  'nav.didYouMean': 'No encontré «{query}». ¿Quisiste decir alguno de estos?',
+  'nav.notFound': 'Lo siento, no encontré «{query}». Prueba con otra ciudad.',
+  'nav.scouring': 'Recorriendo el planeta en busca de algo único...',
+  'nav.noNewSpot': 'Ahora mismo no encontré un lugar nuevo. Probemos otra vez.',
+  'nav.checkCorrected': '⚠ Las coordenadas sugeridas estaban a {distance} de {reference}, así que usé la posición del nomenclátor sin conexión.',
+  'nav.checkSuspect': '⚠ Estas coordenadas están a {distance} de la entrada del nomenclátor para {reference}; el marcador podría estar desviado.',
+
+  'chat.placeholder': 'Pregunta sobre este lugar...',
+  'chat.send': 'Enviar',
+  'chat.stop': 'Detener respuesta',
+  'chat.stopped': 'Detenido',
+  'chat.scanning': 'Analizando recursos web...',
+  'chat.askingAbout': 'Preguntando por {name}',
+  'chat.detachRegion': 'Quitar región',
+  'chat.noInformation': 'No encontré información.',
+  'chat.welcomeTo': '¡Bienvenido a {name}!',
+
+  'errors.gallery': 'No pude terminar de cargar fotos y preguntas para {name}.',
+  'errors.reverse': 'No pude identificar el lugar en {lat}, {lng}.',
+  'errors.search': 'No pude buscar «{query}».',
+  'errors.resolve': 'No pude situar en el mapa todos los marcadores de esa respuesta.',
+  'errors.lucky': 'No pude encontrar un lugar nuevo.',
+  'errors.region': 'No pude resumir {name}.',
+  'errors.photo': 'No pude averiguar dónde se tomó esa foto.',
+  'errors.rate-limited.title': 'Límite de solicitudes',
+  'errors.rate-limited.message': 'El modelo está limitando nuestras solicitudes. Espera un momento y vuelve a intentarlo.',
+  'errors.server.title': 'Servicio no disponible',
+  'errors.server.message': 'El servicio del modelo tiene problemas en este momento.',
+  'errors.auth.title': 'Problema con la clave de API',
+  'errors.auth.message': 'Falta la clave de API o fue rechazada. Define GEMINI_API_KEY en .env.local y reinicia.',
+  'errors.invalid-json.title': 'Respuesta ilegible',
+  'errors.invalid-json.message': 'El modelo devolvió una respuesta que no pude leer.',
+  'errors.invalid-output.title': 'Respuesta no válida',
+  'errors.invalid-output.message': 'La respuesta del modelo no superó la validación, ni siquiera tras pedirle que la corrigiera.',
+  'errors.safety-blocked.title': 'Bloqueado por filtros de seguridad',
+  'errors.safety-blocked.message': 'El modelo se negó a responder a eso.',
+  'errors.network.title': 'Problema de conexión',
+  'errors.network.message': 'No pude contactar con el servicio del modelo. Revisa tu conexión.',
+  'errors.aborted.title': 'Cancelado',
+  'errors.aborted.message': 'La solicitud se canceló.',
+  'errors.unknown.title': 'La solicitud falló',
+  'errors.unknown.message': 'Algo salió mal al hablar con el modelo.',
+  'errors.retry': 'Reintentar',
+  'errors.retryingIn': 'reintentando en {seconds} s',
+  'errors.retryingNow': 'reintentando ahora',
+  'errors.attempt': '(intento {attempt} de {max})',
+
+  'map.zoomIn': 'Acercar',
+  'map.zoomOut': 'Alejar',
+  'map.toggleGallery': 'Mostrar u ocultar la galería',
+  'map.viewOnGoogleMaps': 'Ver en Google Maps',
+  'map.addToItinerary': 'Añadir al itinerario',
+
+  'gallery.title': 'Enjambre web',
+  'gallery.live': 'Descubrimiento en vivo',
+  'gallery.refresh': 'Actualizar fotos y preguntas',
+  'gallery.locating': 'Localizando',
+  'gallery.connecting': 'Conectando con el enjambre visual...',
+  'gallery.scrollLeft': 'Desplazar fotos a la izquierda',
+  'gallery.scrollRight': 'Desplazar fotos a la derecha',
+  'gallery.linkRestricted': 'Enlace de la foto restringido',
+  'gallery.visitSource': 'Visitar la página de origen',
+  'gallery.sourceLink': 'Enlace de origen',
+  'gallery.webSource': 'Fuente web',
+  'gallery.webCapture': 'Captura web',
+  'gallery.photoBy': 'Foto de {author}',
+  'gallery.substituteNote': 'La foto sugerida no estaba disponible; esta es la coincidencia más cercana en Commons.',
+  'gallery.visitOriginal': 'Visitar la página original',
+  'gallery.dismiss': 'Cerrar',
+  'gallery.close': 'Cerrar foto',
+  'gallery.provider.wikimedia': 'Wikimedia Commons',
+  'gallery.provider.wikimediaSubstitute': 'Wikimedia Commons (sustituta)',
+  'gallery.provider.unsplash': 'Unsplash',
+  'gallery.provider.fixture': 'Demo sin conexión',
+  'gallery.provider.web': 'Foto web',
+
+  'sources.count.one': '{count} fuente',
+  'sources.count.other': '{count} fuentes',
+
+  'sessions.label': 'Sesiones guardadas',
+  'sessions.fallback': 'Sesiones',
+  'sessions.saveName': 'Guardar nombre',
+  'sessions.cancelRename': 'Cancelar cambio de nombre',
+  'sessions.rename': 'Renombrar sesión',
+  'sessions.delete': 'Eliminar sesión',
+  'sessions.new': 'Nueva sesión',
+
+  'trip.label': 'Exportar o importar viaje',
+  'trip.button': 'Viaje',
+  'trip.export': 'Exportar {format}',
+  'trip.import': 'Importar archivo',
+  'trip.imported': 'Importé {visited} lugares visitados y {pins} marcadores de {file}.',
+  'trip.importFailed': 'Lo siento, no pude leer {file}. Usa un archivo GeoJSON, KML o GPX.',
+
+  'usage.label': 'Ver uso de tokens',
+  'usage.queued': '{count} en cola',
+  'usage.since': 'Desde las {time}',
+  'usage.summary': '{calls} · {input} de entrada · {output} de salida',
+  'usage.calls.one': '{count} llamada',
+  'usage.calls.other': '{count} llamadas',
+  'usage.reset': 'Reiniciar uso',
+  'usage.none': 'Aún no hay llamadas al modelo.',
+  'usage.tokens': '{input} de prompt · {output} tokens de salida',
+  'usage.quota': '{used}/{limit} por min · {active} activas',
+
+  'itinerary.title.one': 'Itinerario · {count} parada',
+  'itinerary.title.other': 'Itinerario · {count} paradas',
+  'itinerary.empty': 'Añade el lugar actual o un resultado del mapa para empezar una ruta.',
+  'itinerary.moveUp': 'Subir parada',
+  'itinerary.moveDown': 'Bajar parada',
+  'itinerary.remove': 'Quitar parada',
+  'itinerary.add': 'Añadir {name}',
+  'itinerary.optimize': 'Optimizar',
+  'itinerary.optimizeHint': 'Orden más corto desde la primera parada',
+  'itinerary.clear': 'Vaciar itinerario',
+  'itinerary.leg': 'Parada {from} → {to}: {distance}',
+  'itinerary.removeFromItinerary': 'Quitar del itinerario',
+
+  'timeline.title.one': 'Historial · {count} visita',
+  'timeline.title.other': 'Historial · {count} visitas',
+  'timeline.visits': 'Visitados',
+  'timeline.favorites': 'Favoritos',
+  'timeline.empty': 'Los lugares que visites en esta sesión aparecerán aquí.',
+  'timeline.noFavorites': 'Marca con una estrella un lugar visitado para guardarlo aquí.',
+  'timeline.here': 'Estás aquí',
+  'timeline.goTo': 'Ir a {name}',
+  'timeline.star': 'Añadir a favoritos',
+  'timeline.unstar': 'Quitar de favoritos',
+  'timeline.note': 'Nota',
+  'timeline.notePlaceholder': 'Escribe una nota sobre este lugar…',
+  'timeline.showOnMap': 'Mostrar favoritos en el mapa',
+
+  'regions.tool.rectangle': 'Caja',
+  'regions.tool.polygon': 'Forma',
+  'regions.tool.circle': 'Radio',
+  'regions.hint.rectangle': 'Haz clic en dos esquinas opuestas.',
+  'regions.hint.polygon': 'Haz clic en cada vértice; doble clic o clic en el primer punto para terminar.',
+  'regions.hint.circle': 'Haz clic en el centro y luego en el borde.',
+  'regions.draw': 'Dibujar {tool}',
+  'regions.cancel': 'Cancelar dibujo',
+  'regions.areaNear': 'Zona cerca de {name}',
+  'regions.numbered': 'Región {number}',
+  'regions.attached': 'adjunta al chat',
+  'regions.explore': 'Resumir región',
+  'regions.exploreHint': 'Resumen y fotos de esta zona',
+  'regions.delete': 'Eliminar región',
+  'regions.surveying': 'Explorando {name}...',
+  'regions.surveyed': 'Exploración de {name} completada.',
+
+  'layers.label': 'Capas del mapa',
+  'layers.close': 'Cerrar capas',
+  'layers.base': 'Mapa base',
+  'layers.overlays': 'Superposiciones',
+  'layers.remove': 'Quitar capa',
+  'layers.opacity': 'Opacidad de {name}',
+  'layers.name': 'Nombre',
+  'layers.xyz': 'Teselas XYZ',
+  'layers.wms': 'WMS',
+  'layers.overlay': 'Superposición',
+  'layers.wmsLayers': 'Nombres de capa, separados por comas',
+  'layers.attribution': 'Atribución, p. ej. © Example Maps',
+  'layers.add': 'Añadir capa',
+  'layers.cancel': 'Cancelar',
+  'layers.addSource': 'Añadir fuente XYZ o WMS',
+  'layers.builtIn.road': 'Calles',
+  'layers.builtIn.satellite': 'Satélite',
+  'layers.builtIn.topo': 'Topográfico',
+  'layers.builtIn.dark': 'Oscuro',
+  'layers.builtIn.terrain': 'Relieve',
+  'layers.builtIn.labels': 'Nombres de lugares',
+  'layers.builtIn.roads-overlay': 'Carreteras',
+  'layers.builtIn.hillshade': 'Sombreado',
+  'layers.errors.name': 'Ponle un nombre a la capa.',
+  'layers.errors.url': 'Esa URL no es válida.',
+  'layers.errors.protocol': 'Solo se admiten URL de teselas http(s).',
+  'layers.errors.xyzPlaceholders': 'Las URL XYZ necesitan los marcadores {z}, {x} e {y}.',
+  'layers.errors.wmsLayers': 'Las fuentes WMS necesitan al menos un nombre de capa.',
+
+  'game.play': 'Jugar',
+  'game.playLabel': 'Jugar a GeoGuess',
+  'game.title': 'GeoGuess',
+  'game.close': 'Cerrar juego',
+  'game.intro': 'Estudia las fotos, haz clic donde crees que se tomaron y gana hasta {points} puntos por ronda.',
+  'game.difficulty': 'Dificultad',
+  'game.difficulty.easy': 'Fácil',
+  'game.difficulty.normal': 'Normal',
+  'game.difficulty.hard': 'Difícil',
+  'game.photos.one': '{count} foto por ronda',
+  'game.photos.other': '{count} fotos por ronda',
+  'game.timeLimit': '{seconds} s para adivinar',
+  'game.noTimeLimit': 'sin límite de tiempo',
+  'game.rounds': 'Rondas',
+  'game.player': 'Jugador',
+  'game.defaultPlayer': 'Explorador',
+  'game.start': 'Empezar',
+  'game.highScores': 'Mejores puntuaciones',
+  'game.noScores': 'Aún no se ha jugado ninguna partida.',
+  'game.roundsPlayed.one': '{count} ronda',
+  'game.roundsPlayed.other': '{count} rondas',
+  'game.finalScore': 'Puntuación final',
+  'game.roundOf': 'Ronda {round} de {total}',
+  'game.points': '{points} pts',
+  'game.quit': 'Salir del juego',
+  'game.scouting': 'Buscando un lugar misterioso...',
+  'game.rank': '¡Puesto {rank} en la tabla de {difficulty}!',
+  'game.timedOut': 'sin tiempo',
+  'game.visit': 'Visitar',
+  'game.visitPlace': 'Visitar {name}',
+  'game.playAgain': 'Jugar otra vez',
+  'game.done': 'Listo',
+  'game.outOfTime': 'Se acabó el tiempo, sin puntos esta ronda.',
+  'game.result': 'a {distance} · +{points} pts',
+  'game.seeResults': 'Ver resultados',
+  'game.nextRound': 'Siguiente ronda',
+  'game.movePin': 'Haz clic de nuevo para mover tu marcador.',
+  'game.placePin': 'Haz clic en el mapa donde crees que está.',
+  'game.lockIn': 'Confirmar respuesta',
+  'game.mystery': 'Lugar misterioso',
+  'game.yourGuess': 'Tu respuesta',
+
+  'compare.open': 'Comparar',
+  'compare.openLabel': 'Comparar dos lugares lado a lado',
+  'compare.title': 'Comparar lugares',
+  'compare.swap': 'Intercambiar lugares',
+  'compare.close': 'Cerrar comparación',
+  'compare.searchPlaceholder': 'Busca un lugar...',
+  'compare.set': 'Fijar',
+  'compare.pickPlace': 'Elige un lugar',
+  'compare.loading': 'Cargando {name}...',
+  'compare.explore': 'Explorar',
+  'compare.noPhotos': 'No se encontraron fotos verificadas.',
+  'compare.tableTitle': 'Lado a lado',
+  'compare.empty': 'Elige dos lugares para ver cómo se comparan.',
+  'compare.tableLoading': 'Comparando {first} y {second}...',
+  'compare.tableUnavailable': 'No hay comparación disponible para estos dos lugares.',
+  'compare.topic.climate': 'Clima',
+  'compare.topic.history': 'Historia',
+  'compare.topic.sights': 'Lugares destacados',
+  'compare.askingAbout': 'Comparando {first} y {second}',
+
+  'sun.title': 'Hora local y sol',
+  'sun.nautical': 'Hora náutica (sin zona terrestre cercana)',
+  'sun.approximate': 'Cerca de un límite de zona horaria: la hora local puede ser otra.',
+  'sun.dst': 'Horario de verano',
+  'sun.position': 'Sol a {elevation}° de elevación, {azimuth}° de acimut',
+  'sun.phase.day': 'De día',
+  'sun.phase.civil': 'Crepúsculo civil',
+  'sun.phase.nautical': 'Crepúsculo náutico',
+  'sun.phase.astronomical': 'Crepúsculo astronómico',
+  'sun.phase.night': 'De noche',
+  'sun.band.sun': 'Amanecer – atardecer',
+  'sun.band.civil': 'Crepúsculo civil',
+  'sun.band.nautical': 'Crepúsculo náutico',
+  'sun.band.astronomical': 'Crepúsculo astronómico',
+  'sun.polarDay': 'Sol todo el día',
+  'sun.polarNight': 'Sin sol en todo el día',
+  'sun.always.above': 'Dura toda la noche',
+  'sun.always.below': 'Hoy no',
+  'sun.solarNoon': 'Mediodía solar',
+  'sun.dayLength': 'Duración del día',
+  'sun.duration': '{hours} h {minutes} min',
+  'sun.showTerminator': 'Mostrar día y noche en el mapa',
+
+  'photo.upload': 'Averiguar dónde se tomó una foto',
+  'photo.question': '¿Dónde se tomó esta foto?',
+  'photo.attached': 'Foto adjunta',
+  'photo.unreadable': 'No pude abrir {name} como imagen.',
+  'photo.fromGps': 'Esta foto tiene etiquetas GPS: se tomó cerca de **{name}**.',
+  'photo.confident': 'Parece **{name}** (seguro al {percent}%).',
+  'photo.unsure.one': 'No estoy seguro de dónde es. Mi mejor suposición está marcada en el mapa.',
+  'photo.unsure.other': 'No estoy seguro de dónde es. Mis {count} mejores suposiciones están marcadas en el mapa, de más a menos probable.',
+  'photo.noMatch': 'Nada en esta foto delata el lugar. Prueba con una que muestre un monumento, un cartel o una vista más amplia.',
+  'photo.fromGpsTags': 'Según las etiquetas GPS de la foto',
+  'photo.modelGuess': 'Deducido de lo que muestra la foto',
+  'photo.goThere': 'Ir allí',
+  'photo.showPin': 'Mostrar {name} en el mapa',
+};
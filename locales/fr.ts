@@ -0,0 +1,297 @@
+import type { Catalog } from "../utils/i18n";
+
+export const fr: Catalog = {
+  'app.tagline': 'Découverte web',
+  'app.welcome': 'Bienvenue sur GeoSlop. J\'ai lancé un essaim de capture pour rassembler de vraies photos pour vous. Où allons-nous ?',
+  'app.sessionName': 'Session {count}',
+  'app.yourLocation': 'Votre position',
+
+  'locale.label': 'Langue',
+
+  'nav.back': 'Précédent',
+  'nav.forward': 'Suivant',
+  'nav.home': 'Accueil',
+  'nav.searchPlaceholder': 'Filer vers une nouvelle ville...',
+  'nav.go': 'Go',
+  'nav.clearSearch': 'Effacer la recherche',
+  'nav.lucky': 'Un autre lieu fascinant',
+  'nav.warping': 'En route vers {name}...',
+  'nav.warped': 'Arrivés à {name} !',
+  'nav.warpedReady': 'Arrivés à {name} ! Prêts à explorer.',
+  'nav.didYouMean': 'Je n\'ai pas trouvé « {query} ». Vouliez-vous dire l\'un de ces lieux ?',
+  'nav.notFound': 'Désolé, je n\'ai pas trouvé « {query} ». Essayez une autre ville.',
+  'nav.scouring': 'Je parcours le globe à la recherche d\'un lieu unique...',
+  'nav.noNewSpot': 'Je n\'ai pas trouvé de nouveau lieu pour l\'instant. Réessayons.',
+  'nav.checkCorrected': '⚠ Les coordonnées proposées étaient à {distance} de {reference} ; j\'ai donc utilisé la position du répertoire hors ligne.',
+  'nav.checkSuspect': '⚠ Ces coordonnées sont à {distance} de l\'entrée du répertoire pour {reference} ; le repère est peut-être décalé.',
+
+  'chat.placeholder': 'Posez une question sur ce lieu...',
+  'chat.send': 'Envoyer',
+  'chat.stop': 'Arrêter la réponse',
+  'chat.stopped': 'Arrêté',
+  'chat.scanning': 'Analyse des ressources web...',
+  'chat.askingAbout': 'Question sur {name}',
+  'chat.detachRegion': 'Détacher la zone',
+  'chat.noInformation': 'Je n\'ai trouvé aucune information.',
+  'chat.welcomeTo': 'Bienvenue à {name} !',
+
+  'errors.gallery': 'Je n\'ai pas pu charger toutes les photos et questions pour {name}.',
+  'errors.reverse': 'Je n\'ai pas pu identifier le lieu situé à {lat}, {lng}.',
+  'errors.search': 'Je n\'ai pas pu rechercher « {query} ».',
+  'errors.resolve': 'Je n\'ai pas pu placer tous les repères de cette réponse sur la carte.',
+  'errors.lucky': 'Je n\'ai pas pu dénicher de nouveau lieu.',
+  'errors.region': 'Je n\'ai pas pu résumer {name}.',
+  'errors.photo': 'Je n\'ai pas pu déterminer où cette photo a été prise.',
+  'errors.rate-limited.title': 'Trop de requêtes',
+  'errors.rate-limited.message': 'Le modèle limite nos requêtes. Patientez un instant puis réessayez.',
+  'errors.server.title': 'Service indisponible',
+  'errors.server.message': 'Le service du modèle rencontre des difficultés.',
+  'errors.auth.title': 'Problème de clé API',
+  'errors.auth.message': 'La clé API est absente ou a été refusée. Définissez GEMINI_API_KEY dans .env.local puis redémarrez.',
+  'errors.invalid-json.title': 'Réponse illisible',
+  'errors.invalid-json.message': 'Le modèle a renvoyé une réponse que je n\'ai pas pu lire.',
+  'errors.invalid-output.title': 'Réponse non valide',
+  'errors.invalid-output.message': 'La réponse du modèle n\'a pas passé la validation, même après lui avoir demandé de la corriger.',
+  'errors.safety-blocked.title': 'Bloqué par les filtres de sécurité',
+  'errors.safety-blocked.message': 'Le modèle a refusé de répondre à cette question.',
+  'errors.network.title': 'Problème de connexion',
+  'errors.network.message': 'Impossible de joindre le service du modèle. Vérifiez votre connexion.',
+  'errors.aborted.title': 'Annulé',
+  'errors.aborted.message': 'La requête a été annulée.',
+  'errors.unknown.title': 'Échec de la requête',
+  'errors.unknown.message': 'Un problème est survenu en interrogeant le modèle.',
+  'errors.retry': 'Réessayer',
+  'errors.retryingIn': 'nouvel essai dans {seconds} s',
+  'errors.retryingNow': 'nouvel essai en cours',
+  'errors.attempt': '(tentative {attempt} sur {max})',
+
+  'map.zoomIn': 'Zoom avant',
+  'map.zoomOut': 'Zoom arrière',
+  'map.toggleGallery': 'Afficher ou masquer la galerie',
+  'map.viewOnGoogleMaps': 'Voir sur Google Maps',
+  'map.addToItinerary': 'Ajouter à l\'itinéraire',
+
+  'gallery.title': 'Essaim web',
+  'gallery.live': 'Découverte en direct',
+  'gallery.refresh': 'Actualiser les photos et les questions',
+  'gallery.locating': 'Localisation de',
+  'gallery.connecting': 'Connexion à l\'essaim visuel...',
+  'gallery.scrollLeft': 'Faire défiler les photos vers la gauche',
+  'gallery.scrollRight': 'Faire défiler les photos vers la droite',
+  'gallery.linkRestricted': 'Lien de la photo restreint',
+  'gallery.visitSource': 'Voir la page source',
+  'gallery.sourceLink': 'Lien source',
+  'gallery.webSource': 'Source web',
+  'gallery.webCapture': 'Capture web',
+  'gallery.photoBy': 'Photo de {author}',
+  'gallery.substituteNote': 'La photo proposée était indisponible ; voici la correspondance Commons la plus proche.',
+  'gallery.visitOriginal': 'Voir la page d\'origine',
+  'gallery.dismiss': 'Fermer',
+  'gallery.close': 'Fermer la photo',
+  'gallery.provider.wikimedia': 'Wikimedia Commons',
+  'gallery.provider.wikimediaSubstitute': 'Wikimedia Commons (remplacement)',
+  'gallery.provider.unsplash': 'Unsplash',
+  'gallery.provider.fixture': 'Démo hors ligne',
+  'gallery.provider.web': 'Photo web',
+
+  'sources.count.one': '{count} source',
+  'sources.count.other': '{count} sources',
+
+  'sessions.label': 'Sessions enregistrées',
+  'sessions.fallback': 'Sessions',
+  'sessions.saveName': 'Enregistrer le nom',
+  'sessions.cancelRename': 'Annuler le renommage',
+  'sessions.rename': 'Renommer la session',
+  'sessions.delete': 'Supprimer la session',
+  'sessions.new': 'Nouvelle session',
+
+  'trip.label': 'Exporter ou importer un voyage',
+  'trip.button': 'Voyage',
+  'trip.export': 'Exporter en {format}',
+  'trip.import': 'Importer un fichier',
+  'trip.imported': '{visited} lieux visités et {pins} repères importés depuis {file}.',
+  'trip.importFailed': 'Désolé, je n\'ai pas pu lire {file}. Utilisez un fichier GeoJSON, KML ou GPX.',
+
+  'usage.label': 'Afficher l\'utilisation des jetons',
+  'usage.queued': '{count} en attente',
+  'usage.since': 'Depuis {time}',
+  'usage.summary': '{calls} · {input} en entrée · {output} en sortie',
+  'usage.calls.one': '{count} appel',
+  'usage.calls.other': '{count} appels',
+  'usage.reset': 'Réinitialiser l\'utilisation',
+  'usage.none': 'Aucun appel au modèle pour l\'instant.',
+  'usage.tokens': '{input} de prompt · {output} jetons de sortie',
+  'usage.quota': '{used}/{limit} par min · {active} actifs',
+
+  'itinerary.title.one': 'Itinéraire · {count} étape',
+  'itinerary.title.other': 'Itinéraire · {count} étapes',
+  'itinerary.empty': 'Ajoutez le lieu actuel ou un résultat de la carte pour commencer un trajet.',
+  'itinerary.moveUp': 'Monter l\'étape',
+  'itinerary.moveDown': 'Descendre l\'étape',
+  'itinerary.remove': 'Retirer l\'étape',
+  'itinerary.add': 'Ajouter {name}',
+  'itinerary.optimize': 'Optimiser',
+  'itinerary.optimizeHint': 'Ordre le plus court depuis la première étape',
+  'itinerary.clear': 'Vider l\'itinéraire',
+  'itinerary.leg': 'Étape {from} → {to} : {distance}',
+  'itinerary.removeFromItinerary': 'Retirer de l\'itinéraire',
+
+  'timeline.title.one': 'Historique · {count} visite',
+  'timeline.title.other': 'Historique · {count} visites',
+  'timeline.visits': 'Visités',
+  'timeline.favorites': 'Favoris',
+  'timeline.empty': 'Les lieux visités pendant cette session s\'affichent ici.',
+  'timeline.noFavorites': 'Ajoutez une étoile à un lieu visité pour le garder ici.',
+  'timeline.here': 'Vous êtes ici',
+  'timeline.goTo': 'Aller à {name}',
+  'timeline.star': 'Ajouter aux favoris',
+  'timeline.unstar': 'Retirer des favoris',
+  'timeline.note': 'Note',
+  'timeline.notePlaceholder': 'Écrivez une note sur ce lieu…',
+  'timeline.showOnMap': 'Afficher les favoris sur la carte',
+
+  'regions.tool.rectangle': 'Cadre',
+  'regions.tool.polygon': 'Forme',
+  'regions.tool.circle': 'Rayon',
+  'regions.hint.rectangle': 'Cliquez sur deux coins opposés.',
+  'regions.hint.polygon': 'Cliquez sur chaque sommet ; double-cliquez ou cliquez sur le premier point pour terminer.',
+  'regions.hint.circle': 'Cliquez sur le centre, puis sur le bord.',
+  'regions.draw': 'Dessiner : {tool}',
+  'regions.cancel': 'Annuler le dessin',
+  'regions.areaNear': 'Zone près de {name}',
+  'regions.numbered': 'Zone {number}',
+  'regions.attached': 'jointe au chat',
+  'regions.explore': 'Résumer la zone',
+  'regions.exploreHint': 'Résumé et photos de cette zone',
+  'regions.delete': 'Supprimer la zone',
+  'regions.surveying': 'Exploration de {name}...',
+  'regions.surveyed': 'Exploration de {name} terminée.',
+
+  'layers.label': 'Couches de la carte',
+  'layers.close': 'Fermer les couches',
+  'layers.base': 'Fond de carte',
+  'layers.overlays': 'Surcouches',
+  'layers.remove': 'Retirer la couche',
+  'layers.opacity': 'Opacité de {name}',
+  'layers.name': 'Nom',
+  'layers.xyz': 'Tuiles XYZ',
+  'layers.wms': 'WMS',
+  'layers.overlay': 'Surcouche',
+  'layers.wmsLayers': 'Noms des couches, séparés par des virgules',
+  'layers.attribution': 'Attribution, p. ex. © Example Maps',
+  'layers.add': 'Ajouter la couche',
+  'layers.cancel': 'Annuler',
+  'layers.addSource': 'Ajouter une source XYZ ou WMS',
+  'layers.builtIn.road': 'Plan',
+  'layers.builtIn.satellite': 'Satellite',
+  'layers.builtIn.topo': 'Topographique',
+  'layers.builtIn.dark': 'Sombre',
+  'layers.builtIn.terrain': 'Relief',
+  'layers.builtIn.labels': 'Noms de lieux',
+  'layers.builtIn.roads-overlay': 'Routes',
+  'layers.builtIn.hillshade': 'Ombrage',
+  'layers.errors.name': 'Donnez un nom à la couche.',
+  'layers.errors.url': 'Cette URL n\'est pas valide.',
+  'layers.errors.protocol': 'Seules les URL de tuiles http(s) sont prises en charge.',
+  'layers.errors.xyzPlaceholders': 'Les URL XYZ doivent contenir {z}, {x} et {y}.',
+  'layers.errors.wmsLayers': 'Les sources WMS nécessitent au moins un nom de couche.',
+
+  'game.play': 'Jouer',
+  'game.playLabel': 'Jouer à GeoGuess',
+  'game.title': 'GeoGuess',
+  'game.close': 'Fermer le jeu',
+  'game.intro': 'Étudiez les photos, cliquez là où vous pensez qu\'elles ont été prises et marquez jusqu\'à {points} points par manche.',
+  'game.difficulty': 'Difficulté',
+  'game.difficulty.easy': 'Facile',
+  'game.difficulty.normal': 'Normal',
+  'game.difficulty.hard': 'Difficile',
+  'game.photos.one': '{count} photo par manche',
+  'game.photos.other': '{count} photos par manche',
+  'game.timeLimit': '{seconds} s pour deviner',
+  'game.noTimeLimit': 'sans limite de temps',
+  'game.rounds': 'Manches',
+  'game.player': 'Joueur',
+  'game.defaultPlayer': 'Explorateur',
+  'game.start': 'Commencer',
+  'game.highScores': 'Meilleurs scores',
+  'game.noScores': 'Aucune partie jouée pour l\'instant.',
+  'game.roundsPlayed.one': '{count} manche',
+  'game.roundsPlayed.other': '{count} manches',
+  'game.finalScore': 'Score final',
+  'game.roundOf': 'Manche {round} sur {total}',
+  'game.points': '{points} pts',
+  'game.quit': 'Quitter le jeu',
+  'game.scouting': 'Recherche d\'un lieu mystère...',
+  'game.rank': 'N° {rank} du classement {difficulty} !',
+  'game.timedOut': 'temps écoulé',
+  'game.visit': 'Visiter',
+  'game.visitPlace': 'Visiter {name}',
+  'game.playAgain': 'Rejouer',
+  'game.done': 'Terminé',
+  'game.outOfTime': 'Temps écoulé, aucun point pour cette manche.',
+  'game.result': 'à {distance} · +{points} pts',
+  'game.seeResults': 'Voir les résultats',
+  'game.nextRound': 'Manche suivante',
+  'game.movePin': 'Cliquez à nouveau pour déplacer votre repère.',
+  'game.placePin': 'Cliquez sur la carte là où vous pensez que c\'est.',
+  'game.lockIn': 'Valider ma réponse',
+  'game.mystery': 'Lieu mystère',
+  'game.yourGuess': 'Votre réponse',
+
+  'compare.open': 'Comparer',
+  'compare.openLabel': 'Comparer deux lieux côte à côte',
+  'compare.title': 'Comparer des lieux',
+  'compare.swap': 'Inverser les lieux',
+  'compare.close': 'Fermer la comparaison',
+  'compare.searchPlaceholder': 'Rechercher un lieu...',
+  'compare.set': 'Choisir',
+  'compare.pickPlace': 'Choisissez un lieu',
+  'compare.loading': 'Chargement de {name}...',
+  'compare.explore': 'Explorer',
+  'compare.noPhotos': 'Aucune photo vérifiée trouvée.',
+  'compare.tableTitle': 'Côte à côte',
+  'compare.empty': 'Choisissez deux lieux pour les comparer.',
+  'compare.tableLoading': 'Comparaison de {first} et {second}...',
+  'compare.tableUnavailable': 'Aucune comparaison disponible pour ces deux lieux.',
+  'compare.topic.climate': 'Climat',
+  'compare.topic.history': 'Histoire',
+  'compare.topic.sights': 'Sites remarquables',
+  'compare.askingAbout': 'Comparaison de {first} et {second}',
+
+  'sun.title': 'Heure locale et soleil',
+  'sun.nautical': 'Heure nautique (aucun fuseau terrestre proche)',
+  'sun.approximate': 'Près d\'une limite de fuseau horaire : l\'heure locale peut différer.',
+  'sun.dst': 'Heure d\'été',
+  'sun.position': 'Soleil à {elevation}° de hauteur, {azimuth}° d\'azimut',
+  'sun.phase.day': 'Jour',
+  'sun.phase.civil': 'Crépuscule civil',
+  'sun.phase.nautical': 'Crépuscule nautique',
+  'sun.phase.astronomical': 'Crépuscule astronomique',
+  'sun.phase.night': 'Nuit',
+  'sun.band.sun': 'Lever – coucher',
+  'sun.band.civil': 'Crépuscule civil',
+  'sun.band.nautical': 'Crépuscule nautique',
+  'sun.band.astronomical': 'Crépuscule astronomique',
+  'sun.polarDay': 'Soleil toute la journée',
+  'sun.polarNight': 'Pas de soleil de la journée',
+  'sun.always.above': 'Toute la nuit',
+  'sun.always.below': 'Pas aujourd\'hui',
+  'sun.solarNoon': 'Midi solaire',
+  'sun.dayLength': 'Durée du jour',
+  'sun.duration': '{hours} h {minutes} min',
+  'sun.showTerminator': 'Afficher le jour et la nuit sur la carte',
+
+  'photo.upload': 'Trouver où une photo a été prise',
+  'photo.question': 'Où cette photo a-t-elle été prise ?',
+  'photo.attached': 'Photo jointe',
+  'photo.unreadable': 'Je n\'ai pas pu ouvrir {name} comme image.',
+  'photo.fromGps': 'Cette photo contient des balises GPS : elle a été prise près de **{name}**.',
+  'photo.confident': 'On dirait **{name}** (sûr à {percent} %).',
+  'photo.unsure.one': 'Je ne suis pas sûr de l\'endroit. Ma meilleure hypothèse est épinglée sur la carte.',
+  'photo.unsure.other': 'Je ne suis pas sûr de l\'endroit. Mes {count} meilleures hypothèses sont épinglées sur la carte, de la plus à la moins probable.',
+  'photo.noMatch': 'Rien dans cette photo ne trahit le lieu. Essayez-en une avec un monument, un panneau ou une vue plus large.',
+  'photo.fromGpsTags': 'D\'après les balises GPS de la photo',
+  'photo.modelGuess': 'Déduit de ce que montre la photo',
+  'photo.goThere': 'Y aller',
+  'photo.showPin': 'Afficher {name} sur la carte',
+};
@@ -0,0 +1,75 @@
+
+// Small node:http helpers for the proxy: body reading with a size cap, JSON replies and
+// working out who a request came from.
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { ServiceErrorKind } from "../types";
+import { SESSION_HEADER, type ProxyErrorBody } from "../services/proxyProtocol";
+
+// A failure the proxy itself decided on (bad input, too large, rate limited), as opposed
+// to one from the model, which arrives as a ServiceError.
+export class HttpError extends Error {
+  status: number;
+  kind: ServiceErrorKind;
+  retryAfterMs?: number;
+
+  constructor(status: number, kind: ServiceErrorKind, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.kind = kind;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  toBody(): ProxyErrorBody {
+    return { error: { kind: this.kind, message: this.message, retryAfterMs: this.retryAfterMs } };
+  }
+}
+
+// Rejects with 413 as soon as the body passes maxBytes.
+export const readBody = (req: IncomingMessage, maxBytes: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const declared = Number(req.headers['content-length']);
+    if (declared > maxBytes) {
+      req.resume();
+      return reject(new HttpError(413, 'unknown', `Request body exceeds ${maxBytes} bytes`));
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    // Past the cap the rest is drained unread, so the 413 can still be sent on this socket.
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        chunks.length = 0;
+        reject(new HttpError(413, 'unknown', `Request body exceeds ${maxBytes} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): number => {
+  const payload = JSON.stringify(body ?? null);
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(payload);
+  return Buffer.byteLength(payload);
+};
+
+// The browser session a request belongs to, from SESSION_HEADER; requests without a
+// well-formed id are grouped by client address instead.
+export const sessionId = (req: IncomingMessage, client: string): string => {
+  const header = req.headers[SESSION_HEADER.toLowerCase()];
+  return typeof header === 'string' && /^[A-Za-z0-9-]{8,64}$/.test(header) ? `session:${header}` : `client:${client}`;
+};
+
+// Behind a reverse proxy every request comes from the same socket address, so the
+// forwarded header is used instead, but only when the operator says it can be trusted.
+export const clientAddress = (req: IncomingMessage, trustForwarded: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustForwarded && typeof forwarded === 'string' && forwarded.trim()) {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
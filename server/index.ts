@@ -0,0 +1,250 @@
+
+// Gemini proxy. Holds the API key so the browser bundle never does: the client (ProxyService,
+// GEOSLOP_PROVIDER=proxy) posts each LocationProvider call here and gets the answer back.
+// Each client is rate limited by address, request bodies are capped, and every request is
+// logged with its client, method, status, duration and sizes.
+//
+//   npm run server                     (builds to dist-ssr/ and reads .env.local)
+//
+// Environment:
+//   GEMINI_API_KEY          required
+//   PROXY_PORT              default 3001
+//   PROXY_RATE_LIMIT        model calls per client per minute, default 60
+//   PROXY_MODEL_LIMITS      calls to Gemini for all clients together, per model, as
+//                           "model=concurrent/perMinute,...", e.g. "gemini-2.5-flash=10/1000";
+//                           unlisted models keep the free-tier limits in geminiService.ts
+//   PROXY_MAX_BODY_BYTES    default 65536
+//   PROXY_MAX_PHOTO_BYTES   body cap for locatePhoto, which carries an image, default 1048576
+//   PROXY_ALLOWED_ORIGINS   comma-separated origins allowed to call cross-origin (CORS)
+//   PROXY_TRUST_FORWARDED   "true" to rate limit by X-Forwarded-For behind a reverse proxy
+
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { GeminiService, MODEL_LIMITS } from "../services/geminiService";
+import type { ModelLimits } from "../services/requestScheduler";
+import { INVALIDATE_PATH, ProxyRequest, ProxyStreamEvent, RESET_USAGE_PATH, SESSION_HEADER, USAGE_PATH, isProxyMethod } from "../services/proxyProtocol";
+import { ServiceError, classifyError } from "../services/serviceErrors";
+import { UsageMeter, type UsageSnapshot } from "../services/usageMeter";
+import { DEFAULT_LOCALE, isLocale } from "../utils/i18n";
+import { HttpError, clientAddress, readBody, sendJson, sessionId } from "./http";
+import { ClientRateLimiter } from "./rateLimiter";
+import { CACHE_REFRESHES, ROUTES, streamArgs } from "./routes";
+import { SessionUsage } from "./sessionUsage";
+
+const PORT = Number(process.env.PROXY_PORT) || 3001;
+const RATE_LIMIT = Number(process.env.PROXY_RATE_LIMIT) || 60;
+const MAX_BODY_BYTES = Number(process.env.PROXY_MAX_BODY_BYTES) || 64 * 1024;
+const MAX_PHOTO_BYTES = Number(process.env.PROXY_MAX_PHOTO_BYTES) || 1024 * 1024;
+const ALLOWED_ORIGINS = (process.env.PROXY_ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
+const TRUST_FORWARDED = process.env.PROXY_TRUST_FORWARDED === 'true';
+const PHOTO_PATH = '/api/locatePhoto';
+
+// "gemini-2.5-flash=10/1000,gemini-3-flash-preview=5/500" → per-model limits; null if malformed.
+const parseModelLimits = (value: string): Record<string, ModelLimits> | null => {
+  const limits: Record<string, ModelLimits> = {};
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const match = /^([\w.-]+)=(\d+)\/(\d+)$/.exec(entry);
+    if (!match || Number(match[2]) < 1 || Number(match[3]) < 1) return null;
+    limits[match[1]] = { maxConcurrent: Number(match[2]), requestsPerMinute: Number(match[3]) };
+  }
+  return limits;
+};
+const MODEL_LIMIT_OVERRIDES = parseModelLimits(process.env.PROXY_MODEL_LIMITS || '');
+if (!MODEL_LIMIT_OVERRIDES) {
+  console.error('PROXY_MODEL_LIMITS must look like "gemini-2.5-flash=10/1000,gemini-3-flash-preview=5/500".');
+  process.exit(1);
+}
+
+// GeminiService reads API_KEY; the key is configured as GEMINI_API_KEY, as for the old client build.
+process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+if (!process.env.API_KEY) {
+  console.error("GEMINI_API_KEY is not set; the proxy has nothing to call Gemini with.");
+  process.exit(1);
+}
+
+// One service for every client, so the cache and quota scheduling are shared. Its usage
+// meter sums everyone for the log; each browser session's panel reads its own totals.
+const service = new GeminiService({ persistCache: false, maxCacheEntries: 2000, modelLimits: { ...MODEL_LIMITS, ...MODEL_LIMIT_OVERRIDES } });
+const limiter = new ClientRateLimiter(RATE_LIMIT);
+const sessionUsage = new SessionUsage();
+setInterval(() => {
+  limiter.prune();
+  sessionUsage.prune();
+}, 60_000).unref();
+
+// Token totals per model are logged whenever they change, alongside the per-request lines.
+let latestUsage: UsageSnapshot;
+let loggedTotals = '';
+service.onUsage(usage => {
+  latestUsage = usage;
+  const totals = usage.models.map(m => `${m.model} calls=${m.calls} tokens=${m.totalTokens}`).join(', ');
+  if (totals && totals !== loggedTotals) console.log(`[proxy] usage ${totals}`);
+  loggedTotals = totals;
+});
+
+const errorStatus = (error: ServiceError): number => {
+  switch (error.kind) {
+    case 'rate-limited': return 429;
+    case 'safety-blocked': return 422;
+    case 'aborted': return 499;
+    case 'auth':
+    case 'network':
+    case 'server':
+    case 'invalid-json':
+    case 'invalid-output': return 502;
+    default: return 500;
+  }
+};
+
+// Auth failures are the proxy's own key, which is none of the client's business.
+const errorBody = (error: ServiceError) => ({
+  error: {
+    kind: error.kind,
+    message: error.kind === 'auth' ? 'The proxy could not authenticate with Gemini' : error.message,
+    retryAfterMs: error.retryAfterMs,
+  },
+});
+
+const corsHeaders = (req: IncomingMessage): Record<string, string> => {
+  const origin = req.headers.origin;
+  if (!origin || !ALLOWED_ORIGINS.includes(origin)) return {};
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': `Content-Type, ${SESSION_HEADER}`,
+    'Vary': 'Origin',
+  };
+};
+
+const parseRequest = (body: string): ProxyRequest => {
+  let parsed: Partial<ProxyRequest>;
+  try {
+    parsed = JSON.parse(body || '{}');
+  } catch {
+    throw new HttpError(400, 'unknown', 'Request body is not valid JSON');
+  }
+  if (!Array.isArray(parsed.args)) throw new HttpError(400, 'unknown', 'args must be a list');
+  return { locale: isLocale(parsed.locale) ? parsed.locale : DEFAULT_LOCALE, args: parsed.args };
+};
+
+const writeEvent = (res: ServerResponse, event: ProxyStreamEvent): number => {
+  if (res.writableEnded || res.destroyed) return 0;
+  const line = `${JSON.stringify(event)}\n`;
+  res.write(line);
+  return Buffer.byteLength(line);
+};
+
+const throttle = (client: string) => {
+  const waitMs = limiter.take(client);
+  if (waitMs > 0) {
+    throw new HttpError(429, 'rate-limited', `Too many requests; try again in ${Math.ceil(waitMs / 1000)}s`, waitMs);
+  }
+};
+
+// Returns the status and bytes sent, for the log line.
+const handle = async (req: IncomingMessage, res: ServerResponse, client: string, signal: AbortSignal): Promise<[number, number]> => {
+  const cors = corsHeaders(req);
+  const path = (req.url || '/').split('?')[0];
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, cors);
+    res.end();
+    return [204, 0];
+  }
+  // The session's totals, with the shared scheduler's quota state.
+  const session = sessionId(req, client);
+  if (req.method === 'GET' && path === USAGE_PATH) {
+    const usage = (sessionUsage.find(session) || new UsageMeter()).snapshot(latestUsage?.quota);
+    return [200, sendJson(res, 200, usage, cors)];
+  }
+  if (req.method === 'POST' && path === RESET_USAGE_PATH) {
+    sessionUsage.find(session)?.reset();
+    return [200, sendJson(res, 200, { ok: true }, cors)];
+  }
+  if (req.method !== 'POST' || !path.startsWith('/api/')) {
+    throw new HttpError(404, 'unknown', `No route for ${req.method} ${path}`);
+  }
+
+  const request = parseRequest(await readBody(req, path === PHOTO_PATH ? MAX_PHOTO_BYTES : MAX_BODY_BYTES));
+  const locale = request.locale || DEFAULT_LOCALE;
+
+  // Cache refreshes count too: a refresh costs everyone sharing the cache a model call later.
+  if (path === INVALIDATE_PATH) {
+    throttle(client);
+    const [method, args] = request.args;
+    if (typeof method !== 'string' || !Object.hasOwn(CACHE_REFRESHES, method) || !Array.isArray(args)) {
+      throw new HttpError(400, 'unknown', `Cache refreshes need one of ${Object.keys(CACHE_REFRESHES).join(', ')} and the arguments it was called with`);
+    }
+    service.forLocale(locale).invalidateCall(method, CACHE_REFRESHES[method](args));
+    return [200, sendJson(res, 200, { ok: true }, cors)];
+  }
+
+  const method = path.slice('/api/'.length);
+  if (!isProxyMethod(method)) throw new HttpError(404, 'unknown', `Unknown method ${method}`);
+  throttle(client);
+  const provider = service.forLocale(locale, sessionUsage.meter(session));
+
+  if (method !== 'queryLocationStream') {
+    const result = await ROUTES[method](provider, request.args, signal);
+    return [200, sendJson(res, 200, result, cors)];
+  }
+
+  // Errors before the first chunk still get a proper status; after that they become an event.
+  const [prompt, location, context] = streamArgs(request.args);
+  let sent = 0;
+  let streamed = 0;
+  const open = () => {
+    if (!res.headersSent) res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache', ...cors });
+  };
+  try {
+    // onText gets the whole answer so far; only the new tail goes over the wire.
+    const response = await provider.queryLocationStream(prompt, location, context, text => {
+      const delta = text.slice(streamed);
+      streamed = text.length;
+      if (!delta) return;
+      open();
+      sent += writeEvent(res, { type: 'text', text: delta });
+    }, signal);
+    open();
+    sent += writeEvent(res, { type: 'done', response });
+  } catch (e) {
+    if (!res.headersSent) throw e;
+    sent += writeEvent(res, { type: 'error', ...errorBody(classifyError(e)) });
+  }
+  res.end();
+  return [200, sent];
+};
+
+const server = createServer(async (req, res) => {
+  const started = Date.now();
+  const client = clientAddress(req, TRUST_FORWARDED);
+  const controller = new AbortController();
+  // The browser went away (navigation, a superseded request): stop paying for the answer.
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  let status: number;
+  let bytes = 0;
+  try {
+    [status, bytes] = await handle(req, res, client, controller.signal);
+  } catch (e) {
+    if (e instanceof HttpError) {
+      status = e.status;
+      const headers: Record<string, string> = corsHeaders(req);
+      if (e.retryAfterMs !== undefined) headers['Retry-After'] = String(Math.ceil(e.retryAfterMs / 1000));
+      bytes = sendJson(res, status, e.toBody(), headers);
+    } else {
+      const error = classifyError(e);
+      status = errorStatus(error);
+      if (!res.headersSent && !res.destroyed) bytes = sendJson(res, status, errorBody(error), corsHeaders(req));
+      if (status >= 500) console.error(`[proxy] ${req.method} ${req.url} failed:`, error.message);
+    }
+  }
+
+  const received = Number(req.headers['content-length']) || 0;
+  console.log(`[proxy] ${new Date(started).toISOString()} ${client} ${req.method} ${req.url} ${status} ${Date.now() - started}ms in=${received}B out=${bytes}B`);
+});
+
+server.listen(PORT, () => {
+  console.log(`[proxy] listening on :${PORT} (${RATE_LIMIT} model calls/min per client, bodies up to ${MAX_BODY_BYTES} bytes, photos up to ${MAX_PHOTO_BYTES})`);
+});
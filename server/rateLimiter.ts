@@ -0,0 +1,34 @@
+
+// Sliding one-minute window of request times per client. Unlike RequestScheduler, which
+// queues work to stay under the model's quota, this refuses outright: one client hammering
+// the proxy should be told to wait, not allowed to fill everyone else's queue.
+
+const WINDOW_MS = 60_000;
+
+export class ClientRateLimiter {
+  private requestsPerMinute: number;
+  private clients = new Map<string, number[]>();
+
+  constructor(requestsPerMinute: number) {
+    this.requestsPerMinute = requestsPerMinute;
+  }
+
+  // Records a request and returns 0, or returns how long the client must wait (nothing recorded).
+  take(client: string, now: number = Date.now()): number {
+    const recent = (this.clients.get(client) || []).filter(time => now - time < WINDOW_MS);
+    if (recent.length >= this.requestsPerMinute) {
+      this.clients.set(client, recent);
+      return recent[0] + WINDOW_MS - now;
+    }
+    recent.push(now);
+    this.clients.set(client, recent);
+    return 0;
+  }
+
+  // Drops clients with nothing in the window, so the map doesn't grow with every address seen.
+  prune(now: number = Date.now()): void {
+    this.clients.forEach((times, client) => {
+      if (times.every(time => now - time >= WINDOW_MS)) this.clients.delete(client);
+    });
+  }
+}
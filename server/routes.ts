@@ -0,0 +1,171 @@
+
+// One handler per LocationProvider method. Arguments arrive as untrusted JSON, so each is
+// checked (type, range, length) before anything reaches the model; bad input is a 400.
+
+import type { ChatContext, ChatTurn, DrawnRegion, ItineraryStop, LocationResult, PhotoInput, UserLocation } from "../types";
+import type { LocationProvider } from "../services/locationProvider";
+import type { ProxyMethod } from "../services/proxyProtocol";
+import { isValidLatLng } from "../utils/geo";
+import { HttpError } from "./http";
+
+const MAX_TEXT = 500;
+const MAX_PROMPT = 4000;
+const MAX_LIST = 50;
+// Chat turns include earlier answers, which run longer than prompts.
+const MAX_TURN = 8000;
+const MAX_REGION_POINTS = 500;
+const REGION_KINDS = ['rectangle', 'polygon', 'circle'];
+const PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const invalid = (name: string, expected: string) => new HttpError(400, 'unknown', `${name} must be ${expected}`);
+
+const text = (value: unknown, name: string, max: number = MAX_TEXT): string => {
+  if (typeof value !== 'string' || !value.trim() || value.length > max) throw invalid(name, `a non-empty string of at most ${max} characters`);
+  return value;
+};
+
+// JSON turns undefined arguments into null, so both mean "not given".
+const textList = (value: unknown, name: string): string[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.length > MAX_LIST || value.some(item => typeof item !== 'string' || item.length > MAX_TEXT)) {
+    throw invalid(name, `a list of at most ${MAX_LIST} strings`);
+  }
+  return value;
+};
+
+const integer = (value: unknown, name: string, min: number, max: number): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) throw invalid(name, `an integer from ${min} to ${max}`);
+  return value as number;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const userLocation = (value: unknown): UserLocation | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!isObject(value) || !isValidLatLng(value.latitude, value.longitude)) throw invalid('userLocation', 'a valid { latitude, longitude }');
+  return { latitude: value.latitude as number, longitude: value.longitude as number };
+};
+
+const locationResults = (value: unknown): LocationResult[] => {
+  if (!Array.isArray(value) || value.length > MAX_LIST || value.some(item => !isObject(item) || typeof item.title !== 'string' || typeof item.uri !== 'string')) {
+    throw invalid('results', `a list of at most ${MAX_LIST} { title, uri } results`);
+  }
+  return value as LocationResult[];
+};
+
+// The photo's size is bounded by the (larger) body limit for photo requests.
+const photo = (value: unknown): PhotoInput => {
+  if (!isObject(value) || typeof value.mimeType !== 'string' || !PHOTO_TYPES.includes(value.mimeType)
+    || typeof value.data !== 'string' || !value.data || !/^[A-Za-z0-9+/]+={0,2}$/.test(value.data)) {
+    throw invalid('image', `a base64 { mimeType, data } image (${PHOTO_TYPES.join(', ')})`);
+  }
+  return { mimeType: value.mimeType, data: value.data };
+};
+
+const chatHistory = (value: unknown): ChatTurn[] => {
+  if (!Array.isArray(value) || value.length > MAX_LIST || value.some(turn => !isObject(turn)
+    || (turn.role !== 'user' && turn.role !== 'assistant') || typeof turn.content !== 'string' || turn.content.length > MAX_TURN)) {
+    throw invalid('context.history', `a list of at most ${MAX_LIST} { role: user|assistant, content } turns of at most ${MAX_TURN} characters`);
+  }
+  return value.map(turn => ({ role: turn.role, content: turn.content }));
+};
+
+const itinerary = (value: unknown): ItineraryStop[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.length > MAX_LIST || value.some(stop => !isObject(stop)
+    || typeof stop.name !== 'string' || !stop.name.trim() || stop.name.length > MAX_TEXT || !isValidLatLng(stop.lat, stop.lng))) {
+    throw invalid('context.itinerary', `a list of at most ${MAX_LIST} { name, lat, lng } stops`);
+  }
+  return value.map((stop, i) => ({ id: typeof stop.id === 'string' ? stop.id : String(i), name: stop.name, lat: stop.lat, lng: stop.lng }));
+};
+
+// Rectangles are two corners, polygons at least three vertices, circles a centre and a radius.
+const region = (value: unknown): DrawnRegion | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const expected = `a { kind: ${REGION_KINDS.join('|')}, points, radiusKm?, label? } region with valid coordinates`;
+  if (!isObject(value) || typeof value.kind !== 'string' || !REGION_KINDS.includes(value.kind) || !Array.isArray(value.points)
+    || value.points.length > MAX_REGION_POINTS || value.points.some(point => !Array.isArray(point) || point.length !== 2 || !isValidLatLng(point[0], point[1]))) {
+    throw invalid('context.region', expected);
+  }
+  const count = value.points.length;
+  const radiusKm = value.radiusKm;
+  const shapeOk = value.kind === 'rectangle' ? count === 2
+    : value.kind === 'polygon' ? count >= 3
+    : count === 1 && typeof radiusKm === 'number' && Number.isFinite(radiusKm) && radiusKm > 0;
+  if (!shapeOk || (value.label !== undefined && value.label !== null && (typeof value.label !== 'string' || value.label.length > MAX_TEXT))) {
+    throw invalid('context.region', expected);
+  }
+  return {
+    id: typeof value.id === 'string' ? value.id : 'region',
+    kind: value.kind as DrawnRegion['kind'],
+    points: value.points as [number, number][],
+    radiusKm: typeof radiusKm === 'number' ? radiusKm : undefined,
+    label: typeof value.label === 'string' ? value.label : undefined,
+  };
+};
+
+// The context is only ever folded into the prompt, so it is rebuilt from checked fields only.
+const chatContext = (value: unknown): ChatContext | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!isObject(value)) throw invalid('context', 'a chat context with a history list');
+  const context: ChatContext = {
+    history: chatHistory(value.history),
+    itinerary: itinerary(value.itinerary),
+    region: region(value.region),
+  };
+  // Empty before the first warp.
+  if (value.locationName !== undefined && value.locationName !== null && value.locationName !== '') {
+    context.locationName = text(value.locationName, 'context.locationName');
+  }
+  if (value.comparing !== undefined && value.comparing !== null) {
+    const names = textList(value.comparing, 'context.comparing');
+    if (names.length !== 2 || names.some(name => !name.trim())) throw invalid('context.comparing', 'two place names');
+    context.comparing = [names[0], names[1]];
+  }
+  return context;
+};
+
+// Forced cache refreshes name one cached call exactly: the method and every argument it was
+// made with. Only the answers the app offers to refresh can be dropped.
+export const CACHE_REFRESHES: Record<string, (args: unknown[]) => unknown[]> = {
+  getVisualKeywords: ([placeName, exclude]) => [text(placeName, 'placeName'), textList(exclude, 'exclude')],
+  getPertinentQuestions: ([placeName, count]) => {
+    const checked = integer(count, 'count', 1, 10);
+    if (checked === undefined) throw invalid('count', 'an integer from 1 to 10');
+    return [text(placeName, 'placeName'), checked];
+  },
+};
+
+export type Route = (provider: LocationProvider, args: unknown[], signal: AbortSignal) => Promise<unknown>;
+
+export const ROUTES: Record<Exclude<ProxyMethod, 'queryLocationStream'>, Route> = {
+  geocode: (provider, [query], signal) =>
+    provider.geocode(text(query, 'query'), signal),
+  reverseGeocode: (provider, [lat, lng], signal) => {
+    if (!isValidLatLng(lat, lng)) throw invalid('lat, lng', 'valid coordinates');
+    return provider.reverseGeocode(lat as number, lng as number, signal);
+  },
+  getLocationSummary: (provider, [placeName], signal) =>
+    provider.getLocationSummary(text(placeName, 'placeName'), signal),
+  getVisualKeywords: (provider, [placeName, exclude], signal) =>
+    provider.getVisualKeywords(text(placeName, 'placeName'), textList(exclude, 'exclude'), signal),
+  getPertinentQuestions: (provider, [placeName, count], signal) =>
+    provider.getPertinentQuestions(text(placeName, 'placeName'), integer(count, 'count', 1, 10), signal),
+  getSinglePertinentQuestion: (provider, [placeName, exclude], signal) =>
+    provider.getSinglePertinentQuestion(text(placeName, 'placeName'), textList(exclude, 'exclude'), signal),
+  getDynamicCoolLocation: (provider, [exclude], signal) =>
+    provider.getDynamicCoolLocation(textList(exclude, 'exclude'), signal),
+  resolveCoordinates: (provider, [results, near], signal) =>
+    provider.resolveCoordinates(locationResults(results), userLocation(near), signal),
+  compareLocations: (provider, [first, second], signal) =>
+    provider.compareLocations(text(first, 'first'), text(second, 'second'), signal),
+  locatePhoto: (provider, [image], signal) =>
+    provider.locatePhoto(photo(image), signal),
+  queryLocation: (provider, [prompt, location, context], signal) =>
+    provider.queryLocation(text(prompt, 'prompt', MAX_PROMPT), userLocation(location), chatContext(context), signal),
+};
+
+export const streamArgs = ([prompt, location, context]: unknown[]): [string, UserLocation | undefined, ChatContext | undefined] =>
+  [text(prompt, 'prompt', MAX_PROMPT), userLocation(location), chatContext(context)];
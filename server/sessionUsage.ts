@@ -0,0 +1,31 @@
+
+// Token totals per browser session. Every client is served by one GeminiService, whose meter
+// sums them all; each session's own calls are recorded here too, so a browser's usage panel
+// and its reset button only ever see and clear that browser's numbers.
+
+import { UsageMeter } from "../services/usageMeter";
+
+// Sessions quiet for this long are forgotten, like a closed tab's in-memory meter.
+const IDLE_MS = 60 * 60_000;
+
+export class SessionUsage {
+  private sessions = new Map<string, { meter: UsageMeter; lastSeen: number }>();
+
+  // Created on the session's first model call, so reads and resets can't grow the map.
+  meter(session: string, now: number = Date.now()): UsageMeter {
+    const entry = this.sessions.get(session) || { meter: new UsageMeter(), lastSeen: now };
+    entry.lastSeen = now;
+    this.sessions.set(session, entry);
+    return entry.meter;
+  }
+
+  find(session: string): UsageMeter | undefined {
+    return this.sessions.get(session)?.meter;
+  }
+
+  prune(now: number = Date.now()): void {
+    this.sessions.forEach((entry, session) => {
+      if (now - entry.lastSeen >= IDLE_MS) this.sessions.delete(session);
+    });
+  }
+}
@@ -0,0 +1,17 @@
+
+import { ChatTurn, Message } from "../types";
+
+// Upper bound on prior turns sent with each question, to keep prompts small.
+export const MAX_HISTORY_TURNS = 12;
+
+// Turns the visible chat into model history. Only messages from anchorId onwards
+// count, so warping to a new place starts a fresh session seeded by its summary.
+// Failed replies and error notices are left out.
+export const buildChatHistory = (messages: Message[], anchorId?: string | null, maxTurns: number = MAX_HISTORY_TURNS): ChatTurn[] => {
+  const anchorIndex = anchorId ? messages.findIndex(m => m.id === anchorId) : -1;
+  return messages
+    .slice(Math.max(anchorIndex, 0))
+    .filter(m => m.content.trim() && m.status !== 'streaming' && !m.error)
+    .map(m => ({ role: m.role, content: m.content }))
+    .slice(-maxTurns);
+};
@@ -0,0 +1,109 @@
+
+import { VisualLandmark } from "../types";
+
+export interface FixturePlace {
+  name: string;
+  aliases: string[];
+  lat: number;
+  lng: number;
+  summary: string;
+  questions: string[];
+  landmarks: Omit<VisualLandmark, 'imageUrl'>[];
+  facts: string[];
+}
+
+// Offline data for MockService. Keep entries deterministic: no dates, no randomness.
+export const FIXTURE_PLACES: FixturePlace[] = [
+  {
+    name: "Vashon Island",
+    aliases: ["vashon", "vashon-maury island"],
+    lat: 47.4517,
+    lng: -122.4631,
+    summary: "Vashon Island floats in Puget Sound, reachable only by ferry. Once a berry-farming hub and bicycle-factory town, it keeps a stubbornly rural spirit, with forested bluffs, artists' studios and a famous bicycle lodged in a tree.",
+    questions: ["Why is there a bike in a tree?", "How did the ferries shape Vashon?", "What grew on the old berry farms?", "Is Maury Island really separate?"],
+    landmarks: [
+      { shortCaption: "Point Robinson Lighthouse", richCaption: "A white sentinel on Maury Island's eastern tip. Ships slide past it through the gray Sound.", sourceUri: "https://en.wikipedia.org/wiki/Point_Robinson_Light" },
+      { shortCaption: "Bike In A Tree", richCaption: "An old bicycle swallowed by a Douglas fir. The trunk has grown around its rusted frame.", sourceUri: "https://en.wikipedia.org/wiki/Vashon_Island" },
+      { shortCaption: "Quartermaster Harbor", richCaption: "A sheltered bay where sailboats rest at anchor. Herons hunt along its quiet shores.", sourceUri: "https://en.wikipedia.org/wiki/Quartermaster_Harbor" },
+      { shortCaption: "Vashon Ferry Dock", richCaption: "The green-and-white ferry nudges into the north-end dock. Commuters spill out into the cedar air.", sourceUri: "https://en.wikipedia.org/wiki/Washington_State_Ferries" }
+    ],
+    facts: ["Vashon is connected to Maury Island by a narrow isthmus built in 1916.", "The island has no bridge to the mainland; every trip is by ferry."]
+  },
+  {
+    name: "Petra",
+    aliases: ["petra jordan", "rose city"],
+    lat: 30.3285,
+    lng: 35.4444,
+    summary: "Petra, the rose-red city of the Nabataeans, was carved directly into Jordan's sandstone cliffs more than two thousand years ago. Hidden behind the narrow Siq gorge, it controlled the caravan trade in incense and spices.",
+    questions: ["Who carved the Treasury?", "How did Petra get its water?", "Why was Petra abandoned?", "What is inside the Monastery?"],
+    landmarks: [
+      { shortCaption: "Al-Khazneh Treasury", richCaption: "A temple facade glowing rose at the end of the Siq. Its columns are cut from the living rock.", sourceUri: "https://en.wikipedia.org/wiki/Al-Khazneh" },
+      { shortCaption: "The Siq Canyon", richCaption: "A narrow canyon with walls that climb eighty meters. Light falls in thin ribbons onto the path.", sourceUri: "https://en.wikipedia.org/wiki/Siq" },
+      { shortCaption: "Ad Deir Monastery", richCaption: "A vast facade high above the valley floor. Wind sweeps across its weathered urn.", sourceUri: "https://en.wikipedia.org/wiki/Ad_Deir" },
+      { shortCaption: "Royal Tombs Wall", richCaption: "A row of tombs stacked into the mountainside. The stone is streaked with pink, ochre and violet.", sourceUri: "https://en.wikipedia.org/wiki/Petra" }
+    ],
+    facts: ["Nabataean engineers channelled flash floods through dams and cisterns.", "Petra was rediscovered for Europe by Johann Ludwig Burckhardt in 1812."]
+  },
+  {
+    name: "Socotra",
+    aliases: ["socotra island", "soqotra"],
+    lat: 12.4634,
+    lng: 53.8237,
+    summary: "Socotra sits alone in the Arabian Sea, isolated for millions of years. A third of its plants grow nowhere else on Earth, including the umbrella-shaped dragon's blood tree whose crimson resin was traded since antiquity.",
+    questions: ["Why are the trees umbrella-shaped?", "What is dragon's blood resin?", "How isolated is Socotra?", "Who lives on Socotra today?"],
+    landmarks: [
+      { shortCaption: "Dragon Blood Forest", richCaption: "Umbrella crowns spread over the Dixam plateau. They look like a forest from another planet.", sourceUri: "https://en.wikipedia.org/wiki/Dracaena_cinnabari" },
+      { shortCaption: "Detwah Lagoon", richCaption: "Turquoise shallows are ringed by white sand. Crabs scatter across the tidal flats.", sourceUri: "https://en.wikipedia.org/wiki/Socotra" },
+      { shortCaption: "Hoq Cave", richCaption: "A long cavern full of ancient sailors' inscriptions. Stalagmites rise out of the darkness.", sourceUri: "https://en.wikipedia.org/wiki/Hoq_Cave" },
+      { shortCaption: "Bottle Trees", richCaption: "Swollen trunks cling to bare limestone. Pink blossoms burst from their tips.", sourceUri: "https://en.wikipedia.org/wiki/Adenium_obesum" }
+    ],
+    facts: ["About 37% of Socotra's plant species are endemic.", "Socotra was inscribed as a UNESCO World Heritage Site in 2008."]
+  },
+  {
+    name: "Salar de Uyuni",
+    aliases: ["uyuni", "uyuni salt flat"],
+    lat: -20.1338,
+    lng: -67.4891,
+    summary: "Salar de Uyuni is the world's largest salt flat, a blinding white plain high in the Bolivian Andes. After rain it becomes a perfect mirror of the sky, and beneath its crust lies one of Earth's great lithium reserves.",
+    questions: ["How big is the salt flat?", "Why does it turn into a mirror?", "What is Isla Incahuasi?", "How much lithium lies below?"],
+    landmarks: [
+      { shortCaption: "Mirror Of The Sky", richCaption: "A thin film of rain turns the salt into glass. Clouds drift both above and below the horizon.", sourceUri: "https://en.wikipedia.org/wiki/Salar_de_Uyuni" },
+      { shortCaption: "Isla Incahuasi", richCaption: "A rocky island bristling with giant cacti. The salt stretches white in every direction.", sourceUri: "https://en.wikipedia.org/wiki/Isla_Incahuasi" },
+      { shortCaption: "Train Cemetery", richCaption: "Rusting locomotives slump on the edge of Uyuni. The desert wind whistles through their frames.", sourceUri: "https://en.wikipedia.org/wiki/Uyuni" },
+      { shortCaption: "Salt Hexagons", richCaption: "The crust cracks into endless polygons. Each ridge is crusted with fresh crystals.", sourceUri: "https://en.wikipedia.org/wiki/Salar_de_Uyuni" }
+    ],
+    facts: ["The salar covers roughly 10,582 square kilometres.", "Its surface varies in elevation by less than one metre."]
+  },
+  {
+    name: "Cappadocia",
+    aliases: ["goreme", "göreme", "kapadokya"],
+    lat: 38.6431,
+    lng: 34.8289,
+    summary: "Cappadocia's soft volcanic tuff has been sculpted by wind into fairy chimneys and carved by people into cave churches and underground cities. At dawn, hundreds of hot-air balloons drift over its honey-colored valleys.",
+    questions: ["How were the fairy chimneys formed?", "Who built the underground cities?", "Why are there cave churches?", "How deep is Derinkuyu?"],
+    landmarks: [
+      { shortCaption: "Fairy Chimneys", richCaption: "Cone-shaped spires wear caps of harder rock. Doorways and windows peer out from their sides.", sourceUri: "https://en.wikipedia.org/wiki/Hoodoo_(geology)" },
+      { shortCaption: "Goreme Open Air", richCaption: "Rock-cut chapels crowd a sheltered valley. Byzantine frescoes glow inside the shadows.", sourceUri: "https://en.wikipedia.org/wiki/G%C3%B6reme_National_Park" },
+      { shortCaption: "Derinkuyu Underground", richCaption: "Tunnels spiral down through many stories of rock. Rolling stone doors once sealed them from raiders.", sourceUri: "https://en.wikipedia.org/wiki/Derinkuyu_underground_city" },
+      { shortCaption: "Dawn Balloons", richCaption: "Bright envelopes rise over the valleys at sunrise. Their shadows slide across the pale rock.", sourceUri: "https://en.wikipedia.org/wiki/Cappadocia" }
+    ],
+    facts: ["Derinkuyu could shelter thousands of people along with their livestock.", "The tuff formed from ash of the Erciyes, Hasan and Göllü Dağ volcanoes."]
+  },
+  {
+    name: "Reykjavik",
+    aliases: ["reykjavík", "reykjavik iceland"],
+    lat: 64.1466,
+    lng: -21.9426,
+    summary: "Reykjavík is the world's northernmost capital, a colorful harbor city heated by geothermal water. Founded by Norse settlers, it now mixes Viking sagas with bold modern architecture beneath the summer midnight sun and winter auroras.",
+    questions: ["How is Reykjavík heated?", "Who were the first settlers?", "Why is Harpa covered in glass?", "Where can I see the aurora?"],
+    landmarks: [
+      { shortCaption: "Hallgrimskirkja Church", richCaption: "A concrete spire rises like basalt columns. It towers over the painted rooftops.", sourceUri: "https://en.wikipedia.org/wiki/Hallgr%C3%ADmskirkja" },
+      { shortCaption: "Harpa Concert Hall", richCaption: "Glass facets scatter the low Arctic light. The harbor shimmers in their reflections.", sourceUri: "https://en.wikipedia.org/wiki/Harpa_(concert_hall)" },
+      { shortCaption: "Sun Voyager", richCaption: "A steel skeleton ship points out to sea. Mount Esja rises blue behind it.", sourceUri: "https://en.wikipedia.org/wiki/S%C3%B3lfar" },
+      { shortCaption: "Old Harbour", richCaption: "Fishing boats bob beside red warehouses. Gulls wheel above the quays.", sourceUri: "https://en.wikipedia.org/wiki/Reykjav%C3%ADk" }
+    ],
+    facts: ["Almost every home in Reykjavík is heated with geothermal water.", "Norse settler Ingólfur Arnarson is said to have founded the city in 874."]
+  }
+];
+
+export const FIXTURE_COLORS = ["#2563eb", "#0f766e", "#b45309", "#7c3aed", "#be123c", "#0369a1"];
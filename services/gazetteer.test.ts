@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { Gazetteer } from './gazetteer';
+
+const gazetteer = new Gazetteer();
+
+describe('Gazetteer.lookup', () => {
+  it('leaves bare names that several places share to the model', () => {
+    ['San Jose', 'Portland', 'Kingston', 'Victoria', 'Santiago'].forEach(name => {
+      expect(gazetteer.lookup(name)).toBeNull();
+    });
+  });
+
+  it('resolves a name its qualifiers pin down', () => {
+    expect(gazetteer.lookup('Portland, USA')).toMatchObject({ name: 'Portland', countryCode: 'US' });
+    expect(gazetteer.lookup('Santiago, Chile')).toMatchObject({ name: 'Santiago', countryCode: 'CL' });
+  });
+
+  it('never treats a near spelling as a match', () => {
+    expect(gazetteer.lookup('Grenada, Spain')).toBeNull();
+  });
+});
+
+describe('Gazetteer.check', () => {
+  it('flags but keeps model coordinates for another place with a bare shared name', () => {
+    // Portland, Maine, against the gazetteer's Portland, Oregon.
+    const check = gazetteer.check('Portland', 43.66, -70.26);
+    expect(check.status).toBe('suspect');
+    expect(check.lat).toBeUndefined();
+  });
+
+  it('corrects a qualified name that is far off', () => {
+    expect(gazetteer.check('Portland, USA', 10, 10)).toMatchObject({ status: 'corrected', lat: 45.52, lng: -122.68 });
+  });
+
+  it('verifies coordinates inside the place', () => {
+    expect(gazetteer.check('Portland', 45.5, -122.6).status).toBe('verified');
+  });
+});
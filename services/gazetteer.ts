@@ -0,0 +1,166 @@
+
+// Offline place lookup over data/gazetteer.ts. Used as ground truth for geocoding:
+// exact names with qualifiers short-circuit the model (fuzzy ones are only suggestions),
+// nearest-place answers map clicks, and coordinates coming back from the model
+// are checked against it.
+
+import { ADMIN_AREAS, AdminRow, CITIES, CityRow } from "../data/gazetteer";
+import { CoordinateCheck } from "../types";
+import { haversineKm, normalizePlaceName } from "../utils/geo";
+
+export interface GazetteerPlace {
+  name: string;
+  countryCode: string;
+  lat: number;
+  lng: number;
+  kind: 'city' | 'admin';
+  // How far from the listed point the place still plausibly extends.
+  radiusKm: number;
+  population?: number;
+  altNames: string[];
+}
+
+export interface GazetteerMatch {
+  place: GazetteerPlace;
+  score: number;
+}
+
+// Below this similarity (0..1) a fuzzy match is not even worth offering as an alternative.
+export const FUZZY_SUGGEST = 0.6;
+// Model coordinates further than this multiple of a place's radius are replaced, when the
+// name pins down a single entry.
+const REJECT_FACTOR = 4;
+// Reverse lookups only snap to gazetteer places this close to the click.
+export const REVERSE_SNAP_KM = 30;
+
+// "Portland, Oregon, USA" → name "portland", qualifiers ["oregon", "usa"].
+const splitQuery = (value: string) => {
+  const [name, ...qualifiers] = value.split(',').map(normalizePlaceName);
+  return { name, qualifiers: qualifiers.filter(Boolean) };
+};
+
+const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+const nameSimilarity = (a: string, b: string): number => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : 1 - levenshtein(a, b) / longest;
+};
+
+// A city's plausible extent grows with its population: ~15 km for a town, ~60 km for a megacity.
+const cityRadiusKm = (populationK: number) => Math.min(60, 15 + Math.sqrt(populationK) / 3);
+
+const fromCity = ([name, countryCode, lat, lng, population, alt]: CityRow): GazetteerPlace => ({
+  name, countryCode, lat, lng, kind: 'city', population, radiusKm: cityRadiusKm(population), altNames: alt ? alt.split('|') : [],
+});
+
+const fromAdmin = ([name, countryCode, lat, lng, radiusKm, alt]: AdminRow): GazetteerPlace => ({
+  name, countryCode, lat, lng, kind: 'admin', radiusKm, altNames: alt ? alt.split('|') : [],
+});
+
+export class Gazetteer {
+  private places: GazetteerPlace[];
+  private index: { key: string; place: GazetteerPlace; alt: boolean }[];
+  // Admin-area names and country codes → the country codes they identify, for qualifiers.
+  private regions = new Map<string, Set<string>>();
+
+  constructor(cities: CityRow[] = CITIES, adminAreas: AdminRow[] = ADMIN_AREAS) {
+    this.places = [...cities.map(fromCity), ...adminAreas.map(fromAdmin)];
+    this.index = this.places.flatMap(place =>
+      [place.name, ...place.altNames].map((name, i) => ({ key: normalizePlaceName(name), place, alt: i > 0 }))
+    );
+    this.places.forEach(place => {
+      const keys = [place.countryCode.toLowerCase()];
+      if (place.kind === 'admin') keys.push(...[place.name, ...place.altNames].map(normalizePlaceName));
+      keys.forEach(key => {
+        if (!this.regions.has(key)) this.regions.set(key, new Set());
+        this.regions.get(key)!.add(place.countryCode);
+      });
+    });
+  }
+
+  // Qualifiers we do not recognise rule a place out rather than being ignored,
+  // so "Paris, Texas" never resolves to Paris, France.
+  private matchesQualifiers(place: GazetteerPlace, qualifiers: string[]): boolean {
+    return qualifiers.every(q => this.regions.get(q)?.has(place.countryCode));
+  }
+
+  // Best matches for a free-text name, exact hits first, then by similarity and population.
+  search(query: string, limit = 5): GazetteerMatch[] {
+    const { name: key, qualifiers } = splitQuery(query);
+    if (!key) return [];
+    const best = new Map<GazetteerPlace, number>();
+    this.index.forEach(entry => {
+      if (!this.matchesQualifiers(entry.place, qualifiers)) return;
+      const score = entry.key === key ? 1 : nameSimilarity(key, entry.key);
+      if (score > (best.get(entry.place) ?? 0)) best.set(entry.place, score);
+    });
+    return Array.from(best.entries())
+      .map(([place, score]) => ({ place, score }))
+      .filter(m => m.score >= FUZZY_SUGGEST)
+      .sort((a, b) => b.score - a.score || (b.place.population ?? 0) - (a.place.population ?? 0))
+      .slice(0, limit);
+  }
+
+  // Places whose name or an alternate name is exactly the query's, within its qualifiers.
+  private exactMatches(query: string): { place: GazetteerPlace; alt: boolean }[] {
+    const { name: key, qualifiers } = splitQuery(query);
+    const found = new Map<GazetteerPlace, boolean>();
+    this.index.forEach(entry => {
+      if (entry.key !== key || !this.matchesQualifiers(entry.place, qualifiers)) return;
+      found.set(entry.place, (found.get(entry.place) ?? true) && entry.alt);
+    });
+    return Array.from(found.entries()).map(([place, alt]) => ({ place, alt }));
+  }
+
+  // The one place a qualified name means, or null when it is unknown, only similar ("Grenada"
+  // is not Granada) or ambiguous. The gazetteer holds one San Jose, Kingston or Santiago of
+  // several, so a bare name is never taken as unique: "Portland" is left to the model, while
+  // "Portland, USA" is not. A place's own name beats another's alternate name, so "Bali,
+  // Indonesia" is the island rather than Denpasar.
+  lookup(query: string): GazetteerPlace | null {
+    if (splitQuery(query).qualifiers.length === 0) return null;
+    const matches = this.exactMatches(query);
+    const named = matches.filter(m => !m.alt);
+    const candidates = named.length > 0 ? named : matches;
+    return candidates.length === 1 ? candidates[0].place : null;
+  }
+
+  nearest(lat: number, lng: number, maxKm = Infinity): { place: GazetteerPlace; distanceKm: number } | null {
+    let best: { place: GazetteerPlace; distanceKm: number } | null = null;
+    this.places.forEach(place => {
+      // Admin centroids are poor answers to "what is here?" unless they are small (islands, regions).
+      if (place.kind === 'admin' && place.radiusKm > 150) return;
+      const distanceKm = haversineKm(lat, lng, place.lat, place.lng);
+      if (distanceKm <= maxKm && (!best || distanceKm < best.distanceKm)) best = { place, distanceKm };
+    });
+    return best;
+  }
+
+  // Compares model coordinates for a named place against the nearest gazetteer entry with
+  // exactly that name; fuzzy matches are too loose to overrule the model. The gazetteer
+  // holds one Portland but the world has several, so a bare name is never enough to move
+  // the model's answer: only a name whose qualifiers ("Portland, USA") leave a single
+  // entry is corrected, anything else far away is just flagged.
+  check(name: string, lat: number, lng: number): CoordinateCheck {
+    const matches = this.exactMatches(name);
+    if (matches.length === 0) return { status: 'unverified' };
+    const [{ place, distanceKm }] = matches
+      .map(({ place }) => ({ place, distanceKm: haversineKm(lat, lng, place.lat, place.lng) }))
+      .sort((a, b) => a.distanceKm - b.distanceKm);
+    if (distanceKm <= place.radiusKm) return { status: 'verified', distanceKm, reference: place.name };
+    const pinnedDown = matches.length === 1 && splitQuery(name).qualifiers.length > 0;
+    if (!pinnedDown || distanceKm <= place.radiusKm * REJECT_FACTOR) return { status: 'suspect', distanceKm, reference: place.name };
+    return { status: 'corrected', distanceKm, reference: place.name, lat: place.lat, lng: place.lng };
+  }
+}
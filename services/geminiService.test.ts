@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GeminiService } from './geminiService';
+
+// Answers every model call with the given JSON, and records the calls.
+const answering = (json: unknown) => {
+  process.env.API_KEY ||= 'test-key';
+  const service = new GeminiService({ persistCache: false });
+  const generateContent = vi.fn(async () => ({ text: JSON.stringify(json) }));
+  (service as any).ai = { models: { generateContent } };
+  return { service, generateContent };
+};
+
+describe('GeminiService.geocode', () => {
+  beforeEach(() => vi.restoreAllMocks());
+
+  it('asks the model about an ambiguous bare name and flags disagreement with the gazetteer', async () => {
+    const { service, generateContent } = answering({ name: 'San Jose', lat: 37.34, lng: -121.89 });
+    const result = await service.geocode('San Jose');
+    expect(generateContent).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ name: 'San Jose', lat: 37.34, lng: -121.89 });
+    expect(result?.check?.status).toBe('suspect');
+  });
+
+  it('answers a qualified name from the gazetteer without the model', async () => {
+    const { service, generateContent } = answering(null);
+    const result = await service.geocode('Portland, USA');
+    expect(generateContent).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ name: 'Portland', check: { status: 'verified' } });
+  });
+});
+
+describe('GeminiService.invalidateCall', () => {
+  it('drops only the answer for exactly those arguments and language', async () => {
+    const { service, generateContent } = answering(['Why is Petra pink?']);
+    const french = service.forLocale('fr');
+    await service.getPertinentQuestions('Petra', 4);
+    await service.getPertinentQuestions('Petra', 2);
+    await french.getPertinentQuestions('Petra', 4);
+    expect(generateContent).toHaveBeenCalledTimes(3);
+
+    service.invalidateCall('getPertinentQuestions', ['Petra', 4]);
+    await service.getPertinentQuestions('Petra', 4);
+    await service.getPertinentQuestions('Petra', 2);
+    await french.getPertinentQuestions('Petra', 4);
+    expect(generateContent).toHaveBeenCalledTimes(4);
+  });
+});
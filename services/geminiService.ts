@@ -3,250 +3,350 @@
 // - Initializing GoogleGenAI with named parameter using process.env.API_KEY directly.
 // - Using ai.models.generateContent with appropriate model names.
 // - Accessing the .text property on GenerateContentResponse.
-// - Using Type from @google/genai for JSON response schemas.
+// - Using Type from @google/genai for JSON response schemas (built in outputSchema.ts).
 
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import { GroundingSource, LocationResult, UserLocation } from "../types";
+import { GoogleGenAI, GenerateContentConfig, GenerateContentParameters, GenerateContentResponse, GenerateContentResponseUsageMetadata, Content, Part } from "@google/genai";
+import { ChatContext, GeocodeResponse, GroundingSource, LocationComparison, LocationResult, NamedPlace, PhotoCandidate, PhotoInput, QueryResponse, UserLocation, VisualLandmark } from "../types";
+import { citationsFromSupports, trimCitedText } from "../utils/citations";
+import { isValidLatLng, parseCoordsFromUri } from "../utils/geo";
+import { DEFAULT_LOCALE, LOCALES, Locale, translate } from "../utils/i18n";
+import { describeItinerary } from "../utils/itinerary";
+import { describeRegion } from "../utils/regions";
+import type { LocationProvider } from "./locationProvider";
+import { Gazetteer, REVERSE_SNAP_KM } from "./gazetteer";
+import { ResponseCache, cacheKey } from "./responseCache";
+import { UsageListener, UsageMeter } from "./usageMeter";
+import { ModelLimits, RequestPriority, RequestScheduler } from "./requestScheduler";
+import { RetryListener, ServiceError, abortError, assertNotBlocked, classifyError, readRawText, readText, sleep } from "./serviceErrors";
+import { OutputSpec, parseOutput } from "./outputSchema";
+import { COMPARISON_SCHEMA, GEOCODE_SCHEMA, LANDMARKS_SCHEMA, PHOTO_CANDIDATES_SCHEMA, PLACE_SCHEMA, ResolvedCoordinate, questionsSchema, resolvedCoordinatesSchema } from "./responseSchemas";
 
-export interface VisualLandmark {
-  shortCaption: string;
-  richCaption: string;
-  imageUrl: string;
-  sourceUri?: string;
-}
+// How long each cached method's answers stay fresh. Methods that should vary
+// between calls (chat, cool-location and replacement questions) are not cached.
+const CACHE_TTL_MS: Record<string, number> = {
+  geocode: 7 * 24 * 60 * 60 * 1000,
+  reverseGeocode: 7 * 24 * 60 * 60 * 1000,
+  resolveCoordinates: 7 * 24 * 60 * 60 * 1000,
+  getLocationSummary: 24 * 60 * 60 * 1000,
+  getVisualKeywords: 6 * 60 * 60 * 1000,
+  getPertinentQuestions: 60 * 60 * 1000,
+  compareLocations: 24 * 60 * 60 * 1000,
+};
+
+// Answers written in the reader's language are cached per locale: the key is the call's
+// arguments followed by the locale. The rest (coordinates, English names) are shared.
+const LOCALIZED_CACHE = ['getLocationSummary', 'getVisualKeywords', 'getPertinentQuestions', 'compareLocations'];
+
+// Refills (photos, questions, pin lookups) wait behind everything the user is actively waiting on.
+const METHOD_PRIORITY: Record<string, RequestPriority> = {
+  getVisualKeywords: 'background',
+  getPertinentQuestions: 'background',
+  getSinglePertinentQuestion: 'background',
+  resolveCoordinates: 'background',
+};
+
+// Kept a little under the free-tier limits so a burst of warps does not trip 429s. The
+// limits are the API key's, so the proxy, where every client shares one key, starts from
+// these too; PROXY_MODEL_LIMITS raises them for a paid key (see server/index.ts).
+export const MODEL_LIMITS: Record<string, ModelLimits> = {
+  'gemini-3-flash-preview': { maxConcurrent: 3, requestsPerMinute: 12 },
+  'gemini-2.5-flash': { maxConcurrent: 2, requestsPerMinute: 8 },
+};
 
-export interface GeocodeResponse {
-  name?: string;
-  lat?: number;
-  lng?: number;
-  alternatives?: string[];
+export interface GeminiServiceOptions {
+  persistCache?: boolean;
+  maxCacheEntries?: number;
+  modelLimits?: Record<string, ModelLimits>;
 }
 
-export class GeminiService {
+export class GeminiService implements LocationProvider {
   private ai: GoogleGenAI;
+  private cache: ResponseCache;
+  private gazetteer = new Gazetteer();
+  private retryListeners = new Set<RetryListener>();
+  private usage = new UsageMeter();
+  // Set on proxy views: one client's calls, recorded alongside the service-wide totals.
+  private sessionUsage?: UsageMeter;
+  private usageListeners = new Set<UsageListener>();
+  private scheduler: RequestScheduler;
+  private locale: Locale = DEFAULT_LOCALE;
 
-  constructor() {
+  constructor(options: GeminiServiceOptions = {}) {
     this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    this.scheduler = new RequestScheduler(options.modelLimits || MODEL_LIMITS, () => this.emitUsage());
+    this.cache = new ResponseCache({
+      maxEntries: options.maxCacheEntries,
+      storageKey: options.persistCache === false ? undefined : 'geoslop.responseCache',
+    });
+  }
+
+  private callKey(method: string, args: unknown[]): string {
+    return cacheKey(method, LOCALIZED_CACHE.includes(method) ? [...args, this.locale] : args);
+  }
+
+  // Only successful results reach the cache; failures propagate and are never stored.
+  private async cached<T>(method: string, args: unknown[], fn: () => Promise<T>): Promise<T> {
+    const key = this.callKey(method, args);
+    const hit = this.cache.get<T>(key);
+    if (hit !== undefined) return hit;
+    const value = await fn();
+    this.cache.set(key, value, CACHE_TTL_MS[method] ?? 0);
+    return value;
+  }
+
+  // Forced refresh: drop cached answers for one method or all of them. Passing args
+  // matches calls that began with those arguments, e.g. ['Petra'] for any exclude list.
+  async invalidateCache(method?: string, args?: unknown[]): Promise<void> {
+    if (!method) return this.cache.invalidate();
+    this.cache.invalidate(args ? cacheKey(method, args).slice(0, -1) : `${method}:`);
+  }
+
+  // Drops only the answer a call with exactly these arguments, in this view's language,
+  // would be served from. The proxy server refreshes through this, since its cache is shared.
+  invalidateCall(method: string, args: unknown[]): void {
+    this.cache.delete(this.callKey(method, args));
+  }
+
+  // Answers already cached in another language stay cached under that language.
+  setLocale(locale: Locale): void {
+    this.locale = locale;
+  }
+
+  // The same service answering in another language. The view shares the client, cache,
+  // scheduler and usage meter, so the proxy server can answer several locales at once;
+  // sessionUsage additionally records the view's calls for one client.
+  forLocale(locale: Locale, sessionUsage?: UsageMeter): GeminiService {
+    const view: GeminiService = Object.create(this);
+    view.locale = locale;
+    view.sessionUsage = sessionUsage;
+    return view;
+  }
+
+  // Added to every prompt whose output is shown to the user. Place names stay recognisable
+  // across scripts by pairing the reader's name for a place with its endonym.
+  private languageRule(): string {
+    const language = LOCALES[this.locale].englishName;
+    return `Write all human-readable text in ${language}. When you name a place, use its usual ${language} name and, if it differs, add its local name in the place's own language and script in parentheses.`;
+  }
+
+  onUsage(listener: UsageListener): () => void {
+    this.usageListeners.add(listener);
+    listener(this.usage.snapshot(this.scheduler.snapshot()));
+    return () => { this.usageListeners.delete(listener); };
+  }
+
+  resetUsage(): void {
+    this.usage.reset();
+    this.emitUsage();
   }
 
-  private async withRetry<T>(fn: () => Promise<T>, maxRetries = 4, baseDelay = 3000): Promise<T> {
-    let lastError: any;
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+  private emitUsage(): void {
+    const snapshot = this.usage.snapshot(this.scheduler.snapshot());
+    this.usageListeners.forEach(listener => listener(snapshot));
+  }
+
+  private recordUsage(model: string, metadata?: GenerateContentResponseUsageMetadata): void {
+    this.usage.record(model, metadata);
+    this.sessionUsage?.record(model, metadata);
+    this.emitUsage();
+  }
+
+  // Every non-streaming call goes through here: queued by the scheduler, metered when it settles.
+  private generate(method: string, params: GenerateContentParameters): Promise<GenerateContentResponse> {
+    return this.scheduler.schedule(params.model, METHOD_PRIORITY[method] ?? 'interactive', async () => {
+      let response: GenerateContentResponse | undefined;
+      try {
+        response = await this.ai.models.generateContent(params);
+        return response;
+      } finally {
+        this.recordUsage(params.model, response?.usageMetadata);
+      }
+    }, params.config?.abortSignal);
+  }
+
+  // Structured calls: the answer must parse and pass spec's checks. An answer that doesn't
+  // gets one repair turn listing what was wrong; if that fails too, the call fails with
+  // invalid-json or invalid-output rather than handing bad data to the UI.
+  // The prompt is text, or parts when it carries an image.
+  private async generateJson<T, F>(method: string, model: string, prompt: string | Part[], config: GenerateContentConfig, spec: OutputSpec<T>, fallback: F): Promise<T | F> {
+    const request = (contents: string | Content[]) => this.generate(method, {
+      model,
+      contents,
+      config: { ...config, responseMimeType: "application/json", responseSchema: spec.schema },
+    });
+    const promptParts = typeof prompt === 'string' ? [{ text: prompt }] : prompt;
+
+    const text = readText(await request([{ role: 'user', parts: promptParts }]));
+    if (!text) return fallback;
+    const first = parseOutput(text, spec);
+    if (first.issues.length === 0) return first.value as T;
+
+    const repairPrompt = `Your answer did not match the required format:\n- ${first.issues.slice(0, 10).join('\n- ')}\nReply again with corrected JSON only, following the same instructions and schema.`;
+    const repaired = readText(await request([
+      { role: 'user', parts: promptParts },
+      { role: 'model', parts: [{ text }] },
+      { role: 'user', parts: [{ text: repairPrompt }] },
+    ]));
+    const second = repaired ? parseOutput(repaired, spec) : first;
+    if (second.issues.length === 0) return second.value as T;
+    throw new ServiceError(second.malformed ? 'invalid-json' : 'invalid-output', `${method} answer failed validation after a repair attempt: ${second.issues.slice(0, 3).join('; ')}`);
+  }
+
+  onRetry(listener: RetryListener): () => void {
+    this.retryListeners.add(listener);
+    return () => { this.retryListeners.delete(listener); };
+  }
+
+  // Every failure leaves here as a ServiceError. Rate limits, 5xx and network errors are
+  // retried with backoff (or the server's suggested delay); anything else fails at once.
+  // Aborting the signal also cuts a backoff sleep short.
+  private async withRetry<T>(method: string, fn: () => Promise<T>, signal?: AbortSignal, maxRetries = 4, baseDelay = 3000): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) throw abortError();
       try {
         return await fn();
-      } catch (error: any) {
-        lastError = error;
-        const isRateLimited = error?.message?.includes('429') || error?.status === 429;
-        const isServerError = error?.status >= 500 && error?.status <= 504;
-        
-        if ((isRateLimited || isServerError) && attempt < maxRetries) {
-          const delay = baseDelay * Math.pow(3, attempt) + Math.random() * 3000;
-          await new Promise(resolve => setTimeout(resolve, delay));
-          continue;
-        }
-        break;
+      } catch (e) {
+        const error = signal?.aborted ? abortError() : classifyError(e);
+        if (!error.retryable || attempt >= maxRetries) throw error;
+        const delayMs = error.retryAfterMs ?? baseDelay * Math.pow(3, attempt) + Math.random() * 3000;
+        this.retryListeners.forEach(listener => listener({ method, attempt: attempt + 1, maxRetries, delayMs, error }));
+        await sleep(delayMs, signal);
       }
     }
-    throw lastError;
   }
 
-  async geocode(query: string): Promise<GeocodeResponse | null> {
-    const model = 'gemini-3-flash-preview';
-    try {
-      return await this.withRetry(async () => {
-        const response: GenerateContentResponse = await this.ai.models.generateContent({
-          model,
-          contents: `Search for the location "${query}". 
-          If found, return the canonical name, lat, and lng. 
-          If NOT found or the spelling is very ambiguous, return an array of 3 alternatives with similar names or likely intended locations.
-          Return ONLY a JSON object.`,
-          config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-              type: Type.OBJECT,
-              properties: {
-                name: { type: Type.STRING },
-                lat: { type: Type.NUMBER },
-                lng: { type: Type.NUMBER },
-                alternatives: { 
-                  type: Type.ARRAY, 
-                  items: { type: Type.STRING } 
-                }
-              }
-            }
-          }
-        });
-        return JSON.parse(response.text || "null");
-      });
-    } catch (e) {
-      return null;
-    }
+  // Checks model coordinates for a named place against the gazetteer. Answers that are far
+  // from the only known place of a qualified name are replaced with the gazetteer's coordinates.
+  private verifyPlace(place: NamedPlace | null): NamedPlace | null {
+    if (!place?.name || !isValidLatLng(place.lat, place.lng)) return null;
+    const check = this.gazetteer.check(place.name, place.lat, place.lng);
+    return check.status === 'corrected'
+      ? { ...place, lat: check.lat as number, lng: check.lng as number, check }
+      : { ...place, check };
   }
 
-  async reverseGeocode(lat: number, lng: number): Promise<{ name: string; lat: number; lng: number } | null> {
+  async geocode(query: string, signal?: AbortSignal): Promise<GeocodeResponse | null> {
+    // Only a name the gazetteer can pin down skips the model; bare names are checked afterwards.
+    const known = this.gazetteer.lookup(query);
+    if (known) {
+      return { name: known.name, lat: known.lat, lng: known.lng, check: { status: 'verified', distanceKm: 0, reference: known.name } };
+    }
+
     const model = 'gemini-3-flash-preview';
-    try {
-      return await this.withRetry(async () => {
-        const response: GenerateContentResponse = await this.ai.models.generateContent({
-          model,
-          contents: `What is the nearest significant city or interesting landmark to the coordinates ${lat}, ${lng}? 
-          Return ONLY a JSON object with keys "name" (the canonical name), "lat", and "lng".`,
-          config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-              type: Type.OBJECT,
-              properties: {
-                name: { type: Type.STRING },
-                lat: { type: Type.NUMBER },
-                lng: { type: Type.NUMBER }
-              },
-              required: ["name", "lat", "lng"]
-            }
-          }
-        });
-        return JSON.parse(response.text || "null");
-      });
-    } catch (e) {
-      return null;
+    const prompt = `Search for the location "${query}". 
+        If found, return the canonical English name, the name in the place's own language and script as "localName", lat, and lng. 
+        If NOT found or the spelling is very ambiguous, return an array of 3 alternatives with similar names or likely intended locations.
+        Return ONLY a JSON object.`;
+    const result: GeocodeResponse | null = await this.cached('geocode', [query], () => this.withRetry('geocode', () =>
+      this.generateJson('geocode', model, prompt, { abortSignal: signal }, GEOCODE_SCHEMA, null), signal));
+
+    const verified = result?.name ? this.verifyPlace(result as NamedPlace) : null;
+    if (verified) return verified;
+    // Close gazetteer spellings ride along with the model's guesses as "did you mean" options.
+    const suggestions = this.gazetteer.search(query, 3).map(m => m.place.name);
+    const alternatives = Array.from(new Set([...(result?.alternatives || []), ...suggestions])).slice(0, 5);
+    return alternatives.length > 0 ? { alternatives } : null;
+  }
+
+  async reverseGeocode(lat: number, lng: number, signal?: AbortSignal): Promise<NamedPlace | null> {
+    const near = this.gazetteer.nearest(lat, lng, REVERSE_SNAP_KM);
+    if (near) {
+      const { place, distanceKm } = near;
+      return { name: place.name, lat: place.lat, lng: place.lng, check: { status: 'verified', distanceKm, reference: place.name } };
     }
+
+    const model = 'gemini-3-flash-preview';
+    const prompt = `What is the nearest significant city or interesting landmark to the coordinates ${lat}, ${lng}? 
+        Return ONLY a JSON object with keys "name" (the canonical English name), "localName" (its name in the place's own language and script), "lat", and "lng".`;
+    return this.verifyPlace(await this.cached('reverseGeocode', [lat, lng], () => this.withRetry('reverseGeocode', () =>
+      this.generateJson('reverseGeocode', model, prompt, { abortSignal: signal }, PLACE_SCHEMA, null), signal)));
   }
 
-  async getLocationSummary(placeName: string): Promise<string> {
+  async getLocationSummary(placeName: string, signal?: AbortSignal): Promise<string> {
     const model = 'gemini-3-flash-preview';
-    try {
-      return await this.withRetry(async () => {
-        const response: GenerateContentResponse = await this.ai.models.generateContent({
-          model,
-          contents: `Provide a captivating 40-word paragraph describing the unique history, geography, and significance of "${placeName}". Make it sound like a premium travel guide.`,
-        });
-        return response.text?.trim() || `Welcome to ${placeName}!`;
+    return await this.cached('getLocationSummary', [placeName], () => this.withRetry('getLocationSummary', async () => {
+      const response: GenerateContentResponse = await this.generate('getLocationSummary', {
+        model,
+        contents: `Provide a captivating 40-word paragraph describing the unique history, geography, and significance of "${placeName}". Make it sound like a premium travel guide. ${this.languageRule()}`,
+        config: { abortSignal: signal },
       });
-    } catch (e) {
-      return `Welcome to ${placeName}!`;
-    }
+      return readText(response) || translate(this.locale, 'chat.welcomeTo', { name: placeName });
+    }, signal));
   }
 
-  async getVisualKeywords(placeName: string, exclude: string[] = []): Promise<VisualLandmark[]> {
+  async getVisualKeywords(placeName: string, exclude: string[] = [], signal?: AbortSignal): Promise<VisualLandmark[]> {
     const model = 'gemini-3-flash-preview';
     const exclusionPrompt = exclude.length > 0 ? ` Do NOT include any of these: ${exclude.join(', ')}.` : '';
-    try {
-      return await this.withRetry(async () => {
-        const response: GenerateContentResponse = await this.ai.models.generateContent({
-          model,
-          contents: `Use Google Search to find 4 REAL, specific, and iconic visual landmarks strictly within "${placeName}". ${exclusionPrompt}
-          
-          MANDATORY INSTRUCTIONS FOR IMAGE URLS:
-          1. "imageUrl" MUST be a direct hotlink to the ACTUAL IMAGE FILE (ends in .jpg, .jpeg, .png, or .webp).
-          2. IMPORTANT: If using Wikimedia Commons, DO NOT use the "File:" page URL (e.g., commons.wikimedia.org/wiki/File:...). 
-             Instead, find the DIRECT THUMBNAIL URL (e.g., https://upload.wikimedia.org/wikipedia/commons/thumb/...).
-          3. If using Unsplash, use the direct image link (e.g., https://images.unsplash.com/photo-...).
-          4. "sourceUri": The human-readable web page where the photo is found.
-          5. "shortCaption": 3-5 bold words.
-          6. "richCaption": 2-sentence poetic description of the visual scene.
-          
-          Return ONLY a JSON array. Be extremely accurate; your goal is to find direct embeddable links that show the actual location.`,
-          config: {
-            tools: [{ googleSearch: {} }],
-            responseMimeType: "application/json",
-            responseSchema: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  shortCaption: { type: Type.STRING },
-                  richCaption: { type: Type.STRING },
-                  imageUrl: { type: Type.STRING },
-                  sourceUri: { type: Type.STRING }
-                },
-                required: ["shortCaption", "richCaption", "imageUrl", "sourceUri"]
-              }
-            }
-          }
-        });
-        return JSON.parse(response.text || "[]");
-      });
-    } catch (e) {
-      console.error("Discovery failed", e);
-      return [];
-    }
+    const prompt = `Use Google Search to find 4 REAL, specific, and iconic visual landmarks strictly within "${placeName}". ${exclusionPrompt}
+        
+        MANDATORY INSTRUCTIONS FOR IMAGE URLS:
+        1. "imageUrl" MUST be a direct hotlink to the ACTUAL IMAGE FILE (ends in .jpg, .jpeg, .png, or .webp).
+        2. IMPORTANT: If using Wikimedia Commons, DO NOT use the "File:" page URL (e.g., commons.wikimedia.org/wiki/File:...). 
+           Instead, find the DIRECT THUMBNAIL URL (e.g., https://upload.wikimedia.org/wikipedia/commons/thumb/...).
+        3. If using Unsplash, use the direct image link (e.g., https://images.unsplash.com/photo-...).
+        4. "sourceUri": The human-readable web page where the photo is found.
+        5. "shortCaption": 3-5 bold words.
+        6. "richCaption": 2-sentence poetic description of the visual scene.
+        7. ${this.languageRule()} URLs stay exactly as found.
+        
+        Return ONLY a JSON array. Be extremely accurate; your goal is to find direct embeddable links that show the actual location.`;
+    return await this.cached('getVisualKeywords', [placeName, exclude], () => this.withRetry('getVisualKeywords', () =>
+      this.generateJson('getVisualKeywords', model, prompt, { tools: [{ googleSearch: {} }], abortSignal: signal }, LANDMARKS_SCHEMA, []), signal));
   }
 
-  async getPertinentQuestions(placeName: string, count: number = 3): Promise<string[]> {
+  async getPertinentQuestions(placeName: string, count: number = 3, signal?: AbortSignal): Promise<string[]> {
     const model = 'gemini-3-flash-preview';
-    try {
-      return await this.withRetry(async () => {
-        const response: GenerateContentResponse = await this.ai.models.generateContent({
-          model,
-          contents: `Provide ${count} short, intriguing questions (under 45 chars) about the history, culture, or geography of "${placeName}". Return as a JSON array of strings.`,
-          config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING }
-            }
-          }
-        });
-        return JSON.parse(response.text || "[]");
-      });
-    } catch (e) {
-      return ["Tell me a secret about this place.", "What's the oldest building here?"];
-    }
+    const prompt = `Provide ${count} short, intriguing questions (under 45 chars) about the history, culture, or geography of "${placeName}". ${this.languageRule()} Return as a JSON array of strings.`;
+    return await this.cached('getPertinentQuestions', [placeName, count], () => this.withRetry('getPertinentQuestions', () =>
+      this.generateJson('getPertinentQuestions', model, prompt, { abortSignal: signal }, questionsSchema(count), []), signal));
   }
 
-  async getSinglePertinentQuestion(placeName: string, exclude: string[]): Promise<string | null> {
+  async getSinglePertinentQuestion(placeName: string, exclude: string[], signal?: AbortSignal): Promise<string | null> {
     const model = 'gemini-3-flash-preview';
-    try {
-      return await this.withRetry(async () => {
-        const response: GenerateContentResponse = await this.ai.models.generateContent({
-          model,
-          contents: `Provide exactly one short, intriguing question (under 45 chars) about the history, culture, or geography of "${placeName}". Do NOT include any of the following: ${exclude.join(', ')}. Return only the question text.`,
-        });
-        return response.text?.trim() || null;
+    return await this.withRetry('getSinglePertinentQuestion', async () => {
+      const response: GenerateContentResponse = await this.generate('getSinglePertinentQuestion', {
+        model,
+        contents: `Provide exactly one short, intriguing question (under 45 chars) about the history, culture, or geography of "${placeName}". Do NOT include any of the following: ${exclude.join(', ')}. ${this.languageRule()} Return only the question text.`,
+        config: { abortSignal: signal },
       });
-    } catch (e) {
-      return null;
-    }
+      return readText(response) || null;
+    }, signal);
   }
 
-  async getDynamicCoolLocation(exclude: string[]): Promise<{ name: string; lat: number; lng: number } | null> {
+  async getDynamicCoolLocation(exclude: string[], signal?: AbortSignal): Promise<NamedPlace | null> {
     const model = 'gemini-3-flash-preview';
     const exclusionText = exclude.length > 0 ? ` DO NOT suggest any of these places: ${exclude.join(', ')}.` : "";
-    try {
-      return await this.withRetry(async () => {
-        const response: GenerateContentResponse = await this.ai.models.generateContent({
-          model,
-          contents: `Suggest one obscure, fascinating, and visually stunning hidden gem location on Earth. 
-          Avoid famous tourist traps like Petra, the Grand Canyon, or the Eiffel Tower. 
-          Focus on weird geography, ancient ruins, or remote natural wonders.
-          ${exclusionText}
-          Return ONLY a JSON object with keys "name", "lat", and "lng".`,
-          config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-              type: Type.OBJECT,
-              properties: {
-                name: { type: Type.STRING },
-                lat: { type: Type.NUMBER },
-                lng: { type: Type.NUMBER }
-              },
-              required: ["name", "lat", "lng"]
-            }
-          }
-        });
-        return JSON.parse(response.text || "null");
-      });
-    } catch (e) {
-      return null;
-    }
+    const prompt = `Suggest one obscure, fascinating, and visually stunning hidden gem location on Earth. 
+        Avoid famous tourist traps like Petra, the Grand Canyon, or the Eiffel Tower. 
+        Focus on weird geography, ancient ruins, or remote natural wonders.
+        ${exclusionText}
+        Return ONLY a JSON object with keys "name" (the canonical English name), "localName" (its name in the place's own language and script), "lat", and "lng".`;
+    return this.verifyPlace(await this.withRetry('getDynamicCoolLocation', () =>
+      this.generateJson('getDynamicCoolLocation', model, prompt, { abortSignal: signal }, PLACE_SCHEMA, null), signal));
   }
 
-  async queryLocation(prompt: string, userLocation?: UserLocation) {
-    const model = 'gemini-2.5-flash';
+  private buildQueryConfig(userLocation?: UserLocation, context?: ChatContext): any {
     const config: any = {
       tools: [{ googleMaps: {} }, { googleSearch: {} }],
       temperature: 0.7,
     };
 
+    const instructions: string[] = [this.languageRule()];
+    if (context?.locationName) {
+      instructions.push(`The user is exploring "${context.locationName}" on a map. Unless they name another place, questions refer to ${context.locationName}.`);
+    }
+    if (context?.region) {
+      instructions.push(`The user has outlined ${describeRegion(context.region)} on the map. Unless they say otherwise, questions are about everything inside that area, not just one town.`);
+    }
+    if (context?.itinerary?.length) {
+      instructions.push(describeItinerary(context.itinerary));
+    }
+    if (context?.comparing) {
+      const [first, second] = context.comparing;
+      instructions.push(`The user is comparing "${first}" and "${second}" side by side. Answer every question for both places and contrast them, unless they ask about only one.`);
+    }
+    config.systemInstruction = instructions.join('\n\n');
+
     if (userLocation) {
       config.toolConfig = {
         retrievalConfig: {
@@ -257,34 +357,185 @@ export class GeminiService {
         }
       };
     }
+    return config;
+  }
 
-    try {
-      return await this.withRetry(async () => {
-        const response: GenerateContentResponse = await this.ai.models.generateContent({
-          model,
-          contents: prompt,
-          config,
-        });
+  // Prior turns become alternating user/model contents ending with the new prompt.
+  // Gemini expects the conversation to open with a user turn, so a leading model turn
+  // (usually the warp summary) is introduced by a short synthetic user message.
+  private buildQueryContents(prompt: string, context?: ChatContext): Content[] {
+    const contents: Content[] = [];
+    const history = context?.history || [];
+    if (history.length > 0 && history[0].role === 'assistant') {
+      contents.push({ role: 'user', parts: [{ text: `Tell me about ${context?.locationName || 'this place'}.` }] });
+    }
+    history.forEach(turn => {
+      const role = turn.role === 'user' ? 'user' : 'model';
+      const last = contents[contents.length - 1];
+      if (last && last.role === role) {
+        last.parts?.push({ text: turn.content });
+      } else {
+        contents.push({ role, parts: [{ text: turn.content }] });
+      }
+    });
+    const last = contents[contents.length - 1];
+    if (last && last.role === 'user') {
+      last.parts?.push({ text: prompt });
+    } else {
+      contents.push({ role: 'user', parts: [{ text: prompt }] });
+    }
+    return contents;
+  }
 
-        const text = response.text || "I couldn't find any information.";
-        const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-        
-        const sources: GroundingSource[] = [];
-        const locationData: LocationResult[] = [];
-
-        chunks.forEach((chunk: any) => {
-          if (chunk.maps) {
-            locationData.push({ title: chunk.maps.title, uri: chunk.maps.uri });
-            sources.push({ title: chunk.maps.title, uri: chunk.maps.uri });
-          } else if (chunk.web) {
-            sources.push({ title: chunk.web.title, uri: chunk.web.uri });
-          }
+  // Supports tie spans of the answer to chunks; they become citations on the source list.
+  private extractGrounding(text: string, chunks: any[], supports: any[]): Omit<QueryResponse, 'text'> {
+    const sources: GroundingSource[] = [];
+    const locationData: LocationResult[] = [];
+    const chunkToSource: number[] = [];
+
+    chunks.forEach((chunk: any) => {
+      chunkToSource.push(chunk.maps || chunk.web ? sources.length : -1);
+      if (chunk.maps) {
+        const coords = parseCoordsFromUri(chunk.maps.uri);
+        locationData.push({
+          title: chunk.maps.title,
+          uri: chunk.maps.uri,
+          placeId: chunk.maps.placeId,
+          latitude: coords?.lat,
+          longitude: coords?.lng
         });
+        sources.push({ title: chunk.maps.title, uri: chunk.maps.uri, kind: 'maps', locationIndex: locationData.length - 1 });
+      } else if (chunk.web) {
+        sources.push({ title: chunk.web.title, uri: chunk.web.uri, kind: 'web' });
+      }
+    });
+    return { sources, citations: citationsFromSupports(text, supports, chunkToSource), locationData };
+  }
+
+  // Maps grounding chunks rarely carry coordinates. Anything the URI parser could not
+  // place is resolved in a single batched lookup, biased towards the focal location.
+  async resolveCoordinates(results: LocationResult[], near?: UserLocation, signal?: AbortSignal): Promise<LocationResult[]> {
+    const pending = results
+      .map((r, index) => ({ r, index }))
+      .filter(({ r }) => !isValidLatLng(r.latitude, r.longitude));
+    if (pending.length === 0) return results;
 
-        return { text, sources, locationData };
+    const model = 'gemini-3-flash-preview';
+    const nearText = near ? ` The places are near ${near.latitude}, ${near.longitude}.` : '';
+    const list = pending.map(({ r, index }) => `${index}. ${r.title}${r.placeId ? ` (${r.placeId})` : ''}`).join('\n');
+    const prompt = `Give the latitude and longitude of each of these places.${nearText}
+        ${list}
+        Return ONLY a JSON array of objects with keys "index" (the number shown), "lat" and "lng". Omit places you cannot locate.`;
+    // The answer's indices point into results, so the key pins each title to its position.
+    const key = pending.map(({ r, index }) => [index, r.title, r.placeId ?? null]);
+    const resolved: ResolvedCoordinate[] = await this.cached('resolveCoordinates', [key, near], () => this.withRetry('resolveCoordinates', () =>
+      this.generateJson('resolveCoordinates', model, prompt, { abortSignal: signal }, resolvedCoordinatesSchema(results.length - 1), []), signal));
+    return results.map((r, index) => {
+      const hit = resolved.find(p => p.index === index);
+      if (!hit || isValidLatLng(r.latitude, r.longitude)) return r;
+      const verified = this.verifyPlace({ name: r.title, lat: hit.lat, lng: hit.lng });
+      return verified ? { ...r, latitude: verified.lat, longitude: verified.lng } : r;
+    });
+  }
+
+  async compareLocations(first: string, second: string, signal?: AbortSignal): Promise<LocationComparison | null> {
+    const model = 'gemini-3-flash-preview';
+    const prompt = `Compare "${first}" and "${second}" for someone weighing where to live or travel.
+        For each of "climate", "history" and "sights" (notable sights), give an object with "first" (about ${first}) and "second" (about ${second}).
+        Each answer is one or two concrete sentences under 300 chars that make the two places easy to contrast.
+        ${this.languageRule()}
+        Return ONLY a JSON object.`;
+    return await this.cached('compareLocations', [first, second], () => this.withRetry('compareLocations', () =>
+      this.generateJson('compareLocations', model, prompt, { abortSignal: signal }, COMPARISON_SCHEMA, null), signal));
+  }
+
+  // Not cached: photos are large, and the same one is rarely asked about twice.
+  async locatePhoto(image: PhotoInput, signal?: AbortSignal): Promise<PhotoCandidate[]> {
+    const model = 'gemini-3-flash-preview';
+    const prompt = `Where was this photo taken? Look at landmarks, signs and the language they are in, architecture, vegetation, terrain, road markings and vehicles.
+        Return an array of up to 5 candidate places, most likely first. Each has "name" (the canonical English name of the landmark, town or area), "localName" (its name in the place's own language and script), "lat", "lng", "confidence" (0 to 1: how likely it is that the photo was taken within about 25 km of that point) and "clues" (one short sentence on what in the photo points there).
+        The confidences together must not add up to more than 1. If nothing in the photo gives the place away, return an empty array.
+        ${this.languageRule()} Keep "name" in English.
+        Return ONLY a JSON array.`;
+    const candidates = await this.withRetry('locatePhoto', () =>
+      this.generateJson('locatePhoto', model, [{ inlineData: image }, { text: prompt }], { abortSignal: signal }, PHOTO_CANDIDATES_SCHEMA, []), signal);
+    return candidates
+      .map(candidate => {
+        const verified = this.verifyPlace(candidate);
+        return verified && { ...candidate, ...verified };
+      })
+      .filter((candidate): candidate is PhotoCandidate => !!candidate)
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  async queryLocation(prompt: string, userLocation?: UserLocation, context?: ChatContext, signal?: AbortSignal): Promise<QueryResponse> {
+    const model = 'gemini-2.5-flash';
+    const config = { ...this.buildQueryConfig(userLocation, context), abortSignal: signal };
+
+    return await this.withRetry('queryLocation', async () => {
+      const response: GenerateContentResponse = await this.generate('queryLocation', {
+        model,
+        contents: this.buildQueryContents(prompt, context),
+        config,
       });
+
+      // Support offsets count from the raw text, so citations are placed before trimming.
+      const raw = readRawText(response);
+      const grounding = response.candidates?.[0]?.groundingMetadata;
+      const { citations, ...rest } = this.extractGrounding(raw, grounding?.groundingChunks || [], grounding?.groundingSupports || []);
+      const trimmed = trimCitedText(raw, citations);
+      return trimmed.text
+        ? { ...rest, ...trimmed }
+        : { ...rest, citations: [], text: translate(this.locale, 'chat.noInformation') };
+    }, signal);
+  }
+
+  // Streams the answer through onText (always the full text so far). Grounding metadata
+  // arrives with the final chunks, so sources are only returned once the stream ends.
+  // Aborting the signal stops the stream and resolves with whatever was received.
+  async queryLocationStream(
+    prompt: string,
+    userLocation: UserLocation | undefined,
+    context: ChatContext | undefined,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<QueryResponse> {
+    const model = 'gemini-2.5-flash';
+    const config = { ...this.buildQueryConfig(userLocation, context), abortSignal: signal };
+
+    let text = '';
+    let groundingChunks: any[] = [];
+    let groundingSupports: any[] = [];
+    // Usage arrives with the last chunk. The scheduler slot is held only until the stream opens.
+    let usageMetadata: GenerateContentResponseUsageMetadata | undefined;
+    let started = false;
+    try {
+      const stream = await this.withRetry('queryLocationStream', () => this.scheduler.schedule(model, 'interactive', () => this.ai.models.generateContentStream({
+        model,
+        contents: this.buildQueryContents(prompt, context),
+        config,
+      }), signal), signal);
+      started = true;
+
+      for await (const chunk of stream) {
+        if (signal?.aborted) break;
+        assertNotBlocked(chunk);
+        if (chunk.text) {
+          text += chunk.text;
+          onText(text);
+        }
+        const grounding = chunk.candidates?.[0]?.groundingMetadata;
+        if (grounding?.groundingChunks?.length) groundingChunks = grounding.groundingChunks;
+        if (grounding?.groundingSupports?.length) groundingSupports = grounding.groundingSupports;
+        if (chunk.usageMetadata) usageMetadata = chunk.usageMetadata;
+      }
     } catch (error) {
-      throw error;
+      if (!signal?.aborted) throw classifyError(error);
+    } finally {
+      if (started) this.recordUsage(model, usageMetadata);
     }
+
+    const answer = text || (signal?.aborted ? '' : translate(this.locale, 'chat.noInformation'));
+    return { text: answer, ...this.extractGrounding(answer, groundingChunks, groundingSupports) };
   }
 }
@@ -0,0 +1,32 @@
+
+// Builds GeoGuess rounds: a hidden-gem location from the provider plus verified
+// photos of it. Places whose photos can't be verified are skipped.
+
+import { GameRound } from "../utils/geoGuess";
+import { isValidLatLng } from "../utils/geo";
+import { ImageResolver } from "./imageResolver";
+import { LocationProvider } from "./locationProvider";
+import { abortError } from "./serviceErrors";
+
+const MAX_ATTEMPTS = 3;
+
+export class GeoGuessRounds {
+  constructor(private provider: LocationProvider, private resolver: ImageResolver) {}
+
+  // exclude lists place names already played or seen, so rounds don't repeat.
+  async next(exclude: string[], photoCount: number, signal?: AbortSignal): Promise<GameRound> {
+    const skipped: string[] = [];
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const place = await this.provider.getDynamicCoolLocation([...exclude, ...skipped], signal);
+      if (signal?.aborted) throw abortError();
+      if (!place || !isValidLatLng(place.lat, place.lng)) continue;
+
+      const landmarks = await this.provider.getVisualKeywords(place.name, [], signal);
+      const photos = await this.resolver.resolve(landmarks, place.name);
+      if (signal?.aborted) throw abortError();
+      if (photos.length > 0) return { place, photos: photos.slice(0, photoCount) };
+      skipped.push(place.name);
+    }
+    throw new Error(`No photographed location found after ${MAX_ATTEMPTS} attempts`);
+  }
+}
@@ -0,0 +1,174 @@
+
+// Turns the model's landmark photo links into images we can actually show.
+// Wikimedia links (File: pages or upload URLs) are resolved through the Commons API,
+// which also gives us author and license. Every URL is probed before display, and
+// landmarks whose photo is broken get a Commons search result instead, or are dropped.
+
+import { ImageAttribution, VisualLandmark } from "../types";
+
+const COMMONS_API = 'https://commons.wikimedia.org/w/api.php';
+const THUMB_WIDTH = 800;
+const PROBE_TIMEOUT_MS = 8000;
+
+interface CommonsImage {
+  url: string;
+  attribution: ImageAttribution;
+}
+
+const stripHtml = (value?: string) => value ? value.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim() : undefined;
+
+// "https://commons.wikimedia.org/wiki/File:Al_Khazneh.jpg" or an upload.wikimedia.org
+// original/thumbnail URL → "Al_Khazneh.jpg".
+export const wikimediaFileName = (url: string): string | null => {
+  try {
+    const parsed = new URL(url);
+    if (parsed.hostname.endsWith('wikimedia.org') || parsed.hostname.endsWith('wikipedia.org')) {
+      const fileMatch = decodeURIComponent(parsed.pathname).match(/\/wiki\/(?:File|Image):(.+)$/);
+      if (fileMatch) return fileMatch[1];
+    }
+    if (parsed.hostname === 'upload.wikimedia.org') {
+      const segments = parsed.pathname.split('/').filter(Boolean);
+      const thumbIndex = segments.indexOf('thumb');
+      const name = thumbIndex >= 0 ? segments[thumbIndex + 3] : segments[segments.length - 1];
+      return name ? decodeURIComponent(name) : null;
+    }
+  } catch {
+    return null;
+  }
+  return null;
+};
+
+const classifyHost = (url: string): ImageAttribution['provider'] => {
+  if (url.startsWith('data:')) return 'fixture';
+  try {
+    const host = new URL(url).hostname;
+    if (host.endsWith('wikimedia.org') || host.endsWith('wikipedia.org')) return 'wikimedia';
+    if (host.endsWith('unsplash.com')) return 'unsplash';
+  } catch {
+    return 'web';
+  }
+  return 'web';
+};
+
+// Loads the URL in an off-screen <img>; HEAD requests are usually blocked by CORS.
+export const probeImage = (url: string, timeoutMs: number = PROBE_TIMEOUT_MS): Promise<boolean> =>
+  new Promise(resolve => {
+    const img = new Image();
+    const timer = setTimeout(() => { img.src = ''; resolve(false); }, timeoutMs);
+    img.onload = () => { clearTimeout(timer); resolve(img.naturalWidth > 0); };
+    img.onerror = () => { clearTimeout(timer); resolve(false); };
+    img.src = url;
+  });
+
+export class ImageResolver {
+  private async commonsQuery(params: Record<string, string>): Promise<any[]> {
+    const search = new URLSearchParams({
+      action: 'query',
+      format: 'json',
+      origin: '*',
+      prop: 'imageinfo',
+      iiprop: 'url|extmetadata',
+      iiurlwidth: String(THUMB_WIDTH),
+      ...params,
+    });
+    const response = await fetch(`${COMMONS_API}?${search.toString()}`);
+    if (!response.ok) throw new Error(`Commons API ${response.status}`);
+    const data = await response.json();
+    return Object.values(data?.query?.pages || {});
+  }
+
+  private toCommonsImage(page: any): CommonsImage | null {
+    const info = page?.imageinfo?.[0];
+    const url = info?.thumburl || info?.url;
+    if (!url || !/\.(jpe?g|png|webp|gif)(\?|$)/i.test(url)) return null;
+    const meta = info.extmetadata || {};
+    return {
+      url,
+      attribution: {
+        provider: 'wikimedia',
+        pageUrl: info.descriptionurl,
+        author: stripHtml(meta.Artist?.value),
+        license: stripHtml(meta.LicenseShortName?.value),
+        licenseUrl: meta.LicenseUrl?.value,
+      },
+    };
+  }
+
+  async lookupCommonsFile(fileName: string): Promise<CommonsImage | null> {
+    try {
+      const [page] = await this.commonsQuery({ titles: `File:${fileName}` });
+      return this.toCommonsImage(page);
+    } catch (e) {
+      return null;
+    }
+  }
+
+  async searchCommons(query: string, exclude: string[] = []): Promise<CommonsImage | null> {
+    try {
+      const pages = await this.commonsQuery({
+        generator: 'search',
+        gsrsearch: `${query} filetype:bitmap`,
+        gsrnamespace: '6',
+        gsrlimit: '5',
+      });
+      const candidates = pages
+        .sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0))
+        .map(page => this.toCommonsImage(page))
+        .filter((c): c is CommonsImage => !!c && !exclude.includes(c.url));
+      for (const candidate of candidates) {
+        if (await probeImage(candidate.url)) return candidate;
+      }
+    } catch (e) {
+      console.warn("Commons search failed", e);
+    }
+    return null;
+  }
+
+  private async resolveOne(landmark: VisualLandmark, placeName: string, taken: string[]): Promise<VisualLandmark | null> {
+    const provider = classifyHost(landmark.imageUrl);
+    if (provider === 'fixture') {
+      return { ...landmark, attribution: landmark.attribution || { provider, license: 'Placeholder artwork' } };
+    }
+
+    let candidate: CommonsImage | null = null;
+    const fileName = wikimediaFileName(landmark.imageUrl);
+    if (fileName) candidate = await this.lookupCommonsFile(fileName);
+
+    if (!candidate) {
+      candidate = {
+        url: landmark.imageUrl,
+        attribution: {
+          provider,
+          pageUrl: landmark.sourceUri,
+          license: provider === 'unsplash' ? 'Unsplash License' : undefined,
+          licenseUrl: provider === 'unsplash' ? 'https://unsplash.com/license' : undefined,
+        },
+      };
+    }
+
+    if (await probeImage(candidate.url)) {
+      return { ...landmark, imageUrl: candidate.url, attribution: candidate.attribution };
+    }
+
+    const replacement = await this.searchCommons(`${landmark.shortCaption} ${placeName}`, taken)
+      || await this.searchCommons(landmark.shortCaption, taken);
+    if (!replacement) return null;
+    return {
+      ...landmark,
+      imageUrl: replacement.url,
+      sourceUri: replacement.attribution.pageUrl || landmark.sourceUri,
+      attribution: { ...replacement.attribution, replaced: true },
+    };
+  }
+
+  async resolve(landmarks: VisualLandmark[], placeName: string): Promise<VisualLandmark[]> {
+    const taken = landmarks.map(l => l.imageUrl);
+    const resolved = await Promise.all(landmarks.map(l => this.resolveOne(l, placeName, taken)));
+    const seen = new Set<string>();
+    return resolved.filter((l): l is VisualLandmark => {
+      if (!l || seen.has(l.imageUrl)) return false;
+      seen.add(l.imageUrl);
+      return true;
+    });
+  }
+}
@@ -0,0 +1,68 @@
+
+import { ChatContext, GeocodeResponse, LocationComparison, LocationResult, NamedPlace, PhotoCandidate, PhotoInput, QueryResponse, UserLocation, VisualLandmark } from "../types";
+import type { Locale } from "../utils/i18n";
+import { GeminiService } from "./geminiService";
+import { MockService } from "./mockService";
+import { ProxyService } from "./proxyService";
+import type { RetryListener } from "./serviceErrors";
+import type { UsageListener } from "./usageMeter";
+
+// Everything the UI needs from a backend. GeminiService talks to the live API, ProxyService
+// reaches it through the server in server/, and MockService answers from bundled fixtures
+// so the app runs without a key.
+// Failures reject with a ServiceError (see serviceErrors.ts); null and [] mean "nothing found".
+// Every call takes an optional AbortSignal so superseded work can be cancelled.
+export interface LocationProvider {
+  geocode(query: string, signal?: AbortSignal): Promise<GeocodeResponse | null>;
+  reverseGeocode(lat: number, lng: number, signal?: AbortSignal): Promise<NamedPlace | null>;
+  getLocationSummary(placeName: string, signal?: AbortSignal): Promise<string>;
+  getVisualKeywords(placeName: string, exclude?: string[], signal?: AbortSignal): Promise<VisualLandmark[]>;
+  getPertinentQuestions(placeName: string, count?: number, signal?: AbortSignal): Promise<string[]>;
+  getSinglePertinentQuestion(placeName: string, exclude: string[], signal?: AbortSignal): Promise<string | null>;
+  getDynamicCoolLocation(exclude: string[], signal?: AbortSignal): Promise<NamedPlace | null>;
+  resolveCoordinates(results: LocationResult[], near?: UserLocation, signal?: AbortSignal): Promise<LocationResult[]>;
+  // Climate, history and notable sights of two places, side by side for the compare table.
+  compareLocations(first: string, second: string, signal?: AbortSignal): Promise<LocationComparison | null>;
+  // Guesses where a photo was taken from what it shows, best first; [] when nothing gives it away.
+  locatePhoto(image: PhotoInput, signal?: AbortSignal): Promise<PhotoCandidate[]>;
+  queryLocation(prompt: string, userLocation?: UserLocation, context?: ChatContext, signal?: AbortSignal): Promise<QueryResponse>;
+  // Forced refresh of cached answers; resolves once the next call will miss the cache. Pass
+  // the exact arguments of the call to refresh: the proxy refreshes nothing broader.
+  invalidateCache(method?: string, args?: unknown[]): Promise<void>;
+  // Language for everything the model writes from now on (summaries, captions, questions, chat).
+  setLocale(locale: Locale): void;
+  // Subscribes to retry attempts; returns the unsubscribe function.
+  onRetry(listener: RetryListener): () => void;
+  // Subscribes to token and quota updates (called immediately with the current totals).
+  onUsage(listener: UsageListener): () => void;
+  resetUsage(): void;
+  queryLocationStream(
+    prompt: string,
+    userLocation: UserLocation | undefined,
+    context: ChatContext | undefined,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<QueryResponse>;
+}
+
+export type ProviderKind = 'proxy' | 'gemini' | 'mock';
+
+export const resolveProviderKind = (value?: string): ProviderKind => {
+  const kind = value?.trim().toLowerCase();
+  return kind === 'mock' || kind === 'gemini' ? kind : 'proxy';
+};
+
+// Picks the backend from GEOSLOP_PROVIDER (see vite.config.ts). Defaults to the proxy in
+// server/, which keeps the API key out of the browser; "gemini" calls the API directly
+// and is only meant for local development.
+export const createLocationProvider = (kind: ProviderKind = resolveProviderKind(process.env.GEOSLOP_PROVIDER)): LocationProvider => {
+  switch (kind) {
+    case 'mock':
+      return new MockService();
+    case 'gemini':
+      return new GeminiService();
+    case 'proxy':
+    default:
+      return new ProxyService();
+  }
+};
@@ -0,0 +1,241 @@
+
+// Offline stand-in for GeminiService. Every answer is derived from FIXTURE_PLACES,
+// so the same input always yields the same output and no network is touched.
+
+import { ChatContext, Citation, GeocodeResponse, GroundingSource, LocationComparison, LocationResult, NamedPlace, PhotoCandidate, PhotoInput, QueryResponse, UserLocation, VisualLandmark } from "../types";
+import { haversineKm, isValidLatLng, normalizePlaceName as normalize } from "../utils/geo";
+import { FIXTURE_COLORS, FIXTURE_PLACES, FixturePlace } from "./fixtures";
+import type { LocationProvider } from "./locationProvider";
+import { UsageListener, UsageMeter } from "./usageMeter";
+
+const bigrams = (value: string): Set<string> => {
+  const grams = new Set<string>();
+  for (let i = 0; i < value.length - 1; i++) grams.add(value.slice(i, i + 2));
+  return grams;
+};
+
+const similarity = (a: string, b: string): number => {
+  const ga = bigrams(a);
+  const gb = bigrams(b);
+  if (ga.size === 0 || gb.size === 0) return 0;
+  let shared = 0;
+  ga.forEach(g => { if (gb.has(g)) shared++; });
+  return (2 * shared) / (ga.size + gb.size);
+};
+
+const STREAM_DELAY_MS = 40;
+
+// Fixtures carry no weather data, so the climate row is a rough guess from latitude alone.
+const climateZone = (lat: number): string => {
+  const abs = Math.abs(lat);
+  if (abs < 23.5) return 'tropical';
+  if (abs < 35) return 'subtropical';
+  if (abs < 55) return 'temperate';
+  if (abs < 66.5) return 'subpolar';
+  return 'polar';
+};
+
+const describeClimate = (place: FixturePlace): string =>
+  `At ${Math.abs(place.lat).toFixed(1)}°${place.lat >= 0 ? 'N' : 'S'}, ${place.name} sits in the ${climateZone(place.lat)} zone.`;
+
+const placeholderImage = (caption: string, index: number): string => {
+  const color = FIXTURE_COLORS[index % FIXTURE_COLORS.length];
+  const label = caption.replace(/[<>&"']/g, '');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="400" viewBox="0 0 800 400"><rect width="800" height="400" fill="${color}"/><circle cx="640" cy="90" r="48" fill="#ffffff" opacity="0.25"/><path d="M0 400 L220 180 L380 320 L520 200 L800 400 Z" fill="#0f172a" opacity="0.35"/><text x="40" y="360" font-family="Arial, sans-serif" font-size="36" font-weight="700" fill="#ffffff">${label}</text></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+export class MockService implements LocationProvider {
+  private places: FixturePlace[];
+
+  constructor(places: FixturePlace[] = FIXTURE_PLACES) {
+    this.places = places;
+  }
+
+  private findPlace(name: string): FixturePlace | undefined {
+    const key = normalize(name);
+    return this.places.find(p => normalize(p.name) === key || p.aliases.some(a => normalize(a) === key))
+      || this.places.find(p => key.includes(normalize(p.name)) || normalize(p.name).includes(key));
+  }
+
+  private nearestPlace(lat: number, lng: number): FixturePlace {
+    return this.places.reduce((best, p) =>
+      haversineKm(lat, lng, p.lat, p.lng) < haversineKm(lat, lng, best.lat, best.lng) ? p : best
+    );
+  }
+
+  async geocode(query: string): Promise<GeocodeResponse | null> {
+    const place = this.findPlace(query);
+    if (place) return { name: place.name, lat: place.lat, lng: place.lng };
+
+    const key = normalize(query);
+    const alternatives = [...this.places]
+      .map(p => ({ name: p.name, score: Math.max(similarity(key, normalize(p.name)), ...p.aliases.map(a => similarity(key, normalize(a)))) }))
+      .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+      .slice(0, 3)
+      .map(p => p.name);
+    return { alternatives };
+  }
+
+  async reverseGeocode(lat: number, lng: number): Promise<NamedPlace | null> {
+    if (this.places.length === 0) return null;
+    const place = this.nearestPlace(lat, lng);
+    return { name: place.name, lat: place.lat, lng: place.lng };
+  }
+
+  async getLocationSummary(placeName: string): Promise<string> {
+    return this.findPlace(placeName)?.summary || `Welcome to ${placeName}!`;
+  }
+
+  async getVisualKeywords(placeName: string, exclude: string[] = []): Promise<VisualLandmark[]> {
+    const place = this.findPlace(placeName);
+    if (!place) return [];
+    return place.landmarks
+      .filter(l => !exclude.includes(l.shortCaption))
+      .map((l, idx) => ({ ...l, imageUrl: placeholderImage(l.shortCaption, idx) }));
+  }
+
+  async getPertinentQuestions(placeName: string, count: number = 3): Promise<string[]> {
+    const place = this.findPlace(placeName);
+    if (!place) return ["Tell me a secret about this place.", "What's the oldest building here?"].slice(0, count);
+    return place.questions.slice(0, count);
+  }
+
+  async getSinglePertinentQuestion(placeName: string, exclude: string[]): Promise<string | null> {
+    const place = this.findPlace(placeName);
+    return place?.questions.find(q => !exclude.includes(q)) || null;
+  }
+
+  async getDynamicCoolLocation(exclude: string[]): Promise<NamedPlace | null> {
+    const excluded = new Set(exclude.map(normalize));
+    const place = this.places.find(p => !excluded.has(normalize(p.name)));
+    return place ? { name: place.name, lat: place.lat, lng: place.lng } : null;
+  }
+
+  async resolveCoordinates(results: LocationResult[], near?: UserLocation): Promise<LocationResult[]> {
+    return results.map(r => {
+      if (isValidLatLng(r.latitude, r.longitude)) return r;
+      const place = this.findPlace(r.title) || (near ? this.nearestPlace(near.latitude, near.longitude) : undefined);
+      return place ? { ...r, latitude: place.lat, longitude: place.lng } : r;
+    });
+  }
+
+  async compareLocations(first: string, second: string): Promise<LocationComparison | null> {
+    const a = this.findPlace(first);
+    const b = this.findPlace(second);
+    if (!a || !b) return null;
+    return {
+      climate: { first: describeClimate(a), second: describeClimate(b) },
+      history: { first: a.facts[0] || a.summary, second: b.facts[0] || b.summary },
+      sights: {
+        first: a.landmarks.map(l => l.shortCaption).join(', '),
+        second: b.landmarks.map(l => l.shortCaption).join(', '),
+      },
+    };
+  }
+
+  // The mock can't see the photo, so the image bytes pick the fixtures: every other photo
+  // gets one confident guess, the rest a ranked list of unsure ones.
+  async locatePhoto(image: PhotoInput): Promise<PhotoCandidate[]> {
+    let hash = 0;
+    for (let i = 0; i < image.data.length; i += 97) hash = (hash * 31 + image.data.charCodeAt(i)) >>> 0;
+    const pick = (offset: number) => this.places[(hash + offset) % this.places.length];
+    const confidences = hash % 2 === 0 ? [0.85, 0.1] : [0.35, 0.25, 0.15];
+    return confidences.map((confidence, i) => {
+      const place = pick(i);
+      return { name: place.name, lat: place.lat, lng: place.lng, confidence, clues: place.landmarks[0]?.shortCaption };
+    });
+  }
+
+  // Compare mode answers with both places' summaries, each citing its Maps entry.
+  private compareAnswer(prompt: string, names: [string, string]): QueryResponse | null {
+    const places = names.map(name => this.findPlace(name));
+    if (places.some(p => !p)) return null;
+    let text = '';
+    const sources: GroundingSource[] = [];
+    const citations: Citation[] = [];
+    const locationData: LocationResult[] = [];
+    (places as FixturePlace[]).forEach((place, i) => {
+      const mapsUri = `https://www.google.com/maps/search/?api=1&query=${place.lat},${place.lng}`;
+      text += `${i === 0 ? '' : '\n\n'}**${place.name}**: ${place.summary}`;
+      sources.push({ title: place.name, uri: mapsUri, kind: 'maps', locationIndex: i });
+      citations.push({ endIndex: text.length, sources: [i] });
+      locationData.push({ title: place.name, uri: mapsUri, latitude: place.lat, longitude: place.lng });
+    });
+    text += `\n\n_(Offline demo comparison for "${prompt}")_`;
+    return { text, sources, citations, locationData };
+  }
+
+  async queryLocation(prompt: string, userLocation?: UserLocation, context?: ChatContext): Promise<QueryResponse> {
+    const comparison = context?.comparing && this.compareAnswer(prompt, context.comparing);
+    if (comparison) return comparison;
+
+    const place = this.findPlace(prompt)
+      || (context?.locationName ? this.findPlace(context.locationName) : undefined)
+      || (userLocation ? this.nearestPlace(userLocation.latitude, userLocation.longitude) : this.places[0]);
+    if (!place) return { text: "I couldn't find any information.", sources: [], locationData: [] };
+
+    const route = context?.itinerary?.length ? `\n\nYour itinerary: ${context.itinerary.map(s => s.name).join(' → ')}.` : '';
+    const mapsUri = `https://www.google.com/maps/search/?api=1&query=${place.lat},${place.lng}`;
+    const sources: GroundingSource[] = [
+      { title: place.name, uri: mapsUri, kind: 'maps', locationIndex: 0 },
+      ...place.landmarks
+        .filter(l => l.sourceUri)
+        .map(l => ({ title: l.shortCaption, uri: l.sourceUri as string, kind: 'web' as const }))
+    ];
+    // The summary cites the Maps entry; each fact cites one of the landmark pages in turn.
+    const pages = sources.length - 1;
+    let text = `**${place.name}**: ${place.summary}`;
+    const citations: Citation[] = [{ endIndex: text.length, sources: [0] }];
+    place.facts.forEach((fact, i) => {
+      text += `${i === 0 ? '\n\n' : '\n'}• ${fact}`;
+      if (pages > 0) citations.push({ endIndex: text.length, sources: [1 + (i % pages)] });
+    });
+    text += `${route}\n\n_(Offline demo answer for "${prompt}")_`;
+    const locationData: LocationResult[] = [{
+      title: place.name,
+      uri: mapsUri,
+      latitude: place.lat,
+      longitude: place.lng
+    }];
+    return { text, sources, citations, locationData };
+  }
+
+  // Fixture answers never go stale, so there is nothing to invalidate.
+  async invalidateCache(): Promise<void> {}
+
+  // Fixtures are written in English only; the UI still follows the chosen locale.
+  setLocale(): void {}
+
+  // Fixtures never fail, so there is nothing to retry.
+  onRetry(): () => void {
+    return () => {};
+  }
+
+  // No model is called, so usage stays empty.
+  onUsage(listener: UsageListener): () => void {
+    listener(new UsageMeter().snapshot());
+    return () => {};
+  }
+
+  resetUsage(): void {}
+
+  async queryLocationStream(
+    prompt: string,
+    userLocation: UserLocation | undefined,
+    context: ChatContext | undefined,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<QueryResponse> {
+    const full = await this.queryLocation(prompt, userLocation, context);
+    const words = full.text.split(/(\s+)/);
+    let text = '';
+    for (const word of words) {
+      if (signal?.aborted) return { text, sources: [], locationData: [] };
+      await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+      text += word;
+      onText(text);
+    }
+    return full;
+  }
+}
@@ -0,0 +1,117 @@
+
+// Runtime checks for structured model output. Each spec carries the responseSchema sent to
+// Gemini and a validator for the same shape plus rules the schema can't enforce on its own
+// (coordinate ranges, URL shape, string lengths), so the two can't drift apart.
+
+import { Schema, Type } from "@google/genai";
+
+export interface OutputSpec<T> {
+  schema: Schema;
+  // Appends one readable problem per violation, prefixed with where it was found.
+  check(value: unknown, path: string, issues: string[]): void;
+  // Never read; only carries T so parseOutput can return it.
+  readonly type?: T;
+}
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value;
+
+export const string = (options: { minLength?: number; maxLength?: number; url?: boolean } = {}): OutputSpec<string> => ({
+  schema: {
+    type: Type.STRING,
+    ...(options.maxLength !== undefined && { maxLength: String(options.maxLength) }),
+    ...(options.url && { description: 'An absolute http(s) URL' }),
+  },
+  check(value, path, issues) {
+    if (typeof value !== 'string') return void issues.push(`${path} must be a string, got ${describe(value)}`);
+    const length = value.trim().length;
+    if (options.minLength !== undefined && length < options.minLength) issues.push(`${path} must be at least ${options.minLength} characters`);
+    if (options.maxLength !== undefined && length > options.maxLength) issues.push(`${path} must be at most ${options.maxLength} characters (got ${length})`);
+    if (options.url && !isHttpUrl(value)) issues.push(`${path} must be an absolute http(s) URL`);
+  },
+});
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return (url.protocol === 'https:' || url.protocol === 'http:') && !!url.hostname;
+  } catch {
+    return false;
+  }
+};
+
+export const number = (options: { min?: number; max?: number; integer?: boolean } = {}): OutputSpec<number> => ({
+  schema: {
+    type: options.integer ? Type.INTEGER : Type.NUMBER,
+    ...(options.min !== undefined && { minimum: options.min }),
+    ...(options.max !== undefined && { maximum: options.max }),
+  },
+  check(value, path, issues) {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return void issues.push(`${path} must be a number, got ${describe(value)}`);
+    if (options.integer && !Number.isInteger(value)) issues.push(`${path} must be a whole number`);
+    if (options.min !== undefined && value < options.min) issues.push(`${path} must be at least ${options.min} (got ${value})`);
+    if (options.max !== undefined && value > options.max) issues.push(`${path} must be at most ${options.max} (got ${value})`);
+  },
+});
+
+export const latitude = () => number({ min: -90, max: 90 });
+export const longitude = () => number({ min: -180, max: 180 });
+
+export const array = <T>(items: OutputSpec<T>, options: { minItems?: number; maxItems?: number } = {}): OutputSpec<T[]> => ({
+  schema: {
+    type: Type.ARRAY,
+    items: items.schema,
+    ...(options.minItems !== undefined && { minItems: String(options.minItems) }),
+    ...(options.maxItems !== undefined && { maxItems: String(options.maxItems) }),
+  },
+  check(value, path, issues) {
+    if (!Array.isArray(value)) return void issues.push(`${path} must be an array, got ${describe(value)}`);
+    if (options.minItems !== undefined && value.length < options.minItems) issues.push(`${path} must have at least ${options.minItems} items`);
+    if (options.maxItems !== undefined && value.length > options.maxItems) issues.push(`${path} must have at most ${options.maxItems} items (got ${value.length})`);
+    value.forEach((item, index) => items.check(item, `${path}[${index}]`, issues));
+  },
+});
+
+// Properties not listed are ignored. refine covers rules spanning several fields.
+export const object = <T>(
+  properties: Record<string, OutputSpec<unknown>>,
+  options: { required?: string[]; refine?: (value: Record<string, unknown>) => string | null } = {}
+): OutputSpec<T> => ({
+  schema: {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(Object.entries(properties).map(([key, spec]) => [key, spec.schema])),
+    ...(options.required && { required: options.required }),
+  },
+  check(value, path, issues) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return void issues.push(`${path} must be an object, got ${describe(value)}`);
+    const record = value as Record<string, unknown>;
+    for (const [key, spec] of Object.entries(properties)) {
+      if (record[key] === undefined || record[key] === null) {
+        if (options.required?.includes(key)) issues.push(`${path}.${key} is required`);
+        continue;
+      }
+      spec.check(record[key], `${path}.${key}`, issues);
+    }
+    const problem = options.refine?.(record);
+    if (problem) issues.push(`${path} ${problem}`);
+  },
+});
+
+// No issues means value passed. malformed separates "not JSON at all" from "JSON of the wrong shape".
+export interface OutputCheck<T> {
+  value?: T;
+  issues: string[];
+  malformed: boolean;
+}
+
+export const parseOutput = <T>(text: string, spec: OutputSpec<T>): OutputCheck<T> => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return { issues: ['the answer is not valid JSON'], malformed: true };
+  }
+  const issues: string[] = [];
+  spec.check(value, '$', issues);
+  return { value: value as T, issues, malformed: false };
+};
@@ -0,0 +1,56 @@
+
+// Wire format between ProxyService in the browser and the server in server/. Each
+// LocationProvider method is POST <base>/api/<method> with its arguments in order
+// (signals and callbacks excluded). queryLocationStream answers with one JSON event per line.
+
+import type { QueryResponse, ServiceErrorKind } from "../types";
+import type { Locale } from "../utils/i18n";
+
+export const PROXY_METHODS = [
+  'geocode',
+  'reverseGeocode',
+  'getLocationSummary',
+  'getVisualKeywords',
+  'getPertinentQuestions',
+  'getSinglePertinentQuestion',
+  'getDynamicCoolLocation',
+  'resolveCoordinates',
+  'compareLocations',
+  'locatePhoto',
+  'queryLocation',
+  'queryLocationStream',
+] as const;
+
+export type ProxyMethod = typeof PROXY_METHODS[number];
+
+export const isProxyMethod = (value: string): value is ProxyMethod =>
+  (PROXY_METHODS as readonly string[]).includes(value);
+
+export interface ProxyRequest {
+  locale?: Locale;
+  args: unknown[];
+}
+
+// Sent with every non-2xx status, so the client can rebuild the ServiceError.
+export interface ProxyErrorBody {
+  error: {
+    kind: ServiceErrorKind;
+    message: string;
+    retryAfterMs?: number;
+  };
+}
+
+// Each text event carries only what was added to the answer since the last one.
+export type ProxyStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'done'; response: QueryResponse }
+  | ({ type: 'error' } & ProxyErrorBody);
+
+// Token totals (GET), their reset (POST) and exact cache refreshes (POST, see
+// ProxyService.invalidateCache).
+export const USAGE_PATH = '/api/usage';
+export const RESET_USAGE_PATH = '/api/resetUsage';
+export const INVALIDATE_PATH = '/api/invalidateCache';
+
+// Random per page load; the server keeps each session's token totals apart under it.
+export const SESSION_HEADER = 'X-Geoslop-Session';
@@ -0,0 +1,224 @@
+
+// Browser side of the proxy in server/. Same answers as GeminiService, but every call is
+// an HTTP request to a server that holds the API key, so the key never reaches the bundle.
+
+import { ChatContext, GeocodeResponse, LocationComparison, LocationResult, NamedPlace, PhotoCandidate, PhotoInput, QueryResponse, UserLocation, VisualLandmark } from "../types";
+import { DEFAULT_LOCALE, Locale } from "../utils/i18n";
+import type { LocationProvider } from "./locationProvider";
+import { INVALIDATE_PATH, ProxyErrorBody, ProxyMethod, ProxyRequest, ProxyStreamEvent, RESET_USAGE_PATH, SESSION_HEADER, USAGE_PATH } from "./proxyProtocol";
+import { RetryListener, ServiceError, abortError, classifyError, sleep } from "./serviceErrors";
+import { UsageListener, UsageMeter, UsageSnapshot } from "./usageMeter";
+
+// The server already retries the model with backoff; these only cover the proxy's own
+// per-client limit, which always says how long to wait.
+const MAX_RETRIES = 2;
+
+// crypto.randomUUID needs a secure context; a plain-http deployment falls back to Math.random.
+const newSessionId = (): string =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+const toServiceError = (status: number, body: Partial<ProxyErrorBody> | null): ServiceError => {
+  const error = body?.error;
+  return new ServiceError(error?.kind || classifyError({ status, message: `Proxy responded ${status}` }).kind, error?.message || `Proxy responded ${status}`, {
+    status,
+    retryAfterMs: error?.retryAfterMs,
+  });
+};
+
+export class ProxyService implements LocationProvider {
+  private baseUrl: string;
+  private locale: Locale = DEFAULT_LOCALE;
+  private retryListeners = new Set<RetryListener>();
+  private usage: UsageSnapshot = new UsageMeter().snapshot();
+  private usageListeners = new Set<UsageListener>();
+  private headers = { [SESSION_HEADER]: newSessionId() };
+
+  // An empty base URL means the proxy is served from the same origin (see vite.config.ts).
+  constructor(baseUrl: string = process.env.GEOSLOP_PROXY_URL || '') {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  private async request(method: ProxyMethod, args: unknown[], signal?: AbortSignal): Promise<Response> {
+    const body: ProxyRequest = { locale: this.locale, args };
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) throw abortError();
+      let response: Response;
+      try {
+        response = await fetch(`${this.baseUrl}/api/${method}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...this.headers },
+          body: JSON.stringify(body),
+          signal,
+        });
+      } catch (e) {
+        throw signal?.aborted ? abortError() : classifyError(e);
+      }
+      if (response.ok) return response;
+
+      const error = toServiceError(response.status, await response.json().catch(() => null));
+      if (error.kind !== 'rate-limited' || error.retryAfterMs === undefined || attempt >= MAX_RETRIES) throw error;
+      this.retryListeners.forEach(listener => listener({ method, attempt: attempt + 1, maxRetries: MAX_RETRIES, delayMs: error.retryAfterMs!, error }));
+      await sleep(error.retryAfterMs, signal);
+    }
+  }
+
+  private async call<T>(method: ProxyMethod, args: unknown[], signal?: AbortSignal): Promise<T> {
+    try {
+      const response = await this.request(method, args, signal);
+      return await response.json() as T;
+    } catch (e) {
+      throw signal?.aborted ? abortError() : classifyError(e);
+    } finally {
+      this.refreshUsage();
+    }
+  }
+
+  async geocode(query: string, signal?: AbortSignal): Promise<GeocodeResponse | null> {
+    return this.call('geocode', [query], signal);
+  }
+
+  async reverseGeocode(lat: number, lng: number, signal?: AbortSignal): Promise<NamedPlace | null> {
+    return this.call('reverseGeocode', [lat, lng], signal);
+  }
+
+  async getLocationSummary(placeName: string, signal?: AbortSignal): Promise<string> {
+    return this.call('getLocationSummary', [placeName], signal);
+  }
+
+  async getVisualKeywords(placeName: string, exclude: string[] = [], signal?: AbortSignal): Promise<VisualLandmark[]> {
+    return this.call('getVisualKeywords', [placeName, exclude], signal);
+  }
+
+  async getPertinentQuestions(placeName: string, count: number = 3, signal?: AbortSignal): Promise<string[]> {
+    return this.call('getPertinentQuestions', [placeName, count], signal);
+  }
+
+  async getSinglePertinentQuestion(placeName: string, exclude: string[], signal?: AbortSignal): Promise<string | null> {
+    return this.call('getSinglePertinentQuestion', [placeName, exclude], signal);
+  }
+
+  async getDynamicCoolLocation(exclude: string[], signal?: AbortSignal): Promise<NamedPlace | null> {
+    return this.call('getDynamicCoolLocation', [exclude], signal);
+  }
+
+  async resolveCoordinates(results: LocationResult[], near?: UserLocation, signal?: AbortSignal): Promise<LocationResult[]> {
+    return this.call('resolveCoordinates', [results, near], signal);
+  }
+
+  async compareLocations(first: string, second: string, signal?: AbortSignal): Promise<LocationComparison | null> {
+    return this.call('compareLocations', [first, second], signal);
+  }
+
+  async locatePhoto(image: PhotoInput, signal?: AbortSignal): Promise<PhotoCandidate[]> {
+    return this.call('locatePhoto', [image], signal);
+  }
+
+  async queryLocation(prompt: string, userLocation?: UserLocation, context?: ChatContext, signal?: AbortSignal): Promise<QueryResponse> {
+    return this.call('queryLocation', [prompt, userLocation, context], signal);
+  }
+
+  // The cache lives on the server and is shared by every client, so only one exact call
+  // (a method and all its arguments) can be refreshed; clearing more is not allowed.
+  // A failed refresh is logged and the caller goes on to fetch the cached answer.
+  async invalidateCache(method?: string, args?: unknown[]): Promise<void> {
+    if (!method || !args) return;
+    try {
+      const response = await fetch(`${this.baseUrl}${INVALIDATE_PATH}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.headers },
+        body: JSON.stringify({ locale: this.locale, args: [method, args] }),
+      });
+      if (!response.ok) console.warn(`Proxy cache refresh failed (${response.status})`);
+    } catch (e) {
+      console.warn("Proxy cache refresh failed", e);
+    }
+  }
+
+  // Sent with every request, so one server can answer each client in its own language.
+  setLocale(locale: Locale): void {
+    this.locale = locale;
+  }
+
+  onRetry(listener: RetryListener): () => void {
+    this.retryListeners.add(listener);
+    return () => { this.retryListeners.delete(listener); };
+  }
+
+  // Token totals are this page's own, kept by the server under its session id; the quota
+  // state is the server's, shared by every client.
+  onUsage(listener: UsageListener): () => void {
+    this.usageListeners.add(listener);
+    listener(this.usage);
+    this.refreshUsage();
+    return () => { this.usageListeners.delete(listener); };
+  }
+
+  // Cleared here at once; the server's copy follows and the next refresh confirms it.
+  resetUsage(): void {
+    this.setUsage({ ...this.usage, since: Date.now(), models: [] });
+    fetch(`${this.baseUrl}${RESET_USAGE_PATH}`, { method: 'POST', headers: this.headers })
+      .then(() => this.refreshUsage())
+      .catch(e => console.warn("Proxy usage could not be reset", e));
+  }
+
+  private setUsage(snapshot: UsageSnapshot): void {
+    this.usage = snapshot;
+    this.usageListeners.forEach(listener => listener(snapshot));
+  }
+
+  private refreshUsage(): void {
+    if (this.usageListeners.size === 0) return;
+    fetch(`${this.baseUrl}${USAGE_PATH}`, { headers: this.headers })
+      .then(response => response.ok ? response.json() as Promise<UsageSnapshot> : null)
+      .then(snapshot => {
+        if (snapshot) this.setUsage(snapshot);
+      })
+      .catch(e => console.warn("Proxy usage could not be loaded", e));
+  }
+
+  // Reads newline-delimited ProxyStreamEvents. Aborting the signal stops reading and
+  // resolves with whatever was received, like GeminiService.
+  async queryLocationStream(
+    prompt: string,
+    userLocation: UserLocation | undefined,
+    context: ChatContext | undefined,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<QueryResponse> {
+    let text = '';
+    try {
+      const response = await this.request('queryLocationStream', [prompt, userLocation, context], signal);
+      if (!response.body) throw new ServiceError('network', 'Proxy stream has no body');
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() || '';
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event = JSON.parse(line) as ProxyStreamEvent;
+          if (event.type === 'text') {
+            text += event.text;
+            onText(text);
+          } else if (event.type === 'done') {
+            return event.response;
+          } else {
+            throw toServiceError(500, event);
+          }
+        }
+      }
+      throw new ServiceError('network', 'Proxy stream ended early');
+    } catch (error) {
+      if (!signal?.aborted) throw classifyError(error);
+      return { text, sources: [], locationData: [] };
+    } finally {
+      this.refreshUsage();
+    }
+  }
+}
@@ -0,0 +1,124 @@
+
+// Throttle in front of the API, in the browser or, in the proxy, shared by every client of
+// its key. Each model gets a concurrency cap and a sliding one-minute request budget; queued work starts interactive-first, and
+// background work never takes the last free slot so chat is not stuck behind it.
+
+import { abortError } from "./serviceErrors";
+
+export type RequestPriority = 'interactive' | 'background';
+
+export interface ModelLimits {
+  maxConcurrent: number;
+  requestsPerMinute: number;
+}
+
+export interface QuotaState extends ModelLimits {
+  model: string;
+  active: number;
+  queued: number;
+  usedLastMinute: number;
+}
+
+interface QueuedTask {
+  model: string;
+  priority: RequestPriority;
+  run: () => void;
+}
+
+const WINDOW_MS = 60 * 1000;
+
+export const DEFAULT_MODEL_LIMITS: ModelLimits = { maxConcurrent: 2, requestsPerMinute: 10 };
+
+export class RequestScheduler {
+  private queue: QueuedTask[] = [];
+  private active = new Map<string, number>();
+  private started = new Map<string, number[]>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private limits: Record<string, ModelLimits> = {},
+    private onChange: () => void = () => {}
+  ) {}
+
+  private limitsFor(model: string): ModelLimits {
+    return this.limits[model] || DEFAULT_MODEL_LIMITS;
+  }
+
+  private recentStarts(model: string, now: number): number[] {
+    const recent = (this.started.get(model) || []).filter(t => now - t < WINDOW_MS);
+    this.started.set(model, recent);
+    return recent;
+  }
+
+  private canStart(task: QueuedTask, now: number): boolean {
+    const { maxConcurrent, requestsPerMinute } = this.limitsFor(task.model);
+    const reserved = task.priority === 'background' && maxConcurrent > 1 ? 1 : 0;
+    return (this.active.get(task.model) || 0) < maxConcurrent - reserved
+      && this.recentStarts(task.model, now).length < requestsPerMinute;
+  }
+
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const now = Date.now();
+    // Interactive tasks first; Array.prototype.sort is stable, so each class stays FIFO.
+    this.queue.sort((a, b) => (a.priority === b.priority ? 0 : a.priority === 'interactive' ? -1 : 1));
+    for (const task of [...this.queue]) {
+      if (!this.canStart(task, now)) continue;
+      this.queue.splice(this.queue.indexOf(task), 1);
+      this.active.set(task.model, (this.active.get(task.model) || 0) + 1);
+      this.recentStarts(task.model, now).push(now);
+      task.run();
+    }
+
+    // Anything still waiting on the per-minute budget is retried when the oldest start expires.
+    const waits = this.queue.map(task => {
+      const recent = this.recentStarts(task.model, now);
+      return recent.length >= this.limitsFor(task.model).requestsPerMinute ? recent[0] + WINDOW_MS - now : Infinity;
+    });
+    const nextWait = Math.min(...waits);
+    if (isFinite(nextWait)) this.timer = setTimeout(() => this.pump(), Math.max(nextWait, 50));
+    this.onChange();
+  }
+
+  schedule<T>(model: string, priority: RequestPriority, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) return Promise.reject(abortError());
+    return new Promise<T>((resolve, reject) => {
+      const task: QueuedTask = {
+        model,
+        priority,
+        run: () => {
+          signal?.removeEventListener('abort', onAbort);
+          fn().then(resolve, reject).finally(() => {
+            this.active.set(model, (this.active.get(model) || 1) - 1);
+            this.pump();
+          });
+        },
+      };
+      const onAbort = () => {
+        const index = this.queue.indexOf(task);
+        if (index < 0) return;
+        this.queue.splice(index, 1);
+        reject(abortError());
+        this.onChange();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(task);
+      this.pump();
+    });
+  }
+
+  snapshot(): QuotaState[] {
+    const now = Date.now();
+    const models = new Set([...Object.keys(this.limits), ...this.active.keys(), ...this.queue.map(t => t.model)]);
+    return Array.from(models).map(model => ({
+      model,
+      ...this.limitsFor(model),
+      active: this.active.get(model) || 0,
+      queued: this.queue.filter(t => t.model === model).length,
+      usedLastMinute: this.recentStarts(model, now).length,
+    }));
+  }
+}
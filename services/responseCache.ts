@@ -0,0 +1,106 @@
+
+// Small TTL + LRU cache for model responses. A Map keeps insertion order, so
+// re-inserting on read moves an entry to the "recent" end and the first key is
+// always the least recently used.
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+export interface ResponseCacheOptions {
+  maxEntries?: number;
+  // localStorage key to persist entries under; omit to keep the cache in memory only.
+  storageKey?: string;
+}
+
+const normalizeArg = (arg: unknown): unknown => {
+  if (typeof arg === 'string') return arg.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (typeof arg === 'number') return Math.round(arg * 1e4) / 1e4;
+  if (Array.isArray(arg)) return arg.map(normalizeArg);
+  if (arg && typeof arg === 'object') {
+    return Object.keys(arg as object).sort().reduce((acc, key) => {
+      acc[key] = normalizeArg((arg as Record<string, unknown>)[key]);
+      return acc;
+    }, {} as Record<string, unknown>);
+  }
+  return arg;
+};
+
+export const cacheKey = (method: string, args: unknown[]): string =>
+  `${method}:${JSON.stringify(args.map(normalizeArg))}`;
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+  private storageKey?: string;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 200;
+    this.storageKey = options.storageKey;
+    this.load();
+  }
+
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      this.persist();
+      return undefined;
+    }
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  set(key: string, value: unknown, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+    this.persist();
+  }
+
+  delete(key: string): void {
+    if (this.entries.delete(key)) this.persist();
+  }
+
+  // Drops every entry whose key starts with prefix (e.g. "getVisualKeywords:"), or all entries.
+  invalidate(prefix?: string): void {
+    if (!prefix) {
+      this.entries.clear();
+    } else {
+      Array.from(this.entries.keys()).forEach(key => {
+        if (key.startsWith(prefix)) this.entries.delete(key);
+      });
+    }
+    this.persist();
+  }
+
+  private load(): void {
+    if (!this.storageKey) return;
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      if (!raw) return;
+      const now = Date.now();
+      (JSON.parse(raw) as [string, CacheEntry][]).forEach(([key, entry]) => {
+        if (entry.expiresAt > now) this.entries.set(key, entry);
+      });
+    } catch (e) {
+      console.warn("Response cache could not be restored", e);
+    }
+  }
+
+  private persist(): void {
+    if (!this.storageKey) return;
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(Array.from(this.entries.entries())));
+    } catch (e) {
+      // Quota exceeded: shed the older half and keep going in memory.
+      Array.from(this.entries.keys()).slice(0, Math.ceil(this.entries.size / 2)).forEach(key => this.entries.delete(key));
+    }
+  }
+}
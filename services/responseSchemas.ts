@@ -0,0 +1,74 @@
+
+// The shape every structured GeminiService method asks for, and the rules its answer must
+// pass before anything downstream sees it.
+
+import { ComparisonCell, GeocodeResponse, LocationComparison, NamedPlace, PhotoCandidate, VisualLandmark } from "../types";
+import { OutputSpec, array, latitude, longitude, number, object, string } from "./outputSchema";
+
+const PLACE_NAME_MAX = 120;
+
+// The prompts ask for questions "under 45 chars"; longer ones are sent back for repair.
+export const QUESTION_MAX = 45;
+
+export const GEOCODE_SCHEMA = object<GeocodeResponse>({
+  name: string({ minLength: 1, maxLength: PLACE_NAME_MAX }),
+  localName: string({ maxLength: PLACE_NAME_MAX }),
+  lat: latitude(),
+  lng: longitude(),
+  alternatives: array(string({ minLength: 1, maxLength: PLACE_NAME_MAX }), { maxItems: 5 }),
+}, {
+  // Either a found place (with both coordinates) or alternatives, never a name without a position.
+  refine: value => value.name != null && (value.lat == null || value.lng == null) ? 'must give lat and lng with name' : null,
+});
+
+export const PLACE_SCHEMA = object<NamedPlace>({
+  name: string({ minLength: 1, maxLength: PLACE_NAME_MAX }),
+  localName: string({ maxLength: PLACE_NAME_MAX }),
+  lat: latitude(),
+  lng: longitude(),
+}, { required: ['name', 'lat', 'lng'] });
+
+export const LANDMARKS_SCHEMA = array(object<VisualLandmark>({
+  shortCaption: string({ minLength: 1, maxLength: 60 }),
+  richCaption: string({ minLength: 1, maxLength: 400 }),
+  imageUrl: string({ url: true }),
+  sourceUri: string({ url: true }),
+}, { required: ['shortCaption', 'richCaption', 'imageUrl', 'sourceUri'] }), { maxItems: 8 });
+
+// Table cells are shown in narrow columns, so each answer is kept to a couple of sentences.
+const COMPARISON_CELL = object<ComparisonCell>({
+  first: string({ minLength: 1, maxLength: 300 }),
+  second: string({ minLength: 1, maxLength: 300 }),
+}, { required: ['first', 'second'] });
+
+export const COMPARISON_SCHEMA = object<LocationComparison>({
+  climate: COMPARISON_CELL,
+  history: COMPARISON_CELL,
+  sights: COMPARISON_CELL,
+}, { required: ['climate', 'history', 'sights'] });
+
+export const PHOTO_CANDIDATES_SCHEMA = array(object<PhotoCandidate>({
+  name: string({ minLength: 1, maxLength: PLACE_NAME_MAX }),
+  localName: string({ maxLength: PLACE_NAME_MAX }),
+  lat: latitude(),
+  lng: longitude(),
+  confidence: number({ min: 0, max: 1 }),
+  clues: string({ maxLength: 200 }),
+}, { required: ['name', 'lat', 'lng', 'confidence'] }), { maxItems: 5 });
+
+export const questionsSchema = (count: number): OutputSpec<string[]> =>
+  array(string({ minLength: 1, maxLength: QUESTION_MAX }), { maxItems: count });
+
+export interface ResolvedCoordinate {
+  index: number;
+  lat: number;
+  lng: number;
+}
+
+// index must point at one of the places that were listed.
+export const resolvedCoordinatesSchema = (maxIndex: number): OutputSpec<ResolvedCoordinate[]> =>
+  array(object<ResolvedCoordinate>({
+    index: number({ integer: true, min: 0, max: maxIndex }),
+    lat: latitude(),
+    lng: longitude(),
+  }, { required: ['index', 'lat', 'lng'] }));
@@ -0,0 +1,110 @@
+
+// One error type for every provider failure, so the UI can tell a rate limit from a
+// missing API key from a refusal and decide whether offering "retry" makes sense.
+
+import { GenerateContentResponse } from "@google/genai";
+import { ServiceErrorKind } from "../types";
+
+export class ServiceError extends Error {
+  kind: ServiceErrorKind;
+  status?: number;
+  // Server-suggested wait before retrying (from Gemini's RetryInfo), when given.
+  retryAfterMs?: number;
+  cause?: unknown;
+
+  constructor(kind: ServiceErrorKind, message: string, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'ServiceError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+  }
+
+  // Failures that can succeed on a later attempt without the user changing anything.
+  get retryable(): boolean {
+    return this.kind === 'rate-limited' || this.kind === 'server' || this.kind === 'network';
+  }
+}
+
+// Reported before withRetry sleeps, so the UI can show "retrying in 9s".
+export interface RetryNotice {
+  method: string;
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  error: ServiceError;
+}
+
+export type RetryListener = (notice: RetryNotice) => void;
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+// Gemini 429 bodies carry e.g. "retryDelay": "9s" in their RetryInfo detail.
+const parseRetryDelay = (message: string): number | undefined => {
+  const match = message.match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+export const abortError = () => new ServiceError('aborted', 'Request was cancelled');
+
+export const isAbortError = (error: unknown): boolean => classifyError(error).kind === 'aborted';
+
+// Resolves after ms, or rejects with an aborted ServiceError as soon as the signal fires.
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const classifyError = (error: unknown): ServiceError => {
+  if (error instanceof ServiceError) return error;
+  const err = error as any;
+  const message: string = err?.message || String(error);
+  const status: number | undefined = typeof err?.status === 'number' ? err.status : undefined;
+
+  if (err?.name === 'AbortError') {
+    return new ServiceError('aborted', message, { cause: error });
+  }
+  if (status === 429 || /\b429\b|RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    return new ServiceError('rate-limited', message, { status: status ?? 429, retryAfterMs: parseRetryDelay(message), cause: error });
+  }
+  if (status === 401 || status === 403 || /API[_ ]KEY|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new ServiceError('auth', message, { status, cause: error });
+  }
+  if (status !== undefined && status >= 500) {
+    return new ServiceError('server', message, { status, cause: error });
+  }
+  if (err instanceof SyntaxError) {
+    return new ServiceError('invalid-json', message, { cause: error });
+  }
+  if (err instanceof TypeError || /failed to fetch|network|ECONNRESET|ETIMEDOUT|ENOTFOUND/i.test(message)) {
+    return new ServiceError('network', message, { cause: error });
+  }
+  return new ServiceError('unknown', message, { status, cause: error });
+};
+
+// Throws safety-blocked when the prompt or the answer was withheld.
+export const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason as string | undefined;
+  if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new ServiceError('safety-blocked', `Response blocked (${blockReason || finishReason})`);
+  }
+};
+
+// Untrimmed, for answers whose grounding offsets count from the very first character.
+export const readRawText = (response: GenerateContentResponse): string => {
+  assertNotBlocked(response);
+  return response.text || '';
+};
+
+export const readText = (response: GenerateContentResponse): string => readRawText(response).trim();
@@ -0,0 +1,134 @@
+
+// IndexedDB-backed storage for named exploration sessions.
+// Records carry a schemaVersion; bump SESSION_SCHEMA_VERSION and add an entry to
+// MIGRATIONS whenever the SessionSnapshot shape changes.
+
+import { SessionSnapshot, StoredSession } from "../types";
+
+export const SESSION_SCHEMA_VERSION = 2;
+
+const DB_NAME = 'geoslop';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+const ACTIVE_KEY = 'geoslop.activeSession';
+
+// Each migration upgrades a record from version N to N + 1.
+const MIGRATIONS: Record<number, (record: any) => any> = {
+  // 2 adds the visit timeline, seeded from whatever navHistory still holds.
+  1: (record) => ({
+    ...record,
+    snapshot: {
+      ...record.snapshot,
+      visits: (record.snapshot?.navHistory || []).map((place: any, index: number) => ({
+        ...place,
+        id: `visit-${index}`,
+        visitedAt: place.visitedAt ?? record.createdAt ?? Date.now(),
+      })),
+    },
+    schemaVersion: 2,
+  }),
+};
+
+export const migrateSession = (record: any): StoredSession | null => {
+  let current = record;
+  let version = typeof current?.schemaVersion === 'number' ? current.schemaVersion : 0;
+  while (version < SESSION_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return null;
+    current = migrate(current);
+    version = current.schemaVersion;
+  }
+  return current?.snapshot ? current as StoredSession : null;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export class SessionStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE)) {
+            db.createObjectStore(STORE, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async tx<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return requestToPromise(run(db.transaction(STORE, mode).objectStore(STORE)));
+  }
+
+  async list(): Promise<StoredSession[]> {
+    const raw = await this.tx('readonly', store => store.getAll());
+    const sessions: StoredSession[] = [];
+    for (const record of raw) {
+      const migrated = migrateSession(record);
+      if (!migrated) continue;
+      if (migrated !== record) await this.put(migrated);
+      sessions.push(migrated);
+    }
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async get(id: string): Promise<StoredSession | null> {
+    const record = await this.tx('readonly', store => store.get(id));
+    return record ? migrateSession(record) : null;
+  }
+
+  async put(session: StoredSession): Promise<void> {
+    await this.tx('readwrite', store => store.put(session));
+  }
+
+  async create(name: string, snapshot: SessionSnapshot): Promise<StoredSession> {
+    const now = Date.now();
+    const session: StoredSession = {
+      schemaVersion: SESSION_SCHEMA_VERSION,
+      id: `session-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      name,
+      createdAt: now,
+      updatedAt: now,
+      snapshot,
+    };
+    await this.put(session);
+    return session;
+  }
+
+  async save(id: string, snapshot: SessionSnapshot): Promise<void> {
+    const existing = await this.get(id);
+    if (!existing) return;
+    await this.put({ ...existing, snapshot, updatedAt: Date.now() });
+  }
+
+  async rename(id: string, name: string): Promise<void> {
+    const existing = await this.get(id);
+    if (!existing) return;
+    await this.put({ ...existing, name, updatedAt: Date.now() });
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.tx('readwrite', store => store.delete(id));
+    if (this.getActiveId() === id) localStorage.removeItem(ACTIVE_KEY);
+  }
+
+  getActiveId(): string | null {
+    return localStorage.getItem(ACTIVE_KEY);
+  }
+
+  setActiveId(id: string): void {
+    localStorage.setItem(ACTIVE_KEY, id);
+  }
+}
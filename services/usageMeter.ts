@@ -0,0 +1,49 @@
+
+// Running token and call counts per model, taken from each response's usageMetadata.
+
+import type { GenerateContentResponseUsageMetadata } from "@google/genai";
+import type { QuotaState } from "./requestScheduler";
+
+export interface ModelUsage {
+  model: string;
+  calls: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface UsageSnapshot {
+  since: number;
+  models: ModelUsage[];
+  quota: QuotaState[];
+}
+
+export type UsageListener = (usage: UsageSnapshot) => void;
+
+export class UsageMeter {
+  private since = Date.now();
+  private models = new Map<string, ModelUsage>();
+
+  record(model: string, metadata?: GenerateContentResponseUsageMetadata): void {
+    const usage = this.models.get(model) || { model, calls: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0 };
+    const promptTokens = metadata?.promptTokenCount ?? 0;
+    // Thinking tokens are billed as output.
+    const outputTokens = (metadata?.candidatesTokenCount ?? 0) + (metadata?.thoughtsTokenCount ?? 0);
+    this.models.set(model, {
+      model,
+      calls: usage.calls + 1,
+      promptTokens: usage.promptTokens + promptTokens,
+      outputTokens: usage.outputTokens + outputTokens,
+      totalTokens: usage.totalTokens + (metadata?.totalTokenCount ?? promptTokens + outputTokens),
+    });
+  }
+
+  reset(): void {
+    this.models.clear();
+    this.since = Date.now();
+  }
+
+  snapshot(quota: QuotaState[] = []): UsageSnapshot {
+    return { since: this.since, models: Array.from(this.models.values()), quota };
+  }
+}
@@ -5,17 +5,62 @@ export interface Message {
   content: string;
   timestamp: number;
   sources?: GroundingSource[];
+  citations?: Citation[];
   locationData?: LocationResult[];
+  status?: 'streaming' | 'stopped';
+  error?: MessageError;
+  // User messages: a small copy of an attached photo (data URL).
+  image?: string;
+  // User messages: the GPS fix read from the attached photo's tags, kept so a retry after a reload can use it.
+  photoGps?: { lat: number; lng: number };
+  // Replies to a photo: where it was taken.
+  photoMatch?: PhotoMatch;
+}
+
+export type ServiceErrorKind = 'rate-limited' | 'server' | 'auth' | 'invalid-json' | 'invalid-output' | 'safety-blocked' | 'network' | 'aborted' | 'unknown';
+
+// What a failed message's retry button re-runs. Plain data, so it survives session saves.
+export type RetryAction =
+  | { type: 'send'; prompt: string }
+  | { type: 'search'; query: string }
+  | { type: 'reverse'; lat: number; lng: number }
+  | { type: 'lucky' }
+  | { type: 'summary'; name: string; localName?: string; note?: string }
+  | { type: 'gallery'; name: string }
+  | { type: 'resolve'; messageId: string }
+  | { type: 'region'; regionId: string }
+  // A GeoGuess round that failed to load.
+  | { type: 'round' }
+  // A compare-mode lookup (a side or the table) that failed.
+  | { type: 'compare' }
+  // Locating the photo attached to this user message.
+  | { type: 'photo'; messageId: string };
+
+export interface MessageError {
+  kind: ServiceErrorKind;
+  retry?: RetryAction;
 }
 
 export interface GroundingSource {
   title: string;
   uri: string;
+  kind?: 'maps' | 'web';
+  // For Maps sources: the matching entry in the message's locationData.
+  locationIndex?: number;
+}
+
+// A grounded span of Message.content ends at endIndex (a string index) and is backed
+// by these entries of Message.sources.
+export interface Citation {
+  endIndex: number;
+  sources: number[];
 }
 
 export interface LocationResult {
+  id?: string;
   title: string;
   uri: string;
+  placeId?: string;
   latitude?: number;
   longitude?: number;
 }
@@ -24,3 +69,180 @@ export interface UserLocation {
   latitude: number;
   longitude: number;
 }
+
+// Where a gallery photo really came from, filled in by the image resolver.
+export interface ImageAttribution {
+  provider: 'wikimedia' | 'unsplash' | 'web' | 'fixture';
+  pageUrl?: string;
+  author?: string;
+  license?: string;
+  licenseUrl?: string;
+  // True when the model's photo was broken and a Commons search result stands in.
+  replaced?: boolean;
+}
+
+export interface VisualLandmark {
+  shortCaption: string;
+  richCaption: string;
+  imageUrl: string;
+  sourceUri?: string;
+  attribution?: ImageAttribution;
+}
+
+// Outcome of checking model coordinates against the offline gazetteer.
+export interface CoordinateCheck {
+  status: 'verified' | 'suspect' | 'corrected' | 'unverified';
+  distanceKm?: number;
+  reference?: string;
+  lat?: number;
+  lng?: number;
+}
+
+export interface GeocodeResponse {
+  name?: string;
+  localName?: string;
+  lat?: number;
+  lng?: number;
+  alternatives?: string[];
+  check?: CoordinateCheck;
+}
+
+export interface NamedPlace {
+  name: string;
+  // The place's name in its own language and script (endonym), when the model gave one.
+  localName?: string;
+  lat: number;
+  lng: number;
+  check?: CoordinateCheck;
+}
+
+export interface NavLocation {
+  name: string;
+  localName?: string;
+  lat: number;
+  lng: number;
+  visitedAt?: number;
+}
+
+// One arrival at a place. navHistory is cut when you go back and then somewhere new,
+// like a browser's; the timeline keeps every visit.
+export interface Visit extends NavLocation {
+  id: string;
+  visitedAt: number;
+  // First gallery photo, filled in once the place's gallery has loaded.
+  thumbnail?: string;
+  note?: string;
+}
+
+// A starred place. Favorites outlive sessions, so they are kept apart from them (see utils/favorites.ts).
+export interface Favorite {
+  id: string;
+  name: string;
+  localName?: string;
+  lat: number;
+  lng: number;
+  addedAt: number;
+  thumbnail?: string;
+  note?: string;
+}
+
+export type ComparisonTopic = 'climate' | 'history' | 'sights';
+
+// One row of the comparison table: a short answer for each of the two places.
+export interface ComparisonCell {
+  first: string;
+  second: string;
+}
+
+export type LocationComparison = Record<ComparisonTopic, ComparisonCell>;
+
+// An image for the model: base64 data without the data: URL prefix.
+export interface PhotoInput {
+  mimeType: string;
+  data: string;
+}
+
+// One guess at where a photo was taken.
+export interface PhotoCandidate extends NamedPlace {
+  // 0..1: how likely the photo was taken within a few tens of km of this point.
+  confidence: number;
+  // What in the photo points there.
+  clues?: string;
+}
+
+// Where a photo was taken: read from its GPS tags, or ranked guesses from the model (best first).
+export interface PhotoMatch {
+  source: 'exif' | 'model';
+  candidates: PhotoCandidate[];
+}
+
+export interface ItineraryStop {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+export interface RegionBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// A shape drawn on the map. Rectangles store two opposite corners, polygons their
+// vertices and circles just the centre (with radiusKm).
+export interface DrawnRegion {
+  id: string;
+  kind: 'rectangle' | 'polygon' | 'circle';
+  points: [number, number][];
+  radiusKm?: number;
+  // Nearest named place to the centroid, filled in after drawing.
+  label?: string;
+}
+
+export interface QueryResponse {
+  text: string;
+  sources: GroundingSource[];
+  citations?: Citation[];
+  locationData: LocationResult[];
+}
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatContext {
+  locationName?: string;
+  history: ChatTurn[];
+  itinerary?: ItineraryStop[];
+  region?: DrawnRegion;
+  // Set in compare mode: questions are answered for both places.
+  comparing?: [string, string];
+}
+
+// Everything needed to bring an exploration back after a reload.
+export interface SessionSnapshot {
+  messages: Message[];
+  navHistory: NavLocation[];
+  historyIndex: number;
+  seenHistory: string[];
+  galleryImages: VisualLandmark[];
+  currentLocationName: string;
+  mapCenter: [number, number];
+  mapZoom: number;
+  // Absent in sessions saved before the planner and drawing tools existed.
+  itinerary?: ItineraryStop[];
+  regions?: DrawnRegion[];
+  visits: Visit[];
+}
+
+export interface StoredSession {
+  schemaVersion: number;
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  snapshot: SessionSnapshot;
+}
@@ -0,0 +1,72 @@
+
+// Turns Gemini grounding supports into citations on the answer text, and writes them
+// back into the text as [^n] markers (n is 1-based into the message's sources) for the
+// Markdown renderer.
+
+import { Citation } from "../types";
+
+interface GroundingSupport {
+  segment?: { endIndex?: number };
+  groundingChunkIndices?: number[];
+}
+
+const utf8Length = (codePoint: number) =>
+  codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+
+// Segment offsets are UTF-8 byte offsets; convert one to a JS string index.
+export const byteOffsetToIndex = (text: string, byteOffset: number): number => {
+  let bytes = 0;
+  let index = 0;
+  for (const char of text) {
+    if (bytes >= byteOffset) break;
+    bytes += utf8Length(char.codePointAt(0) as number);
+    index += char.length;
+  }
+  return index;
+};
+
+// chunkToSource maps a grounding chunk index to its position in sources, or -1 for
+// chunks that produced no source. Citations ending at the same place are merged.
+export const citationsFromSupports = (text: string, supports: GroundingSupport[], chunkToSource: number[]): Citation[] => {
+  const byEnd = new Map<number, Set<number>>();
+  supports.forEach(support => {
+    const end = support.segment?.endIndex;
+    if (typeof end !== 'number') return;
+    const sources = (support.groundingChunkIndices || [])
+      .map(i => chunkToSource[i])
+      .filter(i => typeof i === 'number' && i >= 0);
+    if (sources.length === 0) return;
+    const index = Math.min(byteOffsetToIndex(text, end), text.length);
+    const set = byEnd.get(index) || new Set<number>();
+    sources.forEach(i => set.add(i));
+    byEnd.set(index, set);
+  });
+  return Array.from(byEnd.entries())
+    .map(([endIndex, set]) => ({ endIndex, sources: Array.from(set).sort((a, b) => a - b) }))
+    .sort((a, b) => a.endIndex - b.endIndex);
+};
+
+// Trims the text and moves the citations with it, so they still end where they did.
+export const trimCitedText = (text: string, citations: Citation[]): { text: string; citations: Citation[] } => {
+  const lead = text.length - text.trimStart().length;
+  const trimmed = text.trim();
+  return {
+    text: trimmed,
+    citations: citations.map(c => ({ ...c, endIndex: Math.min(Math.max(c.endIndex - lead, 0), trimmed.length) })),
+  };
+};
+
+// Citations must be sorted by endIndex. A marker that would split a word moves to the
+// word's end.
+export const insertCitationMarkers = (text: string, citations: Citation[] = []): string => {
+  if (citations.length === 0) return text;
+  let result = '';
+  let cursor = 0;
+  citations.forEach(citation => {
+    let end = Math.max(cursor, Math.min(citation.endIndex, text.length));
+    while (end < text.length && /\w/.test(text[end]) && end > 0 && /\w/.test(text[end - 1])) end++;
+    result += text.slice(cursor, end) + `[^${citation.sources.map(i => i + 1).join(',')}]`;
+    cursor = end;
+  });
+  return result + text.slice(cursor);
+};
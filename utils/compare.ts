@@ -0,0 +1,53 @@
+
+// Compare mode: two places side by side, each with its own map, summary and gallery,
+// plus a table contrasting them. Lookups go through the LocationProvider as usual.
+
+import { ComparisonTopic, LocationComparison, MessageError, NamedPlace, VisualLandmark } from "../types";
+
+export const COMPARISON_TOPICS: ComparisonTopic[] = ['climate', 'history', 'sights'];
+
+export type CompareSlot = 0 | 1;
+
+export interface CompareSide {
+  // What was typed into the side's search box, kept for retries.
+  query: string;
+  status: 'searching' | 'loading' | 'ready' | 'not-found' | 'error';
+  place?: NamedPlace;
+  summary?: string;
+  gallery: VisualLandmark[];
+  // Near misses offered when the search found nothing.
+  alternatives?: string[];
+  error?: MessageError;
+}
+
+export const searchingSide = (query: string): CompareSide => ({ query, status: 'searching', gallery: [] });
+
+export const loadingSide = (place: NamedPlace): CompareSide => ({ query: place.name, status: 'loading', place, gallery: [] });
+
+// Both maps pan together: the other map keeps the same offset from its own place and the same zoom.
+export const mirrorCenter = (
+  from: { lat: number; lng: number },
+  to: { lat: number; lng: number },
+  center: { lat: number; lng: number }
+): [number, number] => {
+  const lat = Math.max(-85, Math.min(85, to.lat + center.lat - from.lat));
+  const lng = ((to.lng + center.lng - from.lng + 540) % 360) - 180;
+  return [lat, lng];
+};
+
+export interface CompareTable {
+  names: [string, string];
+  status: 'loading' | 'ready' | 'error';
+  // null when the provider had nothing to compare.
+  value?: LocationComparison | null;
+  error?: MessageError;
+}
+
+// Swapping the sides keeps the table instead of asking for it again in the other order.
+export const swapTable = (table: CompareTable): CompareTable => ({
+  ...table,
+  names: [table.names[1], table.names[0]],
+  value: table.value && Object.fromEntries(
+    COMPARISON_TOPICS.map(topic => [topic, { first: table.value![topic].second, second: table.value![topic].first }])
+  ) as LocationComparison,
+});
@@ -0,0 +1,52 @@
+
+// Starred places and their notes. Unlike the visit timeline, favorites belong to the
+// browser rather than a session, so they live in localStorage next to the layer settings.
+
+import { Favorite } from "../types";
+
+const FAVORITES_KEY = 'geoslop.favorites';
+
+type PlaceRef = { name: string; lat: number; lng: number };
+
+// The same name within ~10 m counts as the same place, so a revisit finds its star.
+export const samePlace = (a: PlaceRef, b: PlaceRef): boolean =>
+  a.name === b.name && Math.abs(a.lat - b.lat) < 1e-4 && Math.abs(a.lng - b.lng) < 1e-4;
+
+export const findFavorite = (favorites: Favorite[], place: PlaceRef): Favorite | undefined =>
+  favorites.find(f => samePlace(f, place));
+
+// Stars the place, or removes its star. A new favorite starts with the place's thumbnail and note.
+export const toggleFavorite = (favorites: Favorite[], place: Omit<Favorite, 'id' | 'addedAt'>): Favorite[] => {
+  if (findFavorite(favorites, place)) return favorites.filter(f => !samePlace(f, place));
+  const { name, localName, lat, lng, thumbnail, note } = place;
+  return [{ id: `fav-${Date.now()}`, name, localName, lat, lng, thumbnail, note, addedAt: Date.now() }, ...favorites];
+};
+
+export const setFavoriteNote = (favorites: Favorite[], id: string, note: string): Favorite[] =>
+  favorites.map(f => f.id === id ? { ...f, note } : f);
+
+// Fills in a photo for favorites that were starred before their gallery loaded. Galleries are
+// looked up by name, so the name is all that has to match.
+export const attachFavoriteThumbnail = (favorites: Favorite[], name: string, thumbnail: string): Favorite[] =>
+  favorites.some(f => !f.thumbnail && f.name === name)
+    ? favorites.map(f => !f.thumbnail && f.name === name ? { ...f, thumbnail } : f)
+    : favorites;
+
+export const loadFavorites = (): Favorite[] => {
+  try {
+    const raw = localStorage.getItem(FAVORITES_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn("Favorites could not be restored", e);
+    return [];
+  }
+};
+
+export const saveFavorites = (favorites: Favorite[]): void => {
+  try {
+    localStorage.setItem(FAVORITES_KEY, JSON.stringify(favorites));
+  } catch (e) {
+    console.warn("Favorites could not be saved", e);
+  }
+};
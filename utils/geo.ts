@@ -0,0 +1,43 @@
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+// Case-, accent- and punctuation-insensitive form of a place name for matching.
+export const normalizePlaceName = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Great-circle distance between two points, in kilometres.
+export const haversineKm = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+export const isValidLatLng = (lat: any, lng: any): boolean =>
+  typeof lat === 'number' && typeof lng === 'number' && !isNaN(lat) && !isNaN(lng)
+  && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+// Pulls coordinates out of the common Google Maps URL shapes:
+// ".../@47.45,-122.46,15z", "?q=47.45,-122.46", "?ll=...", "?query=..." and "!3d47.45!4d-122.46".
+export const parseCoordsFromUri = (uri?: string): { lat: number; lng: number } | null => {
+  if (!uri) return null;
+  let decoded = uri;
+  try { decoded = decodeURIComponent(uri); } catch { /* keep raw */ }
+
+  const patterns = [
+    /!3d(-?\d+(?:\.\d+)?)!4d(-?\d+(?:\.\d+)?)/,
+    /@(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/,
+    /[?&](?:q|ll|query|center|destination)=(-?\d+(?:\.\d+)?),\s*(-?\d+(?:\.\d+)?)/
+  ];
+  for (const pattern of patterns) {
+    const match = decoded.match(pattern);
+    if (match) {
+      const lat = parseFloat(match[1]);
+      const lng = parseFloat(match[2]);
+      if (isValidLatLng(lat, lng)) return { lat, lng };
+    }
+  }
+  return null;
+};
@@ -0,0 +1,133 @@
+
+// Rules for the GeoGuess game: difficulty presets, distance scoring and the local
+// high-score table. Round content (places and photos) comes from services/geoGuessRounds.
+
+import { NamedPlace, VisualLandmark } from "../types";
+import { haversineKm } from "./geo";
+
+export type GameDifficulty = 'easy' | 'normal' | 'hard';
+
+export interface DifficultySettings {
+  // Photos shown per round.
+  photos: number;
+  // Seconds to guess, or null for no clock.
+  timeLimitSec: number | null;
+  // Distance at which a guess earns about 37% of the points; smaller is stricter.
+  scaleKm: number;
+}
+
+export const DIFFICULTIES: Record<GameDifficulty, DifficultySettings> = {
+  easy: { photos: 3, timeLimitSec: null, scaleKm: 2000 },
+  normal: { photos: 2, timeLimitSec: 120, scaleKm: 1000 },
+  hard: { photos: 1, timeLimitSec: 45, scaleKm: 400 },
+};
+
+export const ROUND_OPTIONS = [3, 5, 10];
+export const MAX_ROUND_SCORE = 5000;
+
+export interface GameRound {
+  place: NamedPlace;
+  photos: VisualLandmark[];
+  guess?: { lat: number; lng: number };
+  distanceKm?: number;
+  score?: number;
+  // Set when the clock ran out before a guess was locked in.
+  timedOut?: boolean;
+}
+
+export interface GameState {
+  difficulty: GameDifficulty;
+  totalRounds: number;
+  player: string;
+  rounds: GameRound[];
+  // Index into rounds of the round being played or last revealed.
+  current: number;
+  status: 'loading' | 'guessing' | 'revealed' | 'finished';
+  // Epoch ms when the current round's clock runs out.
+  deadline?: number;
+}
+
+export interface HighScore {
+  player: string;
+  score: number;
+  difficulty: GameDifficulty;
+  rounds: number;
+  playedAt: number;
+}
+
+const HIGH_SCORE_KEY = 'geoslop.highScores';
+const HIGH_SCORE_LIMIT = 10;
+
+export const scoreGuess = (distanceKm: number, difficulty: GameDifficulty): number =>
+  Math.round(MAX_ROUND_SCORE * Math.exp(-distanceKm / DIFFICULTIES[difficulty].scaleKm));
+
+// fallbackPlayer names anonymous players, in the UI's language.
+export const newGame = (difficulty: GameDifficulty, totalRounds: number, player: string, fallbackPlayer: string): GameState => ({
+  difficulty,
+  totalRounds,
+  player: player.trim() || fallbackPlayer,
+  rounds: [],
+  current: 0,
+  status: 'loading',
+});
+
+export const startRound = (game: GameState, round: GameRound): GameState => {
+  const { timeLimitSec } = DIFFICULTIES[game.difficulty];
+  return {
+    ...game,
+    rounds: [...game.rounds, round],
+    current: game.rounds.length,
+    status: 'guessing',
+    deadline: timeLimitSec ? Date.now() + timeLimitSec * 1000 : undefined,
+  };
+};
+
+// Locks in a guess (or, with no guess, a timeout) and scores the current round.
+export const revealRound = (game: GameState, guess?: { lat: number; lng: number }): GameState => {
+  if (game.status !== 'guessing') return game;
+  const round = game.rounds[game.current];
+  const distanceKm = guess ? haversineKm(guess.lat, guess.lng, round.place.lat, round.place.lng) : undefined;
+  const scored: GameRound = {
+    ...round,
+    guess,
+    distanceKm,
+    score: distanceKm === undefined ? 0 : scoreGuess(distanceKm, game.difficulty),
+    timedOut: !guess,
+  };
+  return { ...game, rounds: game.rounds.map((r, i) => i === game.current ? scored : r), status: 'revealed', deadline: undefined };
+};
+
+export const advanceGame = (game: GameState): GameState =>
+  game.rounds.length >= game.totalRounds ? { ...game, status: 'finished' } : { ...game, status: 'loading' };
+
+export const totalScore = (game: GameState): number =>
+  game.rounds.reduce((sum, r) => sum + (r.score || 0), 0);
+
+export const loadHighScores = (): HighScore[] => {
+  try {
+    const raw = localStorage.getItem(HIGH_SCORE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn("High scores could not be restored", e);
+    return [];
+  }
+};
+
+// Each difficulty keeps its own top ten. Adds the entry if it makes its table and
+// returns all tables, best first.
+export const recordHighScore = (entry: HighScore): HighScore[] => {
+  const scores = [...loadHighScores(), entry];
+  const table = (Object.keys(DIFFICULTIES) as GameDifficulty[])
+    .flatMap(difficulty => scores
+      .filter(s => s.difficulty === difficulty)
+      .sort((a, b) => b.score - a.score || a.playedAt - b.playedAt)
+      .slice(0, HIGH_SCORE_LIMIT))
+    .sort((a, b) => b.score - a.score || a.playedAt - b.playedAt);
+  try {
+    localStorage.setItem(HIGH_SCORE_KEY, JSON.stringify(table));
+  } catch (e) {
+    console.warn("High scores could not be saved", e);
+  }
+  return table;
+};
@@ -0,0 +1,97 @@
+
+// Locale settings and message lookup. Catalogs live in locales/; English is the
+// source and the fallback for any key a translation is missing.
+
+import { MessageKey, en } from "../locales/en";
+import { es } from "../locales/es";
+import { fr } from "../locales/fr";
+import { ar } from "../locales/ar";
+
+export type Locale = 'en' | 'es' | 'fr' | 'ar';
+
+export interface LocaleInfo {
+  code: Locale;
+  // The language's own name, shown in the picker.
+  nativeName: string;
+  // Used in prompts, which are written in English.
+  englishName: string;
+  dir: 'ltr' | 'rtl';
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: { code: 'en', nativeName: 'English', englishName: 'English', dir: 'ltr' },
+  es: { code: 'es', nativeName: 'Español', englishName: 'Spanish', dir: 'ltr' },
+  fr: { code: 'fr', nativeName: 'Français', englishName: 'French', dir: 'ltr' },
+  ar: { code: 'ar', nativeName: 'العربية', englishName: 'Arabic', dir: 'rtl' },
+};
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const CATALOGS: Record<Locale, Catalog> = { en, es, fr, ar };
+
+const LOCALE_KEY = 'geoslop.locale';
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+// Plural messages are stored as "<base>.one", "<base>.other" and so on; this is the set of bases.
+// English only needs one/other, but a translation may add any CLDR category its language uses.
+export type PluralKey = MessageKey extends infer K ? K extends `${infer Base}.other` ? Base : never : never;
+
+type PluralForm = `${PluralKey}.${Intl.LDMLPluralRule}`;
+
+export type Catalog = Partial<Record<MessageKey | PluralForm, string>>;
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && value in LOCALES;
+
+// Unknown placeholders are left as written, so literal braces in a message survive.
+const interpolate = (template: string, params?: MessageParams): string =>
+  params ? template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match) : template;
+
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string =>
+  interpolate(CATALOGS[locale][key] ?? en[key], params);
+
+// Picks the form for count using the locale's plural rules, falling back to "other".
+// {count} is always available to the message.
+export const translatePlural = (locale: Locale, key: PluralKey, count: number, params?: MessageParams): string => {
+  const category = new Intl.PluralRules(locale).select(count);
+  const exact: PluralForm = `${key}.${category}`;
+  const other: PluralForm = `${key}.other`;
+  const source: Catalog = en;
+  const template = CATALOGS[locale][exact] ?? CATALOGS[locale][other] ?? source[exact] ?? source[other] ?? key;
+  return interpolate(template, { count: count.toLocaleString(locale), ...params });
+};
+
+// Pairs the endonym with the name we search by, e.g. "Κέρκυρα (Corfu)", when they differ.
+export const placeLabel = (name: string, localName?: string): string =>
+  localName && localName !== name ? `${localName} (${name})` : name;
+
+// First browser language we have a catalog for, by primary subtag ("fr-CA" -> "fr").
+export const detectLocale = (): Locale => {
+  const candidates = typeof navigator === 'undefined' ? [] : navigator.languages || [navigator.language];
+  for (const tag of candidates) {
+    const primary = tag?.split('-')[0].toLowerCase();
+    if (isLocale(primary)) return primary;
+  }
+  return DEFAULT_LOCALE;
+};
+
+export const loadLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(LOCALE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch (e) {
+    console.warn("Locale setting could not be restored", e);
+  }
+  return detectLocale();
+};
+
+export const saveLocale = (locale: Locale): void => {
+  try {
+    localStorage.setItem(LOCALE_KEY, locale);
+  } catch (e) {
+    console.warn("Locale setting could not be saved", e);
+  }
+};
@@ -0,0 +1,111 @@
+
+// Distances, ordering and route geometry for the itinerary planner. Routes are
+// open paths that start at the first stop; they do not return to it.
+
+import { ItineraryStop } from "../types";
+import { haversineKm } from "./geo";
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+// Up to this many stops every ordering is tried; beyond it, nearest-neighbour + 2-opt.
+const EXACT_OPTIMIZE_LIMIT = 8;
+
+const legKm = (a: ItineraryStop, b: ItineraryStop) => haversineKm(a.lat, a.lng, b.lat, b.lng);
+
+// legs[i] is the distance from stop i to stop i + 1.
+export const legDistancesKm = (stops: ItineraryStop[]): number[] =>
+  stops.slice(1).map((stop, i) => legKm(stops[i], stop));
+
+export const routeLengthKm = (stops: ItineraryStop[]): number =>
+  legDistancesKm(stops).reduce((sum, km) => sum + km, 0);
+
+const permutations = <T>(items: T[]): T[][] => {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest])
+  );
+};
+
+const nearestNeighbour = (first: ItineraryStop, rest: ItineraryStop[]): ItineraryStop[] => {
+  const route = [first];
+  const remaining = [...rest];
+  while (remaining.length > 0) {
+    const last = route[route.length - 1];
+    let best = 0;
+    remaining.forEach((stop, i) => {
+      if (legKm(last, stop) < legKm(last, remaining[best])) best = i;
+    });
+    route.push(remaining.splice(best, 1)[0]);
+  }
+  return route;
+};
+
+// Reverses segments while that shortens the path; the first stop never moves.
+const twoOpt = (route: ItineraryStop[]): ItineraryStop[] => {
+  let best = route;
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        if (routeLengthKm(candidate) < routeLengthKm(best) - 1e-9) {
+          best = candidate;
+          improved = true;
+        }
+      }
+    }
+  }
+  return best;
+};
+
+// Shortest visiting order that keeps the first stop as the starting point.
+export const optimizeStopOrder = (stops: ItineraryStop[]): ItineraryStop[] => {
+  if (stops.length <= 2) return stops;
+  const [first, ...rest] = stops;
+  if (stops.length <= EXACT_OPTIMIZE_LIMIT) {
+    return permutations(rest)
+      .map(order => [first, ...order])
+      .reduce((best, route) => routeLengthKm(route) < routeLengthKm(best) ? route : best);
+  }
+  return twoOpt(nearestNeighbour(first, rest));
+};
+
+// Points along the great circle from a to b. Longitudes are unwrapped so Leaflet draws
+// legs across the antimeridian as one continuous line instead of wrapping the globe.
+export const greatCirclePath = (a: ItineraryStop, b: ItineraryStop, segments = 32): [number, number][] => {
+  const lat1 = toRad(a.lat), lng1 = toRad(a.lng), lat2 = toRad(b.lat), lng2 = toRad(b.lng);
+  const d = legKm(a, b) / 6371;
+  if (d < 1e-6) return [[a.lat, a.lng], [b.lat, b.lng]];
+
+  const points: [number, number][] = [];
+  let prevLng = a.lng;
+  for (let i = 0; i <= segments; i++) {
+    const f = i / segments;
+    const A = Math.sin((1 - f) * d) / Math.sin(d);
+    const B = Math.sin(f * d) / Math.sin(d);
+    const x = A * Math.cos(lat1) * Math.cos(lng1) + B * Math.cos(lat2) * Math.cos(lng2);
+    const y = A * Math.cos(lat1) * Math.sin(lng1) + B * Math.cos(lat2) * Math.sin(lng2);
+    const z = A * Math.sin(lat1) + B * Math.sin(lat2);
+    let lng = toDeg(Math.atan2(y, x));
+    while (lng - prevLng > 180) lng -= 360;
+    while (lng - prevLng < -180) lng += 360;
+    prevLng = lng;
+    points.push([toDeg(Math.atan2(z, Math.sqrt(x * x + y * y))), lng]);
+  }
+  return points;
+};
+
+export const formatKm = (km: number): string =>
+  km < 10 ? `${km.toFixed(1)} km` : `${Math.round(km).toLocaleString()} km`;
+
+// Prompt text listing the stops in order with leg distances, so questions like
+// "what should I see between stops 2 and 3?" can be answered.
+export const describeItinerary = (stops: ItineraryStop[]): string => {
+  const legs = legDistancesKm(stops);
+  const lines = stops.map((stop, i) =>
+    `${i + 1}. ${stop.name} (${stop.lat.toFixed(4)}, ${stop.lng.toFixed(4)})${i < legs.length ? ` → ${formatKm(legs[i])} to stop ${i + 2}` : ''}`
+  );
+  return `The user is planning a trip with these stops, in order (total ${formatKm(routeLengthKm(stops))} as the crow flies):\n${lines.join('\n')}\nWhen they refer to "stop N" they mean this numbering.`;
+};
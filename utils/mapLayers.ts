@@ -0,0 +1,202 @@
+
+// Registry of map layers: built-in base maps and overlays plus user-added XYZ/WMS
+// sources. Exactly one base layer is shown; any number of overlays stack on top,
+// each with its own opacity. Settings persist in localStorage.
+
+import type { MessageKey } from "../locales/en";
+
+export type LayerRole = 'base' | 'overlay';
+export type LayerProtocol = 'xyz' | 'wms';
+
+export interface MapLayerSource {
+  id: string;
+  name: string;
+  role: LayerRole;
+  protocol: LayerProtocol;
+  url: string;
+  attribution: string;
+  maxZoom?: number;
+  subdomains?: string;
+  // WMS only: comma-separated layer names and image format.
+  wmsLayers?: string;
+  wmsFormat?: string;
+  custom?: boolean;
+}
+
+export interface ActiveOverlay {
+  id: string;
+  opacity: number;
+}
+
+export interface LayerSettings {
+  baseId: string;
+  overlays: ActiveOverlay[];
+  custom: MapLayerSource[];
+}
+
+export const DEFAULT_BASE_LAYER = 'satellite';
+export const DEFAULT_OVERLAY_OPACITY = 0.7;
+
+const STORAGE_KEY = 'geoslop.mapLayers';
+
+export const BUILT_IN_LAYERS: MapLayerSource[] = [
+  {
+    id: 'road',
+    name: 'Road',
+    role: 'base',
+    protocol: 'xyz',
+    url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: '&copy; OpenStreetMap',
+    maxZoom: 19,
+  },
+  {
+    id: 'satellite',
+    name: 'Satellite',
+    role: 'base',
+    protocol: 'xyz',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Tiles &copy; Esri',
+    maxZoom: 19,
+  },
+  {
+    id: 'topo',
+    name: 'Topographic',
+    role: 'base',
+    protocol: 'xyz',
+    url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
+    attribution: '&copy; OpenStreetMap, SRTM | Style &copy; OpenTopoMap (CC-BY-SA)',
+    maxZoom: 17,
+  },
+  {
+    id: 'dark',
+    name: 'Dark',
+    role: 'base',
+    protocol: 'xyz',
+    url: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png',
+    attribution: '&copy; OpenStreetMap &copy; CARTO',
+    subdomains: 'abcd',
+    maxZoom: 20,
+  },
+  {
+    id: 'terrain',
+    name: 'Terrain',
+    role: 'base',
+    protocol: 'xyz',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Terrain_Base/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Tiles &copy; Esri, USGS, NOAA',
+    maxZoom: 13,
+  },
+  {
+    id: 'labels',
+    name: 'Place labels',
+    role: 'overlay',
+    protocol: 'xyz',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/Reference/World_Boundaries_and_Places/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Labels &copy; Esri',
+    maxZoom: 19,
+  },
+  {
+    id: 'roads-overlay',
+    name: 'Roads',
+    role: 'overlay',
+    protocol: 'xyz',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/Reference/World_Transportation/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Roads &copy; Esri',
+    maxZoom: 19,
+  },
+  {
+    id: 'hillshade',
+    name: 'Hillshade',
+    role: 'overlay',
+    protocol: 'xyz',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/Elevation/World_Hillshade/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Hillshade &copy; Esri',
+    maxZoom: 16,
+  },
+];
+
+export const DEFAULT_LAYER_SETTINGS: LayerSettings = { baseId: DEFAULT_BASE_LAYER, overlays: [], custom: [] };
+
+export const allLayers = (settings: LayerSettings): MapLayerSource[] => [...BUILT_IN_LAYERS, ...settings.custom];
+
+export const findLayer = (settings: LayerSettings, id: string): MapLayerSource | undefined =>
+  allLayers(settings).find(layer => layer.id === id);
+
+export const baseLayer = (settings: LayerSettings): MapLayerSource =>
+  findLayer(settings, settings.baseId) || BUILT_IN_LAYERS.find(layer => layer.id === DEFAULT_BASE_LAYER) as MapLayerSource;
+
+// Unknown ids (e.g. a custom base from someone else's shared link) leave the base unchanged.
+export const selectBaseLayer = (settings: LayerSettings, id: string): LayerSettings =>
+  findLayer(settings, id)?.role === 'base' ? { ...settings, baseId: id } : settings;
+
+export const toggleOverlay = (settings: LayerSettings, id: string): LayerSettings =>
+  settings.overlays.some(o => o.id === id)
+    ? { ...settings, overlays: settings.overlays.filter(o => o.id !== id) }
+    : { ...settings, overlays: [...settings.overlays, { id, opacity: DEFAULT_OVERLAY_OPACITY }] };
+
+export const setOverlayOpacity = (settings: LayerSettings, id: string, opacity: number): LayerSettings => ({
+  ...settings,
+  overlays: settings.overlays.map(o => o.id === id ? { ...o, opacity: Math.min(1, Math.max(0, opacity)) } : o),
+});
+
+export const addCustomLayer = (settings: LayerSettings, layer: MapLayerSource): LayerSettings => {
+  const next = { ...settings, custom: [...settings.custom, { ...layer, custom: true }] };
+  return layer.role === 'base' ? { ...next, baseId: layer.id } : toggleOverlay(next, layer.id);
+};
+
+export const removeCustomLayer = (settings: LayerSettings, id: string): LayerSettings => ({
+  baseId: settings.baseId === id ? DEFAULT_BASE_LAYER : settings.baseId,
+  overlays: settings.overlays.filter(o => o.id !== id),
+  custom: settings.custom.filter(layer => layer.id !== id),
+});
+
+// Returns the catalog key describing the first problem, or null if the source is usable.
+export const validateLayerSource = (layer: Pick<MapLayerSource, 'name' | 'protocol' | 'url' | 'wmsLayers'>): MessageKey | null => {
+  if (!layer.name.trim()) return 'layers.errors.name';
+  let url: URL;
+  try {
+    url = new URL(layer.url.replace(/\{[a-z]\}/gi, '0'));
+  } catch {
+    return 'layers.errors.url';
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return 'layers.errors.protocol';
+  if (layer.protocol === 'xyz' && !['{z}', '{x}', '{y}'].every(token => layer.url.includes(token))) {
+    return 'layers.errors.xyzPlaceholders';
+  }
+  if (layer.protocol === 'wms' && !layer.wmsLayers?.trim()) return 'layers.errors.wmsLayers';
+  return null;
+};
+
+// Drops overlays and a base that no longer exist, e.g. after a custom source was removed elsewhere.
+const normalize = (settings: LayerSettings): LayerSettings => {
+  const ids = new Set(allLayers(settings).map(layer => layer.id));
+  return {
+    baseId: ids.has(settings.baseId) ? settings.baseId : DEFAULT_BASE_LAYER,
+    overlays: settings.overlays.filter(o => ids.has(o.id)),
+    custom: settings.custom,
+  };
+};
+
+export const loadLayerSettings = (): LayerSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_LAYER_SETTINGS;
+    const parsed = JSON.parse(raw);
+    return normalize({
+      baseId: typeof parsed.baseId === 'string' ? parsed.baseId : DEFAULT_BASE_LAYER,
+      overlays: Array.isArray(parsed.overlays) ? parsed.overlays : [],
+      custom: Array.isArray(parsed.custom) ? parsed.custom : [],
+    });
+  } catch (e) {
+    console.warn("Map layer settings could not be restored", e);
+    return DEFAULT_LAYER_SETTINGS;
+  }
+};
+
+export const saveLayerSettings = (settings: LayerSettings): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Map layer settings could not be saved", e);
+  }
+};
@@ -0,0 +1,145 @@
+
+// A small Markdown parser for chat replies. It produces a plain tree that the renderer
+// turns into React elements, so raw HTML in model output is never interpreted; it shows
+// up as text. Supports headings, paragraphs, lists, quotes, fenced code, **bold**,
+// *italic*, `code`, [links](https://...) and [^1] citation markers.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'cite'; sources: number[] };
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownInline[][] }
+  | { type: 'quote'; children: MarkdownInline[] }
+  | { type: 'code'; text: string };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+// Only absolute http(s) and mailto links survive; anything else renders as plain text.
+export const sanitizeHref = (href: string): string | null => {
+  try {
+    const url = new URL(href);
+    return SAFE_PROTOCOLS.includes(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+const INLINE_RULES: { pattern: RegExp; build: (m: RegExpExecArray) => MarkdownInline }[] = [
+  { pattern: /`([^`\n]+)`/y, build: m => ({ type: 'code', text: m[1] }) },
+  { pattern: /\[\^(\d+(?:\s*,\s*\d+)*)\]/y, build: m => ({ type: 'cite', sources: m[1].split(',').map(n => parseInt(n, 10) - 1) }) },
+  {
+    pattern: /\[([^\]\n]+)\]\(([^)\s]+)\)/y,
+    build: m => {
+      const href = sanitizeHref(m[2]);
+      return href ? { type: 'link', href, children: parseInline(m[1]) } : { type: 'text', text: m[1] };
+    }
+  },
+  { pattern: /\*\*(?=\S)([\s\S]+?)\*\*|__(?=\S)([\s\S]+?)__/y, build: m => ({ type: 'strong', children: parseInline(m[1] ?? m[2]) }) },
+  { pattern: /\*(?=[^\s*])([^*\n]+?)\*|_(?=[^\s_])([^_\n]+?)_(?!\w)/y, build: m => ({ type: 'em', children: parseInline(m[1] ?? m[2]) }) },
+];
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  let i = 0;
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+  while (i < text.length) {
+    // Intra-word underscores (snake_case) are not emphasis.
+    const wordBefore = i > 0 && /\w/.test(text[i - 1]);
+    let matched = false;
+    for (const rule of INLINE_RULES) {
+      if (text[i] === '_' && wordBefore) break;
+      rule.pattern.lastIndex = i;
+      const m = rule.pattern.exec(text);
+      if (m) {
+        flush();
+        nodes.push(rule.build(m));
+        i += m[0].length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) buffer += text[i++];
+  }
+  flush();
+  return nodes;
+};
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const BULLET = /^\s*[-*+•]\s+(.*)$/;
+const NUMBERED = /^\s*(\d+)[.)]\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const FENCE = /^\s*```/;
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; start: number; items: string[] } | null = null;
+  let quote: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length) blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+    if (list) blocks.push({ type: 'list', ordered: list.ordered, start: list.start, items: list.items.map(parseInline) });
+    if (quote.length) blocks.push({ type: 'quote', children: parseInline(quote.join('\n')) });
+    paragraph = [];
+    list = null;
+    quote = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (FENCE.test(line)) {
+      flush();
+      const code: string[] = [];
+      // A fence still open mid-stream runs to the end of the text.
+      while (++i < lines.length && !FENCE.test(lines[i])) code.push(lines[i]);
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      continue;
+    }
+    const bullet = BULLET.exec(line);
+    const numbered = NUMBERED.exec(line);
+    if (bullet || numbered) {
+      const ordered = !bullet;
+      if (paragraph.length || quote.length || (list && list.ordered !== ordered)) flush();
+      if (!list) list = { ordered, start: numbered ? parseInt(numbered[1], 10) : 1, items: [] };
+      list.items.push(bullet ? bullet[1] : numbered[2]);
+      continue;
+    }
+    const quoted = QUOTE.exec(line);
+    if (quoted) {
+      if (paragraph.length || list) flush();
+      quote.push(quoted[1]);
+      continue;
+    }
+    // Indented lines continue the current list item.
+    if (list && /^\s+/.test(line)) {
+      list.items[list.items.length - 1] += ` ${line.trim()}`;
+      continue;
+    }
+    if (list || quote.length) flush();
+    paragraph.push(line);
+  }
+  flush();
+  return blocks;
+};
@@ -0,0 +1,130 @@
+
+// Photos dropped into the chat: GPS tags are read straight from the file's EXIF block, and
+// the image is shrunk before it goes anywhere (to the model, or into the saved session).
+
+import { LocationResult, PhotoInput, PhotoMatch } from "../types";
+import { isValidLatLng } from "./geo";
+
+// A top guess at least this sure is offered as a place to go; below it every guess is pinned.
+export const CONFIDENT_PHOTO_MATCH = 0.6;
+
+// Longest side of the copy sent to the model, and of the thumbnail kept in the chat.
+const MODEL_IMAGE_PX = 1024;
+const THUMBNAIL_PX = 240;
+
+export interface PreparedPhoto {
+  image: PhotoInput;
+  thumbnail: string;
+  gps: { lat: number; lng: number } | null;
+}
+
+// What a photo is located from: its GPS fix when it has one, otherwise the image itself.
+export type PhotoLookup = { gps: { lat: number; lng: number } } | { image: PhotoInput };
+
+export const photoLookup = (photo: PreparedPhoto): PhotoLookup =>
+  photo.gps ? { gps: photo.gps } : { image: photo.image };
+
+// EXIF lives in a JPEG's APP1 segment as a small TIFF file; its GPS IFD holds latitude and
+// longitude as degrees, minutes and seconds (three rationals) plus N/S and E/W refs.
+export const readExifGps = (buffer: ArrayBuffer): { lat: number; lng: number } | null => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return null;
+
+  let offset = 2;
+  let tiff = -1;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) break;
+    const size = view.getUint16(offset + 2);
+    if (marker === 0xFFE1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      tiff = offset + 10;
+      break;
+    }
+    offset += 2 + size;
+  }
+  if (tiff < 0 || tiff + 8 > view.byteLength) return null;
+
+  const little = view.getUint16(tiff) === 0x4949;
+  const u16 = (at: number) => view.getUint16(at, little);
+  const u32 = (at: number) => view.getUint32(at, little);
+  const inRange = (at: number, length: number) => at >= 0 && at + length <= view.byteLength;
+
+  // Tag -> offset of its 12-byte entry within the IFD.
+  const entries = (ifd: number): Map<number, number> => {
+    const found = new Map<number, number>();
+    if (!inRange(ifd, 2)) return found;
+    const count = u16(ifd);
+    for (let i = 0; i < count && inRange(ifd + 2 + i * 12, 12); i++) found.set(u16(ifd + 2 + i * 12), ifd + 2 + i * 12);
+    return found;
+  };
+
+  const gpsEntry = entries(tiff + u32(tiff + 4)).get(0x8825);
+  if (gpsEntry === undefined) return null;
+  const gps = entries(tiff + u32(gpsEntry + 8));
+
+  const ref = (tag: number) => {
+    const entry = gps.get(tag);
+    return entry === undefined ? '' : String.fromCharCode(view.getUint8(entry + 8));
+  };
+  const degrees = (tag: number): number | null => {
+    const entry = gps.get(tag);
+    if (entry === undefined || u16(entry + 2) !== 5 || u32(entry + 4) !== 3) return null;
+    const at = tiff + u32(entry + 8);
+    if (!inRange(at, 24)) return null;
+    const [d, m, s] = [0, 1, 2].map(i => u32(at + i * 8) / (u32(at + i * 8 + 4) || 1));
+    return d + m / 60 + s / 3600;
+  };
+
+  const lat = degrees(2);
+  const lng = degrees(4);
+  if (lat === null || lng === null) return null;
+  const signedLat = ref(1) === 'S' ? -lat : lat;
+  const signedLng = ref(3) === 'W' ? -lng : lng;
+  // Cameras without a fix sometimes write 0,0.
+  if ((signedLat === 0 && signedLng === 0) || !isValidLatLng(signedLat, signedLng)) return null;
+  return { lat: signedLat, lng: signedLng };
+};
+
+const scaledJpeg = (bitmap: ImageBitmap, maxPx: number, quality: number): string => {
+  const scale = Math.min(1, maxPx / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+export const photoFromDataUrl = (url: string): PhotoInput => {
+  const [header, data] = url.split(',', 2);
+  return { mimeType: header.slice('data:'.length).split(';')[0], data };
+};
+
+// Rejects when the file isn't an image the browser can decode.
+export const preparePhoto = async (file: File): Promise<PreparedPhoto> => {
+  const buffer = await file.arrayBuffer();
+  const bitmap = await createImageBitmap(new Blob([buffer], { type: file.type }));
+  try {
+    return {
+      image: photoFromDataUrl(scaledJpeg(bitmap, MODEL_IMAGE_PX, 0.85)),
+      thumbnail: scaledJpeg(bitmap, THUMBNAIL_PX, 0.7),
+      gps: readExifGps(buffer),
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const isConfidentMatch = (match: PhotoMatch): boolean =>
+  match.source === 'exif' || (match.candidates[0]?.confidence ?? 0) >= CONFIDENT_PHOTO_MATCH;
+
+export const confidencePercent = (confidence: number): number => Math.round(confidence * 100);
+
+// The candidates as ranked map pins, with ids in the message's namespace like other answers' pins.
+export const photoPins = (messageId: string, match: PhotoMatch): LocationResult[] =>
+  match.candidates.map((candidate, i) => ({
+    id: `${messageId}-${i}`,
+    title: `${i + 1}. ${candidate.name} · ${confidencePercent(candidate.confidence)}%`,
+    uri: `https://www.google.com/maps/search/?api=1&query=${candidate.lat},${candidate.lng}`,
+    latitude: candidate.lat,
+    longitude: candidate.lng,
+  }));
@@ -0,0 +1,104 @@
+
+// Geometry for regions drawn on the map: bounding box, centroid and area, plus the
+// wording used to scope prompts to a region instead of a single point.
+
+import { DrawnRegion, RegionBounds } from "../types";
+import { haversineKm } from "./geo";
+import { formatKm } from "./itinerary";
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = 111.32;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+export interface RegionGeometry {
+  bounds: RegionBounds;
+  centroid: { lat: number; lng: number };
+  areaKm2: number;
+}
+
+// Corners of a rectangle region (stored as two opposite corners), clockwise from south-west.
+export const rectangleCorners = (region: DrawnRegion): [number, number][] => {
+  const [[lat1, lng1], [lat2, lng2]] = region.points;
+  const south = Math.min(lat1, lat2), north = Math.max(lat1, lat2);
+  const west = Math.min(lng1, lng2), east = Math.max(lng1, lng2);
+  return [[south, west], [north, west], [north, east], [south, east]];
+};
+
+const outline = (region: DrawnRegion): [number, number][] =>
+  region.kind === 'rectangle' ? rectangleCorners(region) : region.points;
+
+// Spherical polygon area (the approximation Leaflet.draw uses), in km².
+const ringAreaKm2 = (ring: [number, number][]): number => {
+  let total = 0;
+  ring.forEach(([lat1, lng1], i) => {
+    const [lat2, lng2] = ring[(i + 1) % ring.length];
+    total += toRad(lng2 - lng1) * (2 + Math.sin(toRad(lat1)) + Math.sin(toRad(lat2)));
+  });
+  return Math.abs(total * EARTH_RADIUS_KM * EARTH_RADIUS_KM / 2);
+};
+
+// Area-weighted centroid in degree space; fine at the scale people draw regions.
+const ringCentroid = (ring: [number, number][]): { lat: number; lng: number } => {
+  let area = 0, lat = 0, lng = 0;
+  ring.forEach(([y1, x1], i) => {
+    const [y2, x2] = ring[(i + 1) % ring.length];
+    const cross = x1 * y2 - x2 * y1;
+    area += cross;
+    lng += (x1 + x2) * cross;
+    lat += (y1 + y2) * cross;
+  });
+  if (Math.abs(area) < 1e-12) {
+    return {
+      lat: ring.reduce((sum, p) => sum + p[0], 0) / ring.length,
+      lng: ring.reduce((sum, p) => sum + p[1], 0) / ring.length,
+    };
+  }
+  return { lat: lat / (3 * area), lng: lng / (3 * area) };
+};
+
+export const regionGeometry = (region: DrawnRegion): RegionGeometry => {
+  if (region.kind === 'circle') {
+    const [lat, lng] = region.points[0];
+    const radiusKm = region.radiusKm || 0;
+    const dLat = radiusKm / KM_PER_DEGREE_LAT;
+    const dLng = radiusKm / (KM_PER_DEGREE_LAT * Math.max(Math.cos(toRad(lat)), 0.01));
+    return {
+      bounds: { south: Math.max(-90, lat - dLat), west: lng - dLng, north: Math.min(90, lat + dLat), east: lng + dLng },
+      centroid: { lat, lng },
+      // Spherical cap, so very large circles are not overstated.
+      areaKm2: 2 * Math.PI * EARTH_RADIUS_KM * EARTH_RADIUS_KM * (1 - Math.cos(radiusKm / EARTH_RADIUS_KM)),
+    };
+  }
+  const ring = outline(region);
+  return {
+    bounds: {
+      south: Math.min(...ring.map(p => p[0])),
+      west: Math.min(...ring.map(p => p[1])),
+      north: Math.max(...ring.map(p => p[0])),
+      east: Math.max(...ring.map(p => p[1])),
+    },
+    centroid: ringCentroid(ring),
+    areaKm2: ringAreaKm2(ring),
+  };
+};
+
+export const circleRadiusKm = (center: [number, number], edge: [number, number]): number =>
+  haversineKm(center[0], center[1], edge[0], edge[1]);
+
+export const formatArea = (km2: number): string =>
+  km2 < 10 ? `${km2.toFixed(1)} km²` : `${Math.round(km2).toLocaleString()} km²`;
+
+const formatLat = (lat: number) => `${Math.abs(lat).toFixed(2)}°${lat >= 0 ? 'N' : 'S'}`;
+const formatLng = (lng: number) => `${Math.abs(lng).toFixed(2)}°${lng >= 0 ? 'E' : 'W'}`;
+
+// One-line description of the shape and where it is, used in prompts and as the
+// "place name" for region summaries and galleries.
+export const describeRegion = (region: DrawnRegion): string => {
+  const { bounds, centroid, areaKm2 } = regionGeometry(region);
+  const near = region.label ? ` near ${region.label}` : '';
+  const shape = region.kind === 'circle'
+    ? `the area within ${formatKm(region.radiusKm || 0)} of ${centroid.lat.toFixed(4)}, ${centroid.lng.toFixed(4)}${near}`
+    : `the ${region.kind === 'rectangle' ? 'rectangular' : 'outlined'} area${near} centred on ${centroid.lat.toFixed(4)}, ${centroid.lng.toFixed(4)}`;
+  return `${shape} (about ${formatArea(areaKm2)}, spanning ${formatLat(bounds.south)}–${formatLat(bounds.north)} and ${formatLng(bounds.west)}–${formatLng(bounds.east)})`;
+};
@@ -0,0 +1,160 @@
+
+// Sun position and rise/set times from the NOAA solar calculator formulas, good to about
+// a minute between ±72° latitude and a few minutes nearer the poles. Everything is in UTC;
+// callers format the results in the place's time zone.
+
+const RAD = Math.PI / 180;
+const DAY_MS = 86400000;
+
+// Altitudes of the sun's centre that start and end each part of the day. Sunrise allows
+// for refraction and the sun's radius.
+export const SUN_ALTITUDES = {
+  sun: -0.833,
+  civil: -6,
+  nautical: -12,
+  astronomical: -18,
+} as const;
+
+export type SunBand = keyof typeof SUN_ALTITUDES;
+export type DayPhase = 'day' | 'civil' | 'nautical' | 'astronomical' | 'night';
+
+export interface SunPosition {
+  elevation: number;
+  // Degrees clockwise from north.
+  azimuth: number;
+}
+
+export interface SunSpan {
+  // When the sun climbs above / drops below the band's altitude.
+  start?: Date;
+  end?: Date;
+  // Set instead of start/end when the sun stays on one side of the altitude all day.
+  always?: 'above' | 'below';
+}
+
+export interface SunTimes {
+  solarNoon: Date;
+  noonElevation: number;
+  spans: Record<SunBand, SunSpan>;
+}
+
+const julianCentury = (ms: number) => (ms / DAY_MS + 2440587.5 - 2451545) / 36525;
+
+// Declination (degrees) and equation of time (minutes) at the given instant.
+const solarCoordinates = (ms: number): { declination: number; equationOfTime: number } => {
+  const t = julianCentury(ms);
+  const meanLong = (280.46646 + t * (36000.76983 + t * 0.0003032)) % 360;
+  const meanAnomaly = 357.52911 + t * (35999.05029 - 0.0001537 * t);
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+  const m = meanAnomaly * RAD;
+  const center = Math.sin(m) * (1.914602 - t * (0.004817 + 0.000014 * t))
+    + Math.sin(2 * m) * (0.019993 - 0.000101 * t)
+    + Math.sin(3 * m) * 0.000289;
+  const omega = (125.04 - 1934.136 * t) * RAD;
+  const apparentLong = (meanLong + center - 0.00569 - 0.00478 * Math.sin(omega)) * RAD;
+  const meanObliquity = 23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const obliquity = (meanObliquity + 0.00256 * Math.cos(omega)) * RAD;
+  const declination = Math.asin(Math.sin(obliquity) * Math.sin(apparentLong)) / RAD;
+  const y = Math.tan(obliquity / 2) ** 2;
+  const l0 = meanLong * RAD;
+  const equationOfTime = 4 / RAD * (
+    y * Math.sin(2 * l0)
+    - 2 * eccentricity * Math.sin(m)
+    + 4 * eccentricity * y * Math.sin(m) * Math.cos(2 * l0)
+    - 0.5 * y * y * Math.sin(4 * l0)
+    - 1.25 * eccentricity * eccentricity * Math.sin(2 * m)
+  );
+  return { declination, equationOfTime };
+};
+
+// Minutes past UTC midnight, including the fraction.
+const utcMinutes = (ms: number) => (((ms % DAY_MS) + DAY_MS) % DAY_MS) / 60000;
+
+// Degrees west of the local meridian that the sun has moved since solar noon.
+const hourAngle = (ms: number, lng: number, equationOfTime: number) =>
+  (utcMinutes(ms) + equationOfTime + 4 * lng) / 4 - 180;
+
+export const sunPosition = (at: Date, lat: number, lng: number): SunPosition => {
+  const { declination, equationOfTime } = solarCoordinates(at.getTime());
+  const h = hourAngle(at.getTime(), lng, equationOfTime) * RAD;
+  const phi = lat * RAD;
+  const d = declination * RAD;
+  const cosZenith = Math.sin(phi) * Math.sin(d) + Math.cos(phi) * Math.cos(d) * Math.cos(h);
+  const elevation = 90 - Math.acos(Math.max(-1, Math.min(1, cosZenith))) / RAD;
+  const azimuth = (Math.atan2(Math.sin(h), Math.cos(h) * Math.sin(phi) - Math.tan(d) * Math.cos(phi)) / RAD + 540) % 360;
+  return { elevation, azimuth };
+};
+
+export const dayPhase = (elevation: number): DayPhase =>
+  elevation >= SUN_ALTITUDES.sun ? 'day'
+    : elevation >= SUN_ALTITUDES.civil ? 'civil'
+    : elevation >= SUN_ALTITUDES.nautical ? 'nautical'
+    : elevation >= SUN_ALTITUDES.astronomical ? 'astronomical'
+    : 'night';
+
+// The solar noon nearest to the given instant. Two passes: the equation of time barely
+// changes between the first guess and the answer.
+const solarNoonNear = (ms: number, lng: number): number => {
+  let noon = ms;
+  for (let i = 0; i < 2; i++) {
+    const { equationOfTime } = solarCoordinates(noon);
+    noon = Math.floor(ms / DAY_MS) * DAY_MS + (720 - 4 * lng - equationOfTime) * 60000;
+    noon += Math.round((ms - noon) / DAY_MS) * DAY_MS;
+  }
+  return noon;
+};
+
+// Minutes between solar noon and the sun reaching the altitude, or which side it stays on.
+const halfArc = (ms: number, lat: number, altitude: number): number | 'above' | 'below' => {
+  const d = solarCoordinates(ms).declination * RAD;
+  const phi = lat * RAD;
+  const cosH = (Math.sin(altitude * RAD) - Math.sin(phi) * Math.sin(d)) / (Math.cos(phi) * Math.cos(d));
+  if (cosH > 1) return 'below';
+  if (cosH < -1) return 'above';
+  return 4 * Math.acos(cosH) / RAD;
+};
+
+const spanAround = (noon: number, lat: number, altitude: number): SunSpan => {
+  const first = halfArc(noon, lat, altitude);
+  if (typeof first !== 'number') return { always: first };
+  // Refine each end with the declination at roughly that time.
+  const edge = (sign: 1 | -1) => {
+    const again = halfArc(noon + sign * first * 60000, lat, altitude);
+    return new Date(noon + sign * (typeof again === 'number' ? again : first) * 60000);
+  };
+  return { start: edge(-1), end: edge(1) };
+};
+
+// Rise, set and twilight times around the solar noon nearest to the given instant. Pass
+// noon on the place's own clock to get its calendar day, whatever the zone's offset.
+export const sunTimes = (around: Date, lat: number, lng: number): SunTimes => {
+  const noon = solarNoonNear(around.getTime(), lng);
+  const spans = Object.fromEntries(
+    (Object.keys(SUN_ALTITUDES) as SunBand[]).map(band => [band, spanAround(noon, lat, SUN_ALTITUDES[band])])
+  ) as Record<SunBand, SunSpan>;
+  return { solarNoon: new Date(noon), noonElevation: sunPosition(new Date(noon), lat, lng).elevation, spans };
+};
+
+// Where the sun is straight overhead.
+export const subsolarPoint = (at: Date): { lat: number; lng: number } => {
+  const { declination, equationOfTime } = solarCoordinates(at.getTime());
+  const lng = (720 - utcMinutes(at.getTime()) - equationOfTime) / 4;
+  return { lat: declination, lng: ((lng + 540) % 360) - 180 };
+};
+
+// The night half of the globe as a polygon, spanning two world widths so it still covers
+// the map after panning across the antimeridian.
+export const nightPolygon = (at: Date, stepDeg = 2): [number, number][] => {
+  const sun = subsolarPoint(at);
+  // At the equinoxes the terminator runs through the poles; keep the tangent finite.
+  const declination = Math.abs(sun.lat) < 0.01 ? (sun.lat < 0 ? -0.01 : 0.01) : sun.lat;
+  const tanD = Math.tan(declination * RAD);
+  const points: [number, number][] = [];
+  for (let lng = -360; lng <= 360; lng += stepDeg) {
+    const h = (lng - sun.lng) * RAD;
+    points.push([Math.atan(-Math.cos(h) / tanD) / RAD, lng]);
+  }
+  // Close over the pole that is in darkness.
+  const darkPole = declination > 0 ? -90 : 90;
+  return [...points, [darkPole, 360], [darkPole, -360]];
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { findTimeZone, formatUtcOffset, nauticalZone } from './timeZones';
+
+const AT = new Date(Date.UTC(2026, 0, 15, 12));
+
+describe('findTimeZone', () => {
+  it.each([
+    ['Paris', 48.86, 2.35, 'Europe/Paris'],
+    ['Chicago', 41.88, -87.63, 'America/Chicago'],
+    ['Madrid', 40.42, -3.70, 'Europe/Madrid'],
+    ['Tokyo', 35.68, 139.69, 'Asia/Tokyo'],
+    ['Denver', 39.74, -104.99, 'America/Denver'],
+  ])('is sure of %s, well inside its zone', (_, lat, lng, zone) => {
+    expect(findTimeZone(lat, lng, AT)).toEqual({ id: zone, nautical: false, approximate: false });
+  });
+
+  // Either the nearest anchor is on the right side, or the match admits it may not be.
+  it.each([
+    ['Narva', 59.38, 28.19, 'Europe/Tallinn'],
+    ['Ivangorod', 59.37, 28.21, 'Europe/Moscow'],
+    ['Haparanda', 65.83, 24.14, 'Europe/Stockholm'],
+    ['Tornio', 65.85, 24.15, 'Europe/Helsinki'],
+    ['Blagoveshchensk', 50.26, 127.53, 'Asia/Yakutsk'],
+    ['Heihe', 50.24, 127.49, 'Asia/Shanghai'],
+    ['Uzhhorod', 48.62, 22.29, 'Europe/Kyiv'],
+    ['Záhony', 48.41, 22.18, 'Europe/Budapest'],
+    ['Cotonou', 6.37, 2.39, 'Africa/Porto-Novo'],
+    ['Białystok', 53.13, 23.16, 'Europe/Warsaw'],
+    ['Herat', 34.35, 62.20, 'Asia/Kabul'],
+    ['Darjeeling', 27.04, 88.26, 'Asia/Kolkata'],
+  ])('gets %s right or marks it approximate', (_, lat, lng, zone) => {
+    const match = findTimeZone(lat, lng, AT);
+    expect(match.id === zone || match.approximate, `${match.id} for ${zone}`).toBe(true);
+  });
+
+  it('does not hedge between neighbours that keep the same clock', () => {
+    // Görlitz and Zgorzelec face each other across the Neisse, on Berlin and Warsaw time.
+    expect(findTimeZone(51.15, 14.99, AT).approximate).toBe(false);
+  });
+
+  it('falls back to nautical time far from land', () => {
+    expect(findTimeZone(-40, -130, AT)).toEqual({ id: 'Etc/GMT+9', nautical: true, approximate: false });
+  });
+});
+
+describe('nauticalZone', () => {
+  it('uses the inverted Etc/GMT signs', () => {
+    expect(nauticalZone(30)).toBe('Etc/GMT-2');
+    expect(nauticalZone(-75)).toBe('Etc/GMT+5');
+    expect(nauticalZone(0)).toBe('Etc/GMT');
+  });
+});
+
+describe('formatUtcOffset', () => {
+  it('writes whole and fractional hours', () => {
+    expect(formatUtcOffset(120)).toBe('UTC+2');
+    expect(formatUtcOffset(345)).toBe('UTC+5:45');
+    expect(formatUtcOffset(-210)).toBe('UTC-3:30');
+  });
+});
@@ -0,0 +1,104 @@
+
+// Offline time-zone lookup over data/timeZones.ts. The zone only names the clock; offsets
+// and daylight saving come from the browser's own tz database through Intl, so nothing
+// here needs updating when a country changes its DST rules.
+
+import { MAX_ANCHOR_KM, TIME_ZONES } from "../data/timeZones";
+import { haversineKm } from "./geo";
+
+export interface ZoneMatch {
+  id: string;
+  // True when no anchor was close enough and the zone is the longitude's nautical one.
+  nautical: boolean;
+  // True when a zone keeping a different clock has anchors nearly as close. Anchors only
+  // approximate borders, so the point may well be in another zone.
+  approximate: boolean;
+}
+
+// Another clock's anchor within this multiple of the nearest anchor's distance, plus
+// NEAR_BORDER_KM, makes the match uncertain. The slack grows with the distance because
+// the further the nearest anchor, the less the anchors say about where the border runs.
+const NEAR_BORDER_FACTOR = 2;
+const NEAR_BORDER_KM = 100;
+
+const supported = new Map<string, boolean>();
+
+// Older browsers lack some recently renamed zones (Europe/Kyiv, America/Nuuk, ...).
+const isSupportedZone = (id: string): boolean => {
+  if (!supported.has(id)) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: id });
+      supported.set(id, true);
+    } catch {
+      supported.set(id, false);
+    }
+  }
+  return supported.get(id)!;
+};
+
+// Etc/GMT zones have inverted signs: 30°E is UTC+2, which is Etc/GMT-2.
+export const nauticalZone = (lng: number): string => {
+  const hours = Math.round((((lng + 540) % 360) - 180) / 15);
+  return hours === 0 ? 'Etc/GMT' : `Etc/GMT${hours > 0 ? '-' : '+'}${Math.abs(hours)}`;
+};
+
+// Zones whose wall clocks agree all year (Warsaw and Berlin) are interchangeable here.
+const sameClock = (a: string, b: string, at: Date): boolean => {
+  const year = at.getUTCFullYear();
+  return [0, 6].every(month => {
+    const date = new Date(Date.UTC(year, month, 1));
+    return zoneOffsetMinutes(a, date) === zoneOffsetMinutes(b, date);
+  });
+};
+
+// Nearest anchor wins, which can pick the neighbour's zone close to a border (see
+// data/timeZones.ts); when a neighbour with another clock is nearly as close, the match
+// is approximate.
+export const findTimeZone = (lat: number, lng: number, at: Date = new Date()): ZoneMatch => {
+  const nearest = new Map<string, number>();
+  for (const [id, zoneLat, zoneLng] of TIME_ZONES) {
+    const km = haversineKm(lat, lng, zoneLat, zoneLng);
+    if (km < MAX_ANCHOR_KM && km < (nearest.get(id) ?? Infinity) && isSupportedZone(id)) nearest.set(id, km);
+  }
+  const [best, ...others] = Array.from(nearest.entries()).sort((a, b) => a[1] - b[1]);
+  if (!best) return { id: nauticalZone(lng), nautical: true, approximate: false };
+
+  const [id, km] = best;
+  const reach = km * NEAR_BORDER_FACTOR + NEAR_BORDER_KM;
+  return { id, nautical: false, approximate: others.some(([other, otherKm]) => otherKm <= reach && !sameClock(id, other, at)) };
+};
+
+// Minutes ahead of UTC that the zone's wall clock shows at the given instant.
+export const zoneOffsetMinutes = (zone: string, at: Date): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: zone,
+    hourCycle: 'h23',
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: 'numeric', second: 'numeric',
+  }).formatToParts(at);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const wall = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((wall - Math.floor(at.getTime() / 1000) * 1000) / 60000);
+};
+
+// Daylight saving is in effect when the offset is above the smaller of the January and July offsets.
+export const isDaylightSaving = (zone: string, at: Date): boolean => {
+  const year = at.getUTCFullYear();
+  const january = zoneOffsetMinutes(zone, new Date(Date.UTC(year, 0, 1)));
+  const july = zoneOffsetMinutes(zone, new Date(Date.UTC(year, 6, 1)));
+  return january !== july && zoneOffsetMinutes(zone, at) > Math.min(january, july);
+};
+
+export const formatUtcOffset = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  const rest = abs % 60;
+  return `UTC${sign}${Math.floor(abs / 60)}${rest ? `:${String(rest).padStart(2, '0')}` : ''}`;
+};
+
+// Noon on the zone's wall clock on the day containing the given instant.
+export const zoneNoon = (zone: string, at: Date): Date => {
+  const offset = zoneOffsetMinutes(zone, at);
+  const local = new Date(at.getTime() + offset * 60000);
+  return new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate(), 12) - offset * 60000);
+};
@@ -0,0 +1,205 @@
+
+// Conversions between a trip (visited trail + pinned results) and GeoJSON, KML and GPX.
+// Visited points are tagged kind="visited" and pins kind="pin" so a round trip keeps them apart.
+
+import { LocationResult, NavLocation } from "../types";
+import { isValidLatLng } from "./geo";
+
+export type TripFormat = 'geojson' | 'kml' | 'gpx';
+
+export interface Trip {
+  name: string;
+  visited: NavLocation[];
+  pins: LocationResult[];
+}
+
+export const TRIP_FORMATS: { format: TripFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'geojson', label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+  { format: 'kml', label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  { format: 'gpx', label: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml' },
+];
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const isoTime = (timestamp?: number) => timestamp ? new Date(timestamp).toISOString() : undefined;
+
+const placedPins = (pins: LocationResult[]) =>
+  pins.filter((p): p is LocationResult & { latitude: number; longitude: number } => isValidLatLng(p.latitude, p.longitude));
+
+export const toGeoJSON = (trip: Trip): string => {
+  const features: any[] = [];
+  if (trip.visited.length > 1) {
+    features.push({
+      type: 'Feature',
+      properties: { name: `${trip.name} trail`, kind: 'trail' },
+      geometry: { type: 'LineString', coordinates: trip.visited.map(v => [v.lng, v.lat]) },
+    });
+  }
+  trip.visited.forEach(v => features.push({
+    type: 'Feature',
+    properties: { name: v.name, kind: 'visited', timestamp: isoTime(v.visitedAt) },
+    geometry: { type: 'Point', coordinates: [v.lng, v.lat] },
+  }));
+  placedPins(trip.pins).forEach(p => features.push({
+    type: 'Feature',
+    properties: { name: p.title, kind: 'pin', sourceUri: p.uri || undefined },
+    geometry: { type: 'Point', coordinates: [p.longitude, p.latitude] },
+  }));
+  return JSON.stringify({ type: 'FeatureCollection', name: trip.name, features }, null, 2);
+};
+
+const kmlPlacemark = (name: string, lat: number, lng: number, kind: string, time?: string, sourceUri?: string) => `    <Placemark>
+      <name>${escapeXml(name)}</name>${time ? `
+      <TimeStamp><when>${time}</when></TimeStamp>` : ''}
+      <ExtendedData>
+        <Data name="kind"><value>${kind}</value></Data>${sourceUri ? `
+        <Data name="sourceUri"><value>${escapeXml(sourceUri)}</value></Data>` : ''}
+      </ExtendedData>
+      <Point><coordinates>${lng},${lat},0</coordinates></Point>
+    </Placemark>`;
+
+export const toKML = (trip: Trip): string => {
+  const parts: string[] = [];
+  if (trip.visited.length > 1) {
+    parts.push(`    <Placemark>
+      <name>${escapeXml(`${trip.name} trail`)}</name>
+      <ExtendedData><Data name="kind"><value>trail</value></Data></ExtendedData>
+      <LineString><coordinates>${trip.visited.map(v => `${v.lng},${v.lat},0`).join(' ')}</coordinates></LineString>
+    </Placemark>`);
+  }
+  trip.visited.forEach(v => parts.push(kmlPlacemark(v.name, v.lat, v.lng, 'visited', isoTime(v.visitedAt))));
+  placedPins(trip.pins).forEach(p => parts.push(kmlPlacemark(p.title, p.latitude, p.longitude, 'pin', undefined, p.uri)));
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(trip.name)}</name>
+${parts.join('\n')}
+  </Document>
+</kml>
+`;
+};
+
+export const toGPX = (trip: Trip): string => {
+  const waypoints = placedPins(trip.pins).map(p => `  <wpt lat="${p.latitude}" lon="${p.longitude}">
+    <name>${escapeXml(p.title)}</name>${p.uri ? `
+    <link href="${escapeXml(p.uri)}"><text>Source</text></link>` : ''}
+    <type>pin</type>
+  </wpt>`);
+  const trackPoints = trip.visited.map(v => `      <trkpt lat="${v.lat}" lon="${v.lng}">
+        <name>${escapeXml(v.name)}</name>${v.visitedAt ? `
+        <time>${isoTime(v.visitedAt)}</time>` : ''}
+      </trkpt>`);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="GeoSlop" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata><name>${escapeXml(trip.name)}</name></metadata>
+${waypoints.join('\n')}${trackPoints.length > 0 ? `
+  <trk>
+    <name>${escapeXml(`${trip.name} trail`)}</name>
+    <trkseg>
+${trackPoints.join('\n')}
+    </trkseg>
+  </trk>` : ''}
+</gpx>
+`;
+};
+
+export const serializeTrip = (trip: Trip, format: TripFormat): string => {
+  switch (format) {
+    case 'kml': return toKML(trip);
+    case 'gpx': return toGPX(trip);
+    case 'geojson':
+    default:
+      return toGeoJSON(trip);
+  }
+};
+
+// ---- Import ----
+
+const parseTime = (value?: string | null) => {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return isNaN(time) ? undefined : time;
+};
+
+const addPoint = (trip: Trip, kind: string | null | undefined, name: string, lat: number, lng: number, time?: number, uri?: string) => {
+  if (!isValidLatLng(lat, lng)) return;
+  if (kind === 'visited') {
+    trip.visited.push({ name, lat, lng, visitedAt: time });
+  } else {
+    trip.pins.push({ title: name, uri: uri || '', latitude: lat, longitude: lng });
+  }
+};
+
+const parseGeoJSON = (text: string): Trip => {
+  const data = JSON.parse(text);
+  const trip: Trip = { name: data.name || 'Imported trip', visited: [], pins: [] };
+  const features: any[] = data.type === 'FeatureCollection' ? data.features || [] : data.type === 'Feature' ? [data] : [];
+  features.forEach((f, idx) => {
+    const props = f.properties || {};
+    if (f.geometry?.type !== 'Point') return;
+    const [lng, lat] = f.geometry.coordinates || [];
+    addPoint(trip, props.kind, props.name || props.title || `Point ${idx + 1}`, lat, lng, parseTime(props.timestamp || props.time), props.sourceUri || props.uri);
+  });
+  return trip;
+};
+
+const childText = (el: Element, tag: string) => el.getElementsByTagName(tag)[0]?.textContent?.trim() || undefined;
+
+const parseKML = (doc: Document): Trip => {
+  const trip: Trip = { name: childText(doc.documentElement, 'name') || 'Imported trip', visited: [], pins: [] };
+  Array.from(doc.getElementsByTagName('Placemark')).forEach((pm, idx) => {
+    const point = pm.getElementsByTagName('Point')[0];
+    if (!point) return;
+    const [lng, lat] = (childText(point, 'coordinates') || '').split(',').map(parseFloat);
+    const data: Record<string, string> = {};
+    Array.from(pm.getElementsByTagName('Data')).forEach(d => {
+      const key = d.getAttribute('name');
+      if (key) data[key] = childText(d, 'value') || '';
+    });
+    addPoint(trip, data.kind, childText(pm, 'name') || `Point ${idx + 1}`, lat, lng, parseTime(childText(pm, 'when')), data.sourceUri);
+  });
+  return trip;
+};
+
+const parseGPX = (doc: Document): Trip => {
+  const metadata = doc.getElementsByTagName('metadata')[0];
+  const trip: Trip = { name: (metadata && childText(metadata, 'name')) || 'Imported trip', visited: [], pins: [] };
+  const read = (el: Element, idx: number, defaultKind: string) => {
+    const lat = parseFloat(el.getAttribute('lat') || '');
+    const lng = parseFloat(el.getAttribute('lon') || '');
+    const kind = childText(el, 'type') || defaultKind;
+    const uri = el.getElementsByTagName('link')[0]?.getAttribute('href') || undefined;
+    addPoint(trip, kind, childText(el, 'name') || `Point ${idx + 1}`, lat, lng, parseTime(childText(el, 'time')), uri);
+  };
+  Array.from(doc.getElementsByTagName('wpt')).forEach((el, idx) => read(el, idx, 'pin'));
+  Array.from(doc.getElementsByTagName('trkpt')).forEach((el, idx) => read(el, idx, 'visited'));
+  Array.from(doc.getElementsByTagName('rtept')).forEach((el, idx) => read(el, idx, 'visited'));
+  return trip;
+};
+
+export const detectTripFormat = (fileName: string, text: string): TripFormat | null => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'geojson' || ext === 'json') return 'geojson';
+  if (ext === 'kml') return 'kml';
+  if (ext === 'gpx') return 'gpx';
+  const head = text.trimStart().slice(0, 500);
+  if (head.startsWith('{')) return 'geojson';
+  if (head.includes('<kml')) return 'kml';
+  if (head.includes('<gpx')) return 'gpx';
+  return null;
+};
+
+export const parseTrip = (fileName: string, text: string): Trip => {
+  const format = detectTripFormat(fileName, text);
+  if (!format) throw new Error(`Unrecognised trip file: ${fileName}`);
+  if (format === 'geojson') return parseGeoJSON(text);
+
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error(`Could not parse ${fileName}`);
+  return format === 'kml' ? parseKML(doc) : parseGPX(doc);
+};
@@ -0,0 +1,64 @@
+
+// Mirrors the current view in the query string, e.g.
+// ?place=Petra&lat=30.3285&lng=35.4444&z=16&map=satellite
+
+import { isValidLatLng } from "./geo";
+
+export interface UrlViewState {
+  name: string;
+  lat: number;
+  lng: number;
+  zoom?: number;
+  // Id of the base layer from the map layer registry.
+  baseLayer?: string;
+}
+
+// Stored as window.history.state so popstate can find the matching navHistory entry.
+export interface HistoryEntryState {
+  navIndex: number;
+  view: UrlViewState;
+}
+
+const COORD_PRECISION = 5;
+
+export const readUrlState = (search: string = window.location.search): UrlViewState | null => {
+  const params = new URLSearchParams(search);
+  const lat = parseFloat(params.get('lat') || '');
+  const lng = parseFloat(params.get('lng') || '');
+  if (!isValidLatLng(lat, lng)) return null;
+
+  const zoom = parseFloat(params.get('z') || '');
+  const map = params.get('map');
+  return {
+    name: params.get('place') || `${lat.toFixed(3)}, ${lng.toFixed(3)}`,
+    lat,
+    lng,
+    zoom: !isNaN(zoom) && zoom >= 0 && zoom <= 22 ? zoom : undefined,
+    baseLayer: map && /^[\w-]+$/.test(map) ? map : undefined,
+  };
+};
+
+export const buildUrl = (view: UrlViewState): string => {
+  const params = new URLSearchParams();
+  params.set('place', view.name);
+  params.set('lat', view.lat.toFixed(COORD_PRECISION));
+  params.set('lng', view.lng.toFixed(COORD_PRECISION));
+  if (view.zoom !== undefined) params.set('z', String(Math.round(view.zoom)));
+  if (view.baseLayer) params.set('map', view.baseLayer);
+  return `${window.location.pathname}?${params.toString()}${window.location.hash}`;
+};
+
+export const pushView = (navIndex: number, view: UrlViewState) => {
+  const state: HistoryEntryState = { navIndex, view };
+  window.history.pushState(state, '', buildUrl(view));
+};
+
+export const replaceView = (navIndex: number, view: UrlViewState) => {
+  const state: HistoryEntryState = { navIndex, view };
+  window.history.replaceState(state, '', buildUrl(view));
+};
+
+export const currentHistoryEntry = (): HistoryEntryState | null => {
+  const state = window.history.state;
+  return state && typeof state.navIndex === 'number' && state.view ? state as HistoryEntryState : null;
+};
@@ -2,17 +2,25 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
+    // The key is only inlined for the direct "gemini" provider, which is for local use.
+    // The default proxy provider leaves it on the server (see server/index.ts), and the
+    // server build reads it from its own environment at runtime.
+    const inlineKey = env.GEOSLOP_PROVIDER?.trim().toLowerCase() === 'gemini';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.PROXY_PORT || 3001}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        ...(isSsrBuild ? {} : { 'process.env.API_KEY': JSON.stringify(inlineKey ? env.GEMINI_API_KEY : '') }),
+        'process.env.GEOSLOP_PROVIDER': JSON.stringify(env.GEOSLOP_PROVIDER),
+        'process.env.GEOSLOP_PROXY_URL': JSON.stringify(env.GEOSLOP_PROXY_URL)
       },
       resolve: {
         alias: {